@@ -13,8 +13,12 @@ import {
   ShieldCheck,
   Users
 } from 'lucide-react';
+import DoubleCountProducts from './DoubleCountProducts';
+import ExtractionQueue from './ExtractionQueue';
+import LabelRuleSets from './LabelRuleSets';
 import { useAuth } from '../hooks/useAuth';
 import { useEventWarehouse } from '../hooks/useEventWarehouse';
+import type { CountingMode, DuplicatePalletMode, PhotoRetentionPolicy } from '../contexts/EventWarehouseContext';
 import { supabase } from '../lib/supabase';
 
 type EventStatus = 'draft' | 'active' | 'paused' | 'completed' | 'archived';
@@ -47,10 +51,28 @@ interface VarianceItem {
 interface NewEventDraft {
   name: string;
   status: EventStatus;
+  countingMode: CountingMode;
+  duplicatePalletMode: DuplicatePalletMode;
+  doubleCountAll: boolean;
+  doubleCountTolerancePct: string;
+  photoRetentionPolicy: PhotoRetentionPolicy;
+  photoRetentionHours: string;
   startsAt: string;
   endsAt: string;
 }
 
+interface EventChanges {
+  status?: EventStatus;
+  counting_mode?: CountingMode;
+  duplicate_pallet_mode?: DuplicatePalletMode;
+  double_count_all?: boolean;
+  double_count_tolerance_pct?: number;
+  photo_retention_policy?: PhotoRetentionPolicy;
+  photo_retention_hours?: number;
+  photo_retain_open_recounts?: boolean;
+  photo_retain_until_reviewed?: boolean;
+}
+
 interface NewWarehouseDraft {
   code: string;
   name: string;
@@ -65,6 +87,26 @@ const DEFAULT_METRICS: AdminMetrics = {
 
 const EVENT_STATUSES: EventStatus[] = ['draft', 'active', 'paused', 'completed', 'archived'];
 
+const COUNTING_MODES: Array<{ value: CountingMode; label: string }> = [
+  { value: 'blind', label: 'Blind — hide expected quantities' },
+  { value: 'guided', label: 'Guided — show expected quantities' }
+];
+
+const DUPLICATE_PALLET_MODES: Array<{ value: DuplicatePalletMode; label: string }> = [
+  { value: 'reject', label: 'Reject — refuse a second count of a pallet' },
+  { value: 'flag', label: 'Flag — keep it and report it to managers' }
+];
+
+const PHOTO_RETENTION_POLICIES: Array<{ value: PhotoRetentionPolicy; label: string }> = [
+  { value: 'age', label: 'Archive after a set number of hours' },
+  { value: 'event_archived', label: 'Keep until the event is archived' }
+];
+
+function retentionHours(value: string | number | null | undefined): number {
+  const hours = Math.round(Number(value));
+  return Number.isFinite(hours) && hours > 0 ? hours : 24;
+}
+
 function formatDate(value?: string | null) {
   if (!value) return '—';
   try {
@@ -127,6 +169,12 @@ export default function AdminDashboard() {
   const [newEvent, setNewEvent] = useState<NewEventDraft>({
     name: '',
     status: 'draft',
+    countingMode: 'blind',
+    duplicatePalletMode: 'reject',
+    doubleCountAll: false,
+    doubleCountTolerancePct: '0',
+    photoRetentionPolicy: 'age',
+    photoRetentionHours: '24',
     startsAt: '',
     endsAt: ''
   });
@@ -272,6 +320,12 @@ export default function AdminDashboard() {
         const payload = {
           name: newEvent.name.trim(),
           status: newEvent.status,
+          counting_mode: newEvent.countingMode,
+          duplicate_pallet_mode: newEvent.duplicatePalletMode,
+          double_count_all: newEvent.doubleCountAll,
+          double_count_tolerance_pct: Number(newEvent.doubleCountTolerancePct) || 0,
+          photo_retention_policy: newEvent.photoRetentionPolicy,
+          photo_retention_hours: retentionHours(newEvent.photoRetentionHours),
           starts_at: newEvent.startsAt ? new Date(newEvent.startsAt).toISOString() : null,
           ends_at: newEvent.endsAt ? new Date(newEvent.endsAt).toISOString() : null
         };
@@ -279,7 +333,18 @@ export default function AdminDashboard() {
         const { error: insertError } = await supabase.from('stocktake_events').insert([payload]);
         if (insertError) throw insertError;
 
-        setNewEvent({ name: '', status: 'draft', startsAt: '', endsAt: '' });
+        setNewEvent({
+          name: '',
+          status: 'draft',
+          countingMode: 'blind',
+          duplicatePalletMode: 'reject',
+          doubleCountAll: false,
+          doubleCountTolerancePct: '0',
+          photoRetentionPolicy: 'age',
+          photoRetentionHours: '24',
+          startsAt: '',
+          endsAt: ''
+        });
         await refreshEvents();
         await loadDashboardData();
       } catch (caughtError) {
@@ -292,19 +357,19 @@ export default function AdminDashboard() {
     [loadDashboardData, newEvent, refreshEvents]
   );
 
-  const handleUpdateEventStatus = useCallback(
-    async (id: string, status: EventStatus) => {
+  const handleUpdateEvent = useCallback(
+    async (id: string, changes: EventChanges) => {
       try {
         setUpdatingEventId(id);
         const { error: updateError } = await supabase
           .from('stocktake_events')
-          .update({ status })
+          .update(changes)
           .eq('id', id);
         if (updateError) throw updateError;
         await refreshEvents();
         await loadDashboardData();
       } catch (caughtError) {
-        console.error('Failed to update event status', caughtError);
+        console.error('Failed to update event', caughtError);
         setError(getErrorMessage(caughtError));
       } finally {
         setUpdatingEventId(null);
@@ -662,6 +727,112 @@ export default function AdminDashboard() {
                 ))}
               </select>
             </div>
+            <div>
+              <label className="text-xs font-semibold uppercase tracking-wide text-gray-500" htmlFor="new-event-mode">
+                Counting mode
+              </label>
+              <select
+                id="new-event-mode"
+                value={newEvent.countingMode}
+                onChange={(event) =>
+                  setNewEvent((current) => ({ ...current, countingMode: event.target.value as CountingMode }))
+                }
+                className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200"
+              >
+                {COUNTING_MODES.map((mode) => (
+                  <option key={mode.value} value={mode.value}>
+                    {mode.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="text-xs font-semibold uppercase tracking-wide text-gray-500" htmlFor="new-event-pallets">
+                Repeat pallet counts
+              </label>
+              <select
+                id="new-event-pallets"
+                value={newEvent.duplicatePalletMode}
+                onChange={(event) =>
+                  setNewEvent((current) => ({ ...current, duplicatePalletMode: event.target.value as DuplicatePalletMode }))
+                }
+                className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200"
+              >
+                {DUPLICATE_PALLET_MODES.map((mode) => (
+                  <option key={mode.value} value={mode.value}>
+                    {mode.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <label className="flex items-center gap-2 text-sm text-gray-700" htmlFor="new-event-double-count">
+                <input
+                  id="new-event-double-count"
+                  type="checkbox"
+                  checked={newEvent.doubleCountAll}
+                  onChange={(event) => setNewEvent((current) => ({ ...current, doubleCountAll: event.target.checked }))}
+                  className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                Double-count every product
+              </label>
+              <div>
+                <label className="text-xs font-semibold uppercase tracking-wide text-gray-500" htmlFor="new-event-tolerance">
+                  Double-count tolerance (%)
+                </label>
+                <input
+                  id="new-event-tolerance"
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.5"
+                  value={newEvent.doubleCountTolerancePct}
+                  onChange={(event) =>
+                    setNewEvent((current) => ({ ...current, doubleCountTolerancePct: event.target.value }))
+                  }
+                  className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200"
+                />
+              </div>
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div>
+                <label className="text-xs font-semibold uppercase tracking-wide text-gray-500" htmlFor="new-event-retention">
+                  Photo retention
+                </label>
+                <select
+                  id="new-event-retention"
+                  value={newEvent.photoRetentionPolicy}
+                  onChange={(event) =>
+                    setNewEvent((current) => ({
+                      ...current,
+                      photoRetentionPolicy: event.target.value as PhotoRetentionPolicy
+                    }))
+                  }
+                  className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200"
+                >
+                  {PHOTO_RETENTION_POLICIES.map((policy) => (
+                    <option key={policy.value} value={policy.value}>
+                      {policy.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="text-xs font-semibold uppercase tracking-wide text-gray-500" htmlFor="new-event-retention-hours">
+                  Keep photos for (hours)
+                </label>
+                <input
+                  id="new-event-retention-hours"
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={newEvent.photoRetentionHours}
+                  onChange={(event) => setNewEvent((current) => ({ ...current, photoRetentionHours: event.target.value }))}
+                  disabled={newEvent.photoRetentionPolicy !== 'age'}
+                  className="mt-1 w-full rounded-lg border border-gray-200 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200 disabled:bg-gray-50"
+                />
+              </div>
+            </div>
             <button
               type="submit"
               className="inline-flex items-center gap-2 rounded-lg bg-emerald-600 px-4 py-2 text-sm font-medium text-white shadow-sm transition hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-emerald-400 focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-70"
@@ -720,6 +891,12 @@ export default function AdminDashboard() {
         </div>
       </section>
 
+      <DoubleCountProducts />
+
+      <ExtractionQueue />
+
+      <LabelRuleSets />
+
       <section className="rounded-xl border border-gray-100 bg-white p-6 shadow-sm">
         <div className="flex items-start justify-between gap-4">
           <div>
@@ -751,7 +928,7 @@ export default function AdminDashboard() {
                         className="rounded-lg border border-gray-200 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200"
                         value={(event.status as EventStatus | null) ?? 'draft'}
                         onChange={(changeEvent) =>
-                          void handleUpdateEventStatus(event.id, changeEvent.target.value as EventStatus)
+                          void handleUpdateEvent(event.id, { status: changeEvent.target.value as EventStatus })
                         }
                         disabled={updatingEventId === event.id}
                       >
@@ -762,6 +939,136 @@ export default function AdminDashboard() {
                         ))}
                       </select>
                     </div>
+                    <div className="flex items-center gap-2">
+                      <label className="text-xs font-semibold uppercase tracking-wide text-gray-500">Mode</label>
+                      <select
+                        className="rounded-lg border border-gray-200 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200"
+                        value={event.counting_mode ?? 'blind'}
+                        onChange={(changeEvent) =>
+                          void handleUpdateEvent(event.id, { counting_mode: changeEvent.target.value as CountingMode })
+                        }
+                        disabled={updatingEventId === event.id}
+                      >
+                        {COUNTING_MODES.map((mode) => (
+                          <option key={mode.value} value={mode.value}>
+                            {mode.value === 'blind' ? 'Blind' : 'Guided'}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <label className="text-xs font-semibold uppercase tracking-wide text-gray-500">Pallets</label>
+                      <select
+                        className="rounded-lg border border-gray-200 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200"
+                        value={event.duplicate_pallet_mode ?? 'reject'}
+                        onChange={(changeEvent) =>
+                          void handleUpdateEvent(event.id, {
+                            duplicate_pallet_mode: changeEvent.target.value as DuplicatePalletMode
+                          })
+                        }
+                        disabled={updatingEventId === event.id}
+                      >
+                        {DUPLICATE_PALLET_MODES.map((mode) => (
+                          <option key={mode.value} value={mode.value}>
+                            {mode.value === 'reject' ? 'Reject repeats' : 'Flag repeats'}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <label className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-gray-500">
+                        <input
+                          type="checkbox"
+                          checked={Boolean(event.double_count_all)}
+                          onChange={(changeEvent) =>
+                            void handleUpdateEvent(event.id, { double_count_all: changeEvent.target.checked })
+                          }
+                          disabled={updatingEventId === event.id}
+                          className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        />
+                        Double count
+                      </label>
+                      <input
+                        type="number"
+                        min="0"
+                        max="100"
+                        step="0.5"
+                        defaultValue={event.double_count_tolerance_pct ?? 0}
+                        onBlur={(blurEvent) => {
+                          const tolerance = Number(blurEvent.target.value) || 0;
+                          if (tolerance !== (event.double_count_tolerance_pct ?? 0)) {
+                            void handleUpdateEvent(event.id, { double_count_tolerance_pct: tolerance });
+                          }
+                        }}
+                        disabled={updatingEventId === event.id}
+                        title="Tolerance between first and second counts (%)"
+                        className="w-20 rounded-lg border border-gray-200 px-2 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200"
+                      />
+                      <span className="text-xs text-gray-500">% tolerance</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <label className="text-xs font-semibold uppercase tracking-wide text-gray-500">Photos</label>
+                      <select
+                        className="rounded-lg border border-gray-200 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200"
+                        value={event.photo_retention_policy ?? 'age'}
+                        onChange={(changeEvent) =>
+                          void handleUpdateEvent(event.id, {
+                            photo_retention_policy: changeEvent.target.value as PhotoRetentionPolicy
+                          })
+                        }
+                        disabled={updatingEventId === event.id}
+                      >
+                        {PHOTO_RETENTION_POLICIES.map((policy) => (
+                          <option key={policy.value} value={policy.value}>
+                            {policy.value === 'age' ? 'Archive by age' : 'Until event archived'}
+                          </option>
+                        ))}
+                      </select>
+                      {(event.photo_retention_policy ?? 'age') === 'age' && (
+                        <>
+                          <input
+                            type="number"
+                            min="1"
+                            step="1"
+                            defaultValue={event.photo_retention_hours ?? 24}
+                            onBlur={(blurEvent) => {
+                              const hours = retentionHours(blurEvent.target.value);
+                              if (hours !== (event.photo_retention_hours ?? 24)) {
+                                void handleUpdateEvent(event.id, { photo_retention_hours: hours });
+                              }
+                            }}
+                            disabled={updatingEventId === event.id}
+                            title="Hours a count photo is kept before it is archived"
+                            className="w-20 rounded-lg border border-gray-200 px-2 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200"
+                          />
+                          <span className="text-xs text-gray-500">hours</span>
+                        </>
+                      )}
+                    </div>
+                    <label className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-gray-500">
+                      <input
+                        type="checkbox"
+                        checked={event.photo_retain_open_recounts !== false}
+                        onChange={(changeEvent) =>
+                          void handleUpdateEvent(event.id, { photo_retain_open_recounts: changeEvent.target.checked })
+                        }
+                        disabled={updatingEventId === event.id}
+                        className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      Keep photos during recounts
+                    </label>
+                    <label className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-gray-500">
+                      <input
+                        type="checkbox"
+                        checked={Boolean(event.photo_retain_until_reviewed)}
+                        onChange={(changeEvent) =>
+                          void handleUpdateEvent(event.id, { photo_retain_until_reviewed: changeEvent.target.checked })
+                        }
+                        disabled={updatingEventId === event.id}
+                        className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      Keep photos until reviewed
+                    </label>
                     <button
                       type="button"
                       onClick={() => setEventId(event.id)}
@@ -778,7 +1085,7 @@ export default function AdminDashboard() {
                 </div>
                 {updatingEventId === event.id && (
                   <div className="mt-3 flex items-center gap-2 text-xs text-blue-500">
-                    <Loader2 className="w-3 h-3 animate-spin" /> Updating status...
+                    <Loader2 className="w-3 h-3 animate-spin" /> Updating event...
                   </div>
                 )}
               </div>
@@ -0,0 +1,125 @@
+import { useEffect, useRef, useState } from 'react';
+import { AlertCircle, Loader2, ScanLine, X } from 'lucide-react';
+import { scanBarcode } from '../lib/barcodeScanner';
+import type { BarcodeScan } from './photoCaptureTypes';
+
+interface BarcodeScannerProps {
+  onDetected: (scan: BarcodeScan) => void;
+  onClose: () => void;
+  title?: string;
+  hint?: string;
+  scan?: (video: HTMLVideoElement) => Promise<BarcodeScan | null>;
+}
+
+const scanProductBarcode = (video: HTMLVideoElement) => scanBarcode(video, 'camera');
+
+const SCAN_INTERVAL_MS = 300;
+
+export default function BarcodeScanner({
+  onDetected,
+  onClose,
+  title = 'Scan barcode',
+  hint = 'Hold the case label inside the frame. ITF-14, EAN-13 and GS1-128 barcodes are read automatically.',
+  scan = scanProductBarcode
+}: BarcodeScannerProps) {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const onDetectedRef = useRef(onDetected);
+  onDetectedRef.current = onDetected;
+  const scanRef = useRef(scan);
+  scanRef.current = scan;
+  const [starting, setStarting] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let timer: number | undefined;
+    let cancelled = false;
+
+    async function scanFrame() {
+      const video = videoRef.current;
+      if (cancelled || !video) return;
+      try {
+        if (video.readyState >= video.HAVE_CURRENT_DATA) {
+          const detected = await scanRef.current(video);
+          if (detected && !cancelled) {
+            onDetectedRef.current(detected);
+            return;
+          }
+        }
+      } catch (scanError) {
+        console.warn('Live barcode scan failed', scanError);
+      }
+      if (!cancelled) {
+        timer = window.setTimeout(scanFrame, SCAN_INTERVAL_MS);
+      }
+    }
+
+    async function start() {
+      try {
+        if (!navigator.mediaDevices?.getUserMedia) {
+          throw new Error('This device does not expose a camera to the browser.');
+        }
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: { ideal: 'environment' } },
+          audio: false
+        });
+        if (cancelled || !videoRef.current) return;
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+        setStarting(false);
+        void scanFrame();
+      } catch (startError) {
+        console.error('Unable to start barcode scanner', startError);
+        setStarting(false);
+        setError(startError instanceof Error ? startError.message : 'Unable to access the camera.');
+      }
+    }
+
+    void start();
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, []);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 p-4">
+      <div className="w-full max-w-lg space-y-4 rounded-xl bg-white p-4 shadow-xl">
+        <div className="flex items-center justify-between">
+          <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+            <ScanLine className="h-5 w-5 text-blue-600" /> {title}
+          </h3>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-lg p-2 text-gray-500 transition hover:bg-gray-100"
+            aria-label="Close scanner"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {error ? (
+          <div className="flex items-center gap-2 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+            <AlertCircle className="h-5 w-5" />
+            {error}
+          </div>
+        ) : (
+          <div className="relative overflow-hidden rounded-lg bg-black">
+            <video ref={videoRef} muted playsInline className="h-72 w-full object-cover" />
+            <div className="pointer-events-none absolute inset-x-8 top-1/2 h-24 -translate-y-1/2 rounded-lg border-2 border-white/80" />
+            {starting && (
+              <div className="absolute inset-0 flex items-center justify-center text-white">
+                <Loader2 className="h-8 w-8 animate-spin" />
+              </div>
+            )}
+          </div>
+        )}
+
+        <p className="text-sm text-gray-600">{hint}</p>
+      </div>
+    </div>
+  );
+}
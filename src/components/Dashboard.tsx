@@ -5,10 +5,14 @@ import {
   Download,
   FileSpreadsheet,
   FileText,
+  HelpCircle,
+  History,
   LogOut,
+  MapPin,
   Menu,
   Moon,
   Package,
+  ScanText,
   Settings,
   Sun,
   Upload,
@@ -23,19 +27,28 @@ import UserManagement from './UserManagement';
 import SyncQueue from './SyncQueue';
 import BulkUpload from './BulkUpload';
 import PalletConfiguration from './PalletConfiguration';
+import WarehouseLocations from './WarehouseLocations';
 import Recounts from './Recounts';
+import MyCounts from './MyCounts';
 import ExportCounts from './ExportCounts';
+import UnresolvedCounts from './UnresolvedCounts';
+import ExtractionReview from './ExtractionReview';
 import AdminDashboard from './AdminDashboard';
 import { useTheme } from '../hooks/useTheme';
+import { useCountQueueSync } from '../hooks/useCountQueueSync';
 
 type Page =
   | 'stocktake'
+  | 'mycounts'
   | 'recounts'
   | 'variance'
+  | 'unresolved'
+  | 'extraction'
   | 'users'
   | 'sync'
   | 'bulk'
   | 'pallet'
+  | 'locations'
   | 'export'
   | 'admin';
 
@@ -44,6 +57,7 @@ type RoleView = 'stocktaker' | 'manager' | 'admin';
 export default function Dashboard() {
   const { profile, signOut } = useAuth();
   const { isDarkMode, toggleTheme } = useTheme();
+  useCountQueueSync({ background: true });
   const [currentPage, setCurrentPage] = useState<Page>('stocktake');
   const [menuOpen, setMenuOpen] = useState(false);
   const [adminView, setAdminView] = useState<RoleView>('admin');
@@ -96,13 +110,17 @@ export default function Dashboard() {
 
     switch (page) {
       case 'stocktake':
+      case 'mycounts':
+      case 'sync':
         return true;
       case 'recounts':
-      case 'sync':
         return role !== 'stocktaker';
       case 'bulk':
       case 'variance':
+      case 'unresolved':
+      case 'extraction':
       case 'pallet':
+      case 'locations':
       case 'export':
         return ['manager', 'admin'].includes(role);
       case 'users':
@@ -122,14 +140,22 @@ export default function Dashboard() {
     switch (currentPage) {
       case 'stocktake':
         return <StocktakeEntry />;
+      case 'mycounts':
+        return <MyCounts />;
       case 'recounts':
         return <Recounts />;
       case 'bulk':
         return <BulkUpload />;
       case 'pallet':
         return <PalletConfiguration />;
+      case 'locations':
+        return <WarehouseLocations />;
       case 'variance':
         return <VarianceReports />;
+      case 'unresolved':
+        return <UnresolvedCounts />;
+      case 'extraction':
+        return <ExtractionReview />;
       case 'users':
         return <UserManagement />;
       case 'sync':
@@ -240,6 +266,7 @@ export default function Dashboard() {
 
             <div className="hidden md:flex items-center gap-6">
               <NavButton page="stocktake" label="Stocktake" icon={<Camera className="w-4 h-4" />} />
+              <NavButton page="mycounts" label="My Counts" icon={<History className="w-4 h-4" />} />
               {canAccessPage('recounts', activeRole) && (
                 <NavButton page="recounts" label="Recounts" icon={<ClipboardList className="w-4 h-4" />} />
               )}
@@ -255,10 +282,22 @@ export default function Dashboard() {
                 <NavButton page="pallet" label="Pallet Config" icon={<Package className="w-4 h-4" />} />
               )}
 
+              {canAccessPage('locations', activeRole) && (
+                <NavButton page="locations" label="Locations" icon={<MapPin className="w-4 h-4" />} />
+              )}
+
               {canAccessPage('variance', activeRole) && (
                 <NavButton page="variance" label="Variance" icon={<FileText className="w-4 h-4" />} />
               )}
 
+              {canAccessPage('unresolved', activeRole) && (
+                <NavButton page="unresolved" label="Unresolved" icon={<HelpCircle className="w-4 h-4" />} />
+              )}
+
+              {canAccessPage('extraction', activeRole) && (
+                <NavButton page="extraction" label="Photo review" icon={<ScanText className="w-4 h-4" />} />
+              )}
+
               {canAccessPage('users', activeRole) && (
                 <NavButton page="users" label="Users" icon={<Users className="w-4 h-4" />} />
               )}
@@ -398,6 +437,7 @@ export default function Dashboard() {
                 </div>
               )}
               <MobileNavButton page="stocktake" label="Stocktake" icon={<Camera className="w-5 h-5" />} />
+              <MobileNavButton page="mycounts" label="My Counts" icon={<History className="w-5 h-5" />} />
               {canAccessPage('recounts', activeRole) && (
                 <MobileNavButton page="recounts" label="Recounts" icon={<ClipboardList className="w-5 h-5" />} />
               )}
@@ -413,10 +453,22 @@ export default function Dashboard() {
                 <MobileNavButton page="pallet" label="Pallet Config" icon={<Package className="w-5 h-5" />} />
               )}
 
+              {canAccessPage('locations', activeRole) && (
+                <MobileNavButton page="locations" label="Locations" icon={<MapPin className="w-5 h-5" />} />
+              )}
+
               {canAccessPage('variance', activeRole) && (
                 <MobileNavButton page="variance" label="Variance" icon={<FileText className="w-5 h-5" />} />
               )}
 
+              {canAccessPage('unresolved', activeRole) && (
+                <MobileNavButton page="unresolved" label="Unresolved" icon={<HelpCircle className="w-5 h-5" />} />
+              )}
+
+              {canAccessPage('extraction', activeRole) && (
+                <MobileNavButton page="extraction" label="Photo review" icon={<ScanText className="w-5 h-5" />} />
+              )}
+
               {canAccessPage('users', activeRole) && (
                 <MobileNavButton page="users" label="Users" icon={<Users className="w-5 h-5" />} />
               )}
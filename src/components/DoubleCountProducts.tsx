@@ -0,0 +1,138 @@
+import { FormEvent, useCallback, useEffect, useState } from 'react';
+import { Copy, Loader2, Plus, X } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+
+interface FlaggedProduct {
+  id: string;
+  stock_code: string | null;
+  product_name: string | null;
+}
+
+export default function DoubleCountProducts() {
+  const [products, setProducts] = useState<FlaggedProduct[]>([]);
+  const [stockCode, setStockCode] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadProducts = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error: loadError } = await supabase
+        .from('products')
+        .select('id, stock_code, product_name')
+        .eq('requires_double_count', true)
+        .order('stock_code', { ascending: true });
+
+      if (loadError) throw loadError;
+      setProducts((data ?? []) as FlaggedProduct[]);
+    } catch (caughtError) {
+      console.error('Failed to load double-count products', caughtError);
+      setError(caughtError instanceof Error ? caughtError.message : 'Failed to load products');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadProducts();
+  }, [loadProducts]);
+
+  async function setFlag(filter: { column: 'id' | 'stock_code'; value: string }, requiresDoubleCount: boolean) {
+    setSaving(true);
+    setError('');
+    try {
+      const { data, error: updateError } = await supabase
+        .from('products')
+        .update({ requires_double_count: requiresDoubleCount })
+        .eq(filter.column, filter.value)
+        .select('id');
+
+      if (updateError) throw updateError;
+      if (!data || data.length === 0) {
+        throw new Error(`No product found with stock code ${filter.value}`);
+      }
+      await loadProducts();
+      return true;
+    } catch (caughtError) {
+      console.error('Failed to update double-count flag', caughtError);
+      setError(caughtError instanceof Error ? caughtError.message : 'Failed to update product');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleAdd(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const code = stockCode.trim();
+    if (!code) return;
+    if (await setFlag({ column: 'stock_code', value: code }, true)) {
+      setStockCode('');
+    }
+  }
+
+  return (
+    <div className="rounded-xl border border-gray-100 bg-white p-6 shadow-sm">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800">Double-count products</h3>
+          <p className="text-sm text-gray-500">
+            High-value stock codes are counted independently by two stock takers in every event.
+          </p>
+        </div>
+        <Copy className="w-5 h-5 text-blue-500" />
+      </div>
+
+      <form className="mt-4 flex gap-2" onSubmit={handleAdd}>
+        <input
+          type="text"
+          value={stockCode}
+          onChange={(event) => setStockCode(event.target.value)}
+          className="flex-1 rounded-lg border border-gray-200 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200"
+          placeholder="Stock code"
+        />
+        <button
+          type="submit"
+          disabled={saving || !stockCode.trim()}
+          className="inline-flex items-center gap-2 rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm transition hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-70"
+        >
+          {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+          Add
+        </button>
+      </form>
+
+      {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+
+      <div className="mt-4">
+        {loading ? (
+          <div className="flex items-center gap-2 text-sm text-gray-500">
+            <Loader2 className="w-4 h-4 animate-spin" /> Loading products...
+          </div>
+        ) : products.length === 0 ? (
+          <p className="text-sm text-gray-500">No products require a double count yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {products.map((product) => (
+              <li key={product.id} className="flex items-center justify-between py-2 text-sm">
+                <span>
+                  <span className="font-medium text-gray-800">{product.stock_code}</span>
+                  {product.product_name && <span className="text-gray-500"> · {product.product_name}</span>}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => void setFlag({ column: 'id', value: product.id }, false)}
+                  disabled={saving}
+                  className="text-gray-400 transition hover:text-red-600"
+                  title="Stop double counting"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Loader2, RefreshCcw, ScanText } from 'lucide-react';
+import { useEventWarehouse } from '../hooks/useEventWarehouse';
+import { supabase } from '../lib/supabase';
+import { describePhotoQuality, type PhotoQuality } from '../../supabase/functions/_shared/countContract.ts';
+
+interface QueuedExtraction {
+  id: string;
+  warehouse_code: string;
+  stock_code: string;
+  location_code: string | null;
+  status: 'retry' | 'dead_letter';
+  extraction_attempts: number;
+  extraction_next_attempt_at: string;
+  extraction_last_error: string | null;
+  photo_quality: PhotoQuality | null;
+  created_at: string;
+}
+
+export default function ExtractionQueue() {
+  const { eventId, selectedEvent } = useEventWarehouse();
+  const [counts, setCounts] = useState<QueuedExtraction[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(false);
+  const [requeueing, setRequeueing] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const loadQueue = useCallback(async () => {
+    if (!eventId) {
+      setCounts([]);
+      return;
+    }
+    setLoading(true);
+    try {
+      const { data, error: loadError } = await supabase.rpc('list_extraction_queue', { p_event_id: eventId });
+      if (loadError) throw loadError;
+      setCounts((data ?? []) as QueuedExtraction[]);
+      setSelected(new Set());
+    } catch (caughtError) {
+      console.error('Failed to load extraction queue', caughtError);
+      setError(caughtError instanceof Error ? caughtError.message : 'Failed to load extraction queue');
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  function toggle(id: string) {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }
+
+  async function handleRequeue() {
+    setRequeueing(true);
+    setError('');
+    setMessage('');
+    try {
+      const { data, error: requeueError } = await supabase.rpc('requeue_extractions', {
+        p_count_ids: Array.from(selected)
+      });
+      if (requeueError) throw requeueError;
+      setMessage(`Re-queued ${data ?? 0} count(s) for extraction.`);
+      await loadQueue();
+    } catch (caughtError) {
+      console.error('Failed to re-queue extractions', caughtError);
+      setError(caughtError instanceof Error ? caughtError.message : 'Failed to re-queue extractions');
+    } finally {
+      setRequeueing(false);
+    }
+  }
+
+  const deadLetterCount = counts.filter((count) => count.status === 'dead_letter').length;
+
+  return (
+    <div className="rounded-xl border border-gray-100 bg-white p-6 shadow-sm">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800">Extraction queue</h3>
+          <p className="text-sm text-gray-500">
+            Photos in {selectedEvent?.name ?? 'the current event'} that failed OCR: {deadLetterCount} gave up after every
+            attempt, {counts.length - deadLetterCount} waiting to retry.
+          </p>
+        </div>
+        <ScanText className="w-5 h-5 text-blue-500" />
+      </div>
+
+      <div className="mt-4 flex gap-2">
+        <button
+          type="button"
+          onClick={() => void handleRequeue()}
+          disabled={requeueing || selected.size === 0}
+          className="inline-flex items-center gap-2 rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm transition hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-70"
+        >
+          {requeueing ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCcw className="w-4 h-4" />}
+          Re-queue selected
+        </button>
+        <button
+          type="button"
+          onClick={() => setSelected(new Set(counts.map((count) => count.id)))}
+          disabled={counts.length === 0}
+          className="rounded-lg border border-gray-200 px-4 py-2 text-sm text-gray-700 transition hover:bg-gray-50 disabled:opacity-60"
+        >
+          Select all
+        </button>
+      </div>
+
+      {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+      {message && <p className="mt-3 text-sm text-green-700">{message}</p>}
+
+      <div className="mt-4">
+        {loading ? (
+          <div className="flex items-center gap-2 text-sm text-gray-500">
+            <Loader2 className="w-4 h-4 animate-spin" /> Loading extraction queue...
+          </div>
+        ) : counts.length === 0 ? (
+          <p className="text-sm text-gray-500">No failed extractions for this event.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {counts.map((count) => (
+              <li key={count.id} className="flex items-start gap-3 py-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={selected.has(count.id)}
+                  onChange={() => toggle(count.id)}
+                  className="mt-1 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <div className="flex-1">
+                  <p>
+                    <span className="font-medium text-gray-800">{count.stock_code}</span>
+                    <span className="text-gray-500">
+                      {' '}
+                      · {[count.warehouse_code, count.location_code].filter(Boolean).join(' ')} ·{' '}
+                      {new Date(count.created_at).toLocaleString()}
+                    </span>
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {count.status === 'dead_letter'
+                      ? `Gave up after ${count.extraction_attempts} attempts`
+                      : `Attempt ${count.extraction_attempts} failed, retrying ${new Date(
+                          count.extraction_next_attempt_at
+                        ).toLocaleString()}`}
+                    {count.extraction_last_error ? ` — ${count.extraction_last_error}` : ''}
+                  </p>
+                  {count.photo_quality && count.photo_quality.verdict !== 'good' && (
+                    <p className="text-xs text-amber-700">Photo quality: {describePhotoQuality(count.photo_quality)}</p>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
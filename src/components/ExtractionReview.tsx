@@ -0,0 +1,343 @@
+import { useMemo, useState } from 'react';
+import { AlertCircle, AlertTriangle, Check, CheckCircle, ImageOff, Loader2, Pencil, RefreshCcw, ScanText, X } from 'lucide-react';
+import { useEventWarehouse } from '../hooks/useEventWarehouse';
+import { useExtractedCounts, useReviewExtraction, type ExtractedCount } from '../hooks/useExtractionReview';
+import {
+  describePhotoQuality,
+  EXTRACTION_REVIEW_FIELDS,
+  type ExtractionReviewField
+} from '../../supabase/functions/_shared/countContract.ts';
+
+const FIELD_LABELS: Record<ExtractionReviewField, string> = {
+  extracted_barcode: 'Barcode',
+  extracted_lot_number: 'Lot',
+  extracted_filling_date: 'Filling date',
+  extracted_product_name: 'Product name',
+  extracted_pack_size: 'Pack size'
+};
+
+// What the counter declared for each field, to set beside what was read from the photo
+function declaredValue(count: ExtractedCount, field: ExtractionReviewField): string | null {
+  switch (field) {
+    case 'extracted_barcode':
+      return [count.product_case_barcode, count.product_unit_barcode].filter(Boolean).join(' / ') || null;
+    case 'extracted_lot_number':
+      return count.lot_number;
+    case 'extracted_filling_date':
+      return count.filling_date;
+    case 'extracted_product_name':
+      return count.product_description;
+    default:
+      return null;
+  }
+}
+
+export default function ExtractionReview() {
+  const { eventId, warehouseCode, selectedEvent, selectedWarehouse } = useEventWarehouse();
+  const [includeReviewed, setIncludeReviewed] = useState(false);
+  const [mismatchesOnly, setMismatchesOnly] = useState(false);
+  const countsQuery = useExtractedCounts(eventId, warehouseCode, includeReviewed);
+  const reviewExtraction = useReviewExtraction();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const allCounts = useMemo(() => countsQuery.data ?? [], [countsQuery.data]);
+  const counts = useMemo(
+    () => (mismatchesOnly ? allCounts.filter((count) => count.mismatches.length > 0) : allCounts),
+    [allCounts, mismatchesOnly]
+  );
+  const mismatchCount = allCounts.filter((count) => count.mismatches.length > 0).length;
+
+  async function handleReview(count: ExtractedCount, corrections?: Partial<Record<ExtractionReviewField, string | null>>) {
+    setActionError('');
+    setMessage('');
+    try {
+      const result = await reviewExtraction.mutateAsync({ count_id: count.id, corrections });
+      setMessage(
+        `${result.review_status === 'corrected' ? 'Corrected' : 'Accepted'} the photo reading for ${count.stock_code}.`
+      );
+      setEditingId(null);
+      await countsQuery.refetch();
+    } catch (error) {
+      console.error('Failed to review extraction', error);
+      setActionError(error instanceof Error ? error.message : 'Failed to review extraction.');
+    }
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      <div className="bg-white rounded-xl shadow-lg p-6 space-y-4">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div>
+            <h2 className="flex items-center gap-2 text-2xl font-bold text-gray-900">
+              <ScanText className="h-6 w-6 text-purple-600" /> Photo review
+            </h2>
+            <p className="text-sm text-gray-600">
+              What was read from the photos in <strong>{selectedEvent?.name ?? '…'}</strong>
+              {selectedWarehouse ? (
+                <>
+                  {' '}
+                  for <strong>{selectedWarehouse.name}</strong>
+                </>
+              ) : null}
+              , next to the product and lot that were counted. {mismatchCount} of {allCounts.length} disagree.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => countsQuery.refetch()}
+            className="inline-flex items-center gap-2 rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-700 transition hover:bg-gray-50"
+          >
+            <RefreshCcw className="h-4 w-4" /> Refresh
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-4 text-sm text-gray-700">
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={mismatchesOnly} onChange={(event) => setMismatchesOnly(event.target.checked)} />
+            Only show mismatches
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={includeReviewed}
+              onChange={(event) => setIncludeReviewed(event.target.checked)}
+            />
+            Include reviewed counts
+          </label>
+        </div>
+
+        {(countsQuery.error || actionError) && (
+          <div className="flex items-center gap-2 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+            <AlertCircle className="h-4 w-4" /> {actionError || countsQuery.error?.message}
+          </div>
+        )}
+        {message && (
+          <div className="flex items-center gap-2 rounded-lg border border-green-200 bg-green-50 px-4 py-3 text-sm text-green-700">
+            <CheckCircle className="h-4 w-4" /> {message}
+          </div>
+        )}
+      </div>
+
+      {!eventId ? (
+        <div className="bg-white rounded-xl shadow-lg p-8 text-center text-gray-600">
+          Select an event to review photo readings.
+        </div>
+      ) : countsQuery.isLoading ? (
+        <div className="bg-white rounded-xl shadow-lg p-8 text-center">
+          <Loader2 className="mx-auto h-10 w-10 animate-spin text-purple-600" />
+          <p className="mt-3 text-gray-600">Loading photo readings...</p>
+        </div>
+      ) : counts.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-lg p-8 text-center space-y-3">
+          <CheckCircle className="mx-auto h-10 w-10 text-green-500" />
+          <h3 className="text-lg font-semibold text-gray-800">Nothing to review</h3>
+          <p className="text-gray-600 text-sm">
+            {mismatchesOnly ? 'No photo readings disagree with their count.' : 'Every photo reading has been reviewed.'}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {counts.map((count) => (
+            <ExtractedCountCard
+              key={count.id}
+              count={count}
+              editing={editingId === count.id}
+              busy={reviewExtraction.isPending}
+              onEdit={() => setEditingId(count.id)}
+              onCancel={() => setEditingId(null)}
+              onReview={(corrections) => handleReview(count, corrections)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ExtractedCountCard({
+  count,
+  editing,
+  busy,
+  onEdit,
+  onCancel,
+  onReview
+}: {
+  count: ExtractedCount;
+  editing: boolean;
+  busy: boolean;
+  onEdit: () => void;
+  onCancel: () => void;
+  onReview: (corrections?: Partial<Record<ExtractionReviewField, string | null>>) => void;
+}) {
+  const mismatches = new Set(count.mismatches);
+  const regions = Object.entries(count.ocr_regions);
+
+  return (
+    <div
+      className={`bg-white rounded-xl shadow p-4 space-y-3 ${mismatches.size > 0 ? 'border-l-4 border-amber-400' : ''}`}
+    >
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-start">
+        {count.photo_url ? (
+          <a href={count.photo_url} target="_blank" rel="noreferrer" className="shrink-0">
+            <img src={count.photo_url} alt={count.stock_code} className="w-32 h-32 object-cover rounded-lg" />
+          </a>
+        ) : (
+          <div className="flex w-32 h-32 shrink-0 items-center justify-center rounded-lg bg-gray-100 text-gray-400">
+            <ImageOff className="h-6 w-6" />
+          </div>
+        )}
+        <div className="flex-1 space-y-2 text-sm text-gray-600">
+          <div>
+            <h3 className="font-semibold text-gray-800">
+              <span className="font-mono">{count.stock_code}</span>
+              {count.product_description ? ` · ${count.product_description}` : ''}
+            </h3>
+            <p>
+              {count.warehouse_code}
+              {count.location_code ? ` · Location ${count.location_code}` : ''}
+              {count.lot_number ? ` · Lot ${count.lot_number}` : ''}
+            </p>
+            <p className="text-xs text-gray-500">
+              Counted by {count.counted_by_name ?? 'unknown user'} on {new Date(count.created_at).toLocaleString()}
+              {count.extraction_review_status !== 'unreviewed' && count.extraction_reviewed_at
+                ? ` · ${count.extraction_review_status === 'corrected' ? 'Corrected' : 'Accepted'} by ${
+                    count.extraction_reviewed_by_name ?? 'unknown user'
+                  } on ${new Date(count.extraction_reviewed_at).toLocaleString()}`
+                : ''}
+            </p>
+            {count.photo_quality && (
+              <p className={`text-xs ${count.photo_quality.verdict === 'good' ? 'text-gray-500' : 'text-amber-700'}`}>
+                Photo quality: {describePhotoQuality(count.photo_quality)}
+              </p>
+            )}
+          </div>
+
+          {editing ? (
+            <CorrectionForm count={count} busy={busy} onSave={onReview} onCancel={onCancel} />
+          ) : (
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left uppercase tracking-wide text-gray-500">
+                  <th className="py-1 pr-2 font-semibold">Field</th>
+                  <th className="py-1 pr-2 font-semibold">Counted</th>
+                  <th className="py-1 font-semibold">Read from photo</th>
+                </tr>
+              </thead>
+              <tbody>
+                {EXTRACTION_REVIEW_FIELDS.map((field) => (
+                  <tr key={field} className={mismatches.has(field) ? 'bg-amber-50 text-amber-900' : ''}>
+                    <td className="py-1 pr-2 font-medium">
+                      {mismatches.has(field) && <AlertTriangle className="mr-1 inline h-3 w-3 text-amber-600" />}
+                      {FIELD_LABELS[field]}
+                    </td>
+                    <td className="py-1 pr-2 font-mono">{declaredValue(count, field) ?? '—'}</td>
+                    <td className="py-1 font-mono">{count[field] ?? '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <details className="rounded-lg bg-gray-50 px-3 py-2 text-xs">
+            <summary className="cursor-pointer font-semibold uppercase tracking-wide text-gray-500">OCR text</summary>
+            <pre className="mt-2 whitespace-pre-wrap font-mono text-gray-700">{count.ocr_text || 'No text was read.'}</pre>
+            {regions.map(([region, text]) => (
+              <div key={region} className="mt-2">
+                <p className="font-semibold text-gray-500">Region: {region}</p>
+                <pre className="whitespace-pre-wrap font-mono text-gray-700">{text || 'No text was read.'}</pre>
+              </div>
+            ))}
+          </details>
+        </div>
+        {!editing && (
+          <div className="flex gap-2 sm:flex-col">
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => onReview()}
+              className="inline-flex items-center gap-1 rounded-lg bg-green-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-green-700 disabled:opacity-60"
+            >
+              <Check className="h-4 w-4" /> Accept
+            </button>
+            <button
+              type="button"
+              onClick={onEdit}
+              className="inline-flex items-center gap-1 rounded-lg border border-gray-300 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50"
+            >
+              <Pencil className="h-4 w-4" /> Correct
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function CorrectionForm({
+  count,
+  busy,
+  onSave,
+  onCancel
+}: {
+  count: ExtractedCount;
+  busy: boolean;
+  onSave: (corrections: Partial<Record<ExtractionReviewField, string | null>>) => void;
+  onCancel: () => void;
+}) {
+  const [values, setValues] = useState<Record<ExtractionReviewField, string>>(() => {
+    const initial = {} as Record<ExtractionReviewField, string>;
+    for (const field of EXTRACTION_REVIEW_FIELDS) {
+      initial[field] = count[field] ?? '';
+    }
+    return initial;
+  });
+
+  function handleSave() {
+    const corrections: Partial<Record<ExtractionReviewField, string | null>> = {};
+    for (const field of EXTRACTION_REVIEW_FIELDS) {
+      const value = values[field].trim();
+      if (value !== (count[field] ?? '')) {
+        corrections[field] = value || null;
+      }
+    }
+    onSave(corrections);
+  }
+
+  return (
+    <div className="space-y-3 rounded-lg border border-blue-100 bg-blue-50/40 p-3">
+      <div className="grid gap-2 sm:grid-cols-2">
+        {EXTRACTION_REVIEW_FIELDS.map((field) => (
+          <label key={field} className="block text-xs font-medium text-gray-600">
+            {FIELD_LABELS[field]}
+            <input
+              type={field === 'extracted_filling_date' ? 'date' : 'text'}
+              value={values[field]}
+              placeholder={declaredValue(count, field) ?? ''}
+              onChange={(event) => setValues((current) => ({ ...current, [field]: event.target.value }))}
+              className="mt-1 w-full rounded-lg border border-gray-300 px-2 py-1 text-sm"
+            />
+          </label>
+        ))}
+      </div>
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="inline-flex items-center gap-1 rounded-lg border border-gray-300 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50"
+        >
+          <X className="h-4 w-4" /> Cancel
+        </button>
+        <button
+          type="button"
+          disabled={busy}
+          onClick={handleSave}
+          className="inline-flex items-center gap-1 rounded-lg bg-blue-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-60"
+        >
+          {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />} Save corrections
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,560 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { CheckCircle, FlaskConical, Loader2, Plus, Power, Save, Tags } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { formatFieldErrors, PHOTO_REGIONS, type PhotoRegion } from '../../supabase/functions/_shared/countContract.ts';
+import {
+  DEFAULT_LABEL_RULES,
+  LABEL_DATE_FORMATS,
+  parseLabel,
+  selectLabelRuleSet,
+  validateLabelRules,
+  type LabelDateFormat,
+  type LabelRegion,
+  type LabelRules,
+  type ParsedLabel
+} from '../../supabase/functions/_shared/labelRules.ts';
+
+interface LabelRuleSet {
+  id: string;
+  name: string;
+  description: string | null;
+  priority: number;
+  is_active: boolean;
+  draft_rules: LabelRules;
+  rules: LabelRules | null;
+  activated_at: string | null;
+}
+
+interface OcrSample {
+  id: string;
+  warehouse_code: string;
+  stock_code: string;
+  created_at: string;
+  full_text: string | null;
+  regions: Partial<Record<PhotoRegion, string>>;
+  extracted_barcode: string | null;
+  extracted_lot_number: string | null;
+  extracted_filling_date: string | null;
+  extracted_product_name: string | null;
+  extracted_pack_size: string | null;
+}
+
+// Lists are edited as text: comma-separated for short values, one per line for patterns
+interface RuleForm {
+  name: string;
+  description: string;
+  priority: string;
+  stockCodePrefixes: string;
+  brandKeywords: string;
+  barcodeSymbologies: string;
+  lotPatterns: string;
+  dateKeywords: string;
+  dateFormats: LabelDateFormat[];
+  packSizePattern: string;
+  regions: Record<PhotoRegion, LabelRegion>;
+}
+
+const PARSED_COLUMNS: Array<{ key: keyof ParsedLabel; stored: keyof OcrSample; label: string }> = [
+  { key: 'barcode', stored: 'extracted_barcode', label: 'Barcode' },
+  { key: 'lotNumber', stored: 'extracted_lot_number', label: 'Lot' },
+  { key: 'fillingDate', stored: 'extracted_filling_date', label: 'Filling date' },
+  { key: 'productName', stored: 'extracted_product_name', label: 'Product name' },
+  { key: 'packSize', stored: 'extracted_pack_size', label: 'Pack size' }
+];
+
+function toForm(ruleSet: LabelRuleSet | null): RuleForm {
+  const rules = ruleSet?.draft_rules ?? DEFAULT_LABEL_RULES;
+  return {
+    name: ruleSet?.name ?? '',
+    description: ruleSet?.description ?? '',
+    priority: String(ruleSet?.priority ?? 100),
+    stockCodePrefixes: rules.stockCodePrefixes.join(', '),
+    brandKeywords: rules.brandKeywords.join(', '),
+    barcodeSymbologies: rules.barcodeSymbologies.join(', '),
+    lotPatterns: rules.lotPatterns.join('\n'),
+    dateKeywords: rules.dateKeywords.join(', '),
+    dateFormats: rules.dateFormats,
+    packSizePattern: rules.packSizePattern ?? '',
+    // Rebuilt in a fixed key order, since jsonb hands objects back reordered and forms are compared as JSON
+    regions: Object.fromEntries(
+      PHOTO_REGIONS.map((region) => {
+        const { xPct, yPct, wPct, hPct } = rules.regions[region];
+        return [region, { xPct, yPct, wPct, hPct }];
+      })
+    ) as Record<PhotoRegion, LabelRegion>
+  };
+}
+
+function splitList(value: string, separator: string | RegExp): string[] {
+  return value.split(separator).map((item) => item.trim()).filter(Boolean);
+}
+
+function formRules(form: RuleForm) {
+  return validateLabelRules({
+    stockCodePrefixes: splitList(form.stockCodePrefixes, ','),
+    brandKeywords: splitList(form.brandKeywords, ','),
+    barcodeSymbologies: splitList(form.barcodeSymbologies, ','),
+    lotPatterns: splitList(form.lotPatterns, '\n'),
+    dateKeywords: splitList(form.dateKeywords, ','),
+    dateFormats: form.dateFormats,
+    packSizePattern: form.packSizePattern.trim() || null,
+    regions: form.regions
+  });
+}
+
+export default function LabelRuleSets() {
+  const [ruleSets, setRuleSets] = useState<LabelRuleSet[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [form, setForm] = useState<RuleForm>(() => toForm(null));
+  const [samples, setSamples] = useState<OcrSample[]>([]);
+  const [sampleStockCode, setSampleStockCode] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [testing, setTesting] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const loadRuleSets = useCallback(async (): Promise<LabelRuleSet[]> => {
+    setLoading(true);
+    try {
+      const { data, error: loadError } = await supabase
+        .from('label_rule_sets')
+        .select('id, name, description, priority, is_active, draft_rules, rules, activated_at')
+        .order('priority', { ascending: true })
+        .order('name', { ascending: true });
+
+      if (loadError) throw loadError;
+      const loaded = (data ?? []) as LabelRuleSet[];
+      setRuleSets(loaded);
+      return loaded;
+    } catch (caughtError) {
+      console.error('Failed to load label rule sets', caughtError);
+      setError(caughtError instanceof Error ? caughtError.message : 'Failed to load label rule sets');
+      return [];
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRuleSets();
+  }, [loadRuleSets]);
+
+  const selected = ruleSets.find((ruleSet) => ruleSet.id === selectedId) ?? null;
+  const validation = useMemo(() => formRules(form), [form]);
+  const savedForm = useMemo(() => toForm(selected), [selected]);
+  const unsaved = JSON.stringify(form) !== JSON.stringify(savedForm);
+  const draftIsLive = Boolean(
+    selected?.is_active && JSON.stringify(selected.rules) === JSON.stringify(selected.draft_rules)
+  );
+
+  function selectRuleSet(ruleSet: LabelRuleSet | null) {
+    setSelectedId(ruleSet?.id ?? null);
+    setForm(toForm(ruleSet));
+    setError('');
+    setMessage('');
+  }
+
+  function updateForm<K extends keyof RuleForm>(key: K, value: RuleForm[K]) {
+    setForm((current) => ({ ...current, [key]: value }));
+  }
+
+  function updateRegion(region: PhotoRegion, key: keyof LabelRegion, value: string) {
+    setForm((current) => ({
+      ...current,
+      regions: { ...current.regions, [region]: { ...current.regions[region], [key]: Number(value) } }
+    }));
+  }
+
+  async function handleSave() {
+    if (!validation.ok) return;
+    setSaving(true);
+    setError('');
+    setMessage('');
+    try {
+      const priority = Number(form.priority);
+      const values = {
+        name: form.name.trim(),
+        description: form.description.trim() || null,
+        priority: Number.isInteger(priority) ? priority : 100,
+        draft_rules: validation.value
+      };
+      if (!values.name) throw new Error('Give the rule set a name');
+
+      const { data, error: saveError } = selected
+        ? await supabase.from('label_rule_sets').update(values).eq('id', selected.id).select('id').single()
+        : await supabase.from('label_rule_sets').insert(values).select('id').single();
+
+      if (saveError) throw saveError;
+      const saved = (await loadRuleSets()).find((ruleSet) => ruleSet.id === data.id) ?? null;
+      selectRuleSet(saved);
+      setMessage(
+        selected?.is_active
+          ? 'Draft saved. The parsers keep using the active rules until you activate the draft.'
+          : 'Draft saved.'
+      );
+    } catch (caughtError) {
+      console.error('Failed to save label rule set', caughtError);
+      setError(caughtError instanceof Error ? caughtError.message : 'Failed to save label rule set');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleActivate() {
+    if (!selected) return;
+    setSaving(true);
+    setError('');
+    setMessage('');
+    try {
+      const { error: activateError } = await supabase.rpc('activate_label_rule_set', { p_id: selected.id });
+      if (activateError) throw activateError;
+      setMessage(`${selected.name} is active; new extractions use its rules.`);
+      await loadRuleSets();
+    } catch (caughtError) {
+      console.error('Failed to activate label rule set', caughtError);
+      setError(caughtError instanceof Error ? caughtError.message : 'Failed to activate label rule set');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDeactivate() {
+    if (!selected) return;
+    setSaving(true);
+    setError('');
+    setMessage('');
+    try {
+      const { error: updateError } = await supabase
+        .from('label_rule_sets')
+        .update({ is_active: false })
+        .eq('id', selected.id);
+      if (updateError) throw updateError;
+      setMessage(`${selected.name} is no longer used.`);
+      await loadRuleSets();
+    } catch (caughtError) {
+      console.error('Failed to deactivate label rule set', caughtError);
+      setError(caughtError instanceof Error ? caughtError.message : 'Failed to deactivate label rule set');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleLoadSamples() {
+    setTesting(true);
+    setError('');
+    try {
+      const { data, error: samplesError } = await supabase.rpc('list_ocr_samples', {
+        p_stock_code: sampleStockCode.trim() || null,
+        p_limit: 25
+      });
+      if (samplesError) throw samplesError;
+      setSamples((data ?? []) as OcrSample[]);
+    } catch (caughtError) {
+      console.error('Failed to load OCR samples', caughtError);
+      setError(caughtError instanceof Error ? caughtError.message : 'Failed to load OCR samples');
+    } finally {
+      setTesting(false);
+    }
+  }
+
+  const results = useMemo(() => {
+    if (!validation.ok) return [];
+    const draft = { rules: validation.value };
+    return samples.map((sample) => {
+      const regions = sample.regions ?? {};
+      const text = [sample.full_text ?? '', ...Object.values(regions)].join('\n');
+      return {
+        sample,
+        claimed: selectLabelRuleSet([draft], { stockCode: sample.stock_code, text }) !== null,
+        parsed: parseLabel({ fullText: sample.full_text ?? '', regions }, validation.value)
+      };
+    });
+  }, [samples, validation]);
+
+  return (
+    <div className="rounded-xl border border-gray-100 bg-white p-6 shadow-sm">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800">Label rule sets</h3>
+          <p className="text-sm text-gray-500">
+            How photo text is read per brand or product family. Edit a draft, test it against stored OCR text, then
+            activate it.
+          </p>
+        </div>
+        <Tags className="w-5 h-5 text-blue-500" />
+      </div>
+
+      <div className="mt-4 flex flex-wrap gap-2">
+        {loading ? (
+          <Loader2 className="w-4 h-4 animate-spin text-gray-500" />
+        ) : (
+          ruleSets.map((ruleSet) => (
+            <button
+              key={ruleSet.id}
+              type="button"
+              onClick={() => selectRuleSet(ruleSet)}
+              className={`rounded-full border px-3 py-1 text-sm transition ${
+                ruleSet.id === selectedId
+                  ? 'border-blue-500 bg-blue-50 text-blue-700'
+                  : 'border-gray-200 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {ruleSet.name}
+              <span className={`ml-2 text-xs ${ruleSet.is_active ? 'text-green-600' : 'text-gray-400'}`}>
+                {ruleSet.is_active ? 'active' : 'inactive'}
+              </span>
+            </button>
+          ))
+        )}
+        <button
+          type="button"
+          onClick={() => selectRuleSet(null)}
+          className="inline-flex items-center gap-1 rounded-full border border-dashed border-gray-300 px-3 py-1 text-sm text-gray-600 hover:bg-gray-50"
+        >
+          <Plus className="w-4 h-4" /> New rule set
+        </button>
+      </div>
+
+      <div className="mt-4 grid gap-3 text-sm sm:grid-cols-2">
+        <label className="block text-gray-700">
+          Name
+          <input
+            type="text"
+            value={form.name}
+            onChange={(event) => updateForm('name', event.target.value)}
+            className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2"
+          />
+        </label>
+        <label className="block text-gray-700">
+          Priority (lower is tried first)
+          <input
+            type="number"
+            value={form.priority}
+            onChange={(event) => updateForm('priority', event.target.value)}
+            className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2"
+          />
+        </label>
+        <label className="block text-gray-700 sm:col-span-2">
+          Description
+          <input
+            type="text"
+            value={form.description}
+            onChange={(event) => updateForm('description', event.target.value)}
+            className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2"
+          />
+        </label>
+        <label className="block text-gray-700">
+          Stock code prefixes (comma-separated)
+          <input
+            type="text"
+            value={form.stockCodePrefixes}
+            onChange={(event) => updateForm('stockCodePrefixes', event.target.value)}
+            className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2"
+          />
+        </label>
+        <label className="block text-gray-700">
+          Brand keywords (comma-separated)
+          <input
+            type="text"
+            value={form.brandKeywords}
+            onChange={(event) => updateForm('brandKeywords', event.target.value)}
+            className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2"
+          />
+        </label>
+        <label className="block text-gray-700">
+          Barcode symbologies, in the order to try
+          <input
+            type="text"
+            value={form.barcodeSymbologies}
+            onChange={(event) => updateForm('barcodeSymbologies', event.target.value)}
+            className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2"
+          />
+        </label>
+        <label className="block text-gray-700">
+          Filling date keywords (comma-separated)
+          <input
+            type="text"
+            value={form.dateKeywords}
+            onChange={(event) => updateForm('dateKeywords', event.target.value)}
+            className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2"
+          />
+        </label>
+        <label className="block text-gray-700 sm:col-span-2">
+          Lot patterns (regular expressions, one per line; the first capture group is the lot)
+          <textarea
+            value={form.lotPatterns}
+            rows={3}
+            onChange={(event) => updateForm('lotPatterns', event.target.value)}
+            className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 font-mono text-xs"
+          />
+        </label>
+        <label className="block text-gray-700 sm:col-span-2">
+          Pack size pattern
+          <input
+            type="text"
+            value={form.packSizePattern}
+            onChange={(event) => updateForm('packSizePattern', event.target.value)}
+            className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 font-mono text-xs"
+          />
+        </label>
+        <fieldset className="text-gray-700">
+          <legend>Date formats, in the order to try</legend>
+          <div className="mt-1 flex gap-4">
+            {LABEL_DATE_FORMATS.map((format) => (
+              <label key={format} className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={form.dateFormats.includes(format)}
+                  onChange={(event) =>
+                    updateForm(
+                      'dateFormats',
+                      event.target.checked
+                        ? [...form.dateFormats, format]
+                        : form.dateFormats.filter((current) => current !== format)
+                    )
+                  }
+                />
+                {format}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+        <fieldset className="text-gray-700 sm:col-span-2">
+          <legend>Label regions (fractions of the photo: x, y, width, height)</legend>
+          <div className="mt-1 space-y-1">
+            {PHOTO_REGIONS.map((region) => (
+              <div key={region} className="flex items-center gap-2">
+                <span className="w-20 text-xs text-gray-500">{region}</span>
+                {(['xPct', 'yPct', 'wPct', 'hPct'] as const).map((key) => (
+                  <input
+                    key={key}
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    max="1"
+                    value={form.regions[region][key]}
+                    onChange={(event) => updateRegion(region, key, event.target.value)}
+                    className="w-20 rounded-lg border border-gray-300 px-2 py-1 text-xs"
+                  />
+                ))}
+              </div>
+            ))}
+          </div>
+        </fieldset>
+      </div>
+
+      {!validation.ok && <p className="mt-3 text-sm text-red-600">{formatFieldErrors(validation.errors)}</p>}
+      {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+      {message && (
+        <p className="mt-3 flex items-center gap-1 text-sm text-green-700">
+          <CheckCircle className="w-4 h-4" /> {message}
+        </p>
+      )}
+
+      <div className="mt-4 flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={() => void handleSave()}
+          disabled={saving || !validation.ok || !unsaved}
+          className="inline-flex items-center gap-2 rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm transition hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-70"
+        >
+          {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+          Save draft
+        </button>
+        <button
+          type="button"
+          onClick={() => void handleActivate()}
+          disabled={saving || !selected || unsaved || draftIsLive}
+          title={unsaved ? 'Save the draft before activating it' : undefined}
+          className="inline-flex items-center gap-2 rounded-lg bg-green-600 px-4 py-2 text-sm font-medium text-white shadow-sm transition hover:bg-green-700 disabled:cursor-not-allowed disabled:opacity-70"
+        >
+          <CheckCircle className="w-4 h-4" />
+          {selected?.is_active ? 'Activate draft' : 'Activate'}
+        </button>
+        {selected?.is_active && (
+          <button
+            type="button"
+            onClick={() => void handleDeactivate()}
+            disabled={saving}
+            className="inline-flex items-center gap-2 rounded-lg border border-gray-200 px-4 py-2 text-sm text-gray-700 transition hover:bg-gray-50 disabled:opacity-60"
+          >
+            <Power className="w-4 h-4" /> Deactivate
+          </button>
+        )}
+      </div>
+
+      <div className="mt-6 border-t border-gray-100 pt-4">
+        <h4 className="text-sm font-semibold text-gray-800">Test against stored OCR text</h4>
+        <div className="mt-2 flex flex-wrap gap-2">
+          <input
+            type="text"
+            value={sampleStockCode}
+            onChange={(event) => setSampleStockCode(event.target.value)}
+            placeholder="Stock code prefix (optional)"
+            className="rounded-lg border border-gray-300 px-3 py-2 text-sm"
+          />
+          <button
+            type="button"
+            onClick={() => void handleLoadSamples()}
+            disabled={testing}
+            className="inline-flex items-center gap-2 rounded-lg border border-gray-200 px-4 py-2 text-sm text-gray-700 transition hover:bg-gray-50 disabled:opacity-60"
+          >
+            {testing ? <Loader2 className="w-4 h-4 animate-spin" /> : <FlaskConical className="w-4 h-4" />}
+            Load recent extractions
+          </button>
+        </div>
+
+        {results.length > 0 && (
+          <div className="mt-3 overflow-x-auto">
+            <table className="min-w-full text-xs">
+              <thead>
+                <tr className="text-left uppercase tracking-wide text-gray-500">
+                  <th className="py-1 pr-3 font-semibold">Count</th>
+                  {PARSED_COLUMNS.map((column) => (
+                    <th key={column.key} className="py-1 pr-3 font-semibold">
+                      {column.label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {results.map(({ sample, claimed, parsed }) => (
+                  <tr key={sample.id} className="align-top">
+                    <td className="py-2 pr-3">
+                      <p className="font-medium text-gray-800">{sample.stock_code}</p>
+                      <p className="text-gray-500">
+                        {sample.warehouse_code} · {new Date(sample.created_at).toLocaleDateString()}
+                      </p>
+                      {!claimed && <p className="text-amber-600">Not matched by this rule set</p>}
+                      <details>
+                        <summary className="cursor-pointer text-gray-500">OCR text</summary>
+                        <pre className="whitespace-pre-wrap font-mono text-gray-600">{sample.full_text || '—'}</pre>
+                      </details>
+                    </td>
+                    {PARSED_COLUMNS.map((column) => {
+                      const stored = sample[column.stored] as string | null;
+                      const value = parsed[column.key];
+                      return (
+                        <td
+                          key={column.key}
+                          className={`py-2 pr-3 font-mono ${value !== stored ? 'bg-amber-50 text-amber-900' : 'text-gray-700'}`}
+                        >
+                          {value ?? '—'}
+                          {value !== stored && <p className="text-gray-400">was {stored ?? '—'}</p>}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        {!testing && samples.length === 0 && (
+          <p className="mt-2 text-sm text-gray-500">Load recent extractions to see what this draft reads from them.</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import { useEffect, useRef, useState } from 'react';
+import { AlertCircle, Loader2, MapPin, ScanLine } from 'lucide-react';
+import BarcodeScanner from './BarcodeScanner';
+import type { BarcodeScan } from './photoCaptureTypes';
+import { scanLocationBarcode } from '../lib/barcodeScanner';
+import {
+  describeLocation,
+  findLocation,
+  listWarehouseLocations,
+  type WarehouseLocation
+} from '../lib/warehouseLocations';
+
+interface LocationPickerProps {
+  warehouseCode?: string;
+  value: WarehouseLocation | null;
+  onChange: (location: WarehouseLocation | null) => void;
+  onLocationsLoaded?: (locations: WarehouseLocation[]) => void;
+  initialLocationCode?: string | null;
+}
+
+const scanLocation = (video: HTMLVideoElement) => scanLocationBarcode(video, 'camera');
+
+export default function LocationPicker({
+  warehouseCode,
+  value,
+  onChange,
+  onLocationsLoaded,
+  initialLocationCode
+}: LocationPickerProps) {
+  const [locations, setLocations] = useState<WarehouseLocation[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [scannerOpen, setScannerOpen] = useState(false);
+  const [error, setError] = useState('');
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  const onLocationsLoadedRef = useRef(onLocationsLoaded);
+  onLocationsLoadedRef.current = onLocationsLoaded;
+
+  useEffect(() => {
+    setLocations([]);
+    setError('');
+    onChangeRef.current(null);
+    onLocationsLoadedRef.current?.([]);
+    if (!warehouseCode) return;
+
+    let cancelled = false;
+    setLoading(true);
+    listWarehouseLocations(warehouseCode).then(({ data, error: loadError }) => {
+      if (cancelled) return;
+      setLoading(false);
+      if (loadError) {
+        console.error('Failed to load warehouse locations', loadError);
+        setError('Unable to load locations for this warehouse.');
+        return;
+      }
+      const loaded = data ?? [];
+      setLocations(loaded);
+      onLocationsLoadedRef.current?.(loaded);
+      if (initialLocationCode) {
+        onChangeRef.current(findLocation(loaded, initialLocationCode));
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [warehouseCode, initialLocationCode]);
+
+  function handleScan(scan: BarcodeScan) {
+    setScannerOpen(false);
+    const match = findLocation(locations, scan.code);
+    if (match) {
+      setError('');
+      onChange(match);
+    } else {
+      setError(`Location ${scan.code} is not registered for this warehouse.`);
+    }
+  }
+
+  if (!warehouseCode || (!loading && !error && locations.length === 0)) {
+    return null;
+  }
+
+  return (
+    <div className="rounded-lg border border-gray-200 p-4 space-y-3">
+      <div className="flex items-center gap-2 text-sm font-semibold text-gray-900">
+        <MapPin className="h-4 w-4 text-blue-600" /> Location
+      </div>
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-sm text-gray-500">
+          <Loader2 className="h-4 w-4 animate-spin" /> Loading locations…
+        </div>
+      ) : (
+        <div className="flex flex-col gap-2 sm:flex-row">
+          <select
+            value={value?.id ?? ''}
+            onChange={(event) => {
+              setError('');
+              onChange(locations.find((location) => location.id === event.target.value) ?? null);
+            }}
+            className="flex-1 rounded-lg border border-gray-300 px-3 py-2 text-base focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200"
+          >
+            <option value="">Select a location</option>
+            {locations.map((location) => (
+              <option key={location.id} value={location.id}>
+                {location.code}
+                {location.description ? ` — ${location.description}` : ''}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => setScannerOpen(true)}
+            className="inline-flex items-center justify-center gap-2 rounded-lg border border-blue-200 px-4 py-2 text-sm font-medium text-blue-700 transition hover:bg-blue-50"
+          >
+            <ScanLine className="h-4 w-4" /> Scan location
+          </button>
+        </div>
+      )}
+
+      {value && describeLocation(value) && <p className="text-xs text-gray-600">{describeLocation(value)}</p>}
+
+      {error && (
+        <p className="flex items-center gap-2 text-xs text-red-600">
+          <AlertCircle className="h-4 w-4" /> {error}
+        </p>
+      )}
+
+      {scannerOpen && (
+        <BarcodeScanner
+          title="Scan location"
+          hint="Hold the location label inside the frame."
+          scan={scanLocation}
+          onDetected={handleScan}
+          onClose={() => setScannerOpen(false)}
+        />
+      )}
+    </div>
+  );
+}
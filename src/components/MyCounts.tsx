@@ -0,0 +1,351 @@
+import { useMemo, useState } from 'react';
+import { AlertCircle, Ban, History, ImageOff, Loader2, Pencil, RefreshCcw, Search, X } from 'lucide-react';
+import { useEventWarehouse } from '../hooks/useEventWarehouse';
+import { useAdjustCount, useMyCounts, type CountAdjustmentEntry, type MyCount } from '../hooks/useMyCounts';
+import type { CountQuantityField } from '../../supabase/functions/_shared/countContract.ts';
+
+const QUANTITY_LABELS: Array<{ field: CountQuantityField; label: string }> = [
+  { field: 'singles_units', label: 'Singles units' },
+  { field: 'singles_cases', label: 'Singles cases' },
+  { field: 'pick_face_layers', label: 'Pick-face layers' },
+  { field: 'pick_face_cases', label: 'Pick-face cases' },
+  { field: 'bulk_pallets', label: 'Bulk pallets' },
+  { field: 'bulk_layers', label: 'Bulk layers' },
+  { field: 'bulk_cases', label: 'Bulk cases' }
+];
+
+const FIELD_LABELS: Record<string, string> = {
+  ...Object.fromEntries(QUANTITY_LABELS.map(({ field, label }) => [field, label])),
+  lot_number: 'Lot',
+  total_units: 'Total units',
+  voided_at: 'Voided'
+};
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined || value === '') return '—';
+  return String(value);
+}
+
+export default function MyCounts() {
+  const { eventId, warehouseCode, selectedEvent, selectedWarehouse } = useEventWarehouse();
+  const countsQuery = useMyCounts(eventId, warehouseCode);
+  const adjustCount = useAdjustCount();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState('');
+
+  const counts = useMemo(() => countsQuery.data?.counts ?? [], [countsQuery.data]);
+  const eventActive = countsQuery.data?.event_status === 'active';
+
+  async function handleVoid(count: MyCount) {
+    const reason = window.prompt(`Why are you voiding the count for ${count.stock_code}?`)?.trim();
+    if (!reason) return;
+    setActionError('');
+    try {
+      await adjustCount.mutateAsync({ action: 'void', countId: count.id, reason });
+      await countsQuery.refetch();
+    } catch (error) {
+      console.error('Failed to void count', error);
+      setActionError(error instanceof Error ? error.message : 'Failed to void count.');
+    }
+  }
+
+  async function handleSaveEdit(count: MyCount, edit: CountEdit) {
+    setActionError('');
+    try {
+      await adjustCount.mutateAsync({
+        action: 'edit',
+        countId: count.id,
+        reason: edit.reason || undefined,
+        lotNumber: edit.lotNumber,
+        quantities: edit.quantities
+      });
+      setEditingId(null);
+      await countsQuery.refetch();
+    } catch (error) {
+      console.error('Failed to edit count', error);
+      setActionError(error instanceof Error ? error.message : 'Failed to edit count.');
+    }
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div className="bg-white rounded-xl shadow-lg p-6 space-y-4">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div>
+            <h2 className="flex items-center gap-2 text-2xl font-bold text-gray-900">
+              <History className="h-6 w-6 text-blue-600" /> My Counts
+            </h2>
+            <p className="text-sm text-gray-600">
+              Counts you submitted for <strong>{selectedEvent?.name ?? '…'}</strong> in{' '}
+              <strong>{selectedWarehouse?.name ?? '…'}</strong>.
+              {countsQuery.data && !eventActive && ' The event is no longer active, so these counts are read-only.'}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => countsQuery.refetch()}
+            className="inline-flex items-center gap-2 rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-700 transition hover:bg-gray-50"
+          >
+            <RefreshCcw className="h-4 w-4" /> Refresh
+          </button>
+        </div>
+
+        {(countsQuery.error || actionError) && (
+          <div className="flex items-center gap-2 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+            <AlertCircle className="h-4 w-4" /> {actionError || countsQuery.error?.message}
+          </div>
+        )}
+      </div>
+
+      {!eventId || !warehouseCode ? (
+        <div className="bg-white rounded-xl shadow-lg p-8 text-center text-gray-600">
+          Select an event and warehouse to see your counts.
+        </div>
+      ) : countsQuery.isLoading ? (
+        <div className="bg-white rounded-xl shadow-lg p-8 text-center">
+          <Loader2 className="mx-auto h-10 w-10 animate-spin text-blue-600" />
+          <p className="mt-3 text-gray-600">Loading your counts...</p>
+        </div>
+      ) : counts.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-lg p-8 text-center space-y-3">
+          <Search className="mx-auto h-10 w-10 text-gray-400" />
+          <h3 className="text-lg font-semibold text-gray-800">No counts yet</h3>
+          <p className="text-gray-600 text-sm">Counts you submit for this event and warehouse will appear here.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {counts.map((count) => (
+            <MyCountCard
+              key={count.id}
+              count={count}
+              editing={editingId === count.id}
+              busy={adjustCount.isPending}
+              onEdit={() => setEditingId(count.id)}
+              onCancelEdit={() => setEditingId(null)}
+              onSaveEdit={(edit) => handleSaveEdit(count, edit)}
+              onVoid={() => handleVoid(count)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface CountEdit {
+  quantities: Partial<Record<CountQuantityField, number>>;
+  lotNumber: string | null;
+  reason: string;
+}
+
+function MyCountCard({
+  count,
+  editing,
+  busy,
+  onEdit,
+  onCancelEdit,
+  onSaveEdit,
+  onVoid
+}: {
+  count: MyCount;
+  editing: boolean;
+  busy: boolean;
+  onEdit: () => void;
+  onCancelEdit: () => void;
+  onSaveEdit: (edit: CountEdit) => void;
+  onVoid: () => void;
+}) {
+  const voided = Boolean(count.voided_at);
+  const quantities = QUANTITY_LABELS.filter(({ field }) => (count[field] ?? 0) > 0);
+
+  return (
+    <div className={`bg-white rounded-xl shadow p-4 space-y-3 ${voided ? 'opacity-70' : ''}`}>
+      <div className="flex items-start gap-4">
+        {count.photo_url ? (
+          <img src={count.photo_url} alt={count.stock_code} className="w-20 h-20 object-cover rounded-lg" />
+        ) : (
+          <div className="flex w-20 h-20 items-center justify-center rounded-lg bg-gray-100 text-gray-400">
+            <ImageOff className="h-6 w-6" />
+          </div>
+        )}
+        <div className="flex-1 space-y-1">
+          <div className="flex flex-wrap items-center gap-2">
+            <h3 className={`font-semibold text-gray-800 ${voided ? 'line-through' : ''}`}>
+              {count.product_description || count.stock_code}
+            </h3>
+            {voided && (
+              <span className="rounded-full bg-red-50 px-2 py-0.5 text-xs font-medium text-red-700">Voided</span>
+            )}
+            {count.superseded_at && !voided && (
+              <span className="rounded-full bg-amber-50 px-2 py-0.5 text-xs font-medium text-amber-700">
+                Superseded by recount
+              </span>
+            )}
+            {count.resolution_status === 'unresolved' && !voided && (
+              <span className="rounded-full bg-purple-50 px-2 py-0.5 text-xs font-medium text-purple-700">
+                Awaiting product mapping
+              </span>
+            )}
+            {count.recount_task_id && (
+              <span className="rounded-full bg-blue-50 px-2 py-0.5 text-xs font-medium text-blue-700">Recount</span>
+            )}
+          </div>
+          <p className="text-sm text-gray-600">
+            {count.stock_code}
+            {count.lot_number ? ` · Lot ${count.lot_number}` : ''}
+            {count.location_code ? ` · Location ${count.location_code}` : ''}
+          </p>
+          <p className="text-sm text-gray-600">
+            {quantities.length > 0
+              ? quantities.map(({ field, label }) => `${label}: ${count[field]}`).join(' · ')
+              : 'No quantities'}
+          </p>
+          <p className="text-xs text-gray-500">
+            {count.total_units.toLocaleString()} units · Submitted {new Date(count.created_at).toLocaleString()}
+          </p>
+          {voided && count.void_reason && <p className="text-xs text-red-600">Reason: {count.void_reason}</p>}
+        </div>
+        {count.editable && !editing && (
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={onEdit}
+              disabled={busy}
+              className="text-blue-600 hover:text-blue-700 disabled:opacity-50"
+              title="Edit count"
+            >
+              <Pencil className="w-5 h-5" />
+            </button>
+            <button
+              type="button"
+              onClick={onVoid}
+              disabled={busy}
+              className="text-red-600 hover:text-red-700 disabled:opacity-50"
+              title="Void count"
+            >
+              <Ban className="w-5 h-5" />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {editing && <EditCountForm count={count} busy={busy} onCancel={onCancelEdit} onSave={onSaveEdit} />}
+
+      {count.adjustments.length > 0 && <AdjustmentHistory adjustments={count.adjustments} />}
+    </div>
+  );
+}
+
+function EditCountForm({
+  count,
+  busy,
+  onCancel,
+  onSave
+}: {
+  count: MyCount;
+  busy: boolean;
+  onCancel: () => void;
+  onSave: (edit: CountEdit) => void;
+}) {
+  const [values, setValues] = useState<Record<CountQuantityField, string>>(
+    () =>
+      Object.fromEntries(QUANTITY_LABELS.map(({ field }) => [field, String(count[field] ?? 0)])) as Record<
+        CountQuantityField,
+        string
+      >
+  );
+  const [lotNumber, setLotNumber] = useState(count.lot_number ?? '');
+  const [reason, setReason] = useState('');
+
+  function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const quantities: Partial<Record<CountQuantityField, number>> = {};
+    for (const { field } of QUANTITY_LABELS) {
+      quantities[field] = values[field].trim() === '' ? 0 : Number(values[field]);
+    }
+    onSave({ quantities, lotNumber: lotNumber.trim() || null, reason: reason.trim() });
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 rounded-lg border border-blue-100 bg-blue-50/40 p-3">
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+        {QUANTITY_LABELS.map(({ field, label }) => (
+          <label key={field} className="text-xs font-medium text-gray-600">
+            {label}
+            <input
+              type="number"
+              min={0}
+              step={1}
+              inputMode="numeric"
+              value={values[field]}
+              onChange={(event) => setValues((prev) => ({ ...prev, [field]: event.target.value }))}
+              className="mt-1 w-full rounded-lg border border-gray-300 px-2 py-1 text-sm"
+            />
+          </label>
+        ))}
+        <label className="text-xs font-medium text-gray-600">
+          Lot number
+          <input
+            type="text"
+            value={lotNumber}
+            onChange={(event) => setLotNumber(event.target.value)}
+            className="mt-1 w-full rounded-lg border border-gray-300 px-2 py-1 text-sm"
+          />
+        </label>
+      </div>
+      <label className="block text-xs font-medium text-gray-600">
+        Reason (optional)
+        <input
+          type="text"
+          value={reason}
+          onChange={(event) => setReason(event.target.value)}
+          placeholder="e.g. Typed 30 instead of 3"
+          className="mt-1 w-full rounded-lg border border-gray-300 px-2 py-1 text-sm"
+        />
+      </label>
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="inline-flex items-center gap-1 rounded-lg border border-gray-300 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50"
+        >
+          <X className="h-4 w-4" /> Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={busy}
+          className="inline-flex items-center gap-1 rounded-lg bg-blue-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-60"
+        >
+          {busy && <Loader2 className="h-4 w-4 animate-spin" />} Save changes
+        </button>
+      </div>
+    </form>
+  );
+}
+
+function AdjustmentHistory({ adjustments }: { adjustments: CountAdjustmentEntry[] }) {
+  return (
+    <div className="border-t border-gray-100 pt-3 space-y-2">
+      <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">History</p>
+      {adjustments.map((adjustment) => (
+        <div key={adjustment.id} className="text-xs text-gray-600">
+          <span className="font-medium text-gray-800">
+            {adjustment.action === 'void' ? 'Voided' : 'Edited'} by {adjustment.adjusted_by_name ?? 'unknown user'}
+          </span>{' '}
+          on {new Date(adjustment.created_at).toLocaleString()}
+          {adjustment.action === 'edit' && (
+            <ul className="ml-4 list-disc">
+              {Object.keys(adjustment.new_values).map((field) => (
+                <li key={field}>
+                  {FIELD_LABELS[field] ?? field}: {formatValue(adjustment.previous_values[field])} →{' '}
+                  {formatValue(adjustment.new_values[field])}
+                </li>
+              ))}
+            </ul>
+          )}
+          {adjustment.reason && <p className="ml-4 italic">“{adjustment.reason}”</p>}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,18 +1,44 @@
 import { useEffect, useRef, useState } from 'react';
-import { Camera, ImageOff, Loader2, RefreshCcw } from 'lucide-react';
-import { getRoiCrops } from './photoCaptureUtils';
-import { type RoiCropResult } from './photoCaptureTypes';
+import { AlertTriangle, Camera, ImageOff, Loader2, RefreshCcw, ScanLine } from 'lucide-react';
+import BarcodeScanner from './BarcodeScanner';
+import { detectBarcodeInPhoto, getRoiCrops } from './photoCaptureUtils';
+import { preparePhoto } from '../lib/photoPipeline';
+import { computePhotoHash } from '../lib/photoHash';
+import { assessPhotoQuality, PHOTO_QUALITY_BLOCKS } from '../lib/photoQuality';
+import {
+  PHOTO_QUALITY_ISSUE_LABELS,
+  type PhotoQuality
+} from '../../supabase/functions/_shared/countContract.ts';
+import { type BarcodeScan, type RoiCropResult } from './photoCaptureTypes';
+import type { ActiveLabelRuleSet } from '../hooks/useLabelRuleSets';
 
 interface PhotoCaptureProps {
   file: File | null;
-  onChange: (file: File | null, crops: RoiCropResult | null) => void;
+  quality?: PhotoQuality | null;
+  onChange: (
+    file: File | null,
+    crops: RoiCropResult | null,
+    quality: PhotoQuality | null,
+    hash: string | null
+  ) => void;
+  onBarcodeDetected?: (scan: BarcodeScan) => void;
+  // The label rule set whose regions the photo is cropped to
+  ruleSet?: ActiveLabelRuleSet | null;
   disabled?: boolean;
 }
 
-export default function PhotoCapture({ file, onChange, disabled }: PhotoCaptureProps) {
+export default function PhotoCapture({
+  file,
+  quality,
+  onChange,
+  onBarcodeDetected,
+  ruleSet,
+  disabled
+}: PhotoCaptureProps) {
   const inputRef = useRef<HTMLInputElement | null>(null);
   const [preview, setPreview] = useState<string | null>(null);
   const [processing, setProcessing] = useState(false);
+  const [scannerOpen, setScannerOpen] = useState(false);
 
   useEffect(() => {
     if (!file) {
@@ -30,27 +56,64 @@ export default function PhotoCapture({ file, onChange, disabled }: PhotoCaptureP
   async function handleFileSelect(event: React.ChangeEvent<HTMLInputElement>) {
     const nextFile = event.target.files?.[0] ?? null;
     if (!nextFile) {
-      onChange(null, null);
+      onChange(null, null, null, null);
       return;
     }
 
     setProcessing(true);
+    let photo = nextFile;
     try {
-      const crops = await getRoiCrops(nextFile);
-      onChange(nextFile, crops);
+      // Crops are cut from the upright, resized photo so they line up with the preview
+      photo = await preparePhoto(nextFile);
+    } catch (error) {
+      console.warn('Photo preparation failed, uploading the original', error);
+    }
+
+    let nextQuality: PhotoQuality | null = null;
+    try {
+      nextQuality = await assessPhotoQuality(photo);
+    } catch (error) {
+      console.warn('Photo quality check failed', error);
+    }
+
+    // Lets submit-count spot a photo that was already used for another count
+    let hash: string | null = null;
+    try {
+      hash = await computePhotoHash(photo);
+    } catch (error) {
+      console.warn('Photo hash failed', error);
+    }
+
+    try {
+      const crops = await getRoiCrops(photo, ruleSet);
+      onChange(photo, crops, nextQuality, hash);
     } catch (error) {
       console.warn('Photo capture crop failure', error);
-      onChange(nextFile, null);
+      onChange(photo, null, nextQuality, hash);
     } finally {
       setProcessing(false);
     }
+
+    if (onBarcodeDetected) {
+      try {
+        const scan = await detectBarcodeInPhoto(photo);
+        if (scan) onBarcodeDetected(scan);
+      } catch (error) {
+        console.warn('Photo barcode decode failure', error);
+      }
+    }
+  }
+
+  function handleLiveScan(scan: BarcodeScan) {
+    setScannerOpen(false);
+    onBarcodeDetected?.(scan);
   }
 
   function handleClear() {
     if (inputRef.current) {
       inputRef.current.value = '';
     }
-    onChange(null, null);
+    onChange(null, null, null, null);
   }
 
   return (
@@ -65,6 +128,17 @@ export default function PhotoCapture({ file, onChange, disabled }: PhotoCaptureP
           {processing ? <Loader2 className="h-5 w-5 animate-spin" /> : <Camera className="h-5 w-5" />}
           {processing ? 'Processing…' : 'Capture Photo'}
         </button>
+        {onBarcodeDetected && (
+          <button
+            type="button"
+            onClick={() => setScannerOpen(true)}
+            disabled={disabled}
+            className="inline-flex items-center gap-2 rounded-lg border border-blue-200 bg-blue-50 px-4 py-2 text-blue-700 transition hover:bg-blue-100 disabled:opacity-60"
+          >
+            <ScanLine className="h-5 w-5" />
+            Scan Barcode
+          </button>
+        )}
         {file && (
           <button
             type="button"
@@ -108,6 +182,26 @@ export default function PhotoCapture({ file, onChange, disabled }: PhotoCaptureP
           </div>
         )}
       </div>
+
+      {file && quality && quality.verdict !== 'good' && (
+        <div
+          className={`flex items-start gap-2 rounded-lg border px-4 py-3 text-sm ${
+            quality.verdict === 'poor' ? 'border-red-200 bg-red-50 text-red-800' : 'border-amber-200 bg-amber-50 text-amber-800'
+          }`}
+        >
+          <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+          <p>
+            {quality.issues.map((issue) => PHOTO_QUALITY_ISSUE_LABELS[issue]).join(', ')} —{' '}
+            {quality.verdict === 'poor' && PHOTO_QUALITY_BLOCKS
+              ? 'retake the photo before submitting.'
+              : quality.verdict === 'poor'
+              ? 'the label will probably not be readable. Retake the photo if you can.'
+              : 'the label may be hard to read. Consider retaking the photo.'}
+          </p>
+        </div>
+      )}
+
+      {scannerOpen && <BarcodeScanner onDetected={handleLiveScan} onClose={() => setScannerOpen(false)} />}
     </div>
   );
 }
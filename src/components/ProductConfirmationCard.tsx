@@ -0,0 +1,84 @@
+import type { ReactNode } from 'react';
+import { AlertTriangle, Boxes, Layers, Package, PackageCheck } from 'lucide-react';
+import type { BarcodeMatch, ProductPalletView } from '../lib/productPalletView';
+
+interface ProductConfirmationCardProps {
+  product: ProductPalletView;
+  totalUnits: number;
+  matchedOn?: BarcodeMatch | 'stock_code';
+  expectedUnits?: number | null;
+}
+
+const MATCH_LABELS: Record<BarcodeMatch | 'stock_code', string> = {
+  case_barcode: 'Matched on case barcode',
+  unit_barcode: 'Matched on unit barcode',
+  stock_code: 'Matched on stock code'
+};
+
+export default function ProductConfirmationCard({
+  product,
+  totalUnits,
+  matchedOn,
+  expectedUnits
+}: ProductConfirmationCardProps) {
+  const unitsPerCase = product.units_per_case ?? null;
+  const casesPerLayer = product.cases_per_layer ?? null;
+  const layersPerPallet = product.layers_per_pallet ?? null;
+  const packagingComplete = Boolean(unitsPerCase && casesPerLayer && layersPerPallet);
+
+  return (
+    <div className="rounded-xl border border-emerald-200 bg-emerald-50/60 p-4 space-y-4">
+      <div className="flex items-start justify-between gap-3">
+        <div className="space-y-1">
+          <div className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-emerald-700">
+            <PackageCheck className="h-4 w-4" />
+            {matchedOn ? MATCH_LABELS[matchedOn] : 'Product identified'}
+          </div>
+          <h3 className="text-lg font-semibold text-gray-900">
+            {product.description || product.product_name || product.stock_code}
+          </h3>
+          <p className="text-sm text-gray-600">
+            {product.stock_code}
+            {product.pack_size ? ` · ${product.pack_size}` : ''}
+          </p>
+        </div>
+        <div className="rounded-lg bg-white px-4 py-2 text-right shadow-sm">
+          <p className="text-xs uppercase tracking-wide text-gray-500">Counting</p>
+          <p className="text-2xl font-bold text-gray-900">= {totalUnits.toLocaleString()} units</p>
+          {expectedUnits != null && (
+            <p className="text-xs text-gray-500">Expected {expectedUnits.toLocaleString()} units</p>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 text-sm">
+        <HierarchyStep icon={<Package className="h-4 w-4" />} label="Units / case" value={unitsPerCase} />
+        <HierarchyStep icon={<Boxes className="h-4 w-4" />} label="Cases / layer" value={casesPerLayer} />
+        <HierarchyStep icon={<Layers className="h-4 w-4" />} label="Layers / pallet" value={layersPerPallet} />
+      </div>
+
+      {packagingComplete ? (
+        <p className="text-xs text-gray-600">
+          One pallet holds {(product.units_per_pallet ?? 0).toLocaleString()} units.
+        </p>
+      ) : (
+        <p className="flex items-center gap-2 text-xs text-amber-700">
+          <AlertTriangle className="h-4 w-4" />
+          Packaging is incomplete for this product, so pallet and layer counts cannot be converted to units.
+        </p>
+      )}
+    </div>
+  );
+}
+
+function HierarchyStep({ icon, label, value }: { icon: ReactNode; label: string; value: number | null }) {
+  return (
+    <div className="rounded-lg bg-white px-3 py-2 shadow-sm">
+      <div className="flex items-center gap-1 text-xs text-gray-500">
+        {icon}
+        {label}
+      </div>
+      <p className="text-base font-semibold text-gray-900">{value ?? '—'}</p>
+    </div>
+  );
+}
@@ -1,8 +1,9 @@
-import { useCallback, useEffect, useState } from 'react';
-import { ClipboardList, Loader2, RefreshCcw, Search } from 'lucide-react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { ClipboardList, Loader2, MapPin, RefreshCcw, Search } from 'lucide-react';
 import StocktakeEntry from './StocktakeEntry';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../hooks/useAuth';
+import { useExpectedUnits } from '../hooks/useExpectedUnits';
 
 interface RecountTask {
   id: string;
@@ -11,16 +12,23 @@ interface RecountTask {
   description?: string | null;
   warehouse?: string | null;
   location?: string | null;
+  location_id?: string | null;
+  warehouse_location?: { code: string } | null;
   created_at?: string;
 }
 
+function taskLocation(task: RecountTask) {
+  return task.warehouse_location?.code ?? task.location ?? null;
+}
+
 export default function Recounts() {
   const { user } = useAuth();
   const [tasks, setTasks] = useState<RecountTask[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedTask, setSelectedTask] = useState<RecountTask | null>(null);
-  const [submittingTaskId, setSubmittingTaskId] = useState<string | null>(null);
   const [error, setError] = useState('');
+  const [locationFilter, setLocationFilter] = useState('');
+  const expectedUnitsQuery = useExpectedUnits(selectedTask?.stock_code);
 
   const loadTasks = useCallback(async () => {
     if (!user) return;
@@ -29,7 +37,7 @@ export default function Recounts() {
     try {
       const { data, error: queryError } = await supabase
         .from('recount_tasks')
-        .select('*')
+        .select('*, warehouse_location:warehouse_locations(code)')
         .eq('assigned_to', user.id)
         .eq('status', 'open')
         .order('created_at', { ascending: true });
@@ -53,23 +61,15 @@ export default function Recounts() {
     loadTasks();
   }, [loadTasks]);
 
-  async function handleTaskCompleted(task: RecountTask) {
-    try {
-      setSubmittingTaskId(task.id);
-      const { error: updateError } = await supabase
-        .from('recount_tasks')
-        .update({ status: 'done', completed_at: new Date().toISOString() })
-        .eq('id', task.id);
-
-      if (updateError) throw updateError;
-      await loadTasks();
-    } catch (err) {
-      console.error('Error marking task as done:', err);
-      setError(err instanceof Error ? err.message : 'Failed to update task status.');
-    } finally {
-      setSubmittingTaskId(null);
-    }
-  }
+  const locationOptions = useMemo(
+    () =>
+      Array.from(new Set(tasks.map(taskLocation).filter((code): code is string => Boolean(code)))).sort(),
+    [tasks]
+  );
+  const visibleTasks = useMemo(
+    () => (locationFilter ? tasks.filter((task) => taskLocation(task) === locationFilter) : tasks),
+    [locationFilter, tasks]
+  );
 
   return (
     <div className="max-w-6xl mx-auto">
@@ -125,8 +125,26 @@ export default function Recounts() {
               </button>
             </div>
 
+            {locationOptions.length > 0 && (
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                <MapPin className="h-4 w-4 text-blue-600" />
+                <select
+                  value={locationFilter}
+                  onChange={(event) => setLocationFilter(event.target.value)}
+                  className="flex-1 rounded-lg border border-gray-300 px-2 py-1 text-sm"
+                >
+                  <option value="">All locations</option>
+                  {locationOptions.map((code) => (
+                    <option key={code} value={code}>
+                      {code}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+
             <div className="space-y-3">
-              {tasks.map((task) => (
+              {visibleTasks.map((task) => (
                 <button
                   key={task.id}
                   type="button"
@@ -139,7 +157,7 @@ export default function Recounts() {
                 >
                   <div className="flex items-center justify-between text-sm text-gray-500">
                     <span>{task.warehouse || 'Warehouse'}</span>
-                    <span>{task.location || 'Location'}</span>
+                    <span>{taskLocation(task) || 'Location'}</span>
                   </div>
                   <div className="mt-2 font-semibold text-gray-900">{task.stock_code}</div>
                   <div className="text-sm text-gray-600">Lot {task.lot_number}</div>
@@ -158,25 +176,25 @@ export default function Recounts() {
                   <h3 className="text-xl font-semibold text-gray-900">Submit recount</h3>
                   <p className="text-sm text-gray-600">
                     Provide your updated count for <span className="font-medium">{selectedTask.stock_code}</span>{' '}
-                    (Lot {selectedTask.lot_number}). Ensure the supporting photo clearly shows the quantity counted.
+                    (Lot {selectedTask.lot_number}
+                    {taskLocation(selectedTask) ? ` at ${taskLocation(selectedTask)}` : ''}). Ensure the supporting photo clearly shows the quantity counted.
                   </p>
+                  {expectedUnitsQuery.data != null && (
+                    <p className="mt-2 text-sm font-medium text-gray-700">
+                      Expected on hand: {expectedUnitsQuery.data.toLocaleString()} units
+                    </p>
+                  )}
                 </div>
 
                 <StocktakeEntry
                   initialStockCode={selectedTask.stock_code}
                   initialLotNumber={selectedTask.lot_number}
+                  initialLocationCode={taskLocation(selectedTask)}
                   recountTaskId={selectedTask.id}
-                  onSubmitSuccess={() => handleTaskCompleted(selectedTask)}
+                  onSubmitSuccess={loadTasks}
                   compact
                   hideHeading
                 />
-
-                {submittingTaskId === selectedTask.id && (
-                  <div className="rounded-lg border border-blue-200 bg-blue-50 px-4 py-3 text-sm text-blue-700 flex items-center gap-2">
-                    <Loader2 className="h-4 w-4 animate-spin" />
-                    Updating task status...
-                  </div>
-                )}
               </div>
             ) : (
               <div className="flex h-full flex-col items-center justify-center gap-3 text-center text-gray-500">
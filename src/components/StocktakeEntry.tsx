@@ -1,13 +1,101 @@
-import { useEffect, useState } from 'react';
-import { AlertCircle, CheckCircle2, Info, Loader2 } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+import { AlertCircle, AlertTriangle, CheckCircle2, Info, Loader2, ScanLine } from 'lucide-react';
+import BarcodeScanner from './BarcodeScanner';
 import PhotoCapture from './PhotoCapture';
-import type { RoiCropResult } from './photoCaptureTypes';
+import type { BarcodeScan, RoiCropResult } from './photoCaptureTypes';
 import { useEventWarehouse } from '../hooks/useEventWarehouse';
-import { useSubmitCount, type SubmitCountPayload } from '../hooks/useSubmitCount';
+import { useExpectedUnits } from '../hooks/useExpectedUnits';
+import { useActiveLabelRuleSets } from '../hooks/useLabelRuleSets';
+import { isNetworkFailure, useSubmitCount, type SubmitCountPayload } from '../hooks/useSubmitCount';
+import { scanPalletBarcode } from '../lib/barcodeScanner';
+import { PHOTO_QUALITY_BLOCKS } from '../lib/photoQuality';
+import { enqueueCount } from '../lib/syncQueue';
+import ProductConfirmationCard from './ProductConfirmationCard';
+import LocationPicker from './LocationPicker';
+import type { WarehouseLocation } from '../lib/warehouseLocations';
+import { getByStockCode, resolveBarcode, type ProductPalletView, type ResolvedBarcode } from '../lib/productPalletView';
+import { unitsBulk, unitsPickface, unitsSingles } from '../utils/packaging';
+import type { DuplicatePhotoMatch, PhotoQuality } from '../../supabase/functions/_shared/countContract.ts';
+import { parseGs1, type Gs1Label } from '../../supabase/functions/_shared/gs1.ts';
+import { selectLabelRuleSet } from '../../supabase/functions/_shared/labelRules.ts';
+
+type ZoneField =
+  | 'singlesUnits'
+  | 'singlesCases'
+  | 'pickfaceLayers'
+  | 'pickfaceCases'
+  | 'bulkPallets'
+  | 'bulkLayers'
+  | 'bulkCases';
+
+type ZoneKey = 'singles' | 'pickface' | 'bulk';
+
+const scanPallet = (video: HTMLVideoElement) => scanPalletBarcode(video, 'camera');
+
+const EMPTY_COUNTS: Record<ZoneField, string> = {
+  singlesUnits: '',
+  singlesCases: '',
+  pickfaceLayers: '',
+  pickfaceCases: '',
+  bulkPallets: '',
+  bulkLayers: '',
+  bulkCases: ''
+};
+
+const ZONES: Array<{ key: ZoneKey; title: string; description: string; fields: Array<{ field: ZoneField; label: string }> }> = [
+  {
+    key: 'singles',
+    title: 'Singles',
+    description: 'Loose units and broken cases.',
+    fields: [
+      { field: 'singlesUnits', label: 'Units' },
+      { field: 'singlesCases', label: 'Cases' }
+    ]
+  },
+  {
+    key: 'pickface',
+    title: 'Pick Face',
+    description: 'Stock on the picking location.',
+    fields: [
+      { field: 'pickfaceLayers', label: 'Layers' },
+      { field: 'pickfaceCases', label: 'Cases' }
+    ]
+  },
+  {
+    key: 'bulk',
+    title: 'Bulk',
+    description: 'Full and part pallets in racking or block stack.',
+    fields: [
+      { field: 'bulkPallets', label: 'Pallets' },
+      { field: 'bulkLayers', label: 'Layers' },
+      { field: 'bulkCases', label: 'Cases' }
+    ]
+  }
+];
+
+const COUNT_SEQUENCE_LABELS: Record<number, string> = {
+  2: 'the second',
+  3: 'the third'
+};
+
+function describeDuplicatePhoto(match: DuplicatePhotoMatch): string {
+  const earlier = [
+    match.stock_code,
+    match.location_code ? `at ${match.location_code}` : null,
+    match.counted_by_name ? `by ${match.counted_by_name}` : null,
+    match.counted_at ? `on ${new Date(match.counted_at).toLocaleString()}` : null
+  ]
+    .filter(Boolean)
+    .join(' ');
+  return `This photo looks the same as the one on an earlier count${
+    earlier ? ` (${earlier})` : ''
+  }. The count was saved and flagged for a manager — retake the photo next time.`;
+}
 
 interface StocktakeEntryProps {
   initialStockCode?: string;
   initialLotNumber?: string;
+  initialLocationCode?: string | null;
   recountTaskId?: string;
   onSubmitSuccess?: () => Promise<void> | void;
   compact?: boolean;
@@ -17,28 +105,72 @@ interface StocktakeEntryProps {
 export default function StocktakeEntry({
   initialStockCode,
   initialLotNumber,
+  initialLocationCode,
   recountTaskId,
   onSubmitSuccess,
   compact = false,
   hideHeading = false
 }: StocktakeEntryProps) {
   const { eventId, warehouseCode, selectedEvent, selectedWarehouse, loading: contextLoading } = useEventWarehouse();
-  const [counts, setCounts] = useState({
-    pallets: '',
-    layers: '',
-    cases: '',
-    units: ''
-  });
+  const [counts, setCounts] = useState<Record<ZoneField, string>>(EMPTY_COUNTS);
   const [photoFile, setPhotoFile] = useState<File | null>(null);
   const [photoCrops, setPhotoCrops] = useState<RoiCropResult | null>(null);
+  const [photoQuality, setPhotoQuality] = useState<PhotoQuality | null>(null);
+  const [photoHash, setPhotoHash] = useState<string | null>(null);
+  // One key per payload: resubmitting an unchanged count after a lost response replays the original submission
+  // instead of duplicating it, while an edited count gets a new key so the correction is not dropped
+  const [submissionKey, setSubmissionKey] = useState(() => crypto.randomUUID());
+  const [scan, setScan] = useState<BarcodeScan | null>(null);
+  const [gs1Label, setGs1Label] = useState<Gs1Label | null>(null);
+  const [lotNumber, setLotNumber] = useState(initialLotNumber ?? '');
+  const [fillingDate, setFillingDate] = useState('');
+  const [palletId, setPalletId] = useState('');
+  const [palletScannerOpen, setPalletScannerOpen] = useState(false);
+  const [resolvedProduct, setResolvedProduct] = useState<ResolvedBarcode | null>(null);
+  const [resolving, setResolving] = useState(false);
+  const [lookupFailed, setLookupFailed] = useState(false);
+  // Lookups of overlapping scans can finish out of order; only the latest scan's result is shown
+  const latestScanRef = useRef(0);
+  const [stockCodeProduct, setStockCodeProduct] = useState<ProductPalletView | null>(null);
+  // The location stays selected between submissions, since a counter usually works through one bin at a time
+  const [selectedLocation, setSelectedLocation] = useState<WarehouseLocation | null>(null);
+  const [locationsAvailable, setLocationsAvailable] = useState(false);
   const [successMessage, setSuccessMessage] = useState('');
+  const [warningMessage, setWarningMessage] = useState('');
   const [errorMessage, setErrorMessage] = useState('');
 
   useEffect(() => {
-    setCounts({ pallets: '', layers: '', cases: '', units: '' });
+    setCounts(EMPTY_COUNTS);
+    setLotNumber(initialLotNumber ?? '');
+    setFillingDate('');
+    setPalletId('');
   }, [initialStockCode, initialLotNumber]);
 
+  useEffect(() => {
+    setSubmissionKey(crypto.randomUUID());
+  }, [counts, lotNumber, fillingDate, palletId, selectedLocation?.code, scan, resolvedProduct, photoFile]);
+
+  useEffect(() => {
+    setStockCodeProduct(null);
+    if (!initialStockCode) return;
+
+    let cancelled = false;
+    getByStockCode(initialStockCode).then(({ data, error }) => {
+      if (error) {
+        console.error('Product lookup failed', error);
+        return;
+      }
+      if (!cancelled) setStockCodeProduct(data ?? null);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [initialStockCode]);
+
   const submitCount = useSubmitCount();
+  const ruleSetsQuery = useActiveLabelRuleSets();
+  // Chosen by stock code when the entry starts with one, as recount tasks do; otherwise the catch-all set applies
+  const labelRuleSet = selectLabelRuleSet(ruleSetsQuery.data ?? [], { stockCode: initialStockCode });
 
   function parseNumberInput(value: string): number | null {
     if (!value) return null;
@@ -47,30 +179,99 @@ export default function StocktakeEntry({
     return Math.round(parsed);
   }
 
-  const palletCount = parseNumberInput(counts.pallets);
-  const layerCount = parseNumberInput(counts.layers);
-  const caseCount = parseNumberInput(counts.cases);
-  const unitCount = parseNumberInput(counts.units);
+  const quantities = Object.fromEntries(
+    Object.entries(counts).map(([field, value]) => [field, parseNumberInput(value)])
+  ) as Record<ZoneField, number | null>;
+
+  const hasQuantity = Object.values(quantities).some((value) => (value ?? 0) > 0);
 
-  const hasQuantity = (palletCount ?? 0) > 0 || (layerCount ?? 0) > 0 || (caseCount ?? 0) > 0 || (unitCount ?? 0) > 0;
+  const identifiedProduct = resolvedProduct?.product ?? stockCodeProduct;
+  const expectedUnitsQuery = useExpectedUnits(identifiedProduct?.stock_code);
+  // Missing packaging factors count as 1, as computeTotalUnits does when the count is saved
+  const upc = Math.max(1, identifiedProduct?.units_per_case || 1);
+  const cpl = Math.max(1, identifiedProduct?.cases_per_layer || 1);
+  const lpp = Math.max(1, identifiedProduct?.layers_per_pallet || 1);
+  const zoneSubtotals: Record<ZoneKey, number> = {
+    singles: unitsSingles(quantities.singlesUnits, quantities.singlesCases, upc),
+    pickface: unitsPickface(quantities.pickfaceLayers, quantities.pickfaceCases, upc, cpl),
+    bulk: unitsBulk(quantities.bulkPallets, quantities.bulkLayers, quantities.bulkCases, upc, cpl, lpp)
+  };
+  const previewUnits = zoneSubtotals.singles + zoneSubtotals.pickface + zoneSubtotals.bulk;
 
-  function handlePhotoChange(file: File | null, crops: RoiCropResult | null) {
+  const photoNeedsRetake = PHOTO_QUALITY_BLOCKS && photoQuality?.verdict === 'poor';
+
+  function handlePhotoChange(
+    file: File | null,
+    crops: RoiCropResult | null,
+    quality: PhotoQuality | null,
+    hash: string | null
+  ) {
     setPhotoFile(file);
     setPhotoCrops(crops ?? null);
+    setPhotoQuality(quality);
+    setPhotoHash(hash);
+  }
+
+  // GS1-128 labels carry the SSCC, batch, production date and case count, so pre-fill whatever the counter has not typed
+  function applyGs1Label(label: Gs1Label | null) {
+    setGs1Label(label);
+    if (!label) return;
+    if (label.batch && !initialLotNumber) {
+      setLotNumber((current) => current || label.batch || '');
+    }
+    if (label.productionDate) {
+      setFillingDate((current) => current || label.productionDate || '');
+    }
+    if (label.sscc) {
+      setPalletId((current) => current || label.sscc || '');
+    }
+    if (label.count !== undefined) {
+      setCounts((prev) => (prev.bulkCases ? prev : { ...prev, bulkCases: String(label.count) }));
+    }
+  }
+
+  async function handleBarcodeDetected(nextScan: BarcodeScan) {
+    const scanId = ++latestScanRef.current;
+    setScan(nextScan);
+    applyGs1Label(nextScan.symbology === 'GS1-128' ? parseGs1(nextScan.rawValue) : null);
+    setResolvedProduct(null);
+    setLookupFailed(false);
+    setResolving(true);
+    try {
+      const resolved = await resolveBarcode(nextScan.code, nextScan.symbology);
+      if (scanId !== latestScanRef.current) return;
+      setResolvedProduct(resolved);
+    } catch (error) {
+      console.error('Barcode lookup failed', error);
+      if (scanId !== latestScanRef.current) return;
+      setLookupFailed(true);
+    } finally {
+      if (scanId === latestScanRef.current) setResolving(false);
+    }
   }
 
   function resetQuantities() {
-    setCounts({ pallets: '', layers: '', cases: '', units: '' });
+    setCounts(EMPTY_COUNTS);
   }
 
   function handleResetAfterSubmit() {
     resetQuantities();
-    handlePhotoChange(null, null);
+    handlePhotoChange(null, null, null, null);
+    latestScanRef.current += 1;
+    setScan(null);
+    setGs1Label(null);
+    setLookupFailed(false);
+    setResolving(false);
+    setLotNumber(initialLotNumber ?? '');
+    setFillingDate('');
+    setPalletId('');
+    setResolvedProduct(null);
   }
 
   async function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
     event.preventDefault();
     setSuccessMessage('');
+    setWarningMessage('');
     setErrorMessage('');
 
     if (!eventId || !warehouseCode) {
@@ -83,32 +284,88 @@ export default function StocktakeEntry({
       return;
     }
 
-    try {
-      const payload: SubmitCountPayload = {
-        eventId,
-        warehouseCode,
-        photo: photoFile,
-        roiCrops: photoCrops,
-        recountTaskId
-      };
-      if (initialStockCode) {
-        payload.stockCode = initialStockCode;
+    if (palletId.trim() && !quantities.bulkPallets && !quantities.bulkLayers && !quantities.bulkCases) {
+      setErrorMessage('A pallet SSCC can only be recorded with a bulk quantity.');
+      return;
+    }
+
+    if (photoNeedsRetake) {
+      setErrorMessage('The photo is too blurry, dark or bright to read. Retake it before submitting.');
+      return;
+    }
+
+    if (locationsAvailable && !selectedLocation) {
+      setErrorMessage('Scan or select the location you are counting.');
+      return;
+    }
+
+    const payload: SubmitCountPayload = {
+      eventId,
+      warehouseCode,
+      photo: photoFile,
+      roiCrops: photoCrops,
+      photoQuality,
+      photoHash,
+      recountTaskId,
+      locationCode: selectedLocation?.code,
+      submissionKey
+    };
+    if (initialStockCode) {
+      payload.stockCode = initialStockCode;
+    } else if (resolvedProduct?.product.stock_code) {
+      payload.stockCode = resolvedProduct.product.stock_code;
+    }
+    if (resolvedProduct) {
+      if (resolvedProduct.matchedOn === 'case_barcode') {
+        payload.caseBarcode = resolvedProduct.barcode;
+      } else {
+        payload.unitBarcode = resolvedProduct.barcode;
       }
-      if (initialLotNumber) {
-        payload.lotNumber = initialLotNumber;
+    } else if (scan) {
+      if (scan.symbology === 'EAN-13') {
+        payload.unitBarcode = scan.code;
+      } else {
+        payload.caseBarcode = scan.code;
       }
+    }
+    if (lotNumber.trim()) {
+      payload.lotNumber = lotNumber.trim();
+    }
+    if (fillingDate) {
+      payload.fillingDate = fillingDate;
+    }
+    if (palletId.trim()) {
+      payload.palletId = palletId.trim();
+    }
 
-      payload.bulkPallets = palletCount;
-      payload.bulkLayers = layerCount;
-      payload.bulkCases = caseCount;
-      payload.singlesUnits = unitCount;
+    Object.assign(payload, quantities);
 
-      await submitCount.mutateAsync(payload);
+    try {
+      const result = await submitCount.mutateAsync(payload);
 
-      setSuccessMessage('Captured ✓ — processing in background');
+      setSuccessMessage(
+        result.unresolved
+          ? 'Captured ✓ — product not recognised, sent to a manager for review'
+          : result.count_sequence && result.count_sequence > 1
+          ? `Captured ✓ as ${COUNT_SEQUENCE_LABELS[result.count_sequence] ?? 'an independent'} count — processing in background`
+          : 'Captured ✓ — processing in background'
+      );
+      if (result.duplicate_photo) {
+        setWarningMessage(describeDuplicatePhoto(result.duplicate_photo));
+      }
       handleResetAfterSubmit();
       await onSubmitSuccess?.();
     } catch (error) {
+      if (isNetworkFailure(error)) {
+        try {
+          await enqueueCount(payload);
+          setSuccessMessage('Saved offline — will sync automatically when back online');
+          handleResetAfterSubmit();
+          return;
+        } catch (queueError) {
+          console.error('Failed to queue count offline', queueError);
+        }
+      }
       console.error('Count submission failed', error);
       setErrorMessage(error instanceof Error ? error.message : 'Unable to submit count');
     }
@@ -124,7 +381,7 @@ export default function StocktakeEntry({
           <div className="space-y-1">
             <h2 className="text-2xl font-bold text-gray-900">Capture Count</h2>
             <p className="text-gray-600 text-sm">
-              Snap a photo, note the pallet, layer, case and unit counts, and move on. AI extraction handles the rest in the
+              Snap a photo, count each zone — singles, pick face and bulk — and move on. AI extraction handles the rest in the
               background.
             </p>
           </div>
@@ -143,6 +400,11 @@ export default function StocktakeEntry({
               <span className="inline-flex items-center gap-2 rounded-full bg-emerald-50 px-3 py-1 text-emerald-700">
                 Warehouse: {selectedWarehouse?.name ?? (contextLoading ? 'Loading…' : 'Select a warehouse')}
               </span>
+              {selectedEvent && (
+                <span className="inline-flex items-center gap-2 rounded-full bg-gray-100 px-3 py-1 text-gray-700">
+                  {selectedEvent.counting_mode === 'guided' ? 'Guided count' : 'Blind count'}
+                </span>
+              )}
             </div>
           </div>
         </div>
@@ -154,6 +416,13 @@ export default function StocktakeEntry({
           </div>
         )}
 
+        {warningMessage && (
+          <div className="flex items-center gap-2 rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+            <AlertTriangle className="h-5 w-5 shrink-0" />
+            {warningMessage}
+          </div>
+        )}
+
         {errorMessage && (
           <div className="flex items-center gap-2 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
             <AlertCircle className="h-5 w-5" />
@@ -162,34 +431,127 @@ export default function StocktakeEntry({
         )}
 
         <form onSubmit={handleSubmit} className="space-y-6">
-          <PhotoCapture file={photoFile} onChange={handlePhotoChange} />
+          <LocationPicker
+            warehouseCode={warehouseCode}
+            value={selectedLocation}
+            onChange={setSelectedLocation}
+            onLocationsLoaded={(locations) => setLocationsAvailable(locations.length > 0)}
+            initialLocationCode={initialLocationCode}
+          />
+
+          <PhotoCapture
+            file={photoFile}
+            quality={photoQuality}
+            onChange={handlePhotoChange}
+            onBarcodeDetected={handleBarcodeDetected}
+            ruleSet={labelRuleSet}
+          />
+
+          {scan && (
+            <div className="flex flex-wrap items-center gap-2 rounded-lg border border-gray-200 bg-gray-50 px-4 py-3 text-sm text-gray-700">
+              <ScanLine className="h-4 w-4 text-blue-600" />
+              <span className="font-medium">
+                {scan.symbology} {scan.code}
+              </span>
+              {resolving ? (
+                <span className="inline-flex items-center gap-1 text-gray-500">
+                  <Loader2 className="h-4 w-4 animate-spin" /> Looking up product…
+                </span>
+              ) : lookupFailed ? (
+                <span className="inline-flex items-center gap-1 text-red-700">
+                  <AlertCircle className="h-4 w-4" /> Product lookup failed — scan again
+                </span>
+              ) : resolvedProduct ? (
+                <span className="text-emerald-700">→ {resolvedProduct.product.stock_code}</span>
+              ) : (
+                <span className="text-amber-700">Not found in the product master</span>
+              )}
+              {gs1Label && gs1Label.errors.length > 0 && (
+                <span className="w-full text-xs text-amber-700">Label: {gs1Label.errors.join('; ')}</span>
+              )}
+            </div>
+          )}
 
           <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
-            <NumberField
-              label="Pallets"
-              value={counts.pallets}
-              onChange={(value) => setCounts((prev) => ({ ...prev, pallets: value }))}
-            />
-            <NumberField
-              label="Layers"
-              value={counts.layers}
-              onChange={(value) => setCounts((prev) => ({ ...prev, layers: value }))}
-            />
-            <NumberField
-              label="Cases"
-              value={counts.cases}
-              onChange={(value) => setCounts((prev) => ({ ...prev, cases: value }))}
-            />
-            <NumberField
-              label="Units"
-              value={counts.units}
-              onChange={(value) => setCounts((prev) => ({ ...prev, units: value }))}
+            <label className="flex flex-col gap-2 text-sm font-medium text-gray-700">
+              Lot number
+              <input
+                type="text"
+                value={lotNumber}
+                onChange={(event) => setLotNumber(event.target.value)}
+                disabled={Boolean(initialLotNumber)}
+                className="rounded-lg border border-gray-300 px-3 py-2 text-base focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200 disabled:bg-gray-50"
+              />
+            </label>
+            <label className="flex flex-col gap-2 text-sm font-medium text-gray-700">
+              Filling date
+              <input
+                type="date"
+                value={fillingDate}
+                onChange={(event) => setFillingDate(event.target.value)}
+                className="rounded-lg border border-gray-300 px-3 py-2 text-base focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200"
+              />
+            </label>
+          </div>
+
+          {identifiedProduct && (
+            <ProductConfirmationCard
+              product={identifiedProduct}
+              totalUnits={previewUnits}
+              matchedOn={resolvedProduct?.matchedOn ?? 'stock_code'}
+              expectedUnits={expectedUnitsQuery.data}
             />
+          )}
+
+          <div className="grid grid-cols-1 gap-4 lg:grid-cols-3">
+            {ZONES.map((zone) => (
+              <fieldset key={zone.key} className="rounded-lg border border-gray-200 p-4 space-y-3">
+                <legend className="px-1 text-sm font-semibold text-gray-900">{zone.title}</legend>
+                <p className="text-xs text-gray-500">{zone.description}</p>
+                <div className="grid grid-cols-2 gap-3">
+                  {zone.fields.map(({ field, label }) => (
+                    <NumberField
+                      key={field}
+                      label={label}
+                      value={counts[field]}
+                      onChange={(value) => setCounts((prev) => ({ ...prev, [field]: value }))}
+                    />
+                  ))}
+                </div>
+                {zone.key === 'bulk' && (
+                  <label className="flex flex-col gap-2 text-sm font-medium text-gray-700">
+                    Pallet SSCC / license plate
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        value={palletId}
+                        onChange={(event) => setPalletId(event.target.value)}
+                        placeholder="Optional"
+                        className="min-w-0 flex-1 rounded-lg border border-gray-300 px-3 py-2 text-base focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setPalletScannerOpen(true)}
+                        aria-label="Scan pallet label"
+                        className="inline-flex items-center justify-center rounded-lg border border-blue-200 px-3 py-2 text-blue-700 transition hover:bg-blue-50"
+                      >
+                        <ScanLine className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </label>
+                )}
+                <p className="border-t border-gray-100 pt-2 text-right text-sm font-medium text-gray-700">
+                  {identifiedProduct ? `= ${zoneSubtotals[zone.key].toLocaleString()} units` : 'Identify the product to see units'}
+                </p>
+              </fieldset>
+            ))}
           </div>
 
           <button
             type="submit"
-            disabled={submitCount.isPending || !hasQuantity || !eventId || !warehouseCode || !photoFile}
+            disabled={
+              submitCount.isPending || !hasQuantity || !eventId || !warehouseCode || !photoFile || photoNeedsRetake
+            }
             className="sticky bottom-4 w-full rounded-lg bg-blue-600 px-4 py-3 text-lg font-semibold text-white shadow-lg transition enabled:hover:bg-blue-700 disabled:opacity-60"
           >
             {submitCount.isPending ? (
@@ -201,6 +563,19 @@ export default function StocktakeEntry({
             )}
           </button>
         </form>
+
+        {palletScannerOpen && (
+          <BarcodeScanner
+            title="Scan pallet label"
+            hint="Hold the SSCC or license plate barcode inside the frame."
+            scan={scanPallet}
+            onDetected={(palletScan) => {
+              setPalletScannerOpen(false);
+              setPalletId(palletScan.code);
+            }}
+            onClose={() => setPalletScannerOpen(false)}
+          />
+        )}
       </div>
     </div>
   );
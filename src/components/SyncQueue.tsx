@@ -1,166 +1,139 @@
-import { useState, useEffect } from 'react';
-import { Upload, Trash2, CheckCircle, Loader2 } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+import {
+  AlertCircle,
+  CheckCircle,
+  Clock,
+  HardDrive,
+  ImageOff,
+  Loader2,
+  RefreshCcw,
+  Trash2,
+  Upload,
+  WifiOff
+} from 'lucide-react';
 import {
-  getQueue,
-  removeFromQueue,
   clearQueue,
-  rebuildFileFromDataUrl,
-  QueuedEntry
+  getQueueStorageUsage,
+  listQueuedCounts,
+  removeQueuedCount,
+  retryQueuedCount,
+  subscribeToQueue,
+  type QueuedCount,
+  type QueueStorageUsage
 } from '../lib/syncQueue';
-import { supabase } from '../lib/supabase';
-import { useAuth } from '../hooks/useAuth';
+import { useCountQueueSync } from '../hooks/useCountQueueSync';
+
+const ZONE_LABELS: Array<{ key: keyof QueuedCount['payload']; label: string }> = [
+  { key: 'singlesUnits', label: 'Singles units' },
+  { key: 'singlesCases', label: 'Singles cases' },
+  { key: 'pickfaceLayers', label: 'Pick-face layers' },
+  { key: 'pickfaceCases', label: 'Pick-face cases' },
+  { key: 'bulkPallets', label: 'Bulk pallets' },
+  { key: 'bulkLayers', label: 'Bulk layers' },
+  { key: 'bulkCases', label: 'Bulk cases' }
+];
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
 
 export default function SyncQueue() {
-  const { user } = useAuth();
-  const [queue, setQueue] = useState<QueuedEntry[]>(getQueue());
+  const { syncNow } = useCountQueueSync();
+  const [queue, setQueue] = useState<QueuedCount[]>([]);
+  const [storage, setStorage] = useState<QueueStorageUsage | null>(null);
+  const [loading, setLoading] = useState(true);
   const [syncing, setSyncing] = useState(false);
-  const [syncProgress, setSyncProgress] = useState<Record<string, string>>({});
+  const [online, setOnline] = useState(() => (typeof navigator === 'undefined' ? true : navigator.onLine));
+  const [error, setError] = useState('');
 
-  useEffect(() => {
-    const interval = setInterval(() => {
-      setQueue(getQueue());
-    }, 1000);
-    return () => clearInterval(interval);
+  const refresh = useCallback(async () => {
+    try {
+      const [entries, usage] = await Promise.all([listQueuedCounts(), getQueueStorageUsage()]);
+      setQueue(entries);
+      setStorage(usage);
+    } catch (err) {
+      console.error('Failed to read offline queue', err);
+      setError(err instanceof Error ? err.message : 'Failed to read the offline queue.');
+    } finally {
+      setLoading(false);
+    }
   }, []);
 
-  async function syncEntry(entry: QueuedEntry) {
-    if (!user) return;
+  useEffect(() => {
+    void refresh();
+    return subscribeToQueue(() => {
+      void refresh();
+    });
+  }, [refresh]);
 
+  useEffect(() => {
+    const handleOnline = () => setOnline(true);
+    const handleOffline = () => setOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  async function handleSyncAll() {
+    setSyncing(true);
+    setError('');
     try {
-      setSyncProgress(prev => ({ ...prev, [entry.id]: 'uploading' }));
-
-      const uploadSource =
-        entry.imageFile ??
-        rebuildFileFromDataUrl(entry.imageDataUrl, entry.imageFileMetadata);
-
-      if (!uploadSource) {
-        throw new Error('Unable to reconstruct image file for upload');
-      }
-
-      const originalName = entry.imageFileMetadata.name || 'image';
-      const fileExtFromName = originalName.includes('.')
-        ? originalName.split('.').pop()
-        : undefined;
-      const fileExt = fileExtFromName || entry.imageFileMetadata.type.split('/').pop() || 'bin';
-      const fileName = `${user.id}/${Date.now()}.${fileExt}`;
-
-      const { error: uploadError } = await supabase.storage
-        .from('stocktake-images')
-        .upload(fileName, uploadSource);
-
-      if (uploadError) throw uploadError;
-
-      const { data: { publicUrl } } = supabase.storage
-        .from('stocktake-images')
-        .getPublicUrl(fileName);
-
-      let productId = null;
-      if (entry.extractedData.barcode) {
-        const { data: product } = await supabase
-          .from('products')
-          .select('id')
-          .eq('barcode', entry.extractedData.barcode)
-          .maybeSingle();
-
-        productId = product?.id || null;
-      }
-
-      const { error: insertError } = await supabase
-        .from('stocktake_entries')
-        .insert({
-          user_id: user.id,
-          product_id: productId,
-          image_url: publicUrl,
-          extracted_product_name: entry.extractedData.product_name,
-          extracted_barcode: entry.extractedData.barcode,
-          extracted_lot_number: entry.extractedData.lot_number,
-          extracted_pack_size: entry.extractedData.pack_size,
-          actual_quantity: entry.quantity,
-          unit_type: entry.unitType,
-          branch: entry.branch,
-          location: entry.location,
-          expiry_date: entry.expiryDate || null,
-          synced: true
-        });
-
-      if (insertError) throw insertError;
-
-      setSyncProgress(prev => ({ ...prev, [entry.id]: 'success' }));
-      removeFromQueue(entry.id);
-
-      setTimeout(() => {
-        setSyncProgress(prev => {
-          const newProgress = { ...prev };
-          delete newProgress[entry.id];
-          return newProgress;
-        });
-      }, 2000);
-    } catch (error) {
-      console.error('Sync error:', error);
-      setSyncProgress(prev => ({ ...prev, [entry.id]: 'error' }));
+      await syncNow({ force: true });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sync failed.');
+    } finally {
+      setSyncing(false);
     }
   }
 
-  async function syncAll() {
-    setSyncing(true);
-    const currentQueue = getQueue();
+  async function handleRetry(entry: QueuedCount) {
+    await retryQueuedCount(entry.id);
+    await handleSyncAll();
+  }
 
-    for (const entry of currentQueue) {
-      await syncEntry(entry);
+  async function handleRemove(entry: QueuedCount) {
+    if (confirm('Discard this count? It has not reached the server yet.')) {
+      await removeQueuedCount(entry.id);
     }
-
-    setSyncing(false);
-    setQueue(getQueue());
   }
 
-  function handleClearQueue() {
-    if (confirm('Are you sure you want to clear all pending entries?')) {
-      clearQueue();
-      setQueue([]);
-      setSyncProgress({});
+  async function handleClearQueue() {
+    if (confirm('Are you sure you want to discard all pending counts?')) {
+      await clearQueue();
     }
   }
 
-  if (queue.length === 0) {
-    return (
-      <div className="max-w-4xl mx-auto">
-        <div className="bg-white rounded-xl shadow-lg p-8 text-center">
-          <CheckCircle className="w-16 h-16 text-green-600 mx-auto mb-4" />
-          <h2 className="text-2xl font-bold text-gray-800 mb-2">All Synced!</h2>
-          <p className="text-gray-600">No pending entries to upload</p>
-        </div>
-      </div>
-    );
-  }
+  const usagePercent = storage && storage.quota > 0 ? Math.min(100, (storage.usage / storage.quota) * 100) : 0;
 
   return (
-    <div className="max-w-4xl mx-auto">
-      <div className="bg-white rounded-xl shadow-lg p-6">
-        <div className="flex items-center justify-between mb-6">
-          <h2 className="text-2xl font-bold text-gray-800">
-            Sync Queue ({queue.length})
-          </h2>
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div className="bg-white rounded-xl shadow-lg p-6 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-800">Sync Queue ({queue.length})</h2>
+            <p className="text-sm text-gray-600">
+              Counts captured without a connection are stored on this device and sent automatically when you are back
+              online.
+            </p>
+          </div>
           <div className="flex gap-2">
             <button
-              onClick={syncAll}
-              disabled={syncing}
+              onClick={handleSyncAll}
+              disabled={syncing || queue.length === 0 || !online}
               className="bg-blue-600 text-white px-4 py-2 rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50 transition-all flex items-center gap-2"
             >
-              {syncing ? (
-                <>
-                  <Loader2 className="w-4 h-4 animate-spin" />
-                  Syncing...
-                </>
-              ) : (
-                <>
-                  <Upload className="w-4 h-4" />
-                  Sync All
-                </>
-              )}
+              {syncing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+              {syncing ? 'Syncing...' : 'Sync Now'}
             </button>
             <button
               onClick={handleClearQueue}
-              disabled={syncing}
+              disabled={syncing || queue.length === 0}
               className="bg-red-600 text-white px-4 py-2 rounded-lg font-medium hover:bg-red-700 disabled:opacity-50 transition-all flex items-center gap-2"
             >
               <Trash2 className="w-4 h-4" />
@@ -169,66 +142,174 @@ export default function SyncQueue() {
           </div>
         </div>
 
+        {!online && (
+          <div className="flex items-center gap-2 rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+            <WifiOff className="h-4 w-4" />
+            You are offline. Queued counts will sync when the connection returns.
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-center gap-2 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+            <AlertCircle className="h-4 w-4" />
+            {error}
+          </div>
+        )}
+
+        {storage && (
+          <div className="space-y-1">
+            <div className="flex items-center justify-between text-xs text-gray-600">
+              <span className="flex items-center gap-1">
+                <HardDrive className="h-4 w-4" /> Device storage
+              </span>
+              <span>
+                {formatBytes(storage.usage)} of {formatBytes(storage.quota)} used
+              </span>
+            </div>
+            <div className="h-2 overflow-hidden rounded-full bg-gray-100">
+              <div
+                className={`h-full rounded-full ${usagePercent > 80 ? 'bg-red-500' : 'bg-blue-500'}`}
+                style={{ width: `${usagePercent}%` }}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="bg-white rounded-xl shadow-lg p-8 text-center">
+          <Loader2 className="mx-auto h-10 w-10 animate-spin text-blue-600" />
+        </div>
+      ) : queue.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-lg p-8 text-center">
+          <CheckCircle className="w-16 h-16 text-green-600 mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-gray-800 mb-2">All Synced!</h2>
+          <p className="text-gray-600">No pending counts on this device</p>
+        </div>
+      ) : (
         <div className="space-y-4">
           {queue.map((entry) => (
-            <div
+            <QueuedCountCard
               key={entry.id}
-              className="border border-gray-200 rounded-lg p-4 hover:bg-gray-50 transition-all"
-            >
-              <div className="flex items-start gap-4">
-                <img
-                  src={entry.imageDataUrl}
-                  alt="Product"
-                  className="w-20 h-20 object-cover rounded-lg"
-                />
-                <div className="flex-1">
-                  <h3 className="font-semibold text-gray-800">
-                    {entry.extractedData.product_name || 'Unknown Product'}
-                  </h3>
-                  <p className="text-sm text-gray-600">
-                    Barcode: {entry.extractedData.barcode || 'N/A'}
-                  </p>
-                  <p className="text-sm text-gray-600">
-                    Quantity: {entry.quantity} {entry.unitType}
-                  </p>
-                  <p className="text-sm text-gray-600">
-                    Branch: {entry.branch}
-                  </p>
-                  <p className="text-sm text-gray-600">
-                    Location: {entry.location}
-                  </p>
-                  <p className="text-sm text-gray-600">
-                    Expiry Date: {entry.expiryDate || 'N/A'}
-                  </p>
-                  <p className="text-xs text-gray-500 mt-1">
-                    Added: {new Date(entry.timestamp).toLocaleString()}
-                  </p>
-                </div>
-                <div className="flex items-center gap-2">
-                  {syncProgress[entry.id] === 'uploading' && (
-                    <Loader2 className="w-5 h-5 animate-spin text-blue-600" />
-                  )}
-                  {syncProgress[entry.id] === 'success' && (
-                    <CheckCircle className="w-5 h-5 text-green-600" />
-                  )}
-                  {syncProgress[entry.id] === 'error' && (
-                    <span className="text-red-600 text-sm">Failed</span>
-                  )}
-                  {!syncProgress[entry.id] && (
-                    <button
-                      onClick={() => syncEntry(entry)}
-                      disabled={syncing}
-                      className="text-blue-600 hover:text-blue-700 disabled:opacity-50"
-                    >
-                      <Upload className="w-5 h-5" />
-                    </button>
-                  )}
-                </div>
-              </div>
-            </div>
+              entry={entry}
+              disabled={syncing}
+              onRetry={() => handleRetry(entry)}
+              onRemove={() => handleRemove(entry)}
+            />
           ))}
         </div>
+      )}
+    </div>
+  );
+}
+
+function QueuedCountCard({
+  entry,
+  disabled,
+  onRetry,
+  onRemove
+}: {
+  entry: QueuedCount;
+  disabled: boolean;
+  onRetry: () => void;
+  onRemove: () => void;
+}) {
+  const [thumbnail, setThumbnail] = useState<string | null>(null);
+  const { payload } = entry;
+
+  useEffect(() => {
+    if (!payload.photo) {
+      setThumbnail(null);
+      return;
+    }
+    const url = URL.createObjectURL(payload.photo);
+    setThumbnail(url);
+    return () => URL.revokeObjectURL(url);
+  }, [payload.photo]);
+
+  const quantities = ZONE_LABELS.filter(({ key }) => Number(payload[key] ?? 0) > 0);
+
+  return (
+    <div className="bg-white rounded-xl shadow p-4">
+      <div className="flex items-start gap-4">
+        {thumbnail ? (
+          <img src={thumbnail} alt="Count" className="w-20 h-20 object-cover rounded-lg" />
+        ) : (
+          <div className="flex w-20 h-20 items-center justify-center rounded-lg bg-gray-100 text-gray-400">
+            <ImageOff className="h-6 w-6" />
+          </div>
+        )}
+        <div className="flex-1 space-y-1">
+          <h3 className="font-semibold text-gray-800">
+            {payload.stockCode || payload.caseBarcode || payload.unitBarcode || 'Unidentified product'}
+          </h3>
+          {payload.lotNumber && <p className="text-sm text-gray-600">Lot {payload.lotNumber}</p>}
+          <p className="text-sm text-gray-600">
+            {quantities.length > 0
+              ? quantities.map(({ key, label }) => `${label}: ${payload[key]}`).join(' · ')
+              : 'No quantities'}
+          </p>
+          <p className="text-xs text-gray-500">
+            Captured {new Date(entry.createdAt).toLocaleString()} · Warehouse {payload.warehouseCode}
+            {payload.locationCode ? ` · Location ${payload.locationCode}` : ''}
+          </p>
+          {entry.lastError && (
+            <p className="text-xs text-red-600">
+              {entry.status === 'failed' ? 'Rejected' : `Attempt ${entry.attempts} failed`}: {entry.lastError}
+            </p>
+          )}
+        </div>
+        <div className="flex flex-col items-end gap-2">
+          <QueueStatusBadge entry={entry} />
+          <div className="flex gap-2">
+            <button
+              onClick={onRetry}
+              disabled={disabled || entry.status === 'syncing'}
+              className="text-blue-600 hover:text-blue-700 disabled:opacity-50"
+              title="Retry now"
+            >
+              <RefreshCcw className="w-5 h-5" />
+            </button>
+            <button
+              onClick={onRemove}
+              disabled={disabled || entry.status === 'syncing'}
+              className="text-red-600 hover:text-red-700 disabled:opacity-50"
+              title="Discard"
+            >
+              <Trash2 className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
       </div>
     </div>
   );
 }
+
+function QueueStatusBadge({ entry }: { entry: QueuedCount }) {
+  switch (entry.status) {
+    case 'syncing':
+      return (
+        <span className="inline-flex items-center gap-1 rounded-full bg-blue-50 px-2 py-1 text-xs text-blue-700">
+          <Loader2 className="h-3 w-3 animate-spin" /> Syncing
+        </span>
+      );
+    case 'error':
+      return (
+        <span className="inline-flex items-center gap-1 rounded-full bg-amber-50 px-2 py-1 text-xs text-amber-700">
+          <Clock className="h-3 w-3" /> Retry {new Date(entry.nextAttemptAt).toLocaleTimeString()}
+        </span>
+      );
+    case 'failed':
+      return (
+        <span className="inline-flex items-center gap-1 rounded-full bg-red-50 px-2 py-1 text-xs text-red-700">
+          <AlertCircle className="h-3 w-3" /> Needs attention
+        </span>
+      );
+    default:
+      return (
+        <span className="inline-flex items-center gap-1 rounded-full bg-gray-100 px-2 py-1 text-xs text-gray-700">
+          <Clock className="h-3 w-3" /> Pending
+        </span>
+      );
+  }
+}
@@ -0,0 +1,413 @@
+import { useMemo, useState } from 'react';
+import { AlertCircle, CheckCircle, HelpCircle, ImageOff, Link2, Loader2, Plus, RefreshCcw, Search, X } from 'lucide-react';
+import { useEventWarehouse } from '../hooks/useEventWarehouse';
+import {
+  useProductSearch,
+  useResolveCount,
+  useUnresolvedCounts,
+  type UnresolvedCount
+} from '../hooks/useUnresolvedCounts';
+import type { CountQuantityField, NewProductInput, ProductMatch } from '../../supabase/functions/_shared/countContract.ts';
+
+const QUANTITY_LABELS: Array<{ field: CountQuantityField; label: string }> = [
+  { field: 'singles_units', label: 'Singles units' },
+  { field: 'singles_cases', label: 'Singles cases' },
+  { field: 'pick_face_layers', label: 'Pick-face layers' },
+  { field: 'pick_face_cases', label: 'Pick-face cases' },
+  { field: 'bulk_pallets', label: 'Bulk pallets' },
+  { field: 'bulk_layers', label: 'Bulk layers' },
+  { field: 'bulk_cases', label: 'Bulk cases' }
+];
+
+const IDENTIFIER_LABELS: Record<ProductMatch, string> = {
+  stock_code: 'Stock code',
+  case_barcode: 'Case barcode',
+  unit_barcode: 'Unit barcode',
+  barcode: 'Barcode'
+};
+
+type Mode = 'map' | 'create';
+
+export default function UnresolvedCounts() {
+  const { eventId, warehouseCode, selectedEvent, selectedWarehouse } = useEventWarehouse();
+  const countsQuery = useUnresolvedCounts(eventId, warehouseCode);
+  const resolveCount = useResolveCount();
+  const [openCount, setOpenCount] = useState<{ id: string; mode: Mode } | null>(null);
+  const [actionError, setActionError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const counts = useMemo(() => countsQuery.data ?? [], [countsQuery.data]);
+
+  async function handleResolve(
+    count: UnresolvedCount,
+    target: { productId: string } | { newProduct: NewProductInput },
+    applyToMatching: boolean
+  ) {
+    setActionError('');
+    setMessage('');
+    try {
+      const result = await resolveCount.mutateAsync({
+        count_id: count.id,
+        ...('productId' in target ? { product_id: target.productId } : { new_product: target.newProduct }),
+        apply_to_matching: applyToMatching
+      });
+      const mapped = result.resolved_count_ids.length;
+      setMessage(
+        `${result.created_product ? 'Created' : 'Mapped to'} ${result.stock_code}; ${mapped} count${
+          mapped === 1 ? '' : 's'
+        } now included in totals.`
+      );
+      setOpenCount(null);
+      await countsQuery.refetch();
+    } catch (error) {
+      console.error('Failed to map unresolved count', error);
+      setActionError(error instanceof Error ? error.message : 'Failed to map count.');
+    }
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      <div className="bg-white rounded-xl shadow-lg p-6 space-y-4">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div>
+            <h2 className="flex items-center gap-2 text-2xl font-bold text-gray-900">
+              <HelpCircle className="h-6 w-6 text-purple-600" /> Unresolved products
+            </h2>
+            <p className="text-sm text-gray-600">
+              Counts in <strong>{selectedEvent?.name ?? '…'}</strong>
+              {selectedWarehouse ? (
+                <>
+                  {' '}
+                  for <strong>{selectedWarehouse.name}</strong>
+                </>
+              ) : null}{' '}
+              whose product could not be matched. They stay out of totals and variance until mapped.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => countsQuery.refetch()}
+            className="inline-flex items-center gap-2 rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-700 transition hover:bg-gray-50"
+          >
+            <RefreshCcw className="h-4 w-4" /> Refresh
+          </button>
+        </div>
+
+        {(countsQuery.error || actionError) && (
+          <div className="flex items-center gap-2 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+            <AlertCircle className="h-4 w-4" /> {actionError || countsQuery.error?.message}
+          </div>
+        )}
+        {message && (
+          <div className="flex items-center gap-2 rounded-lg border border-green-200 bg-green-50 px-4 py-3 text-sm text-green-700">
+            <CheckCircle className="h-4 w-4" /> {message}
+          </div>
+        )}
+      </div>
+
+      {!eventId ? (
+        <div className="bg-white rounded-xl shadow-lg p-8 text-center text-gray-600">
+          Select an event to review unresolved counts.
+        </div>
+      ) : countsQuery.isLoading ? (
+        <div className="bg-white rounded-xl shadow-lg p-8 text-center">
+          <Loader2 className="mx-auto h-10 w-10 animate-spin text-purple-600" />
+          <p className="mt-3 text-gray-600">Loading unresolved counts...</p>
+        </div>
+      ) : counts.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-lg p-8 text-center space-y-3">
+          <CheckCircle className="mx-auto h-10 w-10 text-green-500" />
+          <h3 className="text-lg font-semibold text-gray-800">Nothing to review</h3>
+          <p className="text-gray-600 text-sm">Every count in this event has been matched to a product.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {counts.map((count) => (
+            <UnresolvedCountCard
+              key={count.id}
+              count={count}
+              mode={openCount?.id === count.id ? openCount.mode : null}
+              busy={resolveCount.isPending}
+              onOpen={(mode) => setOpenCount({ id: count.id, mode })}
+              onClose={() => setOpenCount(null)}
+              onResolve={(target, applyToMatching) => handleResolve(count, target, applyToMatching)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function UnresolvedCountCard({
+  count,
+  mode,
+  busy,
+  onOpen,
+  onClose,
+  onResolve
+}: {
+  count: UnresolvedCount;
+  mode: Mode | null;
+  busy: boolean;
+  onOpen: (mode: Mode) => void;
+  onClose: () => void;
+  onResolve: (target: { productId: string } | { newProduct: NewProductInput }, applyToMatching: boolean) => void;
+}) {
+  const [applyToMatching, setApplyToMatching] = useState(true);
+  const quantities = QUANTITY_LABELS.filter(({ field }) => (count[field] ?? 0) > 0);
+  const identifierLabel = count.scanned_identifier_type ? IDENTIFIER_LABELS[count.scanned_identifier_type] : 'Identifier';
+
+  return (
+    <div className="bg-white rounded-xl shadow p-4 space-y-3">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-start">
+        {count.photo_url ? (
+          <a href={count.photo_url} target="_blank" rel="noreferrer" className="shrink-0">
+            <img src={count.photo_url} alt={count.scanned_identifier ?? 'Count photo'} className="w-32 h-32 object-cover rounded-lg" />
+          </a>
+        ) : (
+          <div className="flex w-32 h-32 shrink-0 items-center justify-center rounded-lg bg-gray-100 text-gray-400">
+            <ImageOff className="h-6 w-6" />
+          </div>
+        )}
+        <div className="flex-1 space-y-1 text-sm text-gray-600">
+          <h3 className="font-semibold text-gray-800">
+            {identifierLabel}: <span className="font-mono">{count.scanned_identifier ?? count.stock_code}</span>
+          </h3>
+          <p>
+            {count.warehouse_code}
+            {count.location_code ? ` · Location ${count.location_code}` : ''}
+            {count.lot_number ? ` · Lot ${count.lot_number}` : ''}
+          </p>
+          <p>
+            {quantities.length > 0
+              ? quantities.map(({ field, label }) => `${label}: ${count[field]}`).join(' · ')
+              : 'No quantities'}
+          </p>
+          <p className="text-xs text-gray-500">
+            Counted by {count.counted_by_name ?? 'unknown user'} on {new Date(count.created_at).toLocaleString()}
+          </p>
+          <div className="mt-2 rounded-lg bg-gray-50 px-3 py-2 text-xs">
+            <p className="font-semibold uppercase tracking-wide text-gray-500">Read from photo</p>
+            {count.extracted_at ? (
+              <p>
+                Name: {count.extracted_product_name || '—'} · Barcode: {count.extracted_barcode || '—'} · Pack size:{' '}
+                {count.extracted_pack_size || '—'} · Lot: {count.extracted_lot_number || '—'}
+              </p>
+            ) : (
+              <p>{count.photo_url ? 'Not processed yet.' : 'No photo was captured.'}</p>
+            )}
+          </div>
+        </div>
+        {!mode && (
+          <div className="flex gap-2 sm:flex-col">
+            <button
+              type="button"
+              onClick={() => onOpen('map')}
+              className="inline-flex items-center gap-1 rounded-lg bg-blue-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-blue-700"
+            >
+              <Link2 className="h-4 w-4" /> Map to product
+            </button>
+            <button
+              type="button"
+              onClick={() => onOpen('create')}
+              className="inline-flex items-center gap-1 rounded-lg border border-gray-300 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50"
+            >
+              <Plus className="h-4 w-4" /> New product
+            </button>
+          </div>
+        )}
+      </div>
+
+      {mode && (
+        <div className="space-y-3 rounded-lg border border-blue-100 bg-blue-50/40 p-3">
+          {mode === 'map' ? (
+            <ProductPicker
+              initialTerm={count.extracted_product_name ?? ''}
+              busy={busy}
+              onPick={(productId) => onResolve({ productId }, applyToMatching)}
+            />
+          ) : (
+            <NewProductForm count={count} busy={busy} onSave={(newProduct) => onResolve({ newProduct }, applyToMatching)} />
+          )}
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <label className="flex items-center gap-2 text-xs text-gray-600">
+              <input
+                type="checkbox"
+                checked={applyToMatching}
+                onChange={(event) => setApplyToMatching(event.target.checked)}
+              />
+              Also map other unresolved counts of this {identifierLabel.toLowerCase()} in {count.warehouse_code}
+            </label>
+            <button
+              type="button"
+              onClick={onClose}
+              className="inline-flex items-center gap-1 rounded-lg border border-gray-300 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50"
+            >
+              <X className="h-4 w-4" /> Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ProductPicker({
+  initialTerm,
+  busy,
+  onPick
+}: {
+  initialTerm: string;
+  busy: boolean;
+  onPick: (productId: string) => void;
+}) {
+  const [term, setTerm] = useState(initialTerm);
+  const searchQuery = useProductSearch(term);
+  const results = searchQuery.data ?? [];
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-xs font-medium text-gray-600">
+        Search by stock code, name or barcode
+        <div className="relative mt-1">
+          <Search className="pointer-events-none absolute left-2 top-2 h-4 w-4 text-gray-400" />
+          <input
+            type="text"
+            value={term}
+            onChange={(event) => setTerm(event.target.value)}
+            className="w-full rounded-lg border border-gray-300 py-1 pl-8 pr-2 text-sm"
+            autoFocus
+          />
+        </div>
+      </label>
+      {searchQuery.error && <p className="text-xs text-red-600">{searchQuery.error.message}</p>}
+      {searchQuery.isLoading ? (
+        <Loader2 className="h-4 w-4 animate-spin text-blue-600" />
+      ) : term.trim().length >= 2 && results.length === 0 ? (
+        <p className="text-xs text-gray-500">No products match “{term.trim()}”.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 rounded-lg border border-gray-100 bg-white">
+          {results.map((product) => (
+            <li key={product.id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+              <div>
+                <p className="font-medium text-gray-800">
+                  {product.stock_code ?? '—'} · {product.product_name}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {[product.pack_size, product.case_barcode, product.unit_barcode].filter(Boolean).join(' · ') || '—'}
+                </p>
+              </div>
+              <button
+                type="button"
+                disabled={busy || !product.stock_code}
+                onClick={() => onPick(product.id)}
+                className="rounded-lg bg-blue-600 px-3 py-1 text-xs font-semibold text-white hover:bg-blue-700 disabled:opacity-60"
+              >
+                Use
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function NewProductForm({
+  count,
+  busy,
+  onSave
+}: {
+  count: UnresolvedCount;
+  busy: boolean;
+  onSave: (product: NewProductInput) => void;
+}) {
+  const scannedAs = (type: ProductMatch) =>
+    count.scanned_identifier_type === type ? count.scanned_identifier ?? '' : '';
+  const [values, setValues] = useState({
+    stock_code: scannedAs('stock_code'),
+    product_name: count.extracted_product_name ?? count.product_description ?? '',
+    pack_size: count.extracted_pack_size ?? '',
+    case_barcode: scannedAs('case_barcode') || scannedAs('barcode') || (count.extracted_barcode ?? ''),
+    unit_barcode: scannedAs('unit_barcode'),
+    units_per_case: '1',
+    cases_per_layer: '1',
+    layers_per_pallet: '1'
+  });
+
+  function update(field: keyof typeof values, value: string) {
+    setValues((prev) => ({ ...prev, [field]: value }));
+  }
+
+  function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    onSave({
+      stock_code: values.stock_code.trim(),
+      product_name: values.product_name.trim(),
+      pack_size: values.pack_size.trim() || undefined,
+      case_barcode: values.case_barcode.trim() || undefined,
+      unit_barcode: values.unit_barcode.trim() || undefined,
+      units_per_case: Number(values.units_per_case) || 1,
+      cases_per_layer: Number(values.cases_per_layer) || 1,
+      layers_per_pallet: Number(values.layers_per_pallet) || 1
+    });
+  }
+
+  const textFields: Array<{ field: keyof typeof values; label: string; required?: boolean }> = [
+    { field: 'stock_code', label: 'Stock code', required: true },
+    { field: 'product_name', label: 'Product name', required: true },
+    { field: 'pack_size', label: 'Pack size' },
+    { field: 'case_barcode', label: 'Case barcode' },
+    { field: 'unit_barcode', label: 'Unit barcode' }
+  ];
+  const packagingFields: Array<{ field: keyof typeof values; label: string }> = [
+    { field: 'units_per_case', label: 'Units per case' },
+    { field: 'cases_per_layer', label: 'Cases per layer' },
+    { field: 'layers_per_pallet', label: 'Layers per pallet' }
+  ];
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+        {textFields.map(({ field, label, required }) => (
+          <label key={field} className="text-xs font-medium text-gray-600">
+            {label}
+            <input
+              type="text"
+              required={required}
+              value={values[field]}
+              onChange={(event) => update(field, event.target.value)}
+              className="mt-1 w-full rounded-lg border border-gray-300 px-2 py-1 text-sm"
+            />
+          </label>
+        ))}
+      </div>
+      <div className="grid grid-cols-3 gap-3">
+        {packagingFields.map(({ field, label }) => (
+          <label key={field} className="text-xs font-medium text-gray-600">
+            {label}
+            <input
+              type="number"
+              min={1}
+              step={1}
+              inputMode="numeric"
+              value={values[field]}
+              onChange={(event) => update(field, event.target.value)}
+              className="mt-1 w-full rounded-lg border border-gray-300 px-2 py-1 text-sm"
+            />
+          </label>
+        ))}
+      </div>
+      <div className="flex justify-end">
+        <button
+          type="submit"
+          disabled={busy}
+          className="inline-flex items-center gap-1 rounded-lg bg-blue-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-60"
+        >
+          {busy && <Loader2 className="h-4 w-4 animate-spin" />} Create product and map
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -1,16 +1,69 @@
-import { useMemo, useState } from 'react';
-import { AlertCircle, CheckCircle2, ClipboardList, Loader2, RefreshCcw } from 'lucide-react';
+import { Fragment, useMemo, useState } from 'react';
+import { AlertCircle, CheckCircle2, ChevronDown, ChevronRight, ClipboardList, Copy, History, Images, Layers, Loader2, RefreshCcw } from 'lucide-react';
 import { useEventWarehouse } from '../hooks/useEventWarehouse';
 import { useVariance } from '../hooks/useVariance';
 import { useAssignRecounts } from '../hooks/useAssignRecounts';
+import { useCountAdjustments } from '../hooks/useCountAdjustments';
+import { useCountsByLocation, type LocationCountRow } from '../hooks/useCountsByLocation';
+import { useDoubleCountReconciliations, type DoubleCountStatus } from '../hooks/useDoubleCountReconciliations';
+import { useDuplicatePalletAttempts, type DuplicatePalletOutcome } from '../hooks/useDuplicatePalletAttempts';
+import { useDuplicatePhotos } from '../hooks/useDuplicatePhotos';
+
+const DUPLICATE_PALLET_OUTCOME_STYLES: Record<DuplicatePalletOutcome, { label: string; className: string }> = {
+  rejected: { label: 'Rejected', className: 'bg-red-50 text-red-700' },
+  flagged: { label: 'Saved, flagged', className: 'bg-amber-50 text-amber-700' }
+};
+
+const DOUBLE_COUNT_STATUS_STYLES: Record<DoubleCountStatus, { label: string; className: string }> = {
+  awaiting_second: { label: 'Awaiting second count', className: 'bg-gray-100 text-gray-700' },
+  matched: { label: 'Matched', className: 'bg-emerald-50 text-emerald-700' },
+  mismatch: { label: 'Counts disagree — third count due', className: 'bg-red-50 text-red-700' },
+  resolved: { label: 'Resolved by third count', className: 'bg-blue-50 text-blue-700' }
+};
 
 export default function VarianceReports() {
   const { eventId, warehouseCode, selectedEvent, selectedWarehouse } = useEventWarehouse();
   const varianceQuery = useVariance(eventId, warehouseCode);
   const assignMutation = useAssignRecounts();
+  const adjustmentsQuery = useCountAdjustments(eventId, warehouseCode);
+  const locationQuery = useCountsByLocation(eventId, warehouseCode);
+  const doubleCountQuery = useDoubleCountReconciliations(eventId, warehouseCode);
+  const duplicatePalletQuery = useDuplicatePalletAttempts(eventId, warehouseCode);
+  const duplicatePhotoQuery = useDuplicatePhotos(eventId, warehouseCode);
   const [selectedRows, setSelectedRows] = useState<Set<string>>(new Set());
+  const [expandedRow, setExpandedRow] = useState<string | null>(null);
+  const [locationFilter, setLocationFilter] = useState('');
+
+  const locationRows = useMemo(() => locationQuery.data ?? [], [locationQuery.data]);
+  const locationCodes = useMemo(
+    () =>
+      Array.from(
+        new Set(locationRows.map((row) => row.location_code).filter((code): code is string => Boolean(code)))
+      ).sort(),
+    [locationRows]
+  );
+  const breakdownByProduct = useMemo(() => {
+    const grouped = new Map<string, LocationCountRow[]>();
+    for (const row of locationRows) {
+      const key = `${row.stock_code}:${row.lot_number ?? ''}`;
+      grouped.set(key, [...(grouped.get(key) ?? []), row]);
+    }
+    return grouped;
+  }, [locationRows]);
 
-  const rows = useMemo(() => varianceQuery.data ?? [], [varianceQuery.data]);
+  const rows = useMemo(() => {
+    const all = varianceQuery.data ?? [];
+    if (!locationFilter) return all;
+    return all.filter((row) =>
+      (breakdownByProduct.get(`${row.stock_code}:${row.lot_number ?? ''}`) ?? []).some(
+        (entry) => entry.location_code === locationFilter
+      )
+    );
+  }, [varianceQuery.data, locationFilter, breakdownByProduct]);
+  const adjustments = adjustmentsQuery.data ?? [];
+  const doubleCounts = doubleCountQuery.data ?? [];
+  const duplicatePallets = duplicatePalletQuery.data ?? [];
+  const duplicatePhotos = duplicatePhotoQuery.data ?? [];
   const nothingSelected = selectedRows.size === 0;
 
   function toggleRow(id: string) {
@@ -32,7 +85,8 @@ export default function VarianceReports() {
       .filter((row) => Boolean(row.stock_code))
       .map((row) => ({
         stock_code: row.stock_code as string,
-        lot_number: row.lot_number
+        lot_number: row.lot_number,
+        location_code: locationFilter || undefined
       }));
 
     if (items.length === 0) return;
@@ -65,12 +119,36 @@ export default function VarianceReports() {
         <div className="flex flex-wrap items-center justify-between gap-3">
           <button
             type="button"
-            onClick={() => varianceQuery.refetch()}
+            onClick={() => {
+              varianceQuery.refetch();
+              locationQuery.refetch();
+              doubleCountQuery.refetch();
+              duplicatePalletQuery.refetch();
+              duplicatePhotoQuery.refetch();
+            }}
             className="inline-flex items-center gap-2 rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-700 transition hover:bg-gray-50"
           >
             <RefreshCcw className="h-4 w-4" /> Refresh
           </button>
 
+          {locationCodes.length > 0 && (
+            <select
+              value={locationFilter}
+              onChange={(event) => {
+                setLocationFilter(event.target.value);
+                setSelectedRows(new Set());
+              }}
+              className="rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-700"
+            >
+              <option value="">All locations</option>
+              {locationCodes.map((code) => (
+                <option key={code} value={code}>
+                  {code}
+                </option>
+              ))}
+            </select>
+          )}
+
           <button
             type="button"
             onClick={handleAssign}
@@ -122,30 +200,164 @@ export default function VarianceReports() {
                   <th className="px-4 py-3">Description</th>
                   <th className="px-4 py-3">Lot Number</th>
                   <th className="px-4 py-3 text-right">Variance Units</th>
+                  <th className="px-4 py-3 text-right">Locations</th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-gray-100 bg-white">
                 {rows.map((row) => {
                   const id = row.stock_code ?? `${row.description}-${row.lot_number}`;
                   const isSelected = selectedRows.has(id);
+                  const breakdown = breakdownByProduct.get(`${row.stock_code}:${row.lot_number ?? ''}`) ?? [];
+                  const isExpanded = expandedRow === id;
+                  return (
+                    <Fragment key={id}>
+                      <tr className={isSelected ? 'bg-blue-50' : undefined}>
+                        <td className="px-4 py-3">
+                          <input
+                            type="checkbox"
+                            checked={isSelected}
+                            onChange={() => toggleRow(id)}
+                            className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                          />
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-800">{row.description}</td>
+                        <td className="px-4 py-3 text-sm text-gray-600">{row.lot_number}</td>
+                        <td
+                          className={`px-4 py-3 text-right text-sm font-semibold ${
+                            row.variance_units < 0 ? 'text-red-600' : 'text-emerald-600'
+                          }`}
+                        >
+                          {row.variance_units}
+                        </td>
+                        <td className="px-4 py-3 text-right text-sm text-gray-600">
+                          {breakdown.length > 0 && (
+                            <button
+                              type="button"
+                              onClick={() => setExpandedRow(isExpanded ? null : id)}
+                              className="inline-flex items-center gap-1 text-blue-600 hover:text-blue-800"
+                            >
+                              {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                              {breakdown.length}
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                      {isExpanded && (
+                        <tr className="bg-gray-50">
+                          <td />
+                          <td colSpan={4} className="px-4 py-3">
+                            <ul className="space-y-1 text-sm text-gray-700">
+                              {breakdown.map((entry) => (
+                                <li
+                                  key={entry.location_id ?? entry.location_code ?? 'unassigned'}
+                                  className={`flex justify-between gap-4 ${
+                                    locationFilter && entry.location_code === locationFilter ? 'font-semibold' : ''
+                                  }`}
+                                >
+                                  <span>{entry.location_code ?? 'No location'}</span>
+                                  <span>
+                                    {entry.counted_units} units · {entry.count_records}{' '}
+                                    {entry.count_records === 1 ? 'count' : 'counts'}
+                                  </span>
+                                </li>
+                              ))}
+                            </ul>
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {doubleCounts.length > 0 && (
+        <div className="bg-white rounded-xl shadow-lg p-6 space-y-4">
+          <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+            <Copy className="h-5 w-5 text-blue-600" /> Double counts
+          </h3>
+          <div className="overflow-hidden rounded-lg border border-gray-200">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr className="text-left text-xs font-semibold uppercase tracking-wider text-gray-500">
+                  <th className="px-4 py-3">Stock Code</th>
+                  <th className="px-4 py-3">Lot / Location</th>
+                  <th className="px-4 py-3 text-right">First</th>
+                  <th className="px-4 py-3 text-right">Second</th>
+                  <th className="px-4 py-3 text-right">Third</th>
+                  <th className="px-4 py-3">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 bg-white">
+                {doubleCounts.map((reconciliation) => {
+                  const status = DOUBLE_COUNT_STATUS_STYLES[reconciliation.status];
                   return (
-                    <tr key={id} className={isSelected ? 'bg-blue-50' : undefined}>
+                    <tr key={reconciliation.id} className="text-sm">
+                      <td className="px-4 py-3 text-gray-800">{reconciliation.stock_code}</td>
+                      <td className="px-4 py-3 text-gray-600">
+                        {[reconciliation.lot_number, reconciliation.warehouse_location?.code].filter(Boolean).join(' · ') ||
+                          '—'}
+                      </td>
+                      <td className="px-4 py-3 text-right text-gray-700">{reconciliation.first_count_units ?? '—'}</td>
+                      <td className="px-4 py-3 text-right text-gray-700">{reconciliation.second_count_units ?? '—'}</td>
+                      <td className="px-4 py-3 text-right text-gray-700">{reconciliation.third_count_units ?? '—'}</td>
                       <td className="px-4 py-3">
-                        <input
-                          type="checkbox"
-                          checked={isSelected}
-                          onChange={() => toggleRow(id)}
-                          className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                        />
+                        <span className={`rounded-full px-2 py-1 text-xs font-medium ${status.className}`}>
+                          {status.label}
+                        </span>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {duplicatePallets.length > 0 && (
+        <div className="bg-white rounded-xl shadow-lg p-6 space-y-4">
+          <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+            <Layers className="h-5 w-5 text-blue-600" /> Duplicate pallets
+          </h3>
+          <div className="overflow-hidden rounded-lg border border-gray-200">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr className="text-left text-xs font-semibold uppercase tracking-wider text-gray-500">
+                  <th className="px-4 py-3">When</th>
+                  <th className="px-4 py-3">Pallet</th>
+                  <th className="px-4 py-3">Attempt</th>
+                  <th className="px-4 py-3">First counted</th>
+                  <th className="px-4 py-3">Outcome</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 bg-white">
+                {duplicatePallets.map((attempt) => {
+                  const outcome = DUPLICATE_PALLET_OUTCOME_STYLES[attempt.outcome];
+                  return (
+                    <tr key={attempt.id} className="align-top text-sm">
+                      <td className="px-4 py-3 text-gray-600">{new Date(attempt.created_at).toLocaleString()}</td>
+                      <td className="px-4 py-3 font-mono text-gray-800">{attempt.pallet_id}</td>
+                      <td className="px-4 py-3 text-gray-700">
+                        {attempt.attempted_by_name ?? '—'}
+                        <p className="text-xs text-gray-500">
+                          {[attempt.stock_code, attempt.location_code].filter(Boolean).join(' · ') || '—'}
+                        </p>
                       </td>
-                      <td className="px-4 py-3 text-sm text-gray-800">{row.description}</td>
-                      <td className="px-4 py-3 text-sm text-gray-600">{row.lot_number}</td>
-                      <td
-                        className={`px-4 py-3 text-right text-sm font-semibold ${
-                          row.variance_units < 0 ? 'text-red-600' : 'text-emerald-600'
-                        }`}
-                      >
-                        {row.variance_units}
+                      <td className="px-4 py-3 text-gray-700">
+                        {attempt.first_counted_by_name ?? '—'}
+                        <p className="text-xs text-gray-500">
+                          {[attempt.first_warehouse_code, attempt.first_location_code].filter(Boolean).join(' · ')}
+                          {attempt.first_counted_at ? ` · ${new Date(attempt.first_counted_at).toLocaleString()}` : ''}
+                        </p>
+                      </td>
+                      <td className="px-4 py-3">
+                        <span className={`rounded-full px-2 py-1 text-xs font-medium ${outcome.className}`}>
+                          {outcome.label}
+                        </span>
                       </td>
                     </tr>
                   );
@@ -153,8 +365,95 @@ export default function VarianceReports() {
               </tbody>
             </table>
           </div>
-        )}
-      </div>
+        </div>
+      )}
+
+      {duplicatePhotos.length > 0 && (
+        <div className="bg-white rounded-xl shadow-lg p-6 space-y-4">
+          <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+            <Images className="h-5 w-5 text-blue-600" /> Duplicate photos
+          </h3>
+          <p className="text-sm text-gray-600">
+            Counts whose photo is nearly identical to an earlier count's. A reused photo may mean the stock was not looked
+            at again.
+          </p>
+          <div className="overflow-hidden rounded-lg border border-gray-200">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr className="text-left text-xs font-semibold uppercase tracking-wider text-gray-500">
+                  <th className="px-4 py-3">When</th>
+                  <th className="px-4 py-3">Count</th>
+                  <th className="px-4 py-3">Matches</th>
+                  <th className="px-4 py-3 text-right">Bits apart</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 bg-white">
+                {duplicatePhotos.map((duplicate) => (
+                  <tr key={duplicate.id} className="align-top text-sm">
+                    <td className="px-4 py-3 text-gray-600">{new Date(duplicate.created_at).toLocaleString()}</td>
+                    <td className="px-4 py-3 text-gray-700">
+                      {duplicate.counted_by_name ?? '—'}
+                      <p className="text-xs text-gray-500">
+                        {[duplicate.stock_code, duplicate.location_code].filter(Boolean).join(' · ') || '—'}
+                      </p>
+                    </td>
+                    <td className="px-4 py-3 text-gray-700">
+                      {duplicate.matched_count_id ? duplicate.matched_counted_by_name ?? '—' : 'Count deleted'}
+                      <p className="text-xs text-gray-500">
+                        {[duplicate.matched_stock_code, duplicate.matched_location_code].filter(Boolean).join(' · ')}
+                        {duplicate.matched_counted_at
+                          ? ` · ${new Date(duplicate.matched_counted_at).toLocaleString()}`
+                          : ''}
+                      </p>
+                    </td>
+                    <td className="px-4 py-3 text-right text-gray-700">{duplicate.distance}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {adjustments.length > 0 && (
+        <div className="bg-white rounded-xl shadow-lg p-6 space-y-4">
+          <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+            <History className="h-5 w-5 text-blue-600" /> Count adjustments
+          </h3>
+          <div className="overflow-hidden rounded-lg border border-gray-200">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr className="text-left text-xs font-semibold uppercase tracking-wider text-gray-500">
+                  <th className="px-4 py-3">When</th>
+                  <th className="px-4 py-3">Stock Code</th>
+                  <th className="px-4 py-3">Change</th>
+                  <th className="px-4 py-3">By</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 bg-white">
+                {adjustments.map((adjustment) => (
+                  <tr key={adjustment.id} className="align-top text-sm">
+                    <td className="px-4 py-3 text-gray-600">{new Date(adjustment.created_at).toLocaleString()}</td>
+                    <td className="px-4 py-3 text-gray-800">{adjustment.stock_code}</td>
+                    <td className="px-4 py-3 text-gray-700">
+                      {adjustment.action === 'void'
+                        ? 'Voided'
+                        : Object.keys(adjustment.new_values)
+                            .map(
+                              (field) =>
+                                `${field}: ${adjustment.previous_values[field] ?? '—'} → ${adjustment.new_values[field] ?? '—'}`
+                            )
+                            .join(', ')}
+                      {adjustment.reason && <p className="text-xs italic text-gray-500">{adjustment.reason}</p>}
+                    </td>
+                    <td className="px-4 py-3 text-gray-600">{adjustment.adjusted_by_name ?? '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,276 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AlertCircle, Loader2, MapPin, Plus, Save } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useEventWarehouse } from '../hooks/useEventWarehouse';
+import { describeLocation, listWarehouseLocations, type WarehouseLocation } from '../lib/warehouseLocations';
+
+type LocationDraft = Pick<WarehouseLocation, 'code' | 'zone' | 'aisle' | 'bay' | 'level' | 'barcode' | 'description'> & {
+  id?: string;
+};
+
+const EMPTY_DRAFT: LocationDraft = {
+  code: '',
+  zone: '',
+  aisle: '',
+  bay: '',
+  level: '',
+  barcode: '',
+  description: ''
+};
+
+const DRAFT_FIELDS: Array<{ field: keyof Omit<LocationDraft, 'id'>; label: string; placeholder: string }> = [
+  { field: 'zone', label: 'Zone', placeholder: 'e.g., A' },
+  { field: 'aisle', label: 'Aisle', placeholder: 'e.g., 03' },
+  { field: 'bay', label: 'Bay', placeholder: 'e.g., 12' },
+  { field: 'level', label: 'Level', placeholder: 'e.g., 2' },
+  { field: 'barcode', label: 'Label barcode', placeholder: 'Leave blank to use the code' },
+  { field: 'description', label: 'Description', placeholder: 'Optional' }
+];
+
+// Suggests A-03-12-2 style codes so labels and the master stay consistent.
+function suggestCode(draft: LocationDraft) {
+  return [draft.zone, draft.aisle, draft.bay, draft.level]
+    .map((part) => part?.trim())
+    .filter(Boolean)
+    .join('-')
+    .toUpperCase();
+}
+
+function toNullable(value: string | null) {
+  const trimmed = value?.trim() ?? '';
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+export default function WarehouseLocations() {
+  const { warehouseCode, selectedWarehouse } = useEventWarehouse();
+  const [locations, setLocations] = useState<WarehouseLocation[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [draft, setDraft] = useState<LocationDraft | null>(null);
+  const [error, setError] = useState('');
+
+  const loadLocations = useCallback(async () => {
+    if (!warehouseCode) {
+      setLocations([]);
+      return;
+    }
+    setLoading(true);
+    setError('');
+    try {
+      const { data, error: loadError } = await listWarehouseLocations(warehouseCode, { includeInactive: true });
+      if (loadError) throw loadError;
+      setLocations(data ?? []);
+    } catch (err) {
+      console.error('Error loading locations:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load locations.');
+    } finally {
+      setLoading(false);
+    }
+  }, [warehouseCode]);
+
+  useEffect(() => {
+    loadLocations();
+  }, [loadLocations]);
+
+  async function saveDraft() {
+    if (!draft || !warehouseCode) return;
+    const code = (draft.code.trim() || suggestCode(draft)).toUpperCase();
+    if (!code) {
+      setError('Enter a location code or its zone, aisle, bay and level.');
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    try {
+      const record = {
+        warehouse_code: warehouseCode,
+        code,
+        zone: toNullable(draft.zone),
+        aisle: toNullable(draft.aisle),
+        bay: toNullable(draft.bay),
+        level: toNullable(draft.level),
+        barcode: toNullable(draft.barcode),
+        description: toNullable(draft.description)
+      };
+
+      const { error: saveError } = draft.id
+        ? await supabase.from('warehouse_locations').update(record).eq('id', draft.id)
+        : await supabase.from('warehouse_locations').insert(record);
+
+      if (saveError) throw saveError;
+      setDraft(null);
+      await loadLocations();
+    } catch (err) {
+      console.error('Error saving location:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save location.');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function toggleActive(location: WarehouseLocation) {
+    try {
+      const { error: updateError } = await supabase
+        .from('warehouse_locations')
+        .update({ is_active: !location.is_active })
+        .eq('id', location.id);
+
+      if (updateError) throw updateError;
+      await loadLocations();
+    } catch (err) {
+      console.error('Error updating location:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update location.');
+    }
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      <div className="bg-white rounded-xl shadow-lg p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+            <MapPin className="w-7 h-7" />
+            Locations
+          </h2>
+          <button
+            onClick={() => setDraft({ ...EMPTY_DRAFT })}
+            disabled={!warehouseCode}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50 transition-all flex items-center gap-2"
+          >
+            <Plus className="w-5 h-5" />
+            New Location
+          </button>
+        </div>
+
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+          <p className="text-sm text-blue-800">
+            Register the bins and racking positions in <strong>{selectedWarehouse?.name ?? 'the selected warehouse'}</strong>.
+            Counters scan or pick one of these locations for every count, and variance and recount screens break totals
+            down by location. Retired locations stay on historic counts but can no longer be selected.
+          </p>
+        </div>
+
+        {error && (
+          <div className="flex items-center gap-2 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+            <AlertCircle className="h-4 w-4" /> {error}
+          </div>
+        )}
+
+        {draft && (
+          <div className="bg-gray-50 border-2 border-blue-300 rounded-lg p-6">
+            <h3 className="text-lg font-semibold text-gray-800 mb-4">{draft.id ? 'Edit Location' : 'New Location'}</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Code</label>
+                <input
+                  type="text"
+                  value={draft.code}
+                  onChange={(e) => setDraft({ ...draft, code: e.target.value })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder={suggestCode(draft) || 'e.g., A-03-12-2'}
+                />
+              </div>
+              {DRAFT_FIELDS.map(({ field, label, placeholder }) => (
+                <div key={field}>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">{label}</label>
+                  <input
+                    type="text"
+                    value={draft[field] ?? ''}
+                    onChange={(e) => setDraft({ ...draft, [field]: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder={placeholder}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-3">
+              <button
+                onClick={saveDraft}
+                disabled={saving}
+                className="bg-green-600 text-white px-6 py-2 rounded-lg font-medium hover:bg-green-700 disabled:opacity-50 transition-all flex items-center gap-2"
+              >
+                <Save className="w-5 h-5" />
+                {saving ? 'Saving...' : 'Save Location'}
+              </button>
+              <button
+                onClick={() => setDraft(null)}
+                className="bg-gray-500 text-white px-6 py-2 rounded-lg font-medium hover:bg-gray-600 transition-all"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
+        {!warehouseCode ? (
+          <div className="text-center py-12 text-gray-500">Select a warehouse to manage its locations.</div>
+        ) : loading ? (
+          <div className="flex items-center justify-center gap-2 py-12 text-gray-500">
+            <Loader2 className="h-5 w-5 animate-spin" /> Loading locations...
+          </div>
+        ) : locations.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            No locations yet. Click &quot;New Location&quot; to add one.
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="bg-gray-100 border-b-2 border-gray-200">
+                  <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">Code</th>
+                  <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">Position</th>
+                  <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">Barcode</th>
+                  <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">Description</th>
+                  <th className="px-4 py-3 text-center text-sm font-semibold text-gray-700">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {locations.map((location) => (
+                  <tr
+                    key={location.id}
+                    className={`border-b border-gray-200 hover:bg-gray-50 ${location.is_active ? '' : 'text-gray-400'}`}
+                  >
+                    <td className="px-4 py-3 text-sm font-mono">
+                      {location.code}
+                      {!location.is_active && <span className="ml-2 text-xs">(retired)</span>}
+                    </td>
+                    <td className="px-4 py-3 text-sm">{describeLocation(location) || '—'}</td>
+                    <td className="px-4 py-3 text-sm font-mono">{location.barcode ?? location.code}</td>
+                    <td className="px-4 py-3 text-sm">{location.description ?? ''}</td>
+                    <td className="px-4 py-3 text-center">
+                      <div className="flex items-center justify-center gap-3">
+                        <button
+                          onClick={() =>
+                            setDraft({
+                              id: location.id,
+                              code: location.code,
+                              zone: location.zone ?? '',
+                              aisle: location.aisle ?? '',
+                              bay: location.bay ?? '',
+                              level: location.level ?? '',
+                              barcode: location.barcode ?? '',
+                              description: location.description ?? ''
+                            })
+                          }
+                          className="text-blue-600 hover:text-blue-800 font-medium text-sm"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => toggleActive(location)}
+                          className="text-gray-600 hover:text-gray-800 font-medium text-sm"
+                        >
+                          {location.is_active ? 'Retire' : 'Reactivate'}
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
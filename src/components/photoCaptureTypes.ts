@@ -1,23 +1,23 @@
-export type Roi = { xPct: number; yPct: number; wPct: number; hPct: number };
+import type { PhotoRegion } from '../../supabase/functions/_shared/countContract.ts';
+import type { LabelRegion } from '../../supabase/functions/_shared/labelRules.ts';
 
-export const ROI_BARCODE: Roi = { xPct: 0.1, yPct: 0.55, wPct: 0.8, hPct: 0.25 };
-export const ROI_TEXT_TOP: Roi = { xPct: 0.08, yPct: 0.1, wPct: 0.84, hPct: 0.28 };
-export const ROI_LOT: Roi = { xPct: 0.08, yPct: 0.85, wPct: 0.84, hPct: 0.12 };
+export type Roi = LabelRegion;
 
 export interface RoiCropResult {
   barcode?: Blob;
   textTop?: Blob;
   lot?: Blob;
   hints: {
-    roi: {
-      barcode: Roi;
-      textTop: Roi;
-      lot: Roi;
-    };
-    expected: {
-      barcodeSymbologies: string[];
-      keywords: string[];
-    };
+    ruleSetId: string | null;
+    roi: Record<PhotoRegion, Roi>;
   };
 }
 
+export type BarcodeSymbology = 'ITF-14' | 'EAN-13' | 'GS1-128';
+
+export interface BarcodeScan {
+  code: string;
+  rawValue: string;
+  symbology: BarcodeSymbology;
+  source: 'camera' | 'photo';
+}
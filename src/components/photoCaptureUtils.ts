@@ -1,18 +1,18 @@
-import { ROI_BARCODE, ROI_LOT, ROI_TEXT_TOP, type Roi, type RoiCropResult } from './photoCaptureTypes';
+import { scanBarcode } from '../lib/barcodeScanner';
+import { DEFAULT_LABEL_RULES, type LabelRules } from '../../supabase/functions/_shared/labelRules.ts';
+import { type BarcodeScan, type Roi, type RoiCropResult } from './photoCaptureTypes';
 
-export async function getRoiCrops(file: File): Promise<RoiCropResult | null> {
+// Crops with the label rule set picked for the product being counted; without one the built-in regions are used
+export async function getRoiCrops(
+  file: File,
+  ruleSet?: { id: string; rules: LabelRules } | null
+): Promise<RoiCropResult | null> {
   if (typeof window === 'undefined') return null;
 
+  const regions = ruleSet?.rules.regions ?? DEFAULT_LABEL_RULES.regions;
   const hints: RoiCropResult['hints'] = {
-    roi: {
-      barcode: ROI_BARCODE,
-      textTop: ROI_TEXT_TOP,
-      lot: ROI_LOT
-    },
-    expected: {
-      barcodeSymbologies: ['ITF-14', 'EAN-13'],
-      keywords: ['RAINDANCE', 'NAMAQUA', 'FILLING DATE']
-    }
+    ruleSetId: ruleSet?.id ?? null,
+    roi: regions
   };
 
   async function cropImage(image: HTMLImageElement, roi: Roi): Promise<Blob | undefined> {
@@ -39,9 +39,9 @@ export async function getRoiCrops(file: File): Promise<RoiCropResult | null> {
 
   const image = await loadImage(file);
   const [barcode, textTop, lot] = await Promise.all([
-    cropImage(image, ROI_BARCODE),
-    cropImage(image, ROI_TEXT_TOP),
-    cropImage(image, ROI_LOT)
+    cropImage(image, regions.barcode),
+    cropImage(image, regions.text_top),
+    cropImage(image, regions.lot)
   ]);
 
   if (!barcode && !textTop && !lot) {
@@ -56,6 +56,12 @@ export async function getRoiCrops(file: File): Promise<RoiCropResult | null> {
   };
 }
 
+export async function detectBarcodeInPhoto(file: File): Promise<BarcodeScan | null> {
+  if (typeof window === 'undefined') return null;
+  const image = await loadImage(file);
+  return scanBarcode(image, 'photo');
+}
+
 async function loadImage(file: File): Promise<HTMLImageElement> {
   return new Promise((resolve, reject) => {
     const url = URL.createObjectURL(file);
@@ -12,10 +12,22 @@ import { useAuth } from '../hooks/useAuth';
 const EVENT_STORAGE_KEY = 'nb-stocktake:selected-event';
 const WAREHOUSE_STORAGE_KEY = 'nb-stocktake:selected-warehouse';
 
+export type CountingMode = 'blind' | 'guided';
+export type DuplicatePalletMode = 'reject' | 'flag';
+export type PhotoRetentionPolicy = 'age' | 'event_archived';
+
 export interface EventOption {
   id: string;
   name: string;
   status?: string | null;
+  counting_mode?: CountingMode | null;
+  double_count_all?: boolean;
+  double_count_tolerance_pct?: number | null;
+  duplicate_pallet_mode?: DuplicatePalletMode | null;
+  photo_retention_policy?: PhotoRetentionPolicy | null;
+  photo_retention_hours?: number | null;
+  photo_retain_open_recounts?: boolean;
+  photo_retain_until_reviewed?: boolean;
   starts_at?: string | null;
   ends_at?: string | null;
 }
@@ -83,7 +95,9 @@ export function EventWarehouseProvider({ children }: { children: ReactNode }) {
       setEventsLoading(true);
       const { data, error } = await supabase
         .from('stocktake_events')
-        .select('id, name, status, starts_at, ends_at')
+        .select(
+          'id, name, status, counting_mode, double_count_all, double_count_tolerance_pct, duplicate_pallet_mode, photo_retention_policy, photo_retention_hours, photo_retain_open_recounts, photo_retain_until_reviewed, starts_at, ends_at'
+        )
         .order('starts_at', { ascending: false });
 
       if (error) throw error;
@@ -91,6 +105,20 @@ export function EventWarehouseProvider({ children }: { children: ReactNode }) {
         id: row.id as string,
         name: (row.name as string) ?? 'Unnamed event',
         status: (row.status as string | null) ?? null,
+        counting_mode: (row.counting_mode as CountingMode | null) ?? null,
+        double_count_all: Boolean(row.double_count_all),
+        double_count_tolerance_pct:
+          row.double_count_tolerance_pct === null || row.double_count_tolerance_pct === undefined
+            ? null
+            : Number(row.double_count_tolerance_pct),
+        duplicate_pallet_mode: (row.duplicate_pallet_mode as DuplicatePalletMode | null) ?? null,
+        photo_retention_policy: (row.photo_retention_policy as PhotoRetentionPolicy | null) ?? null,
+        photo_retention_hours:
+          row.photo_retention_hours === null || row.photo_retention_hours === undefined
+            ? null
+            : Number(row.photo_retention_hours),
+        photo_retain_open_recounts: row.photo_retain_open_recounts !== false,
+        photo_retain_until_reviewed: Boolean(row.photo_retain_until_reviewed),
         starts_at: (row.starts_at as string | null) ?? null,
         ends_at: (row.ends_at as string | null) ?? null
       }));
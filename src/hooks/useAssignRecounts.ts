@@ -4,6 +4,7 @@ import { useSupabaseClientWithAuth } from './useSupabaseClientWithAuth';
 export interface AssignRecountItem {
   stock_code: string;
   lot_number: string;
+  location_code?: string;
 }
 
 export interface AssignRecountsPayload {
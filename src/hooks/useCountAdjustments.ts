@@ -0,0 +1,31 @@
+import { useQuery } from '../lib/queryClient';
+import { supabase } from '../lib/supabase';
+import type { CountAdjustmentEntry } from './useMyCounts';
+
+export interface CountAdjustmentRow extends CountAdjustmentEntry {
+  stock_code: string;
+  event_id: string;
+  warehouse_code: string;
+}
+
+export function useCountAdjustments(eventId?: string, warehouseCode?: string) {
+  return useQuery({
+    queryKey: ['count-adjustments', eventId, warehouseCode],
+    enabled: Boolean(eventId && warehouseCode),
+    queryFn: async () => {
+      if (!eventId || !warehouseCode) return [] as CountAdjustmentRow[];
+      const { data, error } = await supabase
+        .from('count_adjustments')
+        .select(
+          'id, count_id, stock_code, event_id, warehouse_code, action, previous_values, new_values, reason, adjusted_by_name, created_at'
+        )
+        .eq('event_id', eventId)
+        .eq('warehouse_code', warehouseCode)
+        .order('created_at', { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+      return (data ?? []) as CountAdjustmentRow[];
+    }
+  });
+}
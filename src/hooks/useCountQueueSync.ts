@@ -0,0 +1,51 @@
+import { useCallback, useEffect } from 'react';
+import { NonRetryableSyncError, replayQueue } from '../lib/syncQueue';
+import { useSupabaseClientWithAuth } from './useSupabaseClientWithAuth';
+import { isNetworkFailure, SubmitCountError, submitCount, type SubmitCountPayload } from './useSubmitCount';
+
+const REPLAY_INTERVAL_MS = 30_000;
+
+function isRetryableStatus(status: number) {
+  return status >= 500 || status === 401 || status === 408 || status === 429;
+}
+
+export function useCountQueueSync({ background = false }: { background?: boolean } = {}) {
+  const { fetchWithAuth } = useSupabaseClientWithAuth();
+
+  const syncNow = useCallback(async ({ force = false }: { force?: boolean } = {}) => {
+    if (typeof indexedDB === 'undefined') return;
+
+    await replayQueue(async (payload: SubmitCountPayload) => {
+      try {
+        await submitCount(payload, fetchWithAuth);
+      } catch (error) {
+        // Validation and permission errors will fail the same way on every retry
+        if (error instanceof SubmitCountError && !isRetryableStatus(error.status)) {
+          throw new NonRetryableSyncError(error.message);
+        }
+        if (!(error instanceof SubmitCountError) && !isNetworkFailure(error)) {
+          throw new NonRetryableSyncError(error instanceof Error ? error.message : 'Unexpected response from submit-count');
+        }
+        throw error;
+      }
+    }, { force });
+  }, [fetchWithAuth]);
+
+  useEffect(() => {
+    if (!background) return;
+
+    function run() {
+      syncNow().catch((error) => console.error('Offline queue replay failed', error));
+    }
+
+    run();
+    const interval = window.setInterval(run, REPLAY_INTERVAL_MS);
+    window.addEventListener('online', run);
+    return () => {
+      window.clearInterval(interval);
+      window.removeEventListener('online', run);
+    };
+  }, [background, syncNow]);
+
+  return { syncNow };
+}
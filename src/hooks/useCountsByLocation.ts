@@ -0,0 +1,34 @@
+import { useQuery } from '../lib/queryClient';
+import { supabase } from '../lib/supabase';
+
+export interface LocationCountRow {
+  stock_code: string;
+  lot_number: string | null;
+  location_id: string | null;
+  location_code: string | null;
+  zone: string | null;
+  aisle: string | null;
+  bay: string | null;
+  level: string | null;
+  count_records: number;
+  counted_units: number;
+}
+
+export function useCountsByLocation(eventId?: string, warehouseCode?: string) {
+  return useQuery({
+    queryKey: ['counts-by-location', eventId, warehouseCode],
+    enabled: Boolean(eventId && warehouseCode),
+    queryFn: async () => {
+      if (!eventId || !warehouseCode) return [] as LocationCountRow[];
+      const { data, error } = await supabase
+        .from('counts_by_location_view')
+        .select('stock_code, lot_number, location_id, location_code, zone, aisle, bay, level, count_records, counted_units')
+        .eq('event_id', eventId)
+        .eq('warehouse_code', warehouseCode)
+        .order('location_code', { ascending: true });
+
+      if (error) throw error;
+      return (data ?? []) as LocationCountRow[];
+    }
+  });
+}
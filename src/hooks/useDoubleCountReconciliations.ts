@@ -0,0 +1,39 @@
+import { useQuery } from '../lib/queryClient';
+import { supabase } from '../lib/supabase';
+
+export type DoubleCountStatus = 'awaiting_second' | 'matched' | 'mismatch' | 'resolved';
+
+export interface DoubleCountReconciliation {
+  id: string;
+  stock_code: string;
+  lot_number: string | null;
+  location_id: string | null;
+  first_count_units: number | null;
+  second_count_units: number | null;
+  third_count_units: number | null;
+  status: DoubleCountStatus;
+  recount_task_id: string | null;
+  updated_at: string;
+  warehouse_location?: { code: string } | null;
+}
+
+export function useDoubleCountReconciliations(eventId?: string, warehouseCode?: string) {
+  return useQuery({
+    queryKey: ['double-count-reconciliations', eventId, warehouseCode],
+    enabled: Boolean(eventId && warehouseCode),
+    queryFn: async () => {
+      if (!eventId || !warehouseCode) return [] as DoubleCountReconciliation[];
+      const { data, error } = await supabase
+        .from('double_count_reconciliations')
+        .select(
+          'id, stock_code, lot_number, location_id, first_count_units, second_count_units, third_count_units, status, recount_task_id, updated_at, warehouse_location:warehouse_locations(code)'
+        )
+        .eq('event_id', eventId)
+        .eq('warehouse_code', warehouseCode)
+        .order('updated_at', { ascending: false });
+
+      if (error) throw error;
+      return (data ?? []) as unknown as DoubleCountReconciliation[];
+    }
+  });
+}
@@ -0,0 +1,39 @@
+import { useQuery } from '../lib/queryClient';
+import { supabase } from '../lib/supabase';
+
+export type DuplicatePalletOutcome = 'rejected' | 'flagged';
+
+export interface DuplicatePalletAttempt {
+  id: string;
+  pallet_id: string;
+  stock_code: string | null;
+  location_code: string | null;
+  outcome: DuplicatePalletOutcome;
+  attempted_by_name: string | null;
+  first_warehouse_code: string | null;
+  first_location_code: string | null;
+  first_counted_by_name: string | null;
+  first_counted_at: string | null;
+  created_at: string;
+}
+
+export function useDuplicatePalletAttempts(eventId?: string, warehouseCode?: string) {
+  return useQuery({
+    queryKey: ['duplicate-pallet-attempts', eventId, warehouseCode],
+    enabled: Boolean(eventId && warehouseCode),
+    queryFn: async () => {
+      if (!eventId || !warehouseCode) return [] as DuplicatePalletAttempt[];
+      const { data, error } = await supabase
+        .from('pallet_count_attempts')
+        .select(
+          'id, pallet_id, stock_code, location_code, outcome, attempted_by_name, first_warehouse_code, first_location_code, first_counted_by_name, first_counted_at, created_at'
+        )
+        .eq('event_id', eventId)
+        .eq('warehouse_code', warehouseCode)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data ?? []) as DuplicatePalletAttempt[];
+    }
+  });
+}
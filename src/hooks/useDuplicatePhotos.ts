@@ -0,0 +1,38 @@
+import { useQuery } from '../lib/queryClient';
+import { supabase } from '../lib/supabase';
+
+export interface DuplicatePhoto {
+  id: string;
+  count_id: string;
+  stock_code: string | null;
+  location_code: string | null;
+  counted_by_name: string | null;
+  matched_count_id: string | null;
+  matched_stock_code: string | null;
+  matched_location_code: string | null;
+  matched_counted_by_name: string | null;
+  matched_counted_at: string | null;
+  distance: number;
+  created_at: string;
+}
+
+export function useDuplicatePhotos(eventId?: string, warehouseCode?: string) {
+  return useQuery({
+    queryKey: ['duplicate-photos', eventId, warehouseCode],
+    enabled: Boolean(eventId && warehouseCode),
+    queryFn: async () => {
+      if (!eventId || !warehouseCode) return [] as DuplicatePhoto[];
+      const { data, error } = await supabase
+        .from('duplicate_photos')
+        .select(
+          'id, count_id, stock_code, location_code, counted_by_name, matched_count_id, matched_stock_code, matched_location_code, matched_counted_by_name, matched_counted_at, distance, created_at'
+        )
+        .eq('event_id', eventId)
+        .eq('warehouse_code', warehouseCode)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data ?? []) as DuplicatePhoto[];
+    }
+  });
+}
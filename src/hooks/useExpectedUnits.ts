@@ -0,0 +1,25 @@
+import { useQuery } from '../lib/queryClient';
+import { supabase } from '../lib/supabase';
+import { useEventWarehouse } from './useEventWarehouse';
+
+// Only guided events reveal expected stock; the RPC returns null for blind events regardless.
+export function useExpectedUnits(stockCode?: string | null) {
+  const { eventId, warehouseCode, selectedEvent } = useEventWarehouse();
+  const guided = selectedEvent?.counting_mode === 'guided';
+
+  return useQuery<number | null>({
+    queryKey: ['expected-units', eventId, warehouseCode, stockCode],
+    enabled: Boolean(guided && eventId && warehouseCode && stockCode),
+    queryFn: async () => {
+      if (!guided || !eventId || !warehouseCode || !stockCode) return null;
+      const { data, error } = await supabase.rpc('get_expected_units', {
+        p_event_id: eventId,
+        p_warehouse_code: warehouseCode,
+        p_stock_code: stockCode
+      });
+
+      if (error) throw error;
+      return (data as number | null) ?? null;
+    }
+  });
+}
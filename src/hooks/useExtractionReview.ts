@@ -0,0 +1,102 @@
+import { useMutation, useQuery } from '../lib/queryClient';
+import { useSupabaseClientWithAuth } from './useSupabaseClientWithAuth';
+import {
+  formatFieldErrors,
+  validateExtractionReviewRequest,
+  type ExtractionReviewField,
+  type ExtractionReviewRequest,
+  type ExtractionReviewStatus,
+  type ExtractionReviewSuccess,
+  type FieldError,
+  type PhotoQuality
+} from '../../supabase/functions/_shared/countContract.ts';
+
+export type ExtractedCount = Record<ExtractionReviewField, string | null> & {
+  id: string;
+  event_id: string;
+  warehouse_code: string;
+  stock_code: string;
+  product_description: string | null;
+  lot_number: string | null;
+  filling_date: string | null;
+  location_code: string | null;
+  counted_by: string;
+  counted_by_name: string | null;
+  photo_url: string | null;
+  photo_quality: PhotoQuality | null;
+  extracted_at: string | null;
+  extraction_review_status: ExtractionReviewStatus;
+  extraction_reviewed_by_name: string | null;
+  extraction_reviewed_at: string | null;
+  product_case_barcode: string | null;
+  product_unit_barcode: string | null;
+  ocr_text: string | null;
+  ocr_regions: Record<string, string>;
+  mismatches: ExtractionReviewField[];
+  created_at: string;
+};
+
+interface ExtractedCountsResponse {
+  ok: true;
+  counts: ExtractedCount[];
+}
+
+const functionUrl = () => `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/review-extraction`;
+
+async function readErrorMessage(response: Response, fallback: string) {
+  const text = await response.text();
+  try {
+    const body = JSON.parse(text) as { error?: string; field_errors?: FieldError[] };
+    if (body.field_errors?.length) return formatFieldErrors(body.field_errors);
+    return body.error || fallback;
+  } catch {
+    return text || fallback;
+  }
+}
+
+export function useExtractedCounts(eventId?: string, warehouseCode?: string, includeReviewed = false) {
+  const { fetchWithAuth } = useSupabaseClientWithAuth();
+
+  return useQuery({
+    queryKey: ['extracted-counts', eventId, warehouseCode, includeReviewed],
+    enabled: Boolean(eventId),
+    queryFn: async () => {
+      if (!eventId) return [] as ExtractedCount[];
+      const params = new URLSearchParams({ event_id: eventId });
+      if (warehouseCode) params.set('warehouse_code', warehouseCode);
+      if (includeReviewed) params.set('include_reviewed', 'true');
+      const response = await fetchWithAuth(`${functionUrl()}?${params.toString()}`, { method: 'GET' });
+      if (!response.ok) {
+        throw new Error(await readErrorMessage(response, 'Failed to load extracted counts'));
+      }
+      return ((await response.json()) as ExtractedCountsResponse).counts;
+    }
+  });
+}
+
+export function useReviewExtraction() {
+  const { fetchWithAuth } = useSupabaseClientWithAuth();
+
+  return useMutation<ExtractionReviewSuccess, ExtractionReviewRequest>({
+    mutationFn: async (payload) => {
+      const validation = validateExtractionReviewRequest({ ...payload });
+      if (!validation.ok) {
+        throw new Error(formatFieldErrors(validation.errors));
+      }
+
+      const response = await fetchWithAuth(functionUrl(), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(validation.value)
+      });
+
+      if (!response.ok) {
+        throw new Error(await readErrorMessage(response, 'Failed to review extraction'));
+      }
+
+      return response.json();
+    }
+  });
+}
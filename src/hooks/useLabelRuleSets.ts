@@ -0,0 +1,30 @@
+import { useQuery } from '../lib/queryClient';
+import { supabase } from '../lib/supabase';
+import { validateLabelRules, type LabelRules } from '../../supabase/functions/_shared/labelRules.ts';
+
+export interface ActiveLabelRuleSet {
+  id: string;
+  name: string;
+  rules: LabelRules;
+}
+
+// The capture screen crops photos with these, so a set that no longer validates is left out instead of failing capture
+export function useActiveLabelRuleSets() {
+  return useQuery({
+    queryKey: ['label-rule-sets', 'active'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('label_rule_sets')
+        .select('id, name, rules')
+        .eq('is_active', true)
+        .order('priority', { ascending: true })
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return (data ?? []).flatMap((row) => {
+        const validation = validateLabelRules(row.rules);
+        return validation.ok ? [{ id: row.id as string, name: row.name as string, rules: validation.value }] : [];
+      }) as ActiveLabelRuleSet[];
+    }
+  });
+}
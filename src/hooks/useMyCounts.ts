@@ -0,0 +1,127 @@
+import { useMutation, useQuery } from '../lib/queryClient';
+import { useSupabaseClientWithAuth } from './useSupabaseClientWithAuth';
+import {
+  formatFieldErrors,
+  validateCountAdjustmentRequest,
+  type CountAdjustmentAction,
+  type CountAdjustmentSuccess,
+  type CountQuantityField,
+  type FieldError
+} from '../../supabase/functions/_shared/countContract.ts';
+
+export interface CountAdjustmentEntry {
+  id: string;
+  count_id: string;
+  action: CountAdjustmentAction;
+  previous_values: Record<string, unknown>;
+  new_values: Record<string, unknown>;
+  reason: string | null;
+  adjusted_by_name: string | null;
+  created_at: string;
+}
+
+export type MyCount = Record<CountQuantityField, number | null> & {
+  id: string;
+  event_id: string;
+  warehouse_code: string;
+  stock_code: string;
+  product_description: string | null;
+  lot_number: string | null;
+  location_code: string | null;
+  total_units: number;
+  photo_url: string | null;
+  voided_at: string | null;
+  void_reason: string | null;
+  recount_task_id: string | null;
+  superseded_at: string | null;
+  resolution_status: 'resolved' | 'unresolved';
+  editable: boolean;
+  created_at: string;
+  updated_at: string;
+  adjustments: CountAdjustmentEntry[];
+};
+
+interface MyCountsResponse {
+  ok: true;
+  event_status: string;
+  counts: MyCount[];
+}
+
+export type AdjustCountPayload =
+  | { action: 'void'; countId: string; reason: string }
+  | {
+      action: 'edit';
+      countId: string;
+      reason?: string;
+      lotNumber?: string | null;
+      quantities: Partial<Record<CountQuantityField, number>>;
+    };
+
+const functionUrl = () => `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/adjust-count`;
+
+async function readErrorMessage(response: Response, fallback: string) {
+  const text = await response.text();
+  try {
+    const body = JSON.parse(text) as { error?: string; field_errors?: FieldError[] };
+    if (body.field_errors?.length) return formatFieldErrors(body.field_errors);
+    return body.error || fallback;
+  } catch {
+    return text || fallback;
+  }
+}
+
+export function useMyCounts(eventId?: string, warehouseCode?: string) {
+  const { fetchWithAuth } = useSupabaseClientWithAuth();
+
+  return useQuery({
+    queryKey: ['my-counts', eventId, warehouseCode],
+    enabled: Boolean(eventId && warehouseCode),
+    queryFn: async () => {
+      if (!eventId || !warehouseCode) return null;
+      const params = new URLSearchParams({ event_id: eventId, warehouse_code: warehouseCode });
+      const response = await fetchWithAuth(`${functionUrl()}?${params.toString()}`, { method: 'GET' });
+      if (!response.ok) {
+        throw new Error(await readErrorMessage(response, 'Failed to load your counts'));
+      }
+      return (await response.json()) as MyCountsResponse;
+    }
+  });
+}
+
+export function useAdjustCount() {
+  const { fetchWithAuth } = useSupabaseClientWithAuth();
+
+  return useMutation<CountAdjustmentSuccess, AdjustCountPayload>({
+    mutationFn: async (payload) => {
+      const request: Record<string, unknown> =
+        payload.action === 'void'
+          ? { action: 'void', count_id: payload.countId, reason: payload.reason }
+          : {
+              action: 'edit',
+              count_id: payload.countId,
+              reason: payload.reason,
+              lot_number: payload.lotNumber,
+              ...payload.quantities
+            };
+
+      const validation = validateCountAdjustmentRequest(request);
+      if (!validation.ok) {
+        throw new Error(formatFieldErrors(validation.errors));
+      }
+
+      const response = await fetchWithAuth(functionUrl(), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(validation.value)
+      });
+
+      if (!response.ok) {
+        throw new Error(await readErrorMessage(response, 'Failed to update count'));
+      }
+
+      return response.json();
+    }
+  });
+}
@@ -2,6 +2,11 @@ import { useMemo } from 'react';
 import { useQuery } from '../lib/queryClient';
 import { supabase, type Product } from '../lib/supabase';
 
+type ProductLookupResult = Omit<Product, 'expected_quantity' | 'stock_on_hand' | 'allocated_stock' | 'available_stock'>;
+
+const PRODUCT_LOOKUP_COLUMNS =
+  'id, stock_code, product_name, barcode, case_barcode, unit_barcode, pack_size, unit_type, branch, location, lot, expiry_date, created_at, updated_at, units_per_case, cases_per_layer, layers_per_pallet';
+
 export interface ProductLookupInput {
   stockCode?: string;
   caseBarcode?: string;
@@ -17,7 +22,7 @@ export function useProductsLookup(input: ProductLookupInput) {
     };
   }, [input.caseBarcode, input.stockCode, input.unitBarcode]);
 
-  return useQuery<Product | null>({
+  return useQuery<ProductLookupResult | null>({
     queryKey: ['product-lookup', normalised.stockCode, normalised.caseBarcode, normalised.unitBarcode],
     enabled: Boolean(normalised.stockCode || normalised.caseBarcode || normalised.unitBarcode),
     queryFn: async () => {
@@ -25,7 +30,8 @@ export function useProductsLookup(input: ProductLookupInput) {
         return null;
       }
 
-      let query = supabase.from('products').select('*').limit(1);
+      // Expected stock columns are not readable by client roles, so list the visible ones explicitly
+      let query = supabase.from('products').select(PRODUCT_LOOKUP_COLUMNS).limit(1);
       if (normalised.stockCode) {
         query = query.eq('stock_code', normalised.stockCode);
       } else if (normalised.caseBarcode) {
@@ -34,7 +40,7 @@ export function useProductsLookup(input: ProductLookupInput) {
         query = query.eq('unit_barcode', normalised.unitBarcode);
       }
 
-      const { data, error } = await query.maybeSingle<Product>();
+      const { data, error } = await query.maybeSingle<ProductLookupResult>();
       if (error) throw error;
       return data ?? null;
     }
@@ -1,6 +1,13 @@
 import { useMutation } from '../lib/queryClient';
 import { useSupabaseClientWithAuth } from './useSupabaseClientWithAuth';
 import type { RoiCropResult } from '../components/photoCaptureTypes';
+import {
+  formatFieldErrors,
+  type PhotoQuality,
+  validateSubmitCountRequest,
+  type SubmitCountFailure,
+  type SubmitCountSuccess
+} from '../../supabase/functions/_shared/countContract.ts';
 
 export interface SubmitCountPayload {
   eventId: string;
@@ -9,6 +16,8 @@ export interface SubmitCountPayload {
   caseBarcode?: string;
   unitBarcode?: string;
   recountTaskId?: string;
+  locationCode?: string;
+  submissionKey?: string;
   singlesUnits?: number | null;
   singlesCases?: number | null;
   pickfaceLayers?: number | null;
@@ -17,73 +26,114 @@ export interface SubmitCountPayload {
   bulkLayers?: number | null;
   bulkCases?: number | null;
   lotNumber?: string;
+  fillingDate?: string;
+  palletId?: string;
   photo?: File | null;
   roiCrops?: RoiCropResult | null;
+  photoQuality?: PhotoQuality | null;
+  photoHash?: string | null;
 }
 
-interface SubmitCountResponse {
-  ok: boolean;
-  id: string;
-  total_units: number;
-  photo_path?: string;
+export function toSubmitCountRequest(payload: SubmitCountPayload): Record<string, unknown> {
+  return {
+    event_id: payload.eventId,
+    warehouse_code: payload.warehouseCode,
+    stock_code: payload.stockCode,
+    case_barcode: payload.caseBarcode,
+    unit_barcode: payload.unitBarcode,
+    recount_task_id: payload.recountTaskId,
+    location_code: payload.locationCode,
+    submission_key: payload.submissionKey,
+    lot_number: payload.lotNumber,
+    filling_date: payload.fillingDate,
+    pallet_id: payload.palletId,
+    singles_units: payload.singlesUnits,
+    singles_cases: payload.singlesCases,
+    pick_face_layers: payload.pickfaceLayers,
+    pick_face_cases: payload.pickfaceCases,
+    bulk_pallets: payload.bulkPallets,
+    bulk_layers: payload.bulkLayers,
+    bulk_cases: payload.bulkCases,
+    hints: payload.roiCrops?.hints ? JSON.stringify(payload.roiCrops.hints) : undefined,
+    photo_quality: payload.photoQuality ? JSON.stringify(payload.photoQuality) : undefined,
+    photo_hash: payload.photoHash ?? undefined
+  };
+}
+
+export class SubmitCountError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'SubmitCountError';
+    this.status = status;
+  }
+}
+
+type FetchWithAuth = (input: string, init?: RequestInit) => Promise<Response>;
+
+export async function submitCount(payload: SubmitCountPayload, fetchWithAuth: FetchWithAuth): Promise<SubmitCountSuccess> {
+  const url = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/submit-count`;
+  const validation = validateSubmitCountRequest(toSubmitCountRequest(payload));
+  if (!validation.ok) {
+    throw new SubmitCountError(formatFieldErrors(validation.errors), 400);
+  }
+
+  const formData = new FormData();
+  for (const [key, value] of Object.entries(validation.value)) {
+    if (value === undefined) continue;
+    formData.append(key, String(value));
+  }
+
+  if (payload.photo) {
+    formData.append('photo', payload.photo);
+  }
+
+  if (payload.roiCrops) {
+    const { barcode, textTop, lot } = payload.roiCrops;
+    if (barcode) formData.append('photo_roi_barcode', barcode, 'roi-barcode.jpg');
+    if (textTop) formData.append('photo_roi_text_top', textTop, 'roi-text-top.jpg');
+    if (lot) formData.append('photo_roi_lot', lot, 'roi-lot.jpg');
+  }
+
+  const response = await fetchWithAuth(url, {
+    method: 'POST',
+    body: formData
+  });
+
+  if (!response.ok) {
+    throw new SubmitCountError(await readErrorMessage(response), response.status);
+  }
+
+  return response.json() as Promise<SubmitCountSuccess>;
+}
+
+// Only a fetch that never got a response (TypeError), an aborted request or being offline means the count never
+// reached submit-count. Anything else, such as an unreadable response, is shown to the counter rather than queued.
+export function isNetworkFailure(error: unknown): boolean {
+  if (error instanceof SubmitCountError) return false;
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  return error instanceof TypeError || (error instanceof DOMException && error.name === 'AbortError');
 }
 
 export function useSubmitCount() {
   const { fetchWithAuth } = useSupabaseClientWithAuth();
-  const mutation = useMutation<SubmitCountResponse, SubmitCountPayload>({
-    mutationFn: async (payload) => {
-      const url = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/submit-count`;
-      const formData = new FormData();
-      formData.append('event_id', payload.eventId);
-      formData.append('warehouse_code', payload.warehouseCode);
-      if (payload.stockCode) formData.append('stock_code', payload.stockCode);
-      if (payload.caseBarcode) formData.append('case_barcode', payload.caseBarcode);
-      if (payload.unitBarcode) formData.append('unit_barcode', payload.unitBarcode);
-      if (payload.recountTaskId) formData.append('recount_task_id', payload.recountTaskId);
-
-      appendNumber(formData, 'singles_units', payload.singlesUnits);
-      appendNumber(formData, 'singles_cases', payload.singlesCases);
-      appendNumber(formData, 'pickface_layers', payload.pickfaceLayers);
-      appendNumber(formData, 'pickface_cases', payload.pickfaceCases);
-      appendNumber(formData, 'bulk_pallets', payload.bulkPallets);
-      appendNumber(formData, 'bulk_layers', payload.bulkLayers);
-      appendNumber(formData, 'bulk_cases', payload.bulkCases);
-
-      if (payload.lotNumber) {
-        formData.append('lot_number', payload.lotNumber);
-      }
-
-      if (payload.photo) {
-        formData.append('photo', payload.photo);
-      }
-
-      if (payload.roiCrops) {
-        const { barcode, textTop, lot, hints } = payload.roiCrops;
-        if (barcode) formData.append('photo_roi_barcode', barcode, 'roi-barcode.jpg');
-        if (textTop) formData.append('photo_roi_text_top', textTop, 'roi-text-top.jpg');
-        if (lot) formData.append('photo_roi_lot', lot, 'roi-lot.jpg');
-        if (hints) formData.append('hints', JSON.stringify(hints));
-      }
-
-      const response = await fetchWithAuth(url, {
-        method: 'POST',
-        body: formData
-      });
-
-      if (!response.ok) {
-        const message = await response.text();
-        throw new Error(message || 'Unable to submit count');
-      }
-
-      return response.json();
-    }
+  const mutation = useMutation<SubmitCountSuccess, SubmitCountPayload>({
+    mutationFn: (payload) => submitCount(payload, fetchWithAuth)
   });
 
   return mutation;
 }
 
-function appendNumber(formData: FormData, key: string, value: number | null | undefined) {
-  if (value === null || value === undefined) return;
-  if (Number.isNaN(value)) return;
-  formData.append(key, String(value));
+async function readErrorMessage(response: Response): Promise<string> {
+  const text = await response.text();
+  try {
+    const body = JSON.parse(text) as SubmitCountFailure;
+    if (body.field_errors?.length) {
+      return formatFieldErrors(body.field_errors);
+    }
+    return body.error || 'Unable to submit count';
+  } catch {
+    return text || 'Unable to submit count';
+  }
 }
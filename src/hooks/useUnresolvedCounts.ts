@@ -0,0 +1,131 @@
+import { useMemo } from 'react';
+import { useMutation, useQuery } from '../lib/queryClient';
+import { supabase } from '../lib/supabase';
+import { useSupabaseClientWithAuth } from './useSupabaseClientWithAuth';
+import {
+  formatFieldErrors,
+  validateCountResolutionRequest,
+  type CountQuantityField,
+  type CountResolutionRequest,
+  type CountResolutionSuccess,
+  type FieldError,
+  type ProductMatch
+} from '../../supabase/functions/_shared/countContract.ts';
+
+export type UnresolvedCount = Record<CountQuantityField, number | null> & {
+  id: string;
+  event_id: string;
+  warehouse_code: string;
+  stock_code: string;
+  product_description: string | null;
+  lot_number: string | null;
+  location_code: string | null;
+  counted_by: string;
+  counted_by_name: string | null;
+  total_units: number;
+  photo_url: string | null;
+  scanned_identifier: string | null;
+  scanned_identifier_type: ProductMatch | null;
+  extracted_barcode: string | null;
+  extracted_product_name: string | null;
+  extracted_pack_size: string | null;
+  extracted_lot_number: string | null;
+  extracted_at: string | null;
+  created_at: string;
+};
+
+export interface ProductSearchResult {
+  id: string;
+  stock_code: string | null;
+  product_name: string;
+  pack_size: string | null;
+  case_barcode: string | null;
+  unit_barcode: string | null;
+}
+
+interface UnresolvedCountsResponse {
+  ok: true;
+  counts: UnresolvedCount[];
+}
+
+const functionUrl = () => `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/resolve-count`;
+
+async function readErrorMessage(response: Response, fallback: string) {
+  const text = await response.text();
+  try {
+    const body = JSON.parse(text) as { error?: string; field_errors?: FieldError[] };
+    if (body.field_errors?.length) return formatFieldErrors(body.field_errors);
+    return body.error || fallback;
+  } catch {
+    return text || fallback;
+  }
+}
+
+export function useUnresolvedCounts(eventId?: string, warehouseCode?: string) {
+  const { fetchWithAuth } = useSupabaseClientWithAuth();
+
+  return useQuery({
+    queryKey: ['unresolved-counts', eventId, warehouseCode],
+    enabled: Boolean(eventId),
+    queryFn: async () => {
+      if (!eventId) return [] as UnresolvedCount[];
+      const params = new URLSearchParams({ event_id: eventId });
+      if (warehouseCode) params.set('warehouse_code', warehouseCode);
+      const response = await fetchWithAuth(`${functionUrl()}?${params.toString()}`, { method: 'GET' });
+      if (!response.ok) {
+        throw new Error(await readErrorMessage(response, 'Failed to load unresolved counts'));
+      }
+      return ((await response.json()) as UnresolvedCountsResponse).counts;
+    }
+  });
+}
+
+export function useResolveCount() {
+  const { fetchWithAuth } = useSupabaseClientWithAuth();
+
+  return useMutation<CountResolutionSuccess, CountResolutionRequest>({
+    mutationFn: async (payload) => {
+      const validation = validateCountResolutionRequest({ ...payload });
+      if (!validation.ok) {
+        throw new Error(formatFieldErrors(validation.errors));
+      }
+
+      const response = await fetchWithAuth(functionUrl(), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(validation.value)
+      });
+
+      if (!response.ok) {
+        throw new Error(await readErrorMessage(response, 'Failed to map count'));
+      }
+
+      return response.json();
+    }
+  });
+}
+
+export function useProductSearch(term: string) {
+  const search = useMemo(() => term.trim().replace(/[%,()]/g, ''), [term]);
+
+  return useQuery<ProductSearchResult[]>({
+    queryKey: ['product-search', search],
+    enabled: search.length >= 2,
+    queryFn: async () => {
+      const pattern = `%${search}%`;
+      const { data, error } = await supabase
+        .from('products')
+        .select('id, stock_code, product_name, pack_size, case_barcode, unit_barcode')
+        .or(
+          `stock_code.ilike.${pattern},product_name.ilike.${pattern},case_barcode.eq.${search},unit_barcode.eq.${search},barcode.eq.${search}`
+        )
+        .order('stock_code', { ascending: true })
+        .limit(10);
+
+      if (error) throw error;
+      return (data ?? []) as ProductSearchResult[];
+    }
+  });
+}
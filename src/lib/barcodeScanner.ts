@@ -0,0 +1,211 @@
+import type { BarcodeFormat, DecodeHintType } from '@zxing/library';
+import type { BarcodeScan, BarcodeSymbology } from '../components/photoCaptureTypes';
+import {
+  GS1_GROUP_SEPARATOR,
+  isValidGtinCheckDigit,
+  parseGs1
+} from '../../supabase/functions/_shared/gs1.ts';
+
+type ScanSource = HTMLImageElement | HTMLVideoElement | HTMLCanvasElement;
+
+interface DetectedBarcode {
+  rawValue: string;
+  format: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect(source: ScanSource): Promise<DetectedBarcode[]>;
+}
+
+interface BarcodeDetectorConstructor {
+  new (options?: { formats?: string[] }): BarcodeDetectorInstance;
+  getSupportedFormats?(): Promise<string[]>;
+}
+
+type ZXingModule = typeof import('@zxing/library');
+
+const NATIVE_FORMATS: Record<string, BarcodeSymbology> = {
+  itf: 'ITF-14',
+  ean_13: 'EAN-13',
+  code_128: 'GS1-128'
+};
+
+let nativeDetector: BarcodeDetectorInstance | null | undefined;
+let zxingPromise: Promise<ZXingModule> | null = null;
+
+async function getNativeDetector(): Promise<BarcodeDetectorInstance | null> {
+  if (nativeDetector !== undefined) return nativeDetector;
+  nativeDetector = null;
+
+  const Detector = window.BarcodeDetector;
+  if (!Detector) return null;
+
+  try {
+    const supported = (await Detector.getSupportedFormats?.()) ?? Object.keys(NATIVE_FORMATS);
+    const formats = Object.keys(NATIVE_FORMATS).filter((format) => supported.includes(format));
+    if (formats.length > 0) {
+      nativeDetector = new Detector({ formats });
+    }
+  } catch (error) {
+    console.warn('Native barcode detector unavailable', error);
+  }
+
+  return nativeDetector;
+}
+
+// Bundled as its own chunk, so browsers with a native detector never download it
+async function loadZXing(): Promise<ZXingModule> {
+  if (!zxingPromise) {
+    zxingPromise = import('@zxing/library').catch((error) => {
+      zxingPromise = null;
+      console.warn('Barcode decoder chunk failed to load', error);
+      throw new Error('Failed to load barcode decoder.');
+    });
+  }
+
+  return zxingPromise;
+}
+
+function sourceDimensions(source: ScanSource) {
+  if (source instanceof HTMLVideoElement) {
+    return { width: source.videoWidth, height: source.videoHeight };
+  }
+  if (source instanceof HTMLImageElement) {
+    return { width: source.naturalWidth, height: source.naturalHeight };
+  }
+  return { width: source.width, height: source.height };
+}
+
+async function decodeWithZXing(source: ScanSource): Promise<{ rawValue: string; symbology: BarcodeSymbology } | null> {
+  const ZXing = await loadZXing();
+  const { width, height } = sourceDimensions(source);
+  if (!width || !height) return null;
+
+  let canvas: HTMLCanvasElement;
+  if (source instanceof HTMLCanvasElement) {
+    canvas = source;
+  } else {
+    canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    ctx.drawImage(source, 0, 0, width, height);
+  }
+
+  const formatMap = new Map<BarcodeFormat, BarcodeSymbology>([
+    [ZXing.BarcodeFormat.ITF, 'ITF-14'],
+    [ZXing.BarcodeFormat.EAN_13, 'EAN-13'],
+    [ZXing.BarcodeFormat.CODE_128, 'GS1-128']
+  ]);
+  const hints = new Map<DecodeHintType, unknown>([
+    [ZXing.DecodeHintType.POSSIBLE_FORMATS, Array.from(formatMap.keys())],
+    [ZXing.DecodeHintType.TRY_HARDER, true]
+  ]);
+
+  const reader = new ZXing.MultiFormatReader();
+  reader.setHints(hints);
+
+  try {
+    const bitmap = new ZXing.BinaryBitmap(
+      new ZXing.HybridBinarizer(new ZXing.HTMLCanvasElementLuminanceSource(canvas))
+    );
+    const result = reader.decode(bitmap);
+    const symbology = formatMap.get(result.getBarcodeFormat());
+    return symbology ? { rawValue: result.getText(), symbology } : null;
+  } catch {
+    // ZXing throws NotFoundException when the frame holds no readable barcode
+    return null;
+  }
+}
+
+export function normaliseBarcode(rawValue: string, symbology: BarcodeSymbology): string | null {
+  if (symbology === 'GS1-128') {
+    // Pallet labels carry the case GTIN in (02) rather than (01)
+    const label = parseGs1(rawValue);
+    return label?.gtin ?? label?.contentGtin ?? null;
+  }
+
+  const cleaned = rawValue
+    .replace(/^\][A-Za-z]\d/, '')
+    .split(GS1_GROUP_SEPARATOR)
+    .join('')
+    .trim();
+
+  const expectedLength = symbology === 'ITF-14' ? 14 : 13;
+  if (cleaned.length !== expectedLength || !isValidGtinCheckDigit(cleaned)) {
+    return null;
+  }
+  return cleaned;
+}
+
+async function detectBarcodes(source: ScanSource): Promise<Array<{ rawValue: string; symbology: BarcodeSymbology }>> {
+  if (typeof window === 'undefined') return [];
+
+  const detector = await getNativeDetector();
+  if (detector) {
+    const detected = await detector.detect(source);
+    return detected.flatMap((barcode) => {
+      const symbology = NATIVE_FORMATS[barcode.format];
+      return symbology ? [{ rawValue: barcode.rawValue, symbology }] : [];
+    });
+  }
+
+  const decoded = await decodeWithZXing(source);
+  return decoded ? [decoded] : [];
+}
+
+export async function scanBarcode(source: ScanSource, origin: BarcodeScan['source']): Promise<BarcodeScan | null> {
+  for (const { rawValue, symbology } of await detectBarcodes(source)) {
+    const code = normaliseBarcode(rawValue, symbology);
+    if (code) {
+      return { code, rawValue, symbology, source: origin };
+    }
+  }
+  return null;
+}
+
+// Location labels are plain Code 128 without GS1 data, so the value is only trimmed, never validated as a GTIN.
+export async function scanLocationBarcode(source: ScanSource, origin: BarcodeScan['source']): Promise<BarcodeScan | null> {
+  for (const { rawValue, symbology } of await detectBarcodes(source)) {
+    const code = rawValue.replace(/^\][A-Za-z]\d/, '').trim();
+    if (code) {
+      return { code, rawValue, symbology, source: origin };
+    }
+  }
+  return null;
+}
+
+// SSCC, GTIN and content GTIN: a Code 128 value that parses cleanly into one of these is GS1 data, not a plate
+const GS1_IDENTIFYING_AIS = ['00', '01', '02'];
+
+// A GS1-128 pallet label identifies the pallet by its SSCC; anything else in Code 128 is a license plate. The content
+// GTIN on the same label, in (02) or in a case EAN/ITF, names the product rather than the pallet, so it is skipped.
+function palletIdentifier(rawValue: string, symbology: BarcodeSymbology): string | null {
+  if (symbology !== 'GS1-128') return null;
+
+  const label = parseGs1(rawValue);
+  const isGs1 =
+    rawValue.startsWith(']C1') ||
+    rawValue.includes(GS1_GROUP_SEPARATOR) ||
+    (!!label && label.errors.length === 0 && label.elements.some(({ ai }) => GS1_IDENTIFYING_AIS.includes(ai)));
+  if (isGs1) return label?.sscc ?? null;
+
+  return rawValue.replace(/^\][A-Za-z]\d/, '').trim() || null;
+}
+
+export async function scanPalletBarcode(source: ScanSource, origin: BarcodeScan['source']): Promise<BarcodeScan | null> {
+  for (const { rawValue, symbology } of await detectBarcodes(source)) {
+    const code = palletIdentifier(rawValue, symbology);
+    if (code) {
+      return { code, rawValue, symbology, source: origin };
+    }
+  }
+  return null;
+}
+
+declare global {
+  interface Window {
+    BarcodeDetector?: BarcodeDetectorConstructor;
+  }
+}
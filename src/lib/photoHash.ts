@@ -0,0 +1,54 @@
+import { loadImage } from './photoPipeline';
+
+// pHash: the sign pattern of the lowest 8x8 frequencies of a 32x32 grey thumbnail. Re-encoding, resizing and small
+// exposure changes leave it within a few bits; a different photo of the same label usually is not.
+const SIZE = 32;
+const LOW_FREQUENCIES = 8;
+
+const COSINES: number[][] = Array.from({ length: LOW_FREQUENCIES }, (_, frequency) =>
+  Array.from({ length: SIZE }, (_, position) => Math.cos(((2 * position + 1) * frequency * Math.PI) / (2 * SIZE)))
+);
+
+// Returns the hash as 16 lowercase hex digits, the form submit-count stores in counts.photo_hash
+export async function computePhotoHash(file: File): Promise<string> {
+  const image = await loadImage(file);
+  const canvas = document.createElement('canvas');
+  canvas.width = SIZE;
+  canvas.height = SIZE;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas is not available');
+  ctx.drawImage(image, 0, 0, SIZE, SIZE);
+  const { data } = ctx.getImageData(0, 0, SIZE, SIZE);
+
+  const grey: number[] = [];
+  for (let pixel = 0; pixel < SIZE * SIZE; pixel += 1) {
+    const offset = pixel * 4;
+    grey.push(0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2]);
+  }
+
+  const coefficients: number[] = [];
+  for (let v = 0; v < LOW_FREQUENCIES; v += 1) {
+    for (let u = 0; u < LOW_FREQUENCIES; u += 1) {
+      let sum = 0;
+      for (let y = 0; y < SIZE; y += 1) {
+        for (let x = 0; x < SIZE; x += 1) {
+          sum += grey[y * SIZE + x] * COSINES[u][x] * COSINES[v][y];
+        }
+      }
+      coefficients.push(sum);
+    }
+  }
+
+  const sorted = [...coefficients].sort((a, b) => a - b);
+  const median = (sorted[31] + sorted[32]) / 2;
+
+  let hex = '';
+  for (let nibble = 0; nibble < 16; nibble += 1) {
+    let value = 0;
+    for (let bit = 0; bit < 4; bit += 1) {
+      value = (value << 1) | (coefficients[nibble * 4 + bit] > median ? 1 : 0);
+    }
+    hex += value.toString(16);
+  }
+  return hex;
+}
@@ -0,0 +1,182 @@
+export type PhotoFormat = 'image/jpeg' | 'image/webp';
+
+export interface PhotoPipelineOptions {
+  // Longest side of the uploaded photo, in pixels
+  maxEdge: number;
+  format: PhotoFormat;
+  // Size the encoder works down to by lowering quality, then dimensions
+  targetBytes: number;
+}
+
+const EXIF_ORIENTATION_TAG = 0x0112;
+const QUALITY_STEPS = [0.85, 0.75, 0.65, 0.55];
+const MAX_SHRINKS = 3;
+const SHRINK_FACTOR = 0.8;
+
+function positiveNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+// VITE_PHOTO_MAX_EDGE, VITE_PHOTO_FORMAT (jpeg or webp) and VITE_PHOTO_TARGET_KB tune the pipeline per deployment
+export const PHOTO_PIPELINE_OPTIONS: PhotoPipelineOptions = {
+  maxEdge: Math.round(positiveNumber(import.meta.env.VITE_PHOTO_MAX_EDGE, 2048)),
+  format: import.meta.env.VITE_PHOTO_FORMAT === 'webp' ? 'image/webp' : 'image/jpeg',
+  targetBytes: Math.round(positiveNumber(import.meta.env.VITE_PHOTO_TARGET_KB, 1024) * 1024)
+};
+
+interface ExifOrientation {
+  orientation: number;
+  // Byte offset of the tag's value, so it can be reset before decoding
+  valueOffset: number;
+  littleEndian: boolean;
+}
+
+// Walks the JPEG markers to the EXIF block and reads the orientation tag from IFD0
+function readJpegOrientation(view: DataView): ExifOrientation | null {
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return null;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) return null;
+    const length = view.getUint16(offset + 2);
+
+    // APP1 starting with "Exif\0\0"
+    const isExif =
+      marker === 0xffe1 &&
+      offset + 10 <= view.byteLength &&
+      view.getUint32(offset + 4) === 0x45786966 &&
+      view.getUint16(offset + 8) === 0;
+    if (isExif) {
+      const tiff = offset + 10;
+      if (tiff + 8 > view.byteLength) return null;
+      const littleEndian = view.getUint16(tiff) === 0x4949;
+      const ifd0 = tiff + view.getUint32(tiff + 4, littleEndian);
+      if (ifd0 + 2 > view.byteLength) return null;
+      const entries = view.getUint16(ifd0, littleEndian);
+      for (let index = 0; index < entries; index += 1) {
+        const entry = ifd0 + 2 + index * 12;
+        if (entry + 12 > view.byteLength) return null;
+        if (view.getUint16(entry, littleEndian) === EXIF_ORIENTATION_TAG) {
+          const orientation = view.getUint16(entry + 8, littleEndian);
+          return orientation >= 1 && orientation <= 8 ? { orientation, valueOffset: entry + 8, littleEndian } : null;
+        }
+      }
+      return null;
+    }
+
+    offset += 2 + length;
+  }
+  return null;
+}
+
+export async function loadImage(blob: Blob): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = (error) => {
+      URL.revokeObjectURL(url);
+      reject(error);
+    };
+    image.src = url;
+  });
+}
+
+// Browsers disagree on whether drawImage honours EXIF orientation, so the tag is reset to 1 before decoding and the
+// rotation is applied here, the same way everywhere
+async function decodeUpright(file: File): Promise<{ image: HTMLImageElement; orientation: number }> {
+  if (file.type !== 'image/jpeg') {
+    return { image: await loadImage(file), orientation: 1 };
+  }
+
+  const bytes = await file.arrayBuffer();
+  const exif = readJpegOrientation(new DataView(bytes));
+  if (!exif || exif.orientation === 1) {
+    return { image: await loadImage(file), orientation: 1 };
+  }
+
+  const neutral = bytes.slice(0);
+  new DataView(neutral).setUint16(exif.valueOffset, 1, exif.littleEndian);
+  return { image: await loadImage(new Blob([neutral], { type: file.type })), orientation: exif.orientation };
+}
+
+function drawOriented(image: HTMLImageElement, orientation: number, scale: number): HTMLCanvasElement {
+  const width = Math.max(1, Math.round(image.naturalWidth * scale));
+  const height = Math.max(1, Math.round(image.naturalHeight * scale));
+  const swapsAxes = orientation >= 5;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = swapsAxes ? height : width;
+  canvas.height = swapsAxes ? width : height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+
+  switch (orientation) {
+    case 2:
+      ctx.transform(-1, 0, 0, 1, width, 0);
+      break;
+    case 3:
+      ctx.transform(-1, 0, 0, -1, width, height);
+      break;
+    case 4:
+      ctx.transform(1, 0, 0, -1, 0, height);
+      break;
+    case 5:
+      ctx.transform(0, 1, 1, 0, 0, 0);
+      break;
+    case 6:
+      ctx.transform(0, 1, -1, 0, height, 0);
+      break;
+    case 7:
+      ctx.transform(0, -1, -1, 0, height, width);
+      break;
+    case 8:
+      ctx.transform(0, -1, 1, 0, 0, width);
+      break;
+    default:
+      break;
+  }
+  ctx.drawImage(image, 0, 0, width, height);
+  return canvas;
+}
+
+async function encode(canvas: HTMLCanvasElement, format: PhotoFormat, quality: number): Promise<Blob> {
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, format, quality));
+  if (!blob) throw new Error('Failed to encode photo');
+  return blob;
+}
+
+// Returns the photo upright, no larger than maxEdge and re-encoded towards targetBytes. Re-encoding also drops the
+// camera's EXIF block, location included.
+export async function preparePhoto(file: File, options: PhotoPipelineOptions = PHOTO_PIPELINE_OPTIONS): Promise<File> {
+  const { image, orientation } = await decodeUpright(file);
+  const longestEdge = Math.max(image.naturalWidth, image.naturalHeight);
+  let scale = Math.min(1, options.maxEdge / longestEdge);
+
+  let format = options.format;
+  let blob: Blob | null = null;
+  for (let shrink = 0; shrink <= MAX_SHRINKS; shrink += 1) {
+    const canvas = drawOriented(image, orientation, scale);
+    for (const quality of QUALITY_STEPS) {
+      blob = await encode(canvas, format, quality);
+      // Browsers without a WebP encoder hand back a PNG
+      if (blob.type !== format) {
+        format = 'image/jpeg';
+        blob = await encode(canvas, format, quality);
+      }
+      if (blob.size <= options.targetBytes) break;
+    }
+    if (blob && blob.size <= options.targetBytes) break;
+    scale *= SHRINK_FACTOR;
+  }
+  if (!blob) throw new Error('Failed to encode photo');
+
+  const extension = format === 'image/webp' ? 'webp' : 'jpg';
+  const baseName = file.name.replace(/\.[^.]+$/, '') || 'photo';
+  return new File([blob], `${baseName}.${extension}`, { type: format, lastModified: file.lastModified });
+}
@@ -0,0 +1,98 @@
+import { loadImage } from './photoPipeline';
+import type {
+  PhotoQuality,
+  PhotoQualityIssue,
+  PhotoQualityVerdict
+} from '../../supabase/functions/_shared/countContract.ts';
+
+// Scores are taken on a copy this size, so they compare across cameras and stay quick on older phones
+const SAMPLE_EDGE = 640;
+const CLIPPED_LUMINANCE = 250;
+
+interface Threshold {
+  fair: number;
+  poor: number;
+}
+
+// Tuned on warehouse label photos: below fair the OCR starts missing lot codes, below poor it rarely reads anything
+const THRESHOLDS: Record<PhotoQualityIssue, Threshold> = {
+  // Laplacian variance; lower is blurrier
+  blurry: { fair: 120, poor: 40 },
+  // Mean luminance; lower is darker
+  dark: { fair: 70, poor: 40 },
+  // Mean luminance; higher is brighter
+  overexposed: { fair: 200, poor: 230 },
+  // Share of clipped pixels; higher is more glare
+  glare: { fair: 0.04, poor: 0.12 }
+};
+
+// With VITE_PHOTO_QUALITY_MODE=block a poor photo has to be retaken; by default the counter is only warned
+export const PHOTO_QUALITY_BLOCKS = import.meta.env.VITE_PHOTO_QUALITY_MODE === 'block';
+
+function grade(issue: PhotoQualityIssue, score: number): PhotoQualityVerdict {
+  const { fair, poor } = THRESHOLDS[issue];
+  const lowerIsWorse = issue === 'blurry' || issue === 'dark';
+  if (lowerIsWorse ? score < poor : score > poor) return 'poor';
+  if (lowerIsWorse ? score < fair : score > fair) return 'fair';
+  return 'good';
+}
+
+export async function assessPhotoQuality(file: File): Promise<PhotoQuality> {
+  const image = await loadImage(file);
+  const scale = Math.min(1, SAMPLE_EDGE / Math.max(image.naturalWidth, image.naturalHeight));
+  const width = Math.max(3, Math.round(image.naturalWidth * scale));
+  const height = Math.max(3, Math.round(image.naturalHeight * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas is not available');
+  ctx.drawImage(image, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  const grey = new Float32Array(width * height);
+  let luminanceTotal = 0;
+  let clipped = 0;
+  for (let pixel = 0; pixel < grey.length; pixel += 1) {
+    const offset = pixel * 4;
+    const luminance = 0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2];
+    grey[pixel] = luminance;
+    luminanceTotal += luminance;
+    if (luminance >= CLIPPED_LUMINANCE) clipped += 1;
+  }
+
+  // Variance of the 4-neighbour Laplacian over the interior pixels
+  let sum = 0;
+  let sumOfSquares = 0;
+  for (let y = 1; y < height - 1; y += 1) {
+    for (let x = 1; x < width - 1; x += 1) {
+      const pixel = y * width + x;
+      const laplacian =
+        4 * grey[pixel] - grey[pixel - 1] - grey[pixel + 1] - grey[pixel - width] - grey[pixel + width];
+      sum += laplacian;
+      sumOfSquares += laplacian * laplacian;
+    }
+  }
+  const samples = (width - 2) * (height - 2);
+  const mean = sum / samples;
+
+  const sharpness = Math.round((sumOfSquares / samples - mean * mean) * 10) / 10;
+  const brightness = Math.round((luminanceTotal / grey.length) * 10) / 10;
+  const glare = Math.round((clipped / grey.length) * 1000) / 1000;
+
+  const grades: Array<[PhotoQualityIssue, PhotoQualityVerdict]> = [
+    ['blurry', grade('blurry', sharpness)],
+    ['dark', grade('dark', brightness)],
+    ['overexposed', grade('overexposed', brightness)],
+    ['glare', grade('glare', glare)]
+  ];
+  const issues = grades.filter(([, verdict]) => verdict !== 'good').map(([issue]) => issue);
+  const verdict: PhotoQualityVerdict = grades.some(([, value]) => value === 'poor')
+    ? 'poor'
+    : issues.length > 0
+    ? 'fair'
+    : 'good';
+
+  return { sharpness, brightness, glare, verdict, issues };
+}
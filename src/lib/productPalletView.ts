@@ -1,15 +1,71 @@
 import { supabase } from './supabase';
+import type { BarcodeSymbology } from '../components/photoCaptureTypes';
+
+export interface ProductPalletView {
+  product_id: string;
+  stock_code: string | null;
+  product_name: string | null;
+  description: string | null;
+  default_barcode: string | null;
+  case_barcode: string | null;
+  unit_barcode: string | null;
+  units_per_case: number | null;
+  cases_per_layer: number | null;
+  layers_per_pallet: number | null;
+  units_per_pallet: number | null;
+  pallet_configuration_id: string | null;
+  pallet_created_at: string | null;
+  pallet_updated_at: string | null;
+  pack_size: string | null;
+}
+
+export type BarcodeMatch = 'case_barcode' | 'unit_barcode';
+
+export interface ResolvedBarcode {
+  product: ProductPalletView;
+  matchedOn: BarcodeMatch;
+  barcode: string;
+}
 
 const baseQuery = () => supabase.from('product_pallet_view').select('*');
 
 export function getByCaseBarcode(barcode: string) {
-  return baseQuery().eq('case_barcode', barcode).maybeSingle();
+  return baseQuery().eq('case_barcode', barcode).maybeSingle<ProductPalletView>();
 }
 
 export function getByUnitBarcode(barcode: string) {
-  return baseQuery().eq('unit_barcode', barcode).maybeSingle();
+  return baseQuery().eq('unit_barcode', barcode).maybeSingle<ProductPalletView>();
 }
 
 export function getByStockCode(code: string) {
-  return baseQuery().eq('stock_code', code).maybeSingle();
+  return baseQuery().eq('stock_code', code).maybeSingle<ProductPalletView>();
+}
+
+// Case labels (ITF-14, GS1-128 GTIN) try case_barcode first; retail EAN-13s try unit_barcode first.
+export async function resolveBarcode(code: string, symbology: BarcodeSymbology): Promise<ResolvedBarcode | null> {
+  const lookups: Array<{ matchedOn: BarcodeMatch; barcode: string }> =
+    symbology === 'EAN-13'
+      ? [
+          { matchedOn: 'unit_barcode', barcode: code },
+          { matchedOn: 'case_barcode', barcode: code }
+        ]
+      : [
+          { matchedOn: 'case_barcode', barcode: code },
+          { matchedOn: 'unit_barcode', barcode: code }
+        ];
+
+  if (code.length === 14 && code.startsWith('0')) {
+    lookups.push({ matchedOn: 'case_barcode', barcode: code.slice(1) });
+  }
+
+  for (const lookup of lookups) {
+    const { data, error } =
+      lookup.matchedOn === 'case_barcode' ? await getByCaseBarcode(lookup.barcode) : await getByUnitBarcode(lookup.barcode);
+    if (error) throw error;
+    if (data) {
+      return { product: data, matchedOn: lookup.matchedOn, barcode: lookup.barcode };
+    }
+  }
+
+  return null;
 }
@@ -1,156 +1,171 @@
-interface ImageFileMetadata {
-  name: string;
-  type: string;
-  lastModified?: number;
-}
+import type { SubmitCountPayload } from '../hooks/useSubmitCount';
+
+export type QueuedCountStatus = 'pending' | 'syncing' | 'error' | 'failed';
 
-interface SerializedQueuedEntry {
+export interface QueuedCount {
   id: string;
-  imageDataUrl: string;
-  imageFileMetadata: ImageFileMetadata;
-  extractedData: {
-    product_name: string;
-    barcode: string;
-    lot_number: string;
-    pack_size: string;
-  };
-  quantity: number;
-  unitType: 'pallet' | 'case' | 'layer';
-  branch: string;
-  location: string;
-  expiryDate: string | null;
-  timestamp: number;
+  payload: SubmitCountPayload;
+  status: QueuedCountStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError: string | null;
+  createdAt: number;
+  updatedAt: number;
 }
 
-export interface QueuedEntry extends SerializedQueuedEntry {
-  imageFile: File | Blob | null;
+export interface QueueStorageUsage {
+  usage: number;
+  quota: number;
 }
 
-export type QueueEntryInput = {
-  imageFile: File;
-  imageDataUrl: string;
-  extractedData: SerializedQueuedEntry['extractedData'];
-  quantity: number;
-  unitType: SerializedQueuedEntry['unitType'];
-  branch: string;
-  location: string;
-  expiryDate: SerializedQueuedEntry['expiryDate'];
-};
-
-const QUEUE_KEY = 'stocktake_sync_queue';
-
-export function addToQueue(entry: QueueEntryInput): string {
-  const queue = getStoredQueue();
-  const id = crypto.randomUUID();
-  const serializedEntry: SerializedQueuedEntry = {
-    id,
-    imageDataUrl: entry.imageDataUrl,
-    imageFileMetadata: {
-      name: entry.imageFile.name,
-      type: entry.imageFile.type || 'application/octet-stream',
-      lastModified: entry.imageFile.lastModified
-    },
-    extractedData: entry.extractedData,
-    quantity: entry.quantity,
-    unitType: entry.unitType,
-    branch: entry.branch,
-    location: entry.location,
-    expiryDate: entry.expiryDate ?? null,
-    timestamp: Date.now()
-  };
-
-  queue.push(serializedEntry);
-  saveQueue(queue);
-
-  return id;
+export class NonRetryableSyncError extends Error {}
+
+const DB_NAME = 'nb-stocktake';
+const DB_VERSION = 1;
+const STORE_NAME = 'count-queue';
+
+const BACKOFF_BASE_MS = 5_000;
+const BACKOFF_MAX_MS = 10 * 60_000;
+
+const listeners = new Set<() => void>();
+let dbPromise: Promise<IDBDatabase> | null = null;
+let replayPromise: Promise<void> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error ?? new Error('Failed to open offline queue.'));
+      };
+    });
+  }
+  return dbPromise;
 }
 
-export function getQueue(): QueuedEntry[] {
-  const queue = getStoredQueue();
-  return queue.map(hydrateQueueEntry);
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error ?? new Error('Offline queue transaction failed.'));
+    transaction.onabort = () => reject(transaction.error ?? new Error('Offline queue transaction aborted.'));
+  });
 }
 
-export function removeFromQueue(id: string): void {
-  const queue = getStoredQueue().filter(entry => entry.id !== id);
-  saveQueue(queue);
+function notify() {
+  listeners.forEach((listener) => listener());
 }
 
-export function clearQueue(): void {
-  localStorage.removeItem(QUEUE_KEY);
+export function backoffDelay(attempts: number): number {
+  return Math.min(BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1), BACKOFF_MAX_MS);
 }
 
-export function getQueueCount(): number {
-  return getStoredQueue().length;
+export function subscribeToQueue(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
 }
 
-export function rebuildFileFromDataUrl(
-  imageDataUrl: string,
-  metadata: ImageFileMetadata
-): File | Blob | null {
-  try {
-    const blob = dataUrlToBlob(imageDataUrl, metadata.type);
-
-    if (typeof File !== 'undefined') {
-      return new File([blob], metadata.name, {
-        type: metadata.type,
-        lastModified: metadata.lastModified ?? Date.now()
-      });
-    }
-
-    return blob;
-  } catch (error) {
-    console.error('Failed to rebuild file from data URL:', error);
-    return null;
-  }
+export async function enqueueCount(payload: SubmitCountPayload): Promise<QueuedCount> {
+  const now = Date.now();
+  const id = payload.submissionKey ?? crypto.randomUUID();
+  const entry: QueuedCount = {
+    id,
+    payload: { ...payload, submissionKey: id },
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: now,
+    lastError: null,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  await withStore('readwrite', (store) => store.put(entry));
+  notify();
+  return entry;
 }
 
-function hydrateQueueEntry(entry: SerializedQueuedEntry): QueuedEntry {
-  const imageFile = rebuildFileFromDataUrl(entry.imageDataUrl, entry.imageFileMetadata);
-  return {
-    ...entry,
-    imageFile
-  };
+export async function listQueuedCounts(): Promise<QueuedCount[]> {
+  const entries = await withStore<QueuedCount[]>('readonly', (store) => store.getAll());
+  return entries.sort((a, b) => a.createdAt - b.createdAt);
 }
 
-function getStoredQueue(): SerializedQueuedEntry[] {
-  try {
-    const data = localStorage.getItem(QUEUE_KEY);
-    if (!data) {
-      return [];
-    }
-
-    const parsed = JSON.parse(data) as SerializedQueuedEntry[];
-    return Array.isArray(parsed) ? parsed : [];
-  } catch (error) {
-    console.error('Failed to parse stored queue:', error);
-    return [];
-  }
+export async function removeQueuedCount(id: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(id));
+  notify();
 }
 
-function saveQueue(queue: SerializedQueuedEntry[]): void {
-  try {
-    localStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
-  } catch (error) {
-    console.error('Failed to save queue:', error);
-  }
+export async function clearQueue(): Promise<void> {
+  await withStore('readwrite', (store) => store.clear());
+  notify();
 }
 
-function dataUrlToBlob(dataUrl: string, fallbackType?: string): Blob {
-  const [header, data] = dataUrl.split(',');
-  if (!header || !data) {
-    throw new Error('Invalid data URL');
-  }
+export async function retryQueuedCount(id: string): Promise<void> {
+  const entry = await withStore<QueuedCount | undefined>('readonly', (store) => store.get(id));
+  if (!entry) return;
+  await saveEntry({ ...entry, status: 'pending', nextAttemptAt: Date.now() });
+}
 
-  const isBase64 = header.includes('base64');
-  const mimeMatch = header.match(/data:(.*?)(;|,)/);
-  const mimeType = mimeMatch?.[1] || fallbackType || 'application/octet-stream';
+export async function getQueueStorageUsage(): Promise<QueueStorageUsage | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+}
 
-  const binaryString = isBase64 ? atob(data) : decodeURIComponent(data);
-  const byteArray = new Uint8Array(binaryString.length);
+async function saveEntry(entry: QueuedCount) {
+  await withStore('readwrite', (store) => store.put({ ...entry, updatedAt: Date.now() }));
+  notify();
+}
 
-  for (let i = 0; i < binaryString.length; i++) {
-    byteArray[i] = binaryString.charCodeAt(i);
+/**
+ * Sends every due entry through `submit`, one at a time. Successful entries are removed; transient failures are
+ * rescheduled with exponential backoff, and NonRetryableSyncError marks an entry failed until retried by hand.
+ * `force` ignores the backoff schedule. Concurrent calls share the run already in progress.
+ */
+export function replayQueue(
+  submit: (payload: SubmitCountPayload) => Promise<unknown>,
+  { force = false }: { force?: boolean } = {}
+): Promise<void> {
+  if (!replayPromise) {
+    replayPromise = (async () => {
+      const now = Date.now();
+      const due = (await listQueuedCounts()).filter(
+        (entry) => entry.status !== 'failed' && (force || entry.nextAttemptAt <= now)
+      );
+
+      for (const entry of due) {
+        if (typeof navigator !== 'undefined' && !navigator.onLine) break;
+
+        await saveEntry({ ...entry, status: 'syncing' });
+        try {
+          await submit(entry.payload);
+          await removeQueuedCount(entry.id);
+        } catch (error) {
+          const attempts = entry.attempts + 1;
+          const message = error instanceof Error ? error.message : 'Sync failed';
+          await saveEntry({
+            ...entry,
+            attempts,
+            status: error instanceof NonRetryableSyncError ? 'failed' : 'error',
+            lastError: message,
+            nextAttemptAt: Date.now() + backoffDelay(attempts)
+          });
+        }
+      }
+    })().finally(() => {
+      replayPromise = null;
+    });
   }
-
-  return new Blob([byteArray], { type: mimeType });
+  return replayPromise;
 }
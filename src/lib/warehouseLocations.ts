@@ -0,0 +1,50 @@
+import { supabase } from './supabase';
+
+export interface WarehouseLocation {
+  id: string;
+  warehouse_code: string;
+  code: string;
+  zone: string | null;
+  aisle: string | null;
+  bay: string | null;
+  level: string | null;
+  barcode: string | null;
+  description: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export function listWarehouseLocations(warehouseCode: string, { includeInactive = false } = {}) {
+  let query = supabase
+    .from('warehouse_locations')
+    .select('*')
+    .eq('warehouse_code', warehouseCode)
+    .order('code');
+  if (!includeInactive) {
+    query = query.eq('is_active', true);
+  }
+  return query.returns<WarehouseLocation[]>();
+}
+
+// A scanned location label may carry either the location code or its own barcode value.
+export function findLocation(locations: WarehouseLocation[], scanned: string): WarehouseLocation | null {
+  const value = scanned.trim();
+  return (
+    locations.find((location) => location.code === value) ??
+    locations.find((location) => location.barcode === value) ??
+    locations.find((location) => location.code.toUpperCase() === value.toUpperCase()) ??
+    null
+  );
+}
+
+export function describeLocation(location: Pick<WarehouseLocation, 'zone' | 'aisle' | 'bay' | 'level'>): string {
+  return [
+    location.zone && `Zone ${location.zone}`,
+    location.aisle && `Aisle ${location.aisle}`,
+    location.bay && `Bay ${location.bay}`,
+    location.level && `Level ${location.level}`
+  ]
+    .filter(Boolean)
+    .join(' · ');
+}
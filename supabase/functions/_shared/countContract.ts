@@ -0,0 +1,596 @@
+// Wire contract for submit-count. Imported by the browser (useSubmitCount) and by the Deno function, so this
+// module must stay free of runtime-specific APIs.
+import { hasValidCheckDigit, parseGs1 } from './gs1.ts';
+
+export const COUNT_STRING_FIELDS = [
+  'event_id',
+  'warehouse_code',
+  'stock_code',
+  'case_barcode',
+  'unit_barcode',
+  'barcode',
+  'submission_key',
+  'recount_task_id',
+  'location_code',
+  'lot_number',
+  'filling_date',
+  'pallet_id',
+  'product_description',
+  'hints',
+  'photo_quality',
+  'photo_hash',
+] as const;
+
+export const COUNT_QUANTITY_FIELDS = [
+  'singles_units',
+  'singles_cases',
+  'pick_face_layers',
+  'pick_face_cases',
+  'bulk_pallets',
+  'bulk_layers',
+  'bulk_cases',
+] as const;
+
+export const COUNT_FILE_FIELDS = ['photo', 'photo_roi_barcode', 'photo_roi_text_top', 'photo_roi_lot'] as const;
+
+// Regions cropped from the count photo on the client, stored next to it and read separately by process-extractions
+export const PHOTO_REGIONS = ['barcode', 'text_top', 'lot'] as const;
+
+export type PhotoRegion = (typeof PHOTO_REGIONS)[number];
+
+export const COUNT_ROI_FIELDS: Record<Exclude<CountFileField, 'photo'>, PhotoRegion> = {
+  photo_roi_barcode: 'barcode',
+  photo_roi_text_top: 'text_top',
+  photo_roi_lot: 'lot',
+};
+
+// The hints field as sent by getRoiCrops: the label rule set the photo was cropped with and its crop rectangles
+export interface ExtractionHints {
+  ruleSetId?: string | null;
+  roi?: Record<string, { xPct: number; yPct: number; wPct: number; hPct: number }>;
+}
+
+export const PHOTO_QUALITY_VERDICTS = ['good', 'fair', 'poor'] as const;
+export const PHOTO_QUALITY_ISSUES = ['blurry', 'dark', 'overexposed', 'glare'] as const;
+
+export type PhotoQualityVerdict = (typeof PHOTO_QUALITY_VERDICTS)[number];
+export type PhotoQualityIssue = (typeof PHOTO_QUALITY_ISSUES)[number];
+
+export const PHOTO_QUALITY_ISSUE_LABELS: Record<PhotoQualityIssue, string> = {
+  blurry: 'Blurry',
+  dark: 'Too dark',
+  overexposed: 'Overexposed',
+  glare: 'Glare',
+};
+
+// Scored on the device when the photo is taken and stored on the count. sharpness is the variance of the Laplacian of
+// the downscaled grey image, brightness the mean luminance (0-255) and glare the share of clipped highlights (0-1).
+export interface PhotoQuality {
+  sharpness: number;
+  brightness: number;
+  glare: number;
+  verdict: PhotoQualityVerdict;
+  issues: PhotoQualityIssue[];
+}
+
+export function readPhotoQuality(value: unknown): PhotoQuality | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const { sharpness, brightness, glare, verdict, issues } = value as Record<string, unknown>;
+  const isScore = (score: unknown, max: number) =>
+    typeof score === 'number' && Number.isFinite(score) && score >= 0 && score <= max;
+  if (!isScore(sharpness, Number.MAX_VALUE) || !isScore(brightness, 255) || !isScore(glare, 1)) return null;
+  if (!(PHOTO_QUALITY_VERDICTS as readonly unknown[]).includes(verdict)) return null;
+  if (!Array.isArray(issues) || !issues.every((issue) => (PHOTO_QUALITY_ISSUES as readonly unknown[]).includes(issue))) {
+    return null;
+  }
+  return {
+    sharpness: sharpness as number,
+    brightness: brightness as number,
+    glare: glare as number,
+    verdict: verdict as PhotoQualityVerdict,
+    issues: issues as PhotoQualityIssue[],
+  };
+}
+
+export function describePhotoQuality(quality: PhotoQuality): string {
+  const issues = quality.issues.map((issue) => PHOTO_QUALITY_ISSUE_LABELS[issue]).join(', ');
+  return `${issues || 'Good'} (sharpness ${Math.round(quality.sharpness)}, brightness ${Math.round(
+    quality.brightness,
+  )}, glare ${Math.round(quality.glare * 100)}%)`;
+}
+
+// JSON submissions may inline the photo instead of sending multipart form data.
+export const COUNT_JSON_PHOTO_FIELD = 'photo_base64';
+
+const REQUIRED_FIELDS: CountStringField[] = ['event_id', 'warehouse_code'];
+
+// Checked in this order by the resolve_product RPC; at least one must be present.
+export const PRODUCT_IDENTIFIER_FIELDS = ['stock_code', 'case_barcode', 'unit_barcode', 'barcode'] as const;
+
+export type CountStringField = (typeof COUNT_STRING_FIELDS)[number];
+export type CountQuantityField = (typeof COUNT_QUANTITY_FIELDS)[number];
+export type CountFileField = (typeof COUNT_FILE_FIELDS)[number];
+export type ProductMatch = (typeof PRODUCT_IDENTIFIER_FIELDS)[number];
+
+export type SubmitCountRequest = {
+  event_id: string;
+  warehouse_code: string;
+} & Partial<Record<Exclude<CountStringField, 'event_id' | 'warehouse_code'>, string>> &
+  Record<CountQuantityField, number>;
+
+// An earlier count in the same event and warehouse whose photo's perceptual hash is within a few bits of this one
+export interface DuplicatePhotoMatch {
+  count_id: string | null;
+  stock_code: string | null;
+  location_code: string | null;
+  counted_by_name: string | null;
+  counted_at: string | null;
+  distance: number;
+}
+
+export interface SubmitCountSuccess {
+  ok: true;
+  id: string;
+  stock_code: string;
+  // null when no product matched and the count was saved for review
+  matched_on: ProductMatch | null;
+  total_units: number;
+  count_sequence?: number;
+  photo_path?: string | null;
+  unresolved?: boolean;
+  replayed?: boolean;
+  // Set when the photo looks like one already used; the count is saved and flagged for managers
+  duplicate_photo?: DuplicatePhotoMatch | null;
+}
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export interface SubmitCountFailure {
+  ok: false;
+  error: string;
+  field_errors?: FieldError[];
+}
+
+export type SubmitCountResponse = SubmitCountSuccess | SubmitCountFailure;
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; errors: FieldError[] };
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const PHOTO_HASH_PATTERN = /^[0-9a-f]{16}$/;
+
+const STRING_FIELD_SET = new Set<string>(COUNT_STRING_FIELDS);
+const QUANTITY_FIELD_SET = new Set<string>(COUNT_QUANTITY_FIELDS);
+
+// Pallets are identified by the SSCC on their GS1 label, or by a warehouse license plate when they have none. A
+// scanned GS1 element string is reduced to its SSCC so that scanning and typing register the same pallet.
+export function normalisePalletId(raw: string): string | null {
+  const sscc = parseGs1(raw)?.sscc;
+  if (sscc) return sscc;
+  const value = raw.replace(/\s+/g, '').toUpperCase();
+  if (!value) return null;
+  if (/^\d{18}$/.test(value) && !hasValidCheckDigit(value)) return null;
+  return value;
+}
+
+function readString(field: string, raw: unknown, errors: FieldError[]): string | undefined {
+  if (raw === null || raw === undefined) return undefined;
+  if (typeof raw !== 'string') {
+    errors.push({ field, message: 'must be a string' });
+    return undefined;
+  }
+  const trimmed = raw.trim();
+  return trimmed.length > 0 ? trimmed : undefined;
+}
+
+function readQuantity(field: string, raw: unknown, errors: FieldError[]): number {
+  if (raw === null || raw === undefined) return 0;
+  const value = typeof raw === 'string' ? raw.trim() : raw;
+  if (value === '') return 0;
+  const parsed = typeof value === 'number' ? value : typeof value === 'string' ? Number(value) : Number.NaN;
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    errors.push({ field, message: 'must be a whole number of 0 or more' });
+    return 0;
+  }
+  return parsed;
+}
+
+export function validateSubmitCountRequest(input: Record<string, unknown>): ValidationResult<SubmitCountRequest> {
+  const errors: FieldError[] = [];
+  const strings: Partial<Record<CountStringField, string>> = {};
+  const quantities = {} as Record<CountQuantityField, number>;
+
+  for (const key of Object.keys(input)) {
+    if (!STRING_FIELD_SET.has(key) && !QUANTITY_FIELD_SET.has(key)) {
+      errors.push({ field: key, message: 'is not a recognised field' });
+    }
+  }
+
+  for (const field of COUNT_STRING_FIELDS) {
+    const value = readString(field, input[field], errors);
+    if (value !== undefined) strings[field] = value;
+  }
+
+  for (const field of COUNT_QUANTITY_FIELDS) {
+    quantities[field] = readQuantity(field, input[field], errors);
+  }
+
+  for (const field of REQUIRED_FIELDS) {
+    if (!strings[field]) {
+      errors.push({ field, message: 'is required' });
+    }
+  }
+
+  if (!PRODUCT_IDENTIFIER_FIELDS.some((field) => strings[field])) {
+    errors.push({ field: 'stock_code', message: `or one of ${PRODUCT_IDENTIFIER_FIELDS.slice(1).join(', ')} is required` });
+  }
+
+  if (strings.submission_key !== undefined && !UUID_PATTERN.test(strings.submission_key)) {
+    errors.push({ field: 'submission_key', message: 'must be a UUID' });
+  }
+
+  if (
+    strings.filling_date !== undefined &&
+    (!ISO_DATE_PATTERN.test(strings.filling_date) || Number.isNaN(Date.parse(strings.filling_date)))
+  ) {
+    errors.push({ field: 'filling_date', message: 'must be a date in YYYY-MM-DD format' });
+  }
+
+  if (strings.pallet_id !== undefined) {
+    const palletId = normalisePalletId(strings.pallet_id);
+    if (!palletId) {
+      errors.push({ field: 'pallet_id', message: 'is not a valid SSCC or license plate' });
+    } else {
+      strings.pallet_id = palletId;
+    }
+    if (quantities.bulk_pallets + quantities.bulk_layers + quantities.bulk_cases === 0) {
+      errors.push({ field: 'pallet_id', message: 'can only be recorded on a bulk count' });
+    }
+  }
+
+  if (strings.hints !== undefined) {
+    try {
+      const hints = JSON.parse(strings.hints);
+      if (!hints || typeof hints !== 'object' || Array.isArray(hints)) {
+        errors.push({ field: 'hints', message: 'must be a JSON object' });
+      }
+    } catch {
+      errors.push({ field: 'hints', message: 'must be valid JSON' });
+    }
+  }
+
+  if (strings.photo_hash !== undefined && !PHOTO_HASH_PATTERN.test(strings.photo_hash)) {
+    errors.push({ field: 'photo_hash', message: 'must be 16 lowercase hex digits' });
+  }
+
+  if (strings.photo_quality !== undefined) {
+    let quality: PhotoQuality | null = null;
+    try {
+      quality = readPhotoQuality(JSON.parse(strings.photo_quality));
+    } catch {
+      // Invalid JSON is reported the same way as a malformed object
+    }
+    if (!quality) {
+      errors.push({
+        field: 'photo_quality',
+        message: 'must be a JSON object with sharpness, brightness, glare, verdict and issues',
+      });
+    }
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return { ok: true, value: { ...strings, ...quantities } as SubmitCountRequest };
+}
+
+export function isCountFileField(key: string): key is CountFileField {
+  return (COUNT_FILE_FIELDS as readonly string[]).includes(key);
+}
+
+export function formatFieldErrors(errors: FieldError[]): string {
+  return errors.map((error) => `${error.field} ${error.message}`).join('; ');
+}
+
+export const COUNT_ADJUSTMENT_ACTIONS = ['edit', 'void'] as const;
+
+export type CountAdjustmentAction = (typeof COUNT_ADJUSTMENT_ACTIONS)[number];
+
+export type CountAdjustmentRequest = {
+  action: CountAdjustmentAction;
+  count_id: string;
+  reason?: string;
+  lot_number?: string | null;
+} & Partial<Record<CountQuantityField, number>>;
+
+export interface CountAdjustmentSuccess {
+  ok: true;
+  count_id: string;
+  action: CountAdjustmentAction;
+  adjustment_id: string;
+  total_units: number;
+}
+
+const ADJUSTMENT_FIELD_SET = new Set<string>(['action', 'count_id', 'reason', 'lot_number', ...COUNT_QUANTITY_FIELDS]);
+
+// Quantities that are left out keep their current value; an empty lot_number clears it.
+export function validateCountAdjustmentRequest(input: Record<string, unknown>): ValidationResult<CountAdjustmentRequest> {
+  const errors: FieldError[] = [];
+
+  for (const key of Object.keys(input)) {
+    if (!ADJUSTMENT_FIELD_SET.has(key)) {
+      errors.push({ field: key, message: 'is not a recognised field' });
+    }
+  }
+
+  const action = readString('action', input.action, errors);
+  if (!action || !(COUNT_ADJUSTMENT_ACTIONS as readonly string[]).includes(action)) {
+    errors.push({ field: 'action', message: `must be one of ${COUNT_ADJUSTMENT_ACTIONS.join(', ')}` });
+  }
+
+  const countId = readString('count_id', input.count_id, errors);
+  if (!countId || !UUID_PATTERN.test(countId)) {
+    errors.push({ field: 'count_id', message: 'must be a UUID' });
+  }
+
+  const reason = readString('reason', input.reason, errors);
+  if (action === 'void' && !reason) {
+    errors.push({ field: 'reason', message: 'is required when voiding a count' });
+  }
+
+  const value = { action, count_id: countId, reason } as CountAdjustmentRequest;
+
+  if (action === 'edit') {
+    if (input.lot_number !== undefined) {
+      value.lot_number = readString('lot_number', input.lot_number, errors) ?? null;
+    }
+    for (const field of COUNT_QUANTITY_FIELDS) {
+      if (input[field] !== undefined && input[field] !== null && input[field] !== '') {
+        value[field] = readQuantity(field, input[field], errors);
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return { ok: true, value };
+}
+
+export const NEW_PRODUCT_STRING_FIELDS = ['stock_code', 'product_name', 'pack_size', 'case_barcode', 'unit_barcode'] as const;
+export const NEW_PRODUCT_PACKAGING_FIELDS = ['units_per_case', 'cases_per_layer', 'layers_per_pallet'] as const;
+
+export type NewProductInput = {
+  stock_code: string;
+  product_name: string;
+  pack_size?: string;
+  case_barcode?: string;
+  unit_barcode?: string;
+} & Record<(typeof NEW_PRODUCT_PACKAGING_FIELDS)[number], number>;
+
+// Map an unresolved count to an existing product, or create the product from the counter's capture. Other
+// unresolved counts with the same scanned identifier in the warehouse are mapped too unless apply_to_matching is false.
+export interface CountResolutionRequest {
+  count_id: string;
+  product_id?: string;
+  new_product?: NewProductInput;
+  apply_to_matching?: boolean;
+}
+
+export interface CountResolutionSuccess {
+  ok: true;
+  product_id: string;
+  stock_code: string;
+  resolved_count_ids: string[];
+  created_product: boolean;
+}
+
+const RESOLUTION_FIELD_SET = new Set<string>(['count_id', 'product_id', 'new_product', 'apply_to_matching']);
+const NEW_PRODUCT_FIELD_SET = new Set<string>([...NEW_PRODUCT_STRING_FIELDS, ...NEW_PRODUCT_PACKAGING_FIELDS]);
+
+export function validateCountResolutionRequest(input: Record<string, unknown>): ValidationResult<CountResolutionRequest> {
+  const errors: FieldError[] = [];
+
+  for (const key of Object.keys(input)) {
+    if (!RESOLUTION_FIELD_SET.has(key)) {
+      errors.push({ field: key, message: 'is not a recognised field' });
+    }
+  }
+
+  const countId = readString('count_id', input.count_id, errors);
+  if (!countId || !UUID_PATTERN.test(countId)) {
+    errors.push({ field: 'count_id', message: 'must be a UUID' });
+  }
+
+  const value: CountResolutionRequest = { count_id: countId as string };
+
+  if (input.apply_to_matching !== undefined) {
+    if (typeof input.apply_to_matching !== 'boolean') {
+      errors.push({ field: 'apply_to_matching', message: 'must be true or false' });
+    } else {
+      value.apply_to_matching = input.apply_to_matching;
+    }
+  }
+
+  const productId = readString('product_id', input.product_id, errors);
+  const rawProduct = input.new_product;
+
+  if (productId && rawProduct !== undefined && rawProduct !== null) {
+    errors.push({ field: 'product_id', message: 'cannot be combined with new_product' });
+  } else if (productId) {
+    if (!UUID_PATTERN.test(productId)) {
+      errors.push({ field: 'product_id', message: 'must be a UUID' });
+    }
+    value.product_id = productId;
+  } else if (rawProduct && typeof rawProduct === 'object' && !Array.isArray(rawProduct)) {
+    const product = rawProduct as Record<string, unknown>;
+    const newProduct = {} as NewProductInput;
+
+    for (const key of Object.keys(product)) {
+      if (!NEW_PRODUCT_FIELD_SET.has(key)) {
+        errors.push({ field: `new_product.${key}`, message: 'is not a recognised field' });
+      }
+    }
+    for (const field of NEW_PRODUCT_STRING_FIELDS) {
+      const fieldValue = readString(`new_product.${field}`, product[field], errors);
+      if (fieldValue !== undefined) newProduct[field] = fieldValue;
+    }
+    for (const field of ['stock_code', 'product_name'] as const) {
+      if (!newProduct[field]) {
+        errors.push({ field: `new_product.${field}`, message: 'is required' });
+      }
+    }
+    for (const field of NEW_PRODUCT_PACKAGING_FIELDS) {
+      const factor = readQuantity(`new_product.${field}`, product[field] ?? 1, errors);
+      if (factor < 1) {
+        errors.push({ field: `new_product.${field}`, message: 'must be at least 1' });
+      }
+      newProduct[field] = factor;
+    }
+    value.new_product = newProduct;
+  } else {
+    errors.push({ field: 'product_id', message: 'or new_product is required' });
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return { ok: true, value };
+}
+
+export const EXTRACTION_REVIEW_FIELDS = [
+  'extracted_barcode',
+  'extracted_lot_number',
+  'extracted_filling_date',
+  'extracted_product_name',
+  'extracted_pack_size',
+] as const;
+export const EXTRACTION_REVIEW_STATUSES = ['unreviewed', 'accepted', 'corrected'] as const;
+
+export type ExtractionReviewField = (typeof EXTRACTION_REVIEW_FIELDS)[number];
+export type ExtractionReviewStatus = (typeof EXTRACTION_REVIEW_STATUSES)[number];
+
+// Without corrections the fields read from the photo are accepted as they are. A corrected field replaces the
+// extracted value and an empty one clears it; fields that are left out keep what the OCR read.
+export interface ExtractionReviewRequest {
+  count_id: string;
+  corrections?: Partial<Record<ExtractionReviewField, string | null>>;
+}
+
+export interface ExtractionReviewSuccess {
+  ok: true;
+  count_id: string;
+  review_status: Exclude<ExtractionReviewStatus, 'unreviewed'>;
+  reviewed_at: string;
+}
+
+const EXTRACTION_REVIEW_FIELD_SET = new Set<string>(EXTRACTION_REVIEW_FIELDS);
+
+export function validateExtractionReviewRequest(input: Record<string, unknown>): ValidationResult<ExtractionReviewRequest> {
+  const errors: FieldError[] = [];
+
+  for (const key of Object.keys(input)) {
+    if (key !== 'count_id' && key !== 'corrections') {
+      errors.push({ field: key, message: 'is not a recognised field' });
+    }
+  }
+
+  const countId = readString('count_id', input.count_id, errors);
+  if (!countId || !UUID_PATTERN.test(countId)) {
+    errors.push({ field: 'count_id', message: 'must be a UUID' });
+  }
+
+  const value: ExtractionReviewRequest = { count_id: countId as string };
+  const rawCorrections = input.corrections;
+
+  if (rawCorrections !== undefined && rawCorrections !== null) {
+    if (typeof rawCorrections !== 'object' || Array.isArray(rawCorrections)) {
+      errors.push({ field: 'corrections', message: 'must be an object' });
+    } else {
+      const corrections: Partial<Record<ExtractionReviewField, string | null>> = {};
+      for (const [key, raw] of Object.entries(rawCorrections as Record<string, unknown>)) {
+        if (!EXTRACTION_REVIEW_FIELD_SET.has(key)) {
+          errors.push({ field: `corrections.${key}`, message: 'is not a recognised field' });
+          continue;
+        }
+        const corrected = readString(`corrections.${key}`, raw, errors) ?? null;
+        if (
+          key === 'extracted_filling_date' &&
+          corrected &&
+          (!ISO_DATE_PATTERN.test(corrected) || Number.isNaN(Date.parse(corrected)))
+        ) {
+          errors.push({ field: `corrections.${key}`, message: 'must be a date in YYYY-MM-DD format' });
+        }
+        corrections[key as ExtractionReviewField] = corrected;
+      }
+      if (Object.keys(corrections).length > 0) {
+        value.corrections = corrections;
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return { ok: true, value };
+}
+
+// atomic saves every row or none; per_row saves the valid rows and reports the rest.
+export const COUNT_BATCH_MODES = ['atomic', 'per_row'] as const;
+export const MAX_COUNT_BATCH_SIZE = 5000;
+
+export type CountBatchMode = (typeof COUNT_BATCH_MODES)[number];
+
+export interface SubmitCountBatchRequest {
+  mode: CountBatchMode;
+  counts: Record<string, unknown>[];
+}
+
+export type CountBatchRowResult = { index: number } & (SubmitCountSuccess | SubmitCountFailure);
+
+export interface SubmitCountBatchResponse {
+  ok: boolean;
+  mode: CountBatchMode;
+  inserted: number;
+  replayed: number;
+  failed: number;
+  results: CountBatchRowResult[];
+}
+
+// Checks the envelope only; each entry of counts is checked with validateSubmitCountRequest.
+export function validateSubmitCountBatchRequest(input: Record<string, unknown>): ValidationResult<SubmitCountBatchRequest> {
+  const errors: FieldError[] = [];
+
+  for (const key of Object.keys(input)) {
+    if (key !== 'mode' && key !== 'counts') {
+      errors.push({ field: key, message: 'is not a recognised field' });
+    }
+  }
+
+  const mode = readString('mode', input.mode, errors) ?? 'atomic';
+  if (!(COUNT_BATCH_MODES as readonly string[]).includes(mode)) {
+    errors.push({ field: 'mode', message: `must be one of ${COUNT_BATCH_MODES.join(', ')}` });
+  }
+
+  const counts = input.counts;
+  if (!Array.isArray(counts) || counts.length === 0) {
+    errors.push({ field: 'counts', message: 'must be a non-empty array' });
+  } else if (counts.length > MAX_COUNT_BATCH_SIZE) {
+    errors.push({ field: 'counts', message: `must not contain more than ${MAX_COUNT_BATCH_SIZE} counts` });
+  } else if (counts.some((count) => !count || typeof count !== 'object' || Array.isArray(count))) {
+    errors.push({ field: 'counts', message: 'must only contain objects' });
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return { ok: true, value: { mode: mode as CountBatchMode, counts: counts as Record<string, unknown>[] } };
+}
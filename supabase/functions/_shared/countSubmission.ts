@@ -0,0 +1,576 @@
+// Server-side rules shared by submit-count and submit-count-batch. Deno only: the browser imports countContract.ts,
+// never this module.
+import type { createClient } from 'npm:@supabase/supabase-js@2.57.4';
+import {
+  type DuplicatePhotoMatch,
+  PRODUCT_IDENTIFIER_FIELDS,
+  type ProductMatch,
+  type SubmitCountRequest,
+  type SubmitCountSuccess,
+} from './countContract.ts';
+import { computeTotalUnits, type PackagingFactors } from './countTotals.ts';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+export interface Counter {
+  id: string;
+  isAdmin: boolean;
+  fullName: string | null;
+}
+
+type DuplicatePalletMode = 'reject' | 'flag';
+
+interface EventSettings {
+  duplicatePalletMode: DuplicatePalletMode;
+}
+
+interface RegisteredPallet {
+  count_id: string;
+  warehouse_code: string;
+  location_code: string | null;
+  counted_by: string | null;
+  counted_by_name: string | null;
+  counted_at: string;
+}
+
+interface PackagingSnapshot extends PackagingFactors {
+  packSize: string;
+  description: string;
+}
+
+interface ResolvedProduct {
+  matched_on: ProductMatch;
+  match_count: number;
+  product_id: string;
+  stock_code: string;
+  description: string | null;
+  pack_size: string | null;
+  units_per_case: number | null;
+  cases_per_layer: number | null;
+  layers_per_pallet: number | null;
+}
+
+interface WarehouseLocation {
+  id: string;
+  code: string;
+}
+
+interface RecountTask {
+  id: string;
+  event_id: string;
+  warehouse_code: string;
+  stock_code: string;
+  lot_number: string | null;
+  assigned_to: string;
+  status: string;
+}
+
+export interface PreparedCount {
+  // Ready for insert into counts, apart from photo_path and photo_roi_paths which the caller adds once the images
+  // are stored
+  row: Record<string, unknown>;
+  stockCode: string;
+  matchedOn: ProductMatch | null;
+  recountTaskId: string | null;
+}
+
+// Lookups that repeat across the rows of one request, so a batch of thousands of lines checks each warehouse,
+// location and identifier once. Promises are cached so that a failure is reported for every row that shares it.
+export interface SubmissionCache {
+  access: Map<string, Promise<EventSettings>>;
+  locations: Map<string, Promise<WarehouseLocation>>;
+  products: Map<string, Promise<ResolvedProduct[]>>;
+  // Pallets claimed by earlier rows of the same request, which are not in the register until the insert
+  pallets: Set<string>;
+}
+
+export function createSubmissionCache(): SubmissionCache {
+  return { access: new Map(), locations: new Map(), products: new Map(), pallets: new Set() };
+}
+
+function cached<T>(cache: Map<string, Promise<T>>, key: string, load: () => Promise<T>): Promise<T> {
+  let pending = cache.get(key);
+  if (!pending) {
+    pending = load();
+    cache.set(key, pending);
+  }
+  return pending;
+}
+
+export async function authenticateCounter(supabase: SupabaseClient, req: Request): Promise<Counter> {
+  const authHeader = req.headers.get('authorization') ?? req.headers.get('Authorization');
+  if (!authHeader) {
+    throw new Error('Missing authorization header');
+  }
+  const token = authHeader.replace(/^Bearer\s+/i, '');
+  const { data: authResult, error: authError } = await supabase.auth.getUser(token);
+  if (authError || !authResult?.user) {
+    throw new Error('Unauthorized');
+  }
+
+  const { data: profile, error: profileError } = await supabase
+    .from('user_profiles')
+    .select('role, full_name')
+    .eq('id', authResult.user.id)
+    .maybeSingle();
+
+  if (profileError || !profile) {
+    throw new Error('User profile not found');
+  }
+
+  return { id: authResult.user.id, isAdmin: profile.role === 'admin', fullName: profile.full_name ?? null };
+}
+
+// Returns the earlier result for every submission_key the counter has already used
+export async function findSubmissions(
+  supabase: SupabaseClient,
+  submissionKeys: string[],
+  userId: string,
+): Promise<Map<string, SubmitCountSuccess>> {
+  const replays = new Map<string, SubmitCountSuccess>();
+  if (submissionKeys.length === 0) {
+    return replays;
+  }
+
+  const { data: existing, error } = await supabase
+    .from('counts')
+    .select('id, submission_key, stock_code, matched_on, resolution_status, total_units, count_sequence, photo_path, counted_by')
+    .in('submission_key', submissionKeys);
+
+  if (error) {
+    throw new Error(`Failed to check submission_key: ${error.message}`);
+  }
+
+  for (const row of existing ?? []) {
+    if (row.counted_by !== userId) {
+      throw new Error('submission_key has already been used by another user');
+    }
+    replays.set(row.submission_key as string, {
+      ok: true,
+      id: row.id,
+      stock_code: row.stock_code,
+      matched_on: row.matched_on,
+      total_units: row.total_units,
+      count_sequence: row.count_sequence,
+      photo_path: row.photo_path,
+      unresolved: row.resolution_status === 'unresolved',
+      replayed: true,
+    });
+  }
+
+  return replays;
+}
+
+async function checkAccess(
+  supabase: SupabaseClient,
+  counter: Counter,
+  eventId: string,
+  warehouseCode: string,
+): Promise<EventSettings> {
+  if (!counter.isAdmin) {
+    const { data: assignment, error: assignmentError } = await supabase
+      .from('user_warehouse_assignments')
+      .select('warehouse_code')
+      .eq('user_id', counter.id)
+      .eq('warehouse_code', warehouseCode)
+      .maybeSingle();
+
+    if (assignmentError || !assignment) {
+      throw new Error('You are not assigned to this warehouse');
+    }
+  }
+
+  const { data: event, error: eventError } = await supabase
+    .from('stocktake_events')
+    .select('status, duplicate_pallet_mode')
+    .eq('id', eventId)
+    .maybeSingle();
+
+  if (eventError || !event) {
+    throw new Error('Stocktake event not found');
+  }
+
+  if (event.status !== 'active') {
+    throw new Error('Event is not active for new counts');
+  }
+
+  return { duplicatePalletMode: (event.duplicate_pallet_mode ?? 'reject') as DuplicatePalletMode };
+}
+
+// Counters may type the location code or scan the location label, so try the code first and then the barcode.
+async function findLocation(
+  supabase: SupabaseClient,
+  warehouseCode: string,
+  locationCode: string,
+): Promise<WarehouseLocation> {
+  for (const column of ['code', 'barcode']) {
+    const { data: location, error } = await supabase
+      .from('warehouse_locations')
+      .select('id, code')
+      .eq('warehouse_code', warehouseCode)
+      .eq('is_active', true)
+      .eq(column, locationCode)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to look up location: ${error.message}`);
+    }
+    if (location) {
+      return location as WarehouseLocation;
+    }
+  }
+
+  throw new Error(`Location ${locationCode} not found in warehouse ${warehouseCode}`);
+}
+
+async function loadRecountTask(
+  supabase: SupabaseClient,
+  taskId: string,
+  counter: Counter,
+  eventId: string,
+  warehouseCode: string,
+): Promise<RecountTask> {
+  const { data: task, error } = await supabase
+    .from('recount_tasks')
+    .select('id, event_id, warehouse_code, stock_code, lot_number, assigned_to, status')
+    .eq('id', taskId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load recount task: ${error.message}`);
+  }
+  if (!task) {
+    throw new Error('Recount task not found');
+  }
+  if (task.assigned_to !== counter.id && !counter.isAdmin) {
+    throw new Error('You can only submit recounts assigned to you');
+  }
+  if (task.event_id !== eventId || task.warehouse_code !== warehouseCode) {
+    throw new Error('Recount task belongs to a different event or warehouse');
+  }
+  if (task.status === 'cancelled') {
+    throw new Error('Recount task has been cancelled');
+  }
+
+  return task as RecountTask;
+}
+
+async function resolveProducts(supabase: SupabaseClient, payload: SubmitCountRequest): Promise<ResolvedProduct[]> {
+  const { data: candidates, error: resolveError } = await supabase.rpc('resolve_product', {
+    p_stock_code: payload.stock_code ?? null,
+    p_case_barcode: payload.case_barcode ?? null,
+    p_unit_barcode: payload.unit_barcode ?? null,
+    p_barcode: payload.barcode ?? null,
+  });
+
+  if (resolveError) {
+    throw new Error(`Failed to resolve product: ${resolveError.message}`);
+  }
+  return (candidates ?? []) as ResolvedProduct[];
+}
+
+async function findRegisteredPallet(
+  supabase: SupabaseClient,
+  eventId: string,
+  palletId: string,
+): Promise<RegisteredPallet | null> {
+  const { data, error } = await supabase
+    .from('pallet_register')
+    .select('count_id, warehouse_code, location_code, counted_by, counted_by_name, counted_at')
+    .eq('event_id', eventId)
+    .eq('pallet_id', palletId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to check pallet register: ${error.message}`);
+  }
+  return (data as RegisteredPallet | null) ?? null;
+}
+
+// A double-counted product is counted blind by a second and third counter, so another counter's count of the same
+// stock code, lot and location covers the registered pallet on purpose
+async function isIndependentDoubleCount(
+  supabase: SupabaseClient,
+  counter: Counter,
+  row: { event_id: string; stock_code: string; lot_number: string | null; location_id: string | null },
+  first: RegisteredPallet,
+): Promise<boolean> {
+  if (first.counted_by === counter.id) {
+    return false;
+  }
+
+  const { data: requiresDoubleCount, error: doubleCountError } = await supabase.rpc('requires_double_count', {
+    p_event_id: row.event_id,
+    p_stock_code: row.stock_code,
+  });
+  if (doubleCountError) {
+    throw new Error(`Failed to check double counting: ${doubleCountError.message}`);
+  }
+  if (!requiresDoubleCount) {
+    return false;
+  }
+
+  const { data: firstCount, error: countError } = await supabase
+    .from('counts')
+    .select('stock_code, lot_number, location_id')
+    .eq('id', first.count_id)
+    .maybeSingle();
+  if (countError) {
+    throw new Error(`Failed to load first count of pallet: ${countError.message}`);
+  }
+  return (
+    !!firstCount &&
+    firstCount.stock_code === row.stock_code &&
+    (firstCount.lot_number || null) === (row.lot_number || null) &&
+    firstCount.location_id === row.location_id
+  );
+}
+
+function describeFirstCount(palletId: string, first: RegisteredPallet): string {
+  const where = first.location_code ? `${first.warehouse_code} ${first.location_code}` : first.warehouse_code;
+  const when = new Date(first.counted_at).toISOString().replace('T', ' ').slice(0, 16);
+  return `Pallet ${palletId} was already counted by ${first.counted_by_name ?? 'another counter'} at ${where} on ${when} UTC`;
+}
+
+async function logRejectedPallet(
+  supabase: SupabaseClient,
+  counter: Counter,
+  payload: SubmitCountRequest,
+  palletId: string,
+  stockCode: string,
+  locationCode: string | null,
+  first: RegisteredPallet,
+) {
+  const { error } = await supabase.from('pallet_count_attempts').insert({
+    event_id: payload.event_id,
+    pallet_id: palletId,
+    warehouse_code: payload.warehouse_code,
+    location_code: locationCode,
+    stock_code: stockCode,
+    outcome: 'rejected',
+    attempted_by: counter.id,
+    attempted_by_name: counter.fullName,
+    first_count_id: first.count_id,
+    first_warehouse_code: first.warehouse_code,
+    first_location_code: first.location_code,
+    first_counted_by_name: first.counted_by_name,
+    first_counted_at: first.counted_at,
+  });
+  if (error) {
+    console.warn(`Failed to log rejected count of pallet ${palletId}:`, error.message);
+  }
+}
+
+function describeIdentifiers(payload: SubmitCountRequest): string {
+  return PRODUCT_IDENTIFIER_FIELDS
+    .filter((field) => payload[field])
+    .map((field) => `${field} ${payload[field]}`)
+    .join(', ');
+}
+
+// Returns null when nothing matches, so the count can be kept as unresolved and mapped later.
+function pickResolvedProduct(candidates: ResolvedProduct[], payload: SubmitCountRequest): ResolvedProduct | null {
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  const [first] = candidates;
+  if (first.match_count > 1) {
+    const stockCodes = candidates.map((candidate) => candidate.stock_code).join(', ');
+    throw new Error(
+      `Ambiguous product: ${first.matched_on} ${payload[first.matched_on]} matches ${first.match_count} products (${stockCodes})`,
+    );
+  }
+
+  return first;
+}
+
+// Applies the assignment, event, location, recount and packaging rules to one validated count
+export async function prepareCount(
+  supabase: SupabaseClient,
+  counter: Counter,
+  payload: SubmitCountRequest,
+  cache: SubmissionCache,
+): Promise<PreparedCount> {
+  const eventId = payload.event_id;
+  const warehouseCode = payload.warehouse_code;
+
+  const settings = await cached(cache.access, `${eventId}|${warehouseCode}`, () =>
+    checkAccess(supabase, counter, eventId, warehouseCode),
+  );
+
+  const locationCode = payload.location_code;
+  const location = locationCode
+    ? await cached(cache.locations, `${warehouseCode}|${locationCode}`, () => findLocation(supabase, warehouseCode, locationCode))
+    : null;
+  const recountTask = payload.recount_task_id
+    ? await loadRecountTask(supabase, payload.recount_task_id, counter, eventId, warehouseCode)
+    : null;
+
+  const identifierKey = PRODUCT_IDENTIFIER_FIELDS.map((field) => payload[field] ?? '').join('|');
+  const candidates = await cached(cache.products, identifierKey, () => resolveProducts(supabase, payload));
+  const product = pickResolvedProduct(candidates, payload);
+  // Unresolved counts keep the scanned identifier in stock_code until resolve-count maps them to a product
+  const scannedField = PRODUCT_IDENTIFIER_FIELDS.find((field) => payload[field]) as ProductMatch;
+  const scannedIdentifier = payload[scannedField] as string;
+  const stockCode = product?.stock_code ?? scannedIdentifier;
+
+  if (!product) {
+    if (recountTask) {
+      throw new Error(`Product not found for ${describeIdentifiers(payload)}`);
+    }
+    console.log(`No product matches ${describeIdentifiers(payload)}; saving count as unresolved`);
+  }
+
+  if (recountTask && recountTask.stock_code !== stockCode) {
+    throw new Error(`Recount task is for stock code ${recountTask.stock_code}, not ${stockCode}`);
+  }
+
+  const packaging: PackagingSnapshot = {
+    unitsPerCase: product?.units_per_case ?? 1,
+    casesPerLayer: product?.cases_per_layer ?? 1,
+    layersPerPallet: product?.layers_per_pallet ?? 1,
+    packSize: product?.pack_size ?? '',
+    description: product?.description ?? stockCode,
+  };
+
+  const totalUnits = computeTotalUnits(payload, packaging);
+
+  if (!Number.isFinite(totalUnits) || totalUnits < 0) {
+    throw new Error('Calculated total units is invalid');
+  }
+
+  const lotNumber = payload.lot_number ?? recountTask?.lot_number ?? null;
+
+  // A recount takes over the pallet of the count it replaces, so only first counts are checked against the register.
+  // The register_counted_pallet trigger likewise leaves later counts of a double-counted product out of it.
+  const palletId = payload.pallet_id ?? null;
+  let duplicatePalletOf: string | null = null;
+  if (palletId && !recountTask) {
+    const palletKey = `${eventId}|${palletId}`;
+    // In flag mode the register_counted_pallet trigger flags the later row once the earlier one is registered
+    if (cache.pallets.has(palletKey) && settings.duplicatePalletMode === 'reject') {
+      throw new Error(`Pallet ${palletId} is counted more than once in this batch`);
+    }
+    const registered = await findRegisteredPallet(supabase, eventId, palletId);
+    const doubleCountKey = { event_id: eventId, stock_code: stockCode, lot_number: lotNumber, location_id: location?.id ?? null };
+    const first =
+      registered && !(await isIndependentDoubleCount(supabase, counter, doubleCountKey, registered)) ? registered : null;
+    if (first && settings.duplicatePalletMode === 'reject') {
+      await logRejectedPallet(supabase, counter, payload, palletId, stockCode, location?.code ?? null, first);
+      throw new Error(describeFirstCount(palletId, first));
+    }
+    if (first) {
+      console.log(`${describeFirstCount(palletId, first)}; saving count flagged as a duplicate`);
+      duplicatePalletOf = first.count_id;
+    } else {
+      cache.pallets.add(palletKey);
+    }
+  }
+
+  const productDescription = payload.product_description ?? packaging.description;
+
+  return {
+    stockCode,
+    matchedOn: product?.matched_on ?? null,
+    recountTaskId: recountTask?.id ?? null,
+    row: {
+      event_id: eventId,
+      warehouse_code: warehouseCode,
+      stock_code: stockCode,
+      product_description: productDescription ?? stockCode,
+      lot_number: lotNumber,
+      filling_date: payload.filling_date ?? null,
+      location_id: location?.id ?? null,
+      location_code: location?.code ?? null,
+      counted_by: counter.id,
+      singles_units: payload.singles_units,
+      singles_cases: payload.singles_cases,
+      pick_face_layers: payload.pick_face_layers,
+      pick_face_cases: payload.pick_face_cases,
+      bulk_pallets: payload.bulk_pallets,
+      bulk_layers: payload.bulk_layers,
+      bulk_cases: payload.bulk_cases,
+      total_units: Math.round(totalUnits),
+      units_per_case_snapshot: Math.max(1, packaging.unitsPerCase || 1),
+      cases_per_layer_snapshot: Math.max(1, packaging.casesPerLayer || 1),
+      layers_per_pallet_snapshot: Math.max(1, packaging.layersPerPallet || 1),
+      pack_size_snapshot: packaging.packSize ?? '',
+      photo_path: null,
+      photo_roi_paths: null,
+      extraction_hints: payload.hints ? JSON.parse(payload.hints) : null,
+      photo_quality: payload.photo_quality ? JSON.parse(payload.photo_quality) : null,
+      photo_hash: payload.photo_hash ?? null,
+      submission_key: payload.submission_key ?? null,
+      matched_on: product?.matched_on ?? null,
+      resolution_status: product ? 'resolved' : 'unresolved',
+      scanned_identifier: scannedIdentifier,
+      scanned_identifier_type: scannedField,
+      recount_task_id: recountTask?.id ?? null,
+      pallet_id: palletId,
+      duplicate_pallet_of: duplicatePalletOf,
+    },
+  };
+}
+
+// The counts_flag_duplicate_photo trigger flags the count on insert and logs the match in duplicate_photos
+export async function findDuplicatePhoto(supabase: SupabaseClient, countId: string): Promise<DuplicatePhotoMatch | null> {
+  const { data, error } = await supabase
+    .from('duplicate_photos')
+    .select('matched_count_id, matched_stock_code, matched_location_code, matched_counted_by_name, matched_counted_at, distance')
+    .eq('count_id', countId)
+    .maybeSingle();
+
+  if (error) {
+    // The count is saved either way; managers still see the flag in their report
+    console.warn(`Failed to load duplicate photo match for count ${countId}:`, error.message);
+    return null;
+  }
+  if (!data) {
+    return null;
+  }
+  return {
+    count_id: data.matched_count_id as string | null,
+    stock_code: data.matched_stock_code as string | null,
+    location_code: data.matched_location_code as string | null,
+    counted_by_name: data.matched_counted_by_name as string | null,
+    counted_at: data.matched_counted_at as string | null,
+    distance: data.distance as number,
+  };
+}
+
+export async function applyRecount(supabase: SupabaseClient, countId: string, recountTaskId: string) {
+  const { data: superseded, error: recountError } = await supabase.rpc('apply_recount', { p_count_id: countId });
+  if (recountError) {
+    throw new Error(`Failed to apply recount: ${recountError.message}`);
+  }
+  console.log(`Recount ${countId} superseded ${superseded ?? 0} earlier count(s) for task ${recountTaskId}`);
+}
+
+// The register's unique key catches a pallet counted by two people at the same moment. Constraint and data errors
+// (SQLSTATE classes 22 and 23) are the count's fault; anything else is reported as a failure to save.
+export function describeInsertError(error: { code?: string; message: string } | null, fallback: string): string {
+  if (error?.code === '23505' && error.message.includes('pallet_register_event_pallet_key')) {
+    return 'Pallet was counted by someone else while this count was being saved';
+  }
+  if (!error) {
+    return fallback;
+  }
+  return /^2[23]/.test(error.code ?? '') ? error.message : `${fallback}: ${error.message}`;
+}
+
+// Maps the error messages above to HTTP statuses for both endpoints. Storage, database and configuration failures
+// are 500s, so the offline queue retries them instead of giving up on the count.
+export function submissionErrorStatus(message: string): number {
+  return message === 'Unauthorized'
+    ? 401
+    : message === 'Recount task not found'
+      ? 404
+      : message.startsWith('You can only')
+        ? 403
+        : message.startsWith('Ambiguous product') || message.startsWith('Recount task') || message.startsWith('Pallet')
+          ? 409
+          : message.startsWith('Failed to') || message.startsWith('Missing required environment variable')
+            ? 500
+            : 400;
+}
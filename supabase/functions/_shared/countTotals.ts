@@ -0,0 +1,23 @@
+import type { CountQuantityField } from './countContract.ts';
+
+export interface PackagingFactors {
+  unitsPerCase: number;
+  casesPerLayer: number;
+  layersPerPallet: number;
+}
+
+export function computeTotalUnits(quantities: Record<CountQuantityField, number>, packaging: PackagingFactors): number {
+  const unitsPerCase = Math.max(1, packaging.unitsPerCase || 1);
+  const casesPerLayer = Math.max(1, packaging.casesPerLayer || 1);
+  const layersPerPallet = Math.max(1, packaging.layersPerPallet || 1);
+
+  const singlesTotal = quantities.singles_units + quantities.singles_cases * unitsPerCase;
+  const pickFaceTotal =
+    quantities.pick_face_layers * (unitsPerCase * casesPerLayer) + quantities.pick_face_cases * unitsPerCase;
+  const bulkTotal =
+    quantities.bulk_pallets * (unitsPerCase * casesPerLayer * layersPerPallet) +
+    quantities.bulk_layers * (unitsPerCase * casesPerLayer) +
+    quantities.bulk_cases * unitsPerCase;
+
+  return singlesTotal + pickFaceTotal + bulkTotal;
+}
@@ -0,0 +1,258 @@
+// GS1 element string parser for GS1-128 pallet and case labels. Imported by the browser (barcode scanning,
+// StocktakeEntry) and by the Deno functions (OCR parsing), so this module must stay free of runtime-specific APIs.
+
+export const GS1_GROUP_SEPARATOR = '\u001d';
+
+interface AiDefinition {
+  name: string;
+  // Fixed data length, or the maximum for variable-length AIs
+  length: number;
+  fixed: boolean;
+  numeric: boolean;
+  checkDigit?: boolean;
+  date?: boolean;
+}
+
+const AI_DEFINITIONS: Record<string, AiDefinition> = {
+  '00': { name: 'SSCC', length: 18, fixed: true, numeric: true, checkDigit: true },
+  '01': { name: 'GTIN', length: 14, fixed: true, numeric: true, checkDigit: true },
+  '02': { name: 'CONTENT', length: 14, fixed: true, numeric: true, checkDigit: true },
+  '10': { name: 'BATCH/LOT', length: 20, fixed: false, numeric: false },
+  '11': { name: 'PROD DATE', length: 6, fixed: true, numeric: true, date: true },
+  '13': { name: 'PACK DATE', length: 6, fixed: true, numeric: true, date: true },
+  '15': { name: 'BEST BEFORE', length: 6, fixed: true, numeric: true, date: true },
+  '17': { name: 'USE BY', length: 6, fixed: true, numeric: true, date: true },
+  '21': { name: 'SERIAL', length: 20, fixed: false, numeric: false },
+  '37': { name: 'COUNT', length: 8, fixed: false, numeric: true },
+};
+
+// AIs outside the table above can still be skipped in unbracketed data when the GS1 spec predefines their length.
+// Keyed by the first two digits: [AI length, data length].
+const PREDEFINED_LENGTHS: Record<string, [number, number]> = {
+  '03': [2, 14],
+  '04': [2, 16],
+  '12': [2, 6],
+  '14': [2, 6],
+  '16': [2, 6],
+  '18': [2, 6],
+  '19': [2, 6],
+  '20': [2, 2],
+  '31': [4, 6],
+  '32': [4, 6],
+  '33': [4, 6],
+  '34': [4, 6],
+  '35': [4, 6],
+  '36': [4, 6],
+  '41': [3, 13],
+};
+
+export interface Gs1Element {
+  ai: string;
+  name: string;
+  value: string;
+}
+
+export interface Gs1Label {
+  elements: Gs1Element[];
+  sscc?: string;
+  gtin?: string;
+  // GTIN of the trade items on a logistic unit, printed on pallet labels next to (37)
+  contentGtin?: string;
+  batch?: string;
+  // Dates are ISO yyyy-mm-dd
+  productionDate?: string;
+  packagingDate?: string;
+  bestBeforeDate?: string;
+  expiryDate?: string;
+  serial?: string;
+  count?: number;
+  errors: string[];
+}
+
+export function hasValidCheckDigit(digits: string): boolean {
+  if (!/^\d{2,}$/.test(digits)) return false;
+  const values = digits.split('').map(Number);
+  const checkDigit = values.pop() as number;
+  const sum = values
+    .reverse()
+    .reduce((total, digit, index) => total + digit * (index % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === checkDigit;
+}
+
+export function isValidGtinCheckDigit(code: string): boolean {
+  return /^\d{8,14}$/.test(code) && hasValidCheckDigit(code);
+}
+
+// YYMMDD with the GS1 century rule: years more than 50 ahead belong to the previous century. A day of 00 means the
+// last day of the month.
+export function parseGs1Date(value: string, today = new Date()): string | null {
+  const match = value.match(/^(\d{2})(\d{2})(\d{2})$/);
+  if (!match) return null;
+  const [, yy, mm, dd] = match;
+  const month = Number(mm);
+  if (month < 1 || month > 12) return null;
+
+  const currentYear = today.getUTCFullYear();
+  let year = Math.floor(currentYear / 100) * 100 + Number(yy);
+  if (year - currentYear > 50) year -= 100;
+  else if (currentYear - year >= 50) year += 100;
+
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const day = Number(dd) === 0 ? lastDay : Number(dd);
+  if (day > lastDay) return null;
+
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function stripSymbologyIdentifier(input: string): string {
+  return input.replace(/^\][A-Za-z]\d/, '');
+}
+
+function lookupAi(data: string, position: number): { ai: string; definition: AiDefinition | null } | null {
+  for (const length of [2, 3, 4]) {
+    const ai = data.slice(position, position + length);
+    if (AI_DEFINITIONS[ai]) {
+      return { ai, definition: AI_DEFINITIONS[ai] };
+    }
+  }
+  const predefined = PREDEFINED_LENGTHS[data.slice(position, position + 2)];
+  if (predefined) {
+    const [aiLength, dataLength] = predefined;
+    return {
+      ai: data.slice(position, position + aiLength),
+      definition: { name: 'UNKNOWN', length: dataLength, fixed: true, numeric: true },
+    };
+  }
+  return null;
+}
+
+// Unbracketed element string as encoded in the barcode: variable-length fields end at a group separator or the end.
+function splitRaw(data: string, errors: string[]): Array<{ ai: string; value: string }> {
+  const pairs: Array<{ ai: string; value: string }> = [];
+  let position = 0;
+
+  while (position < data.length) {
+    if (data[position] === GS1_GROUP_SEPARATOR) {
+      position += 1;
+      continue;
+    }
+
+    const found = lookupAi(data, position);
+    if (!found) {
+      errors.push(`Unknown application identifier at position ${position + 1}`);
+      break;
+    }
+
+    const start = position + found.ai.length;
+    const definition = found.definition!;
+    let end: number;
+    if (definition.fixed) {
+      end = start + definition.length;
+    } else {
+      const separator = data.indexOf(GS1_GROUP_SEPARATOR, start);
+      end = separator === -1 ? data.length : separator;
+    }
+
+    pairs.push({ ai: found.ai, value: data.slice(start, end) });
+    position = end;
+  }
+
+  return pairs;
+}
+
+// Human-readable form printed under the barcode, e.g. "(00)123456789012345675 (02)09501101020003 (37)40"
+function splitBracketed(data: string): Array<{ ai: string; value: string }> {
+  const pairs: Array<{ ai: string; value: string }> = [];
+  const pattern = /\((\d{2,4})\)([^(]*)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(data)) !== null) {
+    const definition = AI_DEFINITIONS[match[1]];
+    // OCR tends to insert spaces into long digit runs, so numeric values drop all whitespace
+    const value = definition?.numeric === false ? match[2].trim() : match[2].replace(/\s+/g, '');
+    pairs.push({ ai: match[1], value });
+  }
+  return pairs;
+}
+
+// Returns null when the input does not look like a GS1 element string at all.
+export function parseGs1(input: string): Gs1Label | null {
+  let data = stripSymbologyIdentifier(input.trim());
+  while (data.startsWith(GS1_GROUP_SEPARATOR)) data = data.slice(1);
+  if (!data) return null;
+
+  const errors: string[] = [];
+  const pairs = data.startsWith('(') ? splitBracketed(data) : splitRaw(data, errors);
+  if (pairs.length === 0) return null;
+
+  const label: Gs1Label = { elements: [], errors };
+
+  for (const { ai, value } of pairs) {
+    const definition = AI_DEFINITIONS[ai];
+    label.elements.push({ ai, name: definition?.name ?? 'UNKNOWN', value });
+    if (!definition) continue;
+
+    if (value.length === 0 || value.length > definition.length || (definition.fixed && value.length !== definition.length)) {
+      errors.push(`(${ai}) ${definition.name} has an invalid length`);
+      continue;
+    }
+    if (definition.numeric && !/^\d+$/.test(value)) {
+      errors.push(`(${ai}) ${definition.name} must be numeric`);
+      continue;
+    }
+    if (definition.checkDigit && !hasValidCheckDigit(value)) {
+      errors.push(`(${ai}) ${definition.name} ${value} has an invalid check digit`);
+      continue;
+    }
+
+    if (definition.date) {
+      const date = parseGs1Date(value);
+      if (!date) {
+        errors.push(`(${ai}) ${definition.name} ${value} is not a valid date`);
+        continue;
+      }
+      if (ai === '11') label.productionDate = date;
+      else if (ai === '13') label.packagingDate = date;
+      else if (ai === '15') label.bestBeforeDate = date;
+      else label.expiryDate = date;
+      continue;
+    }
+
+    switch (ai) {
+      case '00':
+        label.sscc = value;
+        break;
+      case '01':
+        label.gtin = value;
+        break;
+      case '02':
+        label.contentGtin = value;
+        break;
+      case '10':
+        label.batch = value;
+        break;
+      case '21':
+        label.serial = value;
+        break;
+      case '37':
+        label.count = Number(value);
+        break;
+    }
+  }
+
+  return label;
+}
+
+// OCR'd label text spreads the human-readable element string over one or more lines among other print, so the lines
+// that carry bracketed AIs are joined and parsed together.
+export function findGs1InText(text: string): Gs1Label | null {
+  if (!text) return null;
+  const aiLines = text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => /\(\s*\d{2,4}\s*\)/.test(line))
+    .map((line) => line.slice(line.indexOf('(')).replace(/\(\s*(\d{2,4})\s*\)/g, '($1)'));
+
+  if (aiLines.length === 0) return null;
+  const label = parseGs1(aiLines.join(''));
+  return label && label.elements.some(({ ai }) => AI_DEFINITIONS[ai]) ? label : null;
+}
@@ -0,0 +1,50 @@
+// Loads the active label rule sets for process-extractions and extract-product-info. Deno only: the browser reads
+// label_rule_sets through the Supabase client and parses with labelRules.ts.
+import type { createClient } from 'npm:@supabase/supabase-js@2.57.4';
+import { formatFieldErrors } from './countContract.ts';
+import { DEFAULT_LABEL_RULES, type LabelRules, selectLabelRuleSet, validateLabelRules } from './labelRules.ts';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+export interface ActiveLabelRuleSet {
+  id: string | null;
+  name: string;
+  rules: LabelRules;
+}
+
+// Used when no active rule set claims a label, e.g. before the catch-all set has been activated
+export const BUILT_IN_RULE_SET: ActiveLabelRuleSet = { id: null, name: 'Built-in', rules: DEFAULT_LABEL_RULES };
+
+// Ordered by priority. A set whose stored rules no longer validate is skipped rather than failing the run.
+export async function loadActiveLabelRuleSets(supabase: SupabaseClient): Promise<ActiveLabelRuleSet[]> {
+  const { data, error } = await supabase
+    .from('label_rule_sets')
+    .select('id, name, rules')
+    .eq('is_active', true)
+    .order('priority', { ascending: true })
+    .order('name', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load label rule sets: ${error.message}`);
+  }
+
+  const ruleSets: ActiveLabelRuleSet[] = [];
+  for (const row of data ?? []) {
+    const validation = validateLabelRules(row.rules);
+    if (!validation.ok) {
+      console.warn(`Skipping label rule set ${row.name}: ${formatFieldErrors(validation.errors)}`);
+      continue;
+    }
+    ruleSets.push({ id: row.id as string, name: row.name as string, rules: validation.value });
+  }
+  return ruleSets;
+}
+
+// The set the capture screen cropped with wins, so the regions line up with the crops it sent
+export function chooseLabelRuleSet(
+  ruleSets: ActiveLabelRuleSet[],
+  label: { ruleSetId?: string | null; stockCode?: string | null; text?: string },
+): ActiveLabelRuleSet {
+  const cropped = label.ruleSetId ? ruleSets.find((set) => set.id === label.ruleSetId) : undefined;
+  return cropped ?? selectLabelRuleSet(ruleSets, label) ?? BUILT_IN_RULE_SET;
+}
@@ -0,0 +1,331 @@
+// Label-parsing engine driven by the rule sets admins keep in label_rule_sets. Imported by the browser (photo
+// capture and the rule set editor) and by the Deno functions (process-extractions, extract-product-info), so this
+// module must stay free of runtime-specific APIs.
+import type { FieldError, PhotoRegion, ValidationResult } from './countContract.ts';
+import { findGs1InText, isValidGtinCheckDigit } from './gs1.ts';
+
+export const LABEL_SYMBOLOGIES = ['GS1-128', 'ITF-14', 'EAN-13', 'UPC-A', 'EAN-8'] as const;
+// Year-first, day-first or month-first dates with -, / or . separators and two- or four-digit years
+export const LABEL_DATE_FORMATS = ['YMD', 'DMY', 'MDY'] as const;
+
+export type LabelSymbology = (typeof LABEL_SYMBOLOGIES)[number];
+export type LabelDateFormat = (typeof LABEL_DATE_FORMATS)[number];
+
+export interface LabelRegion {
+  xPct: number;
+  yPct: number;
+  wPct: number;
+  hPct: number;
+}
+
+export interface LabelRules {
+  // A label belongs to the rule set when the counted stock code starts with one of the prefixes, or the label text
+  // names one of the brand keywords; a set with neither applies to every label no other set claims
+  stockCodePrefixes: string[];
+  brandKeywords: string[];
+  // Where each region sits on the label, as fractions of the photo; the capture screen crops them
+  regions: Record<PhotoRegion, LabelRegion>;
+  // Tried in order, so put the symbology printed on the case first
+  barcodeSymbologies: LabelSymbology[];
+  // Regular expressions, matched case-insensitively; the first capture group is the lot
+  lotPatterns: string[];
+  // Lines with one of these words carry the filling date when the label prints more than one date
+  dateKeywords: string[];
+  dateFormats: LabelDateFormat[];
+  // Regular expression whose first capture group is the pack size, e.g. "24 x 330ml"
+  packSizePattern: string | null;
+}
+
+export interface ParsedLabel {
+  barcode: string | null;
+  lotNumber: string | null;
+  fillingDate: string | null;
+  productName: string | null;
+  packSize: string | null;
+}
+
+export interface LabelText {
+  fullText: string;
+  regions?: Partial<Record<PhotoRegion, string>>;
+}
+
+export const DEFAULT_LABEL_RULES: LabelRules = {
+  stockCodePrefixes: [],
+  brandKeywords: [],
+  regions: {
+    barcode: { xPct: 0.1, yPct: 0.55, wPct: 0.8, hPct: 0.25 },
+    text_top: { xPct: 0.08, yPct: 0.1, wPct: 0.84, hPct: 0.28 },
+    lot: { xPct: 0.08, yPct: 0.85, wPct: 0.84, hPct: 0.12 },
+  },
+  barcodeSymbologies: ['GS1-128', 'ITF-14', 'EAN-13'],
+  lotPatterns: ['\\b(?:lot|batch)\\s*(?:no\\.?)?\\s*[:#.]?\\s*([a-z0-9][a-z0-9-]*)'],
+  dateKeywords: ['FILLING DATE'],
+  dateFormats: ['YMD', 'DMY'],
+  packSizePattern:
+    '\\b(\\d+\\s*x\\s*\\d+(?:\\.\\d+)?\\s*(?:ml|cl|l|g|kg)|\\d+(?:\\.\\d+)?\\s*(?:ml|cl|l|kg|g|oz|lb|pack|ct|pcs))\\b',
+};
+
+const SYMBOLOGY_DIGITS: Record<Exclude<LabelSymbology, 'GS1-128'>, number> = {
+  'ITF-14': 14,
+  'EAN-13': 13,
+  'UPC-A': 12,
+  'EAN-8': 8,
+};
+
+const DATE_PATTERNS: Record<LabelDateFormat, { pattern: RegExp; order: [number, number, number] }> = {
+  YMD: { pattern: /\b(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})\b/, order: [1, 2, 3] },
+  DMY: { pattern: /\b(\d{1,2})[-/.](\d{1,2})[-/.](\d{4}|\d{2})\b/, order: [3, 2, 1] },
+  MDY: { pattern: /\b(\d{1,2})[-/.](\d{1,2})[-/.](\d{4}|\d{2})\b/, order: [3, 1, 2] },
+};
+
+function splitLines(text: string): string[] {
+  return text.split('\n').map((line) => line.trim()).filter(Boolean);
+}
+
+function containsKeyword(line: string, keywords: string[]): boolean {
+  const upper = line.toUpperCase();
+  return keywords.some((keyword) => upper.includes(keyword.toUpperCase()));
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  const fullYear = year < 100 ? 2000 + year : year;
+  const date = new Date(Date.UTC(fullYear, month - 1, day));
+  if (date.getUTCFullYear() !== fullYear || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+function readDate(line: string, formats: LabelDateFormat[]): string | null {
+  for (const format of formats) {
+    const { pattern, order } = DATE_PATTERNS[format];
+    const match = line.match(pattern);
+    if (!match) continue;
+    const date = toIsoDate(Number(match[order[0]]), Number(match[order[1]]), Number(match[order[2]]));
+    if (date) return date;
+  }
+  return null;
+}
+
+// Human-readable barcode digits are often printed in spaced groups, e.g. "1 23 45678 90123 4", so runs are read with
+// the spacing removed and kept only when the check digit agrees
+function readBarcode(text: string, symbologies: LabelSymbology[]): string | null {
+  for (const symbology of symbologies) {
+    if (symbology === 'GS1-128') {
+      const label = findGs1InText(text);
+      const gtin = label?.gtin ?? label?.contentGtin;
+      if (gtin) return gtin;
+      continue;
+    }
+
+    const length = SYMBOLOGY_DIGITS[symbology];
+    for (const line of splitLines(text)) {
+      for (const [run] of line.replace(/[\s-]/g, '').matchAll(/\d+/g)) {
+        if (run.length === length && isValidGtinCheckDigit(run)) return run;
+      }
+    }
+  }
+  return null;
+}
+
+function readLot(lines: string[], patterns: RegExp[], bareCodes: boolean, formats: LabelDateFormat[]): string | null {
+  for (const pattern of patterns) {
+    for (const line of lines) {
+      const match = line.match(pattern);
+      if (match?.[1]) return match[1].trim().toUpperCase();
+    }
+  }
+  // The lot region often holds just the bare code, e.g. "L24117A"
+  if (bareCodes) {
+    const bare = lines.find((line) => /^[A-Z0-9-]*\d[A-Z0-9-]*$/i.test(line) && !readDate(line, formats));
+    if (bare) return bare.toUpperCase();
+  }
+  return null;
+}
+
+function readFillingDate(lines: string[], rules: LabelRules): string | null {
+  const keywordLine = lines.find((line) => containsKeyword(line, rules.dateKeywords));
+  const keywordDate = keywordLine ? readDate(keywordLine, rules.dateFormats) : null;
+  return keywordDate ?? lines.map((line) => readDate(line, rules.dateFormats)).find(Boolean) ?? null;
+}
+
+// A line naming the brand wins; otherwise the longest line of words that is not the lot, barcode or a date
+function readProductName(lines: string[], rules: LabelRules): string | null {
+  const brandLine = lines.find((line) => containsKeyword(line, rules.brandKeywords));
+  if (brandLine) return brandLine;
+  const candidates = lines.filter(
+    (line) =>
+      /[a-z]{3}/i.test(line) &&
+      !/\b(?:lot|batch|barcode)\b/i.test(line) &&
+      !containsKeyword(line, rules.dateKeywords) &&
+      !readDate(line, rules.dateFormats),
+  );
+  return candidates.length > 0 ? candidates.reduce((a, b) => (a.length >= b.length ? a : b)) : null;
+}
+
+function compile(pattern: string): RegExp {
+  return new RegExp(pattern, 'i');
+}
+
+// Fields found in a region win over the full frame. A printed GS1 element string gives the lot and filling date, while
+// the barcode is read in the rule set's symbology order.
+export function parseLabel(text: LabelText, rules: LabelRules): ParsedLabel {
+  const regions = text.regions ?? {};
+  const fullLines = splitLines(text.fullText);
+  const lotLines = splitLines(regions.lot ?? '');
+  const topLines = splitLines(regions.text_top ?? '');
+  const lotPatterns = rules.lotPatterns.map(compile);
+  const gs1 = findGs1InText([regions.lot, text.fullText].filter(Boolean).join('\n'));
+
+  const barcode = (regions.barcode ? readBarcode(regions.barcode, rules.barcodeSymbologies) : null) ??
+    readBarcode(text.fullText, rules.barcodeSymbologies);
+
+  const lotNumber = gs1?.batch ??
+    readLot(lotLines, lotPatterns, true, rules.dateFormats) ??
+    readLot(fullLines, lotPatterns, false, rules.dateFormats);
+
+  const fillingDate = gs1?.productionDate ?? readFillingDate(lotLines, rules) ?? readFillingDate(fullLines, rules);
+
+  const productName = readProductName(topLines, rules) ?? readProductName(fullLines, rules);
+
+  let packSize: string | null = null;
+  if (rules.packSizePattern) {
+    const pattern = compile(rules.packSizePattern);
+    packSize = [...topLines, ...fullLines].map((line) => line.match(pattern)?.[1]).find(Boolean)?.trim() ?? null;
+  }
+
+  return { barcode, lotNumber, fillingDate, productName, packSize };
+}
+
+// Prefix matches beat keyword matches, and catch-all sets come last; within each, sets are taken in the given order
+export function selectLabelRuleSet<T extends { rules: LabelRules }>(
+  ruleSets: T[],
+  label: { stockCode?: string | null; text?: string },
+): T | null {
+  const stockCode = label.stockCode?.trim().toUpperCase();
+  if (stockCode) {
+    const byPrefix = ruleSets.find((set) =>
+      set.rules.stockCodePrefixes.some((prefix) => stockCode.startsWith(prefix.toUpperCase())),
+    );
+    if (byPrefix) return byPrefix;
+  }
+
+  const text = label.text;
+  if (text) {
+    const byKeyword = ruleSets.find((set) => containsKeyword(text, set.rules.brandKeywords));
+    if (byKeyword) return byKeyword;
+  }
+
+  return ruleSets.find((set) => set.rules.stockCodePrefixes.length === 0 && set.rules.brandKeywords.length === 0) ?? null;
+}
+
+function readStringList(field: string, raw: unknown, errors: FieldError[]): string[] {
+  if (raw === undefined || raw === null) return [];
+  if (!Array.isArray(raw) || raw.some((item) => typeof item !== 'string')) {
+    errors.push({ field, message: 'must be a list of strings' });
+    return [];
+  }
+  return raw.map((item: string) => item.trim()).filter(Boolean);
+}
+
+function checkPattern(field: string, pattern: string, errors: FieldError[]) {
+  let groups: number;
+  try {
+    // Matching the empty alternative reports how many capture groups the pattern has
+    groups = new RegExp(`${pattern}|`).exec('')!.length - 1;
+  } catch {
+    errors.push({ field, message: 'is not a valid regular expression' });
+    return;
+  }
+  if (groups === 0) {
+    errors.push({ field, message: 'must have a capture group' });
+  }
+}
+
+// Rule sets are stored as JSON, so they are checked the same way in the editor before saving and in the functions
+// before use
+export function validateLabelRules(input: unknown): ValidationResult<LabelRules> {
+  const errors: FieldError[] = [];
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { ok: false, errors: [{ field: 'rules', message: 'must be an object' }] };
+  }
+  const raw = input as Record<string, unknown>;
+
+  const stockCodePrefixes = readStringList('stockCodePrefixes', raw.stockCodePrefixes, errors);
+  const brandKeywords = readStringList('brandKeywords', raw.brandKeywords, errors);
+  const dateKeywords = readStringList('dateKeywords', raw.dateKeywords, errors);
+  const lotPatterns = readStringList('lotPatterns', raw.lotPatterns, errors);
+  lotPatterns.forEach((pattern, index) => checkPattern(`lotPatterns.${index}`, pattern, errors));
+
+  const barcodeSymbologies = readStringList('barcodeSymbologies', raw.barcodeSymbologies, errors);
+  if (barcodeSymbologies.length === 0) {
+    errors.push({ field: 'barcodeSymbologies', message: 'must name at least one symbology' });
+  }
+  for (const symbology of barcodeSymbologies) {
+    if (!(LABEL_SYMBOLOGIES as readonly string[]).includes(symbology)) {
+      errors.push({ field: 'barcodeSymbologies', message: `must only contain ${LABEL_SYMBOLOGIES.join(', ')}` });
+      break;
+    }
+  }
+
+  const dateFormats = readStringList('dateFormats', raw.dateFormats, errors);
+  if (dateFormats.length === 0) {
+    errors.push({ field: 'dateFormats', message: 'must name at least one date format' });
+  }
+  for (const format of dateFormats) {
+    if (!(LABEL_DATE_FORMATS as readonly string[]).includes(format)) {
+      errors.push({ field: 'dateFormats', message: `must only contain ${LABEL_DATE_FORMATS.join(', ')}` });
+      break;
+    }
+  }
+
+  let packSizePattern: string | null = null;
+  if (raw.packSizePattern !== undefined && raw.packSizePattern !== null && raw.packSizePattern !== '') {
+    if (typeof raw.packSizePattern !== 'string') {
+      errors.push({ field: 'packSizePattern', message: 'must be a string' });
+    } else {
+      packSizePattern = raw.packSizePattern.trim();
+      checkPattern('packSizePattern', packSizePattern, errors);
+    }
+  }
+
+  const regions = {} as Record<PhotoRegion, LabelRegion>;
+  const rawRegions = (raw.regions ?? {}) as Record<string, unknown>;
+  for (const region of Object.keys(DEFAULT_LABEL_RULES.regions) as PhotoRegion[]) {
+    const value = rawRegions[region] as Record<string, unknown> | undefined;
+    if (value === undefined) {
+      regions[region] = DEFAULT_LABEL_RULES.regions[region];
+      continue;
+    }
+    const box = {} as LabelRegion;
+    for (const key of ['xPct', 'yPct', 'wPct', 'hPct'] as const) {
+      const fraction = value?.[key];
+      if (typeof fraction !== 'number' || fraction < 0 || fraction > 1) {
+        errors.push({ field: `regions.${region}.${key}`, message: 'must be a fraction between 0 and 1' });
+      }
+      box[key] = Number(fraction);
+    }
+    if (box.xPct + box.wPct > 1 || box.yPct + box.hPct > 1) {
+      errors.push({ field: `regions.${region}`, message: 'must lie inside the photo' });
+    }
+    regions[region] = box;
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    value: {
+      stockCodePrefixes,
+      brandKeywords,
+      regions,
+      barcodeSymbologies: barcodeSymbologies as LabelSymbology[],
+      lotPatterns,
+      dateKeywords,
+      dateFormats: dateFormats as LabelDateFormat[],
+      packSizePattern,
+    },
+  };
+}
@@ -0,0 +1,147 @@
+// OCR backends for process-extractions and extract-product-info, chosen with the OCR_PROVIDER environment variable:
+//   google-vision (default)  Google Cloud Vision TEXT_DETECTION, keyed by VISION_API_KEY
+//   http                     a self-hosted service at OCR_SERVICE_URL that takes the image bytes and returns { text }
+//   fixture                  canned text for development without external keys
+// Deno only.
+
+export const OCR_PROVIDER_NAMES = ['google-vision', 'http', 'fixture'] as const;
+
+export type OcrProviderName = (typeof OCR_PROVIDER_NAMES)[number];
+
+export interface OcrImage {
+  bytes: Uint8Array;
+  mimeType?: string;
+}
+
+export interface OcrProvider {
+  name: OcrProviderName;
+  // Resolves to the full recognised text, or an empty string when the image has none
+  recognise(image: OcrImage): Promise<string>;
+}
+
+// A case label as the fixture provider reads it, so the parsers see a barcode, lot, pack size and GS1 element string
+const DEFAULT_FIXTURE_TEXT = [
+  'Sample Lager 24 x 330ml',
+  'Barcode: 5012345678900',
+  'LOT: L24117A',
+  '(01)05012345678900(11)240426(10)L24117A',
+].join('\n');
+
+function getEnv(name: string): string {
+  const value = Deno.env.get(name);
+  if (!value) {
+    throw new Error(`Missing required environment variable: ${name}`);
+  }
+  return value;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  // Chunked so large photos do not exceed the argument limit of String.fromCharCode
+  let binary = '';
+  for (let start = 0; start < bytes.length; start += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(start, start + 0x8000));
+  }
+  return btoa(binary);
+}
+
+async function sha256Hex(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function googleVisionProvider(): OcrProvider {
+  // extract-product-info used to read GOOGLE_CLOUD_VISION_API_KEY, so existing deployments keep working
+  const apiKey = Deno.env.get('VISION_API_KEY') ?? Deno.env.get('GOOGLE_CLOUD_VISION_API_KEY');
+  if (!apiKey) {
+    throw new Error('Missing required environment variable: VISION_API_KEY');
+  }
+
+  return {
+    name: 'google-vision',
+    async recognise({ bytes }) {
+      const response = await fetch(`https://vision.googleapis.com/v1/images:annotate?key=${apiKey}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          requests: [{ image: { content: toBase64(bytes) }, features: [{ type: 'TEXT_DETECTION', maxResults: 1 }] }],
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Vision API request failed: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      const result = data.responses?.[0];
+      if (result?.error) {
+        throw new Error(`Vision API error: ${result.error.message}`);
+      }
+      return (result?.fullTextAnnotation?.text as string | undefined) ?? '';
+    },
+  };
+}
+
+function httpProvider(): OcrProvider {
+  const serviceUrl = getEnv('OCR_SERVICE_URL');
+  const token = Deno.env.get('OCR_SERVICE_TOKEN');
+
+  return {
+    name: 'http',
+    async recognise({ bytes, mimeType }) {
+      const headers: Record<string, string> = { 'Content-Type': mimeType ?? 'application/octet-stream' };
+      if (token) {
+        headers.Authorization = `Bearer ${token}`;
+      }
+
+      const response = await fetch(serviceUrl, { method: 'POST', headers, body: bytes });
+      if (!response.ok) {
+        throw new Error(`OCR service request failed: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      if (typeof data?.text !== 'string') {
+        throw new Error('OCR service response has no text');
+      }
+      return data.text;
+    },
+  };
+}
+
+// OCR_FIXTURES maps the SHA-256 of an image to its text, so a known photo always reads the same; other images read
+// OCR_FIXTURE_TEXT, or the built-in sample label.
+function fixtureProvider(): OcrProvider {
+  const fixturesJson = Deno.env.get('OCR_FIXTURES');
+  let fixtures: Record<string, string> = {};
+  if (fixturesJson) {
+    try {
+      fixtures = JSON.parse(fixturesJson);
+    } catch {
+      throw new Error('OCR_FIXTURES must be a JSON object of image SHA-256 to text');
+    }
+  }
+  const fallbackText = Deno.env.get('OCR_FIXTURE_TEXT') ?? DEFAULT_FIXTURE_TEXT;
+
+  return {
+    name: 'fixture',
+    async recognise({ bytes }) {
+      if (Object.keys(fixtures).length === 0) {
+        return fallbackText;
+      }
+      return fixtures[await sha256Hex(bytes)] ?? fallbackText;
+    },
+  };
+}
+
+export function createOcrProvider(): OcrProvider {
+  const name = (Deno.env.get('OCR_PROVIDER') ?? 'google-vision').trim().toLowerCase();
+  switch (name) {
+    case 'google-vision':
+      return googleVisionProvider();
+    case 'http':
+      return httpProvider();
+    case 'fixture':
+      return fixtureProvider();
+    default:
+      throw new Error(`Unknown OCR_PROVIDER ${name}; expected one of ${OCR_PROVIDER_NAMES.join(', ')}`);
+  }
+}
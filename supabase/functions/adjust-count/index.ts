@@ -0,0 +1,330 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.57.4';
+import {
+  COUNT_QUANTITY_FIELDS,
+  type CountAdjustmentRequest,
+  type CountAdjustmentSuccess,
+  type CountQuantityField,
+  formatFieldErrors,
+  validateCountAdjustmentRequest,
+} from '../_shared/countContract.ts';
+import { computeTotalUnits } from '../_shared/countTotals.ts';
+
+const corsHeaders: Record<string, string> = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+};
+
+const THUMBNAIL_TTL_SECONDS = 60 * 60;
+
+const COUNT_COLUMNS = [
+  'id',
+  'event_id',
+  'warehouse_code',
+  'stock_code',
+  'product_description',
+  'lot_number',
+  'location_code',
+  'counted_by',
+  ...COUNT_QUANTITY_FIELDS,
+  'total_units',
+  'units_per_case_snapshot',
+  'cases_per_layer_snapshot',
+  'layers_per_pallet_snapshot',
+  'photo_path',
+  'voided_at',
+  'void_reason',
+  'recount_task_id',
+  'superseded_at',
+  'resolution_status',
+  'created_at',
+  'updated_at',
+].join(', ');
+
+type CountRow = Record<CountQuantityField, number | null> & {
+  id: string;
+  event_id: string;
+  warehouse_code: string;
+  stock_code: string;
+  product_description: string | null;
+  lot_number: string | null;
+  location_code: string | null;
+  counted_by: string;
+  total_units: number;
+  units_per_case_snapshot: number | null;
+  cases_per_layer_snapshot: number | null;
+  layers_per_pallet_snapshot: number | null;
+  photo_path: string | null;
+  voided_at: string | null;
+  void_reason: string | null;
+  recount_task_id: string | null;
+  superseded_at: string | null;
+  resolution_status: 'resolved' | 'unresolved';
+  created_at: string;
+  updated_at: string;
+};
+
+function getEnv(name: string): string {
+  const value = Deno.env.get(name);
+  if (!value) {
+    throw new Error(`Missing required environment variable: ${name}`);
+  }
+  return value;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+async function authenticate(supabase: ReturnType<typeof createClient>, req: Request) {
+  const authHeader = req.headers.get('authorization') ?? req.headers.get('Authorization');
+  if (!authHeader) {
+    throw new Error('Missing authorization header');
+  }
+  const token = authHeader.replace(/^Bearer\s+/i, '');
+  const { data: authResult, error: authError } = await supabase.auth.getUser(token);
+  if (authError || !authResult?.user) {
+    throw new Error('Unauthorized');
+  }
+
+  const { data: profile, error: profileError } = await supabase
+    .from('user_profiles')
+    .select('role')
+    .eq('id', authResult.user.id)
+    .maybeSingle();
+
+  if (profileError || !profile) {
+    throw new Error('User profile not found');
+  }
+
+  return { userId: authResult.user.id, isAdmin: profile.role === 'admin' };
+}
+
+async function loadEventStatus(supabase: ReturnType<typeof createClient>, eventId: string): Promise<string> {
+  const { data: event, error } = await supabase
+    .from('stocktake_events')
+    .select('status')
+    .eq('id', eventId)
+    .maybeSingle();
+
+  if (error || !event) {
+    throw new Error('Stocktake event not found');
+  }
+  return event.status as string;
+}
+
+async function listMyCounts(supabase: ReturnType<typeof createClient>, req: Request, userId: string) {
+  const url = new URL(req.url);
+  const eventId = url.searchParams.get('event_id')?.trim();
+  const warehouseCode = url.searchParams.get('warehouse_code')?.trim();
+
+  if (!eventId) {
+    throw new Error('event_id is required');
+  }
+  if (!warehouseCode) {
+    throw new Error('warehouse_code is required');
+  }
+
+  const eventStatus = await loadEventStatus(supabase, eventId);
+
+  const { data: counts, error: countsError } = await supabase
+    .from('counts')
+    .select(COUNT_COLUMNS)
+    .eq('counted_by', userId)
+    .eq('event_id', eventId)
+    .eq('warehouse_code', warehouseCode)
+    .order('created_at', { ascending: false });
+
+  if (countsError) {
+    throw new Error(`Failed to load counts: ${countsError.message}`);
+  }
+
+  const rows = (counts ?? []) as unknown as CountRow[];
+  const countIds = rows.map((row) => row.id);
+  const photoPaths = rows.map((row) => row.photo_path).filter((path): path is string => Boolean(path));
+
+  const thumbnails = new Map<string, string>();
+  if (photoPaths.length > 0) {
+    const { data: signed, error: signError } = await supabase.storage
+      .from('count_images')
+      .createSignedUrls(photoPaths, THUMBNAIL_TTL_SECONDS);
+    if (signError) {
+      console.warn('Failed to sign count photos:', signError.message);
+    }
+    for (const entry of signed ?? []) {
+      if (entry.path && entry.signedUrl) {
+        thumbnails.set(entry.path, entry.signedUrl);
+      }
+    }
+  }
+
+  const { data: adjustments, error: adjustmentsError } = countIds.length > 0
+    ? await supabase
+      .from('count_adjustments')
+      .select('id, count_id, action, previous_values, new_values, reason, adjusted_by_name, created_at')
+      .in('count_id', countIds)
+      .order('created_at', { ascending: true })
+    : { data: [], error: null };
+
+  if (adjustmentsError) {
+    throw new Error(`Failed to load count history: ${adjustmentsError.message}`);
+  }
+
+  const editable = eventStatus === 'active';
+
+  return {
+    ok: true,
+    event_status: eventStatus,
+    counts: rows.map((row) => ({
+      ...row,
+      photo_url: row.photo_path ? thumbnails.get(row.photo_path) ?? null : null,
+      editable: editable && !row.voided_at && !row.superseded_at,
+      adjustments: (adjustments ?? []).filter((adjustment) => adjustment.count_id === row.id),
+    })),
+  };
+}
+
+function buildChanges(count: CountRow, request: CountAdjustmentRequest): Record<string, unknown> {
+  const changes: Record<string, unknown> = {};
+  const quantities = {} as Record<CountQuantityField, number>;
+
+  for (const field of COUNT_QUANTITY_FIELDS) {
+    const current = count[field] ?? 0;
+    const requested = request[field];
+    quantities[field] = requested ?? current;
+    if (requested !== undefined && requested !== current) {
+      changes[field] = requested;
+    }
+  }
+
+  if (request.lot_number !== undefined && (request.lot_number ?? null) !== (count.lot_number || null)) {
+    changes.lot_number = request.lot_number ?? '';
+  }
+
+  if (Object.keys(changes).length === 0) {
+    throw new Error('No changes to apply');
+  }
+
+  // Recalculate with the packaging captured at submission so an edit only reflects the corrected quantities
+  const totalUnits = Math.round(computeTotalUnits(quantities, {
+    unitsPerCase: count.units_per_case_snapshot ?? 1,
+    casesPerLayer: count.cases_per_layer_snapshot ?? 1,
+    layersPerPallet: count.layers_per_pallet_snapshot ?? 1,
+  }));
+
+  if (totalUnits !== count.total_units) {
+    changes.total_units = totalUnits;
+  }
+
+  return changes;
+}
+
+async function adjustCount(supabase: ReturnType<typeof createClient>, req: Request, userId: string, isAdmin: boolean) {
+  const body = await req.json();
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new Error('Request body must be a JSON object');
+  }
+
+  const validation = validateCountAdjustmentRequest(body as Record<string, unknown>);
+  if (!validation.ok) {
+    console.error('adjust-count rejected payload:', formatFieldErrors(validation.errors));
+    return jsonResponse({ ok: false, error: 'Invalid count adjustment', field_errors: validation.errors }, 400);
+  }
+  const request = validation.value;
+
+  const { data: count, error: countError } = await supabase
+    .from('counts')
+    .select(COUNT_COLUMNS)
+    .eq('id', request.count_id)
+    .maybeSingle();
+
+  if (countError || !count) {
+    throw new Error('Count not found');
+  }
+
+  const row = count as unknown as CountRow;
+  if (row.counted_by !== userId && !isAdmin) {
+    throw new Error('You can only change your own counts');
+  }
+
+  if (row.voided_at) {
+    throw new Error('Count has already been voided');
+  }
+
+  if (row.superseded_at) {
+    throw new Error('Count has been superseded by a recount');
+  }
+
+  const eventStatus = await loadEventStatus(supabase, row.event_id);
+  if (eventStatus !== 'active') {
+    throw new Error('Event is not active, so its counts can no longer be changed');
+  }
+
+  const changes = request.action === 'edit' ? buildChanges(row, request) : {};
+
+  const { data: adjustment, error: adjustError } = await supabase.rpc('apply_count_adjustment', {
+    p_count_id: row.id,
+    p_action: request.action,
+    p_changes: changes,
+    p_reason: request.reason ?? null,
+    p_adjusted_by: userId,
+  });
+
+  if (adjustError || !adjustment) {
+    throw new Error(adjustError?.message ?? 'Failed to adjust count');
+  }
+
+  try {
+    await supabase.rpc('refresh_counts_totals_mv');
+  } catch {
+    // The next submission refreshes the totals
+  }
+
+  console.log(`Count ${row.id} ${request.action === 'void' ? 'voided' : 'edited'} by ${userId}`);
+
+  const result: CountAdjustmentSuccess = {
+    ok: true,
+    count_id: row.id,
+    action: request.action,
+    adjustment_id: (adjustment as { id: string }).id,
+    total_units: request.action === 'void' ? 0 : (changes.total_units as number | undefined) ?? row.total_units,
+  };
+  return jsonResponse(result);
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const supabase = createClient(getEnv('SB_URL'), getEnv('SB_SERVICE_ROLE_KEY'));
+    const { userId, isAdmin } = await authenticate(supabase, req);
+
+    if (req.method === 'GET') {
+      return jsonResponse(await listMyCounts(supabase, req, userId));
+    }
+
+    return await adjustCount(supabase, req, userId, isAdmin);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('adjust-count function failed:', message);
+    const status = message === 'Unauthorized'
+      ? 401
+      : message.startsWith('You can only')
+        ? 403
+        : message === 'Count not found'
+          ? 404
+          : message.includes('voided') || message.includes('superseded') || message.startsWith('Event is not active')
+            ? 409
+            : 400;
+    return jsonResponse({ ok: false, error: message }, status);
+  }
+});
@@ -9,6 +9,7 @@ const corsHeaders: Record<string, string> = {
 interface AssignPayloadItem {
   stock_code?: string;
   lot_number?: string | null;
+  location_code?: string | null;
   notes?: string | null;
 }
 
@@ -150,16 +151,40 @@ Deno.serve(async (req: Request) => {
       throw new Error('No stock takers are assigned to this warehouse');
     }
 
+    const requestedLocationCodes = Array.from(
+      new Set(items.map((item) => toTrimmed(item?.location_code)).filter((code): code is string => Boolean(code))),
+    );
+    const locationsByCode = new Map<string, { id: string; code: string }>();
+
+    if (requestedLocationCodes.length > 0) {
+      const { data: locations, error: locationsError } = await supabase
+        .from('warehouse_locations')
+        .select('id, code')
+        .eq('warehouse_code', warehouseCode)
+        .in('code', requestedLocationCodes);
+
+      if (locationsError) {
+        throw new Error(`Failed to load warehouse locations: ${locationsError.message}`);
+      }
+      for (const location of locations ?? []) {
+        locationsByCode.set(location.code as string, { id: location.id as string, code: location.code as string });
+      }
+      const missing = requestedLocationCodes.filter((code) => !locationsByCode.has(code));
+      if (missing.length > 0) {
+        throw new Error(`Unknown location code(s): ${missing.join(', ')}`);
+      }
+    }
+
     const { data: existingTasks, error: existingTasksError } = await supabase
       .from('recount_tasks')
-      .select('stock_code, lot_number')
+      .select('stock_code, lot_number, location_id')
       .eq('event_id', eventId)
       .eq('warehouse_code', warehouseCode);
 
     if (existingTasksError) {
       throw new Error(`Failed to load existing recount tasks: ${existingTasksError.message}`);
     }
-    const existingTaskKeys = new Set(existingTasks.map(t => `${t.stock_code}:${t.lot_number}`));
+    const existingTaskKeys = new Set(existingTasks.map(t => `${t.stock_code}:${t.lot_number}:${t.location_id ?? ''}`));
 
 
     const { data: lastTask } = await supabase
@@ -176,7 +201,9 @@ Deno.serve(async (req: Request) => {
     const newItems = items.filter(item => {
         const stockCode = toTrimmed(item?.stock_code);
         const lotNumber = toTrimmed(item?.lot_number);
-        return !existingTaskKeys.has(`${stockCode}:${lotNumber}`);
+        const locationCode = toTrimmed(item?.location_code);
+        const locationId = locationCode ? locationsByCode.get(locationCode)?.id : null;
+        return !existingTaskKeys.has(`${stockCode}:${lotNumber}:${locationId ?? ''}`);
     });
 
     for (let i = 0; i < newItems.length; i += 1) {
@@ -197,12 +224,15 @@ Deno.serve(async (req: Request) => {
       if (!stockCode) {
         throw new Error(`Item at position ${index} is missing stock_code`);
       }
+      const locationCode = toTrimmed(item?.location_code);
+      const location = locationCode ? locationsByCode.get(locationCode) ?? null : null;
 
       return {
         event_id: eventId,
         warehouse_code: warehouseCode,
         stock_code: stockCode,
         lot_number: toTrimmed(item?.lot_number),
+        location_id: location?.id ?? null,
         notes: toTrimmed(item?.notes),
         assigned_to: assignedTo,
         assigned_by: userId,
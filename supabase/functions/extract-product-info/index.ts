@@ -1,4 +1,8 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.57.4";
+import { chooseLabelRuleSet, loadActiveLabelRuleSets } from "../_shared/labelRuleSets.ts";
+import { parseLabel } from "../_shared/labelRules.ts";
+import { createOcrProvider } from "../_shared/ocrProvider.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -6,78 +10,12 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
 };
 
-interface VisionAPIResponse {
-  responses: Array<{
-    textAnnotations?: Array<{
-      description: string;
-      locale?: string;
-    }>;
-    error?: {
-      code: number;
-      message: string;
-    };
-  }>;
-}
-
-interface ExtractedData {
-  product_name: string;
-  barcode: string;
-  lot_number: string;
-  pack_size: string;
-  raw_text: string;
-}
-
-function extractProductInfo(text: string): ExtractedData {
-  const lines = text.split('\n').map(line => line.trim()).filter(line => line.length > 0);
-  
-  let productName = '';
-  let barcode = '';
-  let lotNumber = '';
-  let packSize = '';
-  
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    const upperLine = line.toUpperCase();
-    
-    if (!barcode) {
-      const barcodeMatch = line.match(/\b\d{8,14}\b/);
-      if (barcodeMatch) {
-        barcode = barcodeMatch[0];
-      }
-    }
-    
-    if (!lotNumber) {
-      if (upperLine.includes('LOT') || upperLine.includes('BATCH')) {
-        const lotMatch = line.match(/(?:LOT|BATCH)[:\s#]*([A-Z0-9-]+)/i);
-        if (lotMatch) {
-          lotNumber = lotMatch[1];
-        } else if (i + 1 < lines.length) {
-          lotNumber = lines[i + 1];
-        }
-      }
-    }
-    
-    if (!packSize) {
-      const sizeMatch = line.match(/(\d+\s*(?:kg|g|l|ml|oz|lb|pack|ct|count|pcs|pieces))/i);
-      if (sizeMatch) {
-        packSize = sizeMatch[1];
-      }
-    }
-    
-    if (!productName && i < 3 && line.length > 3 && line.length < 100) {
-      if (!line.match(/^\d+$/) && !upperLine.includes('BARCODE') && !upperLine.includes('LOT')) {
-        productName = line;
-      }
-    }
+function getEnv(name: string): string {
+  const value = Deno.env.get(name);
+  if (!value) {
+    throw new Error(`Missing required environment variable: ${name}`);
   }
-  
-  return {
-    product_name: productName,
-    barcode: barcode,
-    lot_number: lotNumber,
-    pack_size: packSize,
-    raw_text: text
-  };
+  return value;
 }
 
 Deno.serve(async (req: Request) => {
@@ -89,7 +27,7 @@ Deno.serve(async (req: Request) => {
   }
 
   try {
-    const { image_base64 } = await req.json();
+    const { image_base64, stock_code } = await req.json();
 
     if (!image_base64) {
       return new Response(
@@ -104,72 +42,22 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    const apiKey = Deno.env.get('GOOGLE_CLOUD_VISION_API_KEY');
-    
-    if (!apiKey) {
-      console.error('Google Cloud Vision API key not configured');
-      
-      const mockText = `Product Name Sample\nBarcode: 1234567890123\nLot: ABC123\n500g Package\nExpiry: 2025-12-31`;
-      const extracted = extractProductInfo(mockText);
-      
-      return new Response(
-        JSON.stringify({
-          ...extracted,
-          mock: true,
-          message: 'Using mock data - Configure GOOGLE_CLOUD_VISION_API_KEY for real extraction'
-        }),
-        {
-          headers: {
-            ...corsHeaders,
-            'Content-Type': 'application/json',
-          },
-        }
-      );
-    }
-
-    const visionApiUrl = `https://vision.googleapis.com/v1/images:annotate?key=${apiKey}`;
-    
-    const requestBody = {
-      requests: [
-        {
-          image: {
-            content: image_base64.replace(/^data:image\/[a-z]+;base64,/, '')
-          },
-          features: [
-            { type: 'TEXT_DETECTION', maxResults: 1 }
-          ]
-        }
-      ]
-    };
-
-    const response = await fetch(visionApiUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(requestBody)
+    const ocr = createOcrProvider();
+    const base64 = image_base64.replace(/^data:image\/[a-z]+;base64,/, '');
+    const fullText = await ocr.recognise({
+      bytes: Uint8Array.from(atob(base64), (char) => char.charCodeAt(0)),
     });
 
-    if (!response.ok) {
-      throw new Error(`Vision API error: ${response.status} ${response.statusText}`);
-    }
-
-    const visionData: VisionAPIResponse = await response.json();
-    
-    if (visionData.responses[0]?.error) {
-      throw new Error(`Vision API error: ${visionData.responses[0].error.message}`);
-    }
-
-    const textAnnotations = visionData.responses[0]?.textAnnotations;
-    
-    if (!textAnnotations || textAnnotations.length === 0) {
+    if (!fullText) {
       return new Response(
         JSON.stringify({
           product_name: '',
           barcode: '',
           lot_number: '',
           pack_size: '',
+          filling_date: '',
           raw_text: '',
+          provider: ocr.name,
           message: 'No text detected in image'
         }),
         {
@@ -181,11 +69,21 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    const fullText = textAnnotations[0].description;
-    const extracted = extractProductInfo(fullText);
+    const supabase = createClient(getEnv('SB_URL'), getEnv('SB_SERVICE_ROLE_KEY'));
+    const ruleSet = chooseLabelRuleSet(await loadActiveLabelRuleSets(supabase), { stockCode: stock_code, text: fullText });
+    const parsed = parseLabel({ fullText }, ruleSet.rules);
 
     return new Response(
-      JSON.stringify(extracted),
+      JSON.stringify({
+        product_name: parsed.productName ?? '',
+        barcode: parsed.barcode ?? '',
+        lot_number: parsed.lotNumber ?? '',
+        pack_size: parsed.packSize ?? '',
+        filling_date: parsed.fillingDate ?? '',
+        raw_text: fullText,
+        provider: ocr.name,
+        rule_set: ruleSet.name,
+      }),
       {
         headers: {
           ...corsHeaders,
@@ -1,4 +1,14 @@
 import { createClient } from 'npm:@supabase/supabase-js@2.57.4';
+import {
+  describePhotoQuality,
+  type ExtractionHints,
+  PHOTO_REGIONS,
+  type PhotoRegion,
+  readPhotoQuality,
+} from '../_shared/countContract.ts';
+import { chooseLabelRuleSet, loadActiveLabelRuleSets } from '../_shared/labelRuleSets.ts';
+import { parseLabel } from '../_shared/labelRules.ts';
+import { createOcrProvider, type OcrProvider } from '../_shared/ocrProvider.ts';
 
 const corsHeaders: Record<string, string> = {
   'Access-Control-Allow-Origin': '*', 
@@ -7,6 +17,33 @@ const corsHeaders: Record<string, string> = {
 };
 
 const BATCH_SIZE = 25;
+const DEFAULT_MAX_ATTEMPTS = 5;
+// Failed extractions wait 1, 2, 4, 8... minutes before the next attempt, up to six hours
+const RETRY_BASE_MS = 60 * 1000;
+const RETRY_MAX_MS = 6 * 60 * 60 * 1000;
+// After this many failures in a row the OCR provider is probably down, so the rest of the batch is handed back
+// without using up an attempt
+const OUTAGE_THRESHOLD = 3;
+const PURGE_BATCH_SIZE = 100;
+const ARCHIVE_BUCKET = 'count-evidence';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+type RegionText = Partial<Record<PhotoRegion, string>>;
+
+interface PurgeablePhoto {
+  id: string;
+  event_id: string;
+  warehouse_code: string;
+  stock_code: string | null;
+  lot_number: string | null;
+  location_code: string | null;
+  counted_by: string | null;
+  created_at: string;
+  photo_path: string;
+  photo_roi_paths: Record<string, string> | null;
+  retention_policy: string;
+  purge_attempts: number;
+}
 
 function getEnv(name: string): string {
   const value = Deno.env.get(name);
@@ -20,43 +57,84 @@ function nowIso(): string {
   return new Date().toISOString();
 }
 
-function parseOcrText(fullText: string): { barcode: string | null; lotNumber: string | null; productName: string | null } {
-  if (!fullText) {
-    return { barcode: null, lotNumber: null, productName: null };
-  }
+function maxAttempts(): number {
+  const configured = Number(Deno.env.get('EXTRACTION_MAX_ATTEMPTS'));
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_MAX_ATTEMPTS;
+}
 
-  const lines = fullText.split('\n').map(line => line.trim());
+function nextAttemptAt(attempts: number): string {
+  const delay = Math.min(RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_MS);
+  return new Date(Date.now() + delay).toISOString();
+}
 
-  // Barcode extraction (ITF-14 or EAN-13)
-  const barcodeRegex = /\b(\d{13,14})\b/g;
-  let barcode: string | null = null;
-  for (const line of lines) {
-    const match = barcodeRegex.exec(line);
-    if (match) {
-      barcode = match[1];
-      break;
-    }
+async function recogniseStoredImage(supabase: SupabaseClient, ocr: OcrProvider, path: string): Promise<string> {
+  const { data: image, error: downloadError } = await supabase.storage.from('count_images').download(path);
+  if (downloadError) {
+    throw new Error(`Failed to download ${path}: ${downloadError.message}`);
   }
+  return ocr.recognise({ bytes: new Uint8Array(await image.arrayBuffer()), mimeType: image.type || undefined });
+}
+
+async function sha256Hex(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
 
-  // Lot number extraction
-  const lotRegex = /(lot|l|batch)\s*:?\s*([a-z0-9\s-]+)/i;
-  let lotNumber: string | null = null;
-  for (const line of lines) {
-    const match = lotRegex.exec(line);
-    if (match && match[2]) {
-      lotNumber = match[2].trim();
-      break;
+// Copies the photo and its region crops into the evidence bucket under the event, then writes a manifest that lets an
+// auditor tie each file back to the count and check it has not changed since
+async function archiveCountPhotos(
+  supabase: SupabaseClient,
+  record: PurgeablePhoto,
+  paths: string[],
+): Promise<{ archivedPaths: string[]; manifestPath: string }> {
+  const files = [];
+  for (const path of paths) {
+    const { data: image, error: downloadError } = await supabase.storage.from('count_images').download(path);
+    if (downloadError) {
+      throw new Error(`Failed to download ${path}: ${downloadError.message}`);
     }
+    const bytes = new Uint8Array(await image.arrayBuffer());
+    const archivedPath = `${record.event_id}/${path}`;
+    const { error: uploadError } = await supabase.storage
+      .from(ARCHIVE_BUCKET)
+      .upload(archivedPath, bytes, { contentType: image.type || 'image/jpeg', upsert: true });
+    if (uploadError) {
+      throw new Error(`Failed to archive ${path}: ${uploadError.message}`);
+    }
+    files.push({
+      source_path: path,
+      archived_path: archivedPath,
+      content_type: image.type || null,
+      size: bytes.byteLength,
+      sha256: await sha256Hex(bytes),
+    });
   }
 
-  // Product name extraction (simple heuristic: assume the longest line is the product name)
-  let productName: string | null = null;
-  if (lines.length > 0) {
-    productName = lines.reduce((a, b) => a.length > b.length ? a : b);
+  const manifestPath = `${record.event_id}/${record.id}/manifest.json`;
+  const manifest = {
+    count_id: record.id,
+    event_id: record.event_id,
+    warehouse_code: record.warehouse_code,
+    stock_code: record.stock_code,
+    lot_number: record.lot_number,
+    location_code: record.location_code,
+    counted_by: record.counted_by,
+    counted_at: record.created_at,
+    retention_policy: record.retention_policy,
+    archived_at: nowIso(),
+    files,
+  };
+  const { error: manifestError } = await supabase.storage
+    .from(ARCHIVE_BUCKET)
+    .upload(manifestPath, new Blob([JSON.stringify(manifest, null, 2)], { type: 'application/json' }), {
+      contentType: 'application/json',
+      upsert: true,
+    });
+  if (manifestError) {
+    throw new Error(`Failed to write manifest for count ${record.id}: ${manifestError.message}`);
   }
 
-
-  return { barcode, lotNumber, productName };
+  return { archivedPaths: files.map((file) => file.archived_path), manifestPath };
 }
 
 Deno.serve(async (req: Request) => {
@@ -75,91 +153,112 @@ Deno.serve(async (req: Request) => {
 
   try {
     const supabase = createClient(getEnv('SB_URL'), getEnv('SB_SERVICE_ROLE_KEY'));
+    const ocr = createOcrProvider();
+    const attemptLimit = maxAttempts();
+    const ruleSets = await loadActiveLabelRuleSets(supabase);
 
-    const { data: pendingCounts, error: pendingError } = await supabase
-      .from('counts')
-      .select(
-        `id, stock_code, lot_number, product_description, extracted_barcode, extracted_product_name,
-         extracted_pack_size, extracted_lot_number, extracted_filling_date, photo_path, created_at`
-      )
-      .eq('status', 'pending')
-      .order('created_at', { ascending: true })
-      .limit(BATCH_SIZE);
-
-    if (pendingError) {
-      throw new Error(`Failed to load pending counts: ${pendingError.message}`);
+    // Claiming moves the counts to processing and counts the attempt, so overlapping runs never share a count
+    const { data: claimedCounts, error: claimError } = await supabase.rpc('claim_extractions', { p_limit: BATCH_SIZE });
+
+    if (claimError) {
+      throw new Error(`Failed to claim counts for extraction: ${claimError.message}`);
     }
 
-    console.log(`Found ${pendingCounts?.length ?? 0} pending counts to process.`);
+    const claimed = (claimedCounts ?? []) as Array<Record<string, unknown>>;
+    console.log(`Claimed ${claimed.length} counts to process.`);
 
     const processed: string[] = [];
-    const updatesFailed: string[] = [];
+    const retrying: string[] = [];
+    const deadLettered: string[] = [];
+    const released: string[] = [];
+    let consecutiveFailures = 0;
+
+    for (const [position, row] of claimed.entries()) {
+      if (consecutiveFailures >= OUTAGE_THRESHOLD) {
+        for (const skipped of claimed.slice(position)) {
+          const { error: releaseError } = await supabase
+            .from('counts')
+            .update({
+              status: 'retry',
+              extraction_attempts: Math.max(0, (skipped.extraction_attempts as number) - 1),
+              extraction_next_attempt_at: nextAttemptAt(1),
+              extraction_claimed_at: null,
+            })
+            .eq('id', skipped.id);
+          if (releaseError) {
+            // The claim expires and the count is picked up again
+            console.error(`Failed to release count ${skipped.id}:`, releaseError.message);
+          }
+          released.push(skipped.id as string);
+        }
+        console.warn(`${consecutiveFailures} extractions failed in a row; released ${released.length} counts for a later run.`);
+        break;
+      }
 
-    for (const row of pendingCounts ?? []) {
-      console.log(`Processing count ${row.id}`);
+      console.log(`Processing count ${row.id} (attempt ${row.extraction_attempts} of ${attemptLimit})`);
+      // Logged with every attempt so a reading can be judged against how good the photo was
+      const photoQuality = readPhotoQuality(row.photo_quality);
       const extractionLog = [];
       const updatePayload: Record<string, unknown> = {
-        status: 'processed',
+        status: 'extracted',
         extracted_at: nowIso(),
+        extraction_last_error: null,
+        extraction_claimed_at: null,
       };
 
       try {
-        if (row.photo_path) {
-          console.log(`Downloading photo for count ${row.id}`);
-          const { data: photoData, error: downloadError } = await supabase.storage
-            .from('count_images')
-            .download(row.photo_path);
-
-          if (downloadError) {
-            throw new Error(`Failed to download photo: ${downloadError.message}`);
+        const regionPaths = (row.photo_roi_paths ?? {}) as Partial<Record<PhotoRegion, string>>;
+        if (row.photo_path || Object.keys(regionPaths).length > 0) {
+          console.log(`Running ${ocr.name} OCR for count ${row.id}`);
+          const fullText = row.photo_path ? await recogniseStoredImage(supabase, ocr, row.photo_path as string) : '';
+
+          const regionText: RegionText = {};
+          for (const region of PHOTO_REGIONS) {
+            const path = regionPaths[region];
+            if (!path) continue;
+            try {
+              regionText[region] = await recogniseStoredImage(supabase, ocr, path);
+            } catch (regionError) {
+              // The full frame still covers this region's fields
+              console.warn(`OCR of the ${region} region failed for count ${row.id}:`, (regionError as Error).message);
+            }
           }
-
-          const imageBytes = new Uint8Array(await photoData.arrayBuffer());
-          const imageBase64 = btoa(String.fromCharCode.apply(null, imageBytes));
-
-          console.log(`Calling Vision API for count ${row.id}`);
-          const visionApiUrl = `https://vision.googleapis.com/v1/images:annotate?key=${getEnv('VISION_API_KEY')}`;
-          const visionApiResponse = await fetch(visionApiUrl, {
-            method: 'POST',
-            body: JSON.stringify({
-              requests: [
-                {
-                  image: {
-                    content: imageBase64,
-                  },
-                  features: [
-                    {
-                      type: 'TEXT_DETECTION',
-                      maxResults: 1,
-                    },
-                  ],
-                },
-              ],
-            }),
+          console.log(
+            `OCR outcome for count ${row.id}: ${fullText ? 'Success' : 'Failure'}, regions read: ${Object.keys(regionText).join(', ') || 'none'}`,
+          );
+
+          const ruleSet = chooseLabelRuleSet(ruleSets, {
+            ruleSetId: (row.extraction_hints as ExtractionHints | null)?.ruleSetId,
+            stockCode: row.stock_code as string,
+            text: [fullText, ...Object.values(regionText)].join('\n'),
           });
-
-          if (!visionApiResponse.ok) {
-            throw new Error(`Vision API request failed: ${visionApiResponse.statusText}`);
-          }
-
-          const visionApiData = await visionApiResponse.json();
-          const fullText = visionApiData.responses[0]?.fullTextAnnotation?.text;
-          console.log(`OCR outcome for count ${row.id}: ${fullText ? 'Success' : 'Failure'}`);
-
-          const { barcode, lotNumber, productName } = parseOcrText(fullText);
+          const { barcode, lotNumber, productName, fillingDate, packSize } = parseLabel(
+            { fullText, regions: regionText },
+            ruleSet.rules,
+          );
 
           extractionLog.push({
             processed_at: nowIso(),
-            strategy: 'ocr',
-            notes: 'Processed with Google Cloud Vision API.',
+            strategy: Object.keys(regionText).length > 0 ? 'ocr-regions' : 'ocr',
+            provider: ocr.name,
+            rule_set: ruleSet.name,
+            photo_quality: photoQuality,
+            notes: `Processed with the ${ocr.name} OCR provider and the ${ruleSet.name} label rules.${
+              photoQuality && photoQuality.verdict !== 'good'
+                ? ` Photo quality: ${describePhotoQuality(photoQuality)}.`
+                : ''
+            }`,
             fullText: fullText,
-            parsed: { barcode, lotNumber, productName },
+            regions: regionText,
+            parsed: { barcode, lotNumber, productName, fillingDate, packSize },
           });
 
           updatePayload.extraction_log = extractionLog;
           updatePayload.extracted_barcode = barcode;
           updatePayload.extracted_lot_number = lotNumber;
           updatePayload.extracted_product_name = productName;
+          updatePayload.extracted_filling_date = fillingDate;
+          updatePayload.extracted_pack_size = packSize;
 
         } else {
           console.log(`No photo for count ${row.id}, skipping OCR.`);
@@ -181,18 +280,26 @@ Deno.serve(async (req: Request) => {
         }
 
         processed.push(row.id as string);
+        consecutiveFailures = 0;
       } catch (e) {
-        updatesFailed.push(row.id as string);
-        console.error(`Failed to process count ${row.id}:`, e.message);
+        consecutiveFailures += 1;
+        const attempts = row.extraction_attempts as number;
+        const exhausted = attempts >= attemptLimit;
+        (exhausted ? deadLettered : retrying).push(row.id as string);
+        console.error(`Failed to process count ${row.id} on attempt ${attempts}:`, e.message);
         const { error: updateError } = await supabase
           .from('counts')
           .update({
-            status: 'failed',
+            status: exhausted ? 'dead_letter' : 'retry',
+            extraction_next_attempt_at: nextAttemptAt(attempts),
+            extraction_last_error: e.message,
+            extraction_claimed_at: null,
             extraction_log: [
               ...extractionLog,
               {
                 processed_at: nowIso(),
                 strategy: 'error',
+                photo_quality: photoQuality,
                 notes: e.message,
               },
             ],
@@ -200,36 +307,79 @@ Deno.serve(async (req: Request) => {
           .eq('id', row.id);
 
         if (updateError) {
-          console.error(`Failed to mark count ${row.id} as failed:`, updateError.message);
+          console.error(`Failed to record the failed extraction of count ${row.id}:`, updateError.message);
         }
       }
     }
 
-    const cutoff = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
-    const { data: stalePhotos, error: staleError } = await supabase
-      .from('counts')
-      .select('id, photo_path')
-      .not('photo_path', 'is', null)
-      .lt('created_at', cutoff)
-      .limit(100);
+    // Each event's retention policy decides which photos are due; open recounts can hold theirs back
+    const { data: duePhotos, error: dueError } = await supabase.rpc('list_purgeable_photos', {
+      p_limit: PURGE_BATCH_SIZE,
+    });
 
-    if (staleError) {
-      throw new Error(`Failed to load stale photos: ${staleError.message}`);
+    if (dueError) {
+      throw new Error(`Failed to load photos due for purging: ${dueError.message}`);
     }
 
     const purged: string[] = [];
-    if (stalePhotos && stalePhotos.length > 0) {
-      console.log(`Found ${stalePhotos.length} stale photos to purge.`);
+    const stalePhotos = (duePhotos ?? []) as PurgeablePhoto[];
+    if (stalePhotos.length > 0) {
+      console.log(`Found ${stalePhotos.length} photos due for purging.`);
       for (const record of stalePhotos) {
-        const path = record.photo_path as string | null;
-        if (!path) continue;
-        const { error: removeError } = await supabase.storage.from('count_images').remove([path]);
-        if (!removeError) {
-          await supabase.from('counts').update({ photo_path: null }).eq('id', record.id);
-          purged.push(record.id as string);
+        const paths = [record.photo_path, ...Object.values(record.photo_roi_paths ?? {})];
+        try {
+          // Nothing is removed unless the archive copy and its manifest were written
+          const { archivedPaths, manifestPath } = await archiveCountPhotos(supabase, record, paths);
+
+          const { error: removeError } = await supabase.storage.from('count_images').remove(paths);
+          if (removeError) {
+            throw new Error(`Failed to remove photos: ${removeError.message}`);
+          }
+
+          const { error: updateError } = await supabase
+            .from('counts')
+            .update({ photo_path: null, photo_roi_paths: null, photo_archive_path: manifestPath, photo_purge_error: null })
+            .eq('id', record.id);
+          if (updateError) {
+            throw new Error(`Failed to clear photo paths: ${updateError.message}`);
+          }
+
+          const { error: logError } = await supabase.from('photo_purges').insert({
+            count_id: record.id,
+            event_id: record.event_id,
+            warehouse_code: record.warehouse_code,
+            stock_code: record.stock_code,
+            retention_policy: record.retention_policy,
+            removed_paths: paths,
+            archive_bucket: ARCHIVE_BUCKET,
+            archived_paths: archivedPaths,
+            manifest_path: manifestPath,
+          });
+          if (logError) {
+            // The manifest path on the count still records where the photos went
+            console.error(`Failed to record the purge of count ${record.id}:`, logError.message);
+          }
+
+          purged.push(record.id);
+        } catch (purgeError) {
+          const message = (purgeError as Error).message;
+          const attempts = (record.purge_attempts ?? 0) + 1;
+          console.error(`Failed to purge photos of count ${record.id} on attempt ${attempts}:`, message);
+          // Backing off takes the count out of list_purgeable_photos, so it cannot block the photos behind it
+          const { error: failureError } = await supabase
+            .from('counts')
+            .update({
+              photo_purge_attempts: attempts,
+              photo_purge_next_attempt_at: nextAttemptAt(attempts),
+              photo_purge_error: message,
+            })
+            .eq('id', record.id);
+          if (failureError) {
+            console.error(`Failed to record the failed purge of count ${record.id}:`, failureError.message);
+          }
         }
       }
-      console.log(`Purged ${purged.length} photos.`);
+      console.log(`Archived and purged photos of ${purged.length} counts.`);
     }
 
     try {
@@ -238,11 +388,16 @@ Deno.serve(async (req: Request) => {
       // Ignore refresh issues to keep worker resilient
     }
 
-    console.log(`process-extractions function finished successfully. Processed: ${processed.length}, Failed: ${updatesFailed.length}, Purged: ${purged.length}`);
+    console.log(
+      `process-extractions function finished successfully. Processed: ${processed.length}, Retrying: ${retrying.length}, Dead-lettered: ${deadLettered.length}, Released: ${released.length}, Purged: ${purged.length}`,
+    );
 
     return new Response(
       JSON.stringify({
         processed: processed.length,
+        retrying: retrying.length,
+        dead_lettered: deadLettered.length,
+        released: released.length,
         purged: purged.length,
       }),
       {
@@ -0,0 +1,432 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.57.4';
+import {
+  COUNT_QUANTITY_FIELDS,
+  type CountQuantityField,
+  type CountResolutionRequest,
+  type CountResolutionSuccess,
+  formatFieldErrors,
+  validateCountResolutionRequest,
+} from '../_shared/countContract.ts';
+import { computeTotalUnits } from '../_shared/countTotals.ts';
+
+const corsHeaders: Record<string, string> = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+};
+
+const PHOTO_TTL_SECONDS = 60 * 60;
+
+const UNRESOLVED_COLUMNS = [
+  'id',
+  'event_id',
+  'warehouse_code',
+  'stock_code',
+  'product_description',
+  'lot_number',
+  'location_code',
+  'counted_by',
+  ...COUNT_QUANTITY_FIELDS,
+  'total_units',
+  'photo_path',
+  'scanned_identifier',
+  'scanned_identifier_type',
+  'extracted_barcode',
+  'extracted_product_name',
+  'extracted_pack_size',
+  'extracted_lot_number',
+  'extracted_at',
+  'voided_at',
+  'resolution_status',
+  'created_at',
+].join(', ');
+
+type UnresolvedRow = Record<CountQuantityField, number | null> & {
+  id: string;
+  event_id: string;
+  warehouse_code: string;
+  stock_code: string;
+  product_description: string | null;
+  lot_number: string | null;
+  location_code: string | null;
+  counted_by: string;
+  total_units: number;
+  photo_path: string | null;
+  scanned_identifier: string | null;
+  scanned_identifier_type: string | null;
+  extracted_barcode: string | null;
+  extracted_product_name: string | null;
+  extracted_pack_size: string | null;
+  extracted_lot_number: string | null;
+  extracted_at: string | null;
+  voided_at: string | null;
+  resolution_status: string;
+  created_at: string;
+};
+
+interface ProductPackaging {
+  product_id: string;
+  stock_code: string;
+  product_name: string;
+  description: string | null;
+  pack_size: string | null;
+  units_per_case: number | null;
+  cases_per_layer: number | null;
+  layers_per_pallet: number | null;
+}
+
+interface Reviewer {
+  userId: string;
+  isAdmin: boolean;
+}
+
+function getEnv(name: string): string {
+  const value = Deno.env.get(name);
+  if (!value) {
+    throw new Error(`Missing required environment variable: ${name}`);
+  }
+  return value;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+async function authenticate(supabase: ReturnType<typeof createClient>, req: Request): Promise<Reviewer> {
+  const authHeader = req.headers.get('authorization') ?? req.headers.get('Authorization');
+  if (!authHeader) {
+    throw new Error('Missing authorization header');
+  }
+  const token = authHeader.replace(/^Bearer\s+/i, '');
+  const { data: authResult, error: authError } = await supabase.auth.getUser(token);
+  if (authError || !authResult?.user) {
+    throw new Error('Unauthorized');
+  }
+
+  const { data: profile, error: profileError } = await supabase
+    .from('user_profiles')
+    .select('role')
+    .eq('id', authResult.user.id)
+    .maybeSingle();
+
+  if (profileError || !profile) {
+    throw new Error('User profile not found');
+  }
+  if (profile.role !== 'admin' && profile.role !== 'manager') {
+    throw new Error('Insufficient permissions');
+  }
+
+  return { userId: authResult.user.id, isAdmin: profile.role === 'admin' };
+}
+
+async function loadAssignedWarehouses(supabase: ReturnType<typeof createClient>, userId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('user_warehouse_assignments')
+    .select('warehouse_code')
+    .eq('user_id', userId);
+
+  if (error) {
+    throw new Error(`Failed to load warehouse assignments: ${error.message}`);
+  }
+  return (data ?? []).map((row) => row.warehouse_code as string);
+}
+
+async function listUnresolvedCounts(supabase: ReturnType<typeof createClient>, req: Request, reviewer: Reviewer) {
+  const url = new URL(req.url);
+  const eventId = url.searchParams.get('event_id')?.trim();
+  const warehouseCode = url.searchParams.get('warehouse_code')?.trim();
+
+  if (!eventId) {
+    throw new Error('event_id is required');
+  }
+
+  let query = supabase
+    .from('counts')
+    .select(UNRESOLVED_COLUMNS)
+    .eq('event_id', eventId)
+    .eq('resolution_status', 'unresolved')
+    .is('voided_at', null)
+    .order('created_at', { ascending: true });
+
+  if (warehouseCode) {
+    query = query.eq('warehouse_code', warehouseCode);
+  }
+  if (!reviewer.isAdmin) {
+    const warehouses = await loadAssignedWarehouses(supabase, reviewer.userId);
+    if (warehouseCode && !warehouses.includes(warehouseCode)) {
+      throw new Error('You are not assigned to this warehouse');
+    }
+    query = query.in('warehouse_code', warehouses);
+  }
+
+  const { data: counts, error: countsError } = await query;
+  if (countsError) {
+    throw new Error(`Failed to load unresolved counts: ${countsError.message}`);
+  }
+
+  const rows = (counts ?? []) as unknown as UnresolvedRow[];
+  const photoPaths = rows.map((row) => row.photo_path).filter((path): path is string => Boolean(path));
+  const counterIds = Array.from(new Set(rows.map((row) => row.counted_by)));
+
+  const photos = new Map<string, string>();
+  if (photoPaths.length > 0) {
+    const { data: signed, error: signError } = await supabase.storage
+      .from('count_images')
+      .createSignedUrls(photoPaths, PHOTO_TTL_SECONDS);
+    if (signError) {
+      console.warn('Failed to sign count photos:', signError.message);
+    }
+    for (const entry of signed ?? []) {
+      if (entry.path && entry.signedUrl) {
+        photos.set(entry.path, entry.signedUrl);
+      }
+    }
+  }
+
+  const { data: counters, error: countersError } = counterIds.length > 0
+    ? await supabase.from('user_profiles').select('id, full_name').in('id', counterIds)
+    : { data: [], error: null };
+
+  if (countersError) {
+    console.warn('Failed to load counter names:', countersError.message);
+  }
+  const counterNames = new Map((counters ?? []).map((counter) => [counter.id as string, counter.full_name as string]));
+
+  return {
+    ok: true,
+    counts: rows.map((row) => ({
+      ...row,
+      photo_url: row.photo_path ? photos.get(row.photo_path) ?? null : null,
+      counted_by_name: counterNames.get(row.counted_by) ?? null,
+    })),
+  };
+}
+
+async function loadPackaging(supabase: ReturnType<typeof createClient>, productId: string): Promise<ProductPackaging> {
+  const { data: product, error } = await supabase
+    .from('product_pallet_view')
+    .select('product_id, stock_code, product_name, description, pack_size, units_per_case, cases_per_layer, layers_per_pallet')
+    .eq('product_id', productId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load product: ${error.message}`);
+  }
+  if (!product) {
+    throw new Error('Product not found');
+  }
+  if (!product.stock_code) {
+    throw new Error('Product has no stock code, so counts cannot be mapped to it');
+  }
+
+  return product as ProductPackaging;
+}
+
+async function createProduct(
+  supabase: ReturnType<typeof createClient>,
+  request: NonNullable<CountResolutionRequest['new_product']>,
+): Promise<string> {
+  const { data: created, error } = await supabase
+    .from('products')
+    .insert({
+      stock_code: request.stock_code,
+      product_name: request.product_name,
+      description: request.product_name,
+      // The legacy barcode column is unique and required, so fall back to the stock code when no barcode was captured
+      barcode: request.unit_barcode ?? request.case_barcode ?? request.stock_code,
+      case_barcode: request.case_barcode ?? null,
+      unit_barcode: request.unit_barcode ?? null,
+      pack_size: request.pack_size ?? '',
+      units_per_case: request.units_per_case,
+      cases_per_layer: request.cases_per_layer,
+      layers_per_pallet: request.layers_per_pallet,
+    })
+    .select('id')
+    .single();
+
+  if (error?.code === '23505') {
+    throw new Error('A product with this stock code or barcode already exists');
+  }
+  if (error || !created) {
+    throw new Error(`Failed to create product: ${error?.message ?? 'unknown error'}`);
+  }
+  return created.id as string;
+}
+
+// Store the scanned barcode on the product so the next scan of it resolves straight away
+async function rememberIdentifier(supabase: ReturnType<typeof createClient>, productId: string, count: UnresolvedRow) {
+  const column = count.scanned_identifier_type;
+  if (!count.scanned_identifier || (column !== 'case_barcode' && column !== 'unit_barcode')) {
+    return;
+  }
+
+  const { error } = await supabase
+    .from('products')
+    .update({ [column]: count.scanned_identifier })
+    .eq('id', productId)
+    .is(column, null);
+
+  if (error) {
+    console.warn(`Failed to store ${column} on product ${productId}:`, error.message);
+  }
+}
+
+async function resolveCount(supabase: ReturnType<typeof createClient>, req: Request, reviewer: Reviewer) {
+  const body = await req.json();
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new Error('Request body must be a JSON object');
+  }
+
+  const validation = validateCountResolutionRequest(body as Record<string, unknown>);
+  if (!validation.ok) {
+    console.error('resolve-count rejected payload:', formatFieldErrors(validation.errors));
+    return jsonResponse({ ok: false, error: 'Invalid count resolution', field_errors: validation.errors }, 400);
+  }
+  const request = validation.value;
+
+  const { data: count, error: countError } = await supabase
+    .from('counts')
+    .select(UNRESOLVED_COLUMNS)
+    .eq('id', request.count_id)
+    .maybeSingle();
+
+  if (countError || !count) {
+    throw new Error('Count not found');
+  }
+
+  const row = count as unknown as UnresolvedRow;
+  if (row.resolution_status !== 'unresolved') {
+    throw new Error('Count has already been resolved');
+  }
+  if (row.voided_at) {
+    throw new Error('Count has been voided');
+  }
+  if (!reviewer.isAdmin) {
+    const warehouses = await loadAssignedWarehouses(supabase, reviewer.userId);
+    if (!warehouses.includes(row.warehouse_code)) {
+      throw new Error('You are not assigned to this warehouse');
+    }
+  }
+
+  const productId = request.product_id ?? await createProduct(supabase, request.new_product!);
+  const product = await loadPackaging(supabase, productId);
+  if (request.product_id) {
+    await rememberIdentifier(supabase, productId, row);
+  }
+
+  let targets = [row];
+  if (request.apply_to_matching !== false && row.scanned_identifier) {
+    const { data: matching, error: matchingError } = await supabase
+      .from('counts')
+      .select(UNRESOLVED_COLUMNS)
+      .eq('event_id', row.event_id)
+      .eq('warehouse_code', row.warehouse_code)
+      .eq('scanned_identifier', row.scanned_identifier)
+      .eq('resolution_status', 'unresolved')
+      .is('voided_at', null)
+      .neq('id', row.id);
+
+    if (matchingError) {
+      throw new Error(`Failed to load matching counts: ${matchingError.message}`);
+    }
+    targets = targets.concat((matching ?? []) as unknown as UnresolvedRow[]);
+  }
+
+  const packaging = {
+    unitsPerCase: Math.max(1, product.units_per_case || 1),
+    casesPerLayer: Math.max(1, product.cases_per_layer || 1),
+    layersPerPallet: Math.max(1, product.layers_per_pallet || 1),
+  };
+  const description = product.description || product.product_name || product.stock_code;
+  const resolvedAt = new Date().toISOString();
+  const resolvedIds: string[] = [];
+
+  for (const target of targets) {
+    const quantities = {} as Record<CountQuantityField, number>;
+    for (const field of COUNT_QUANTITY_FIELDS) {
+      quantities[field] = target[field] ?? 0;
+    }
+
+    // Triggers give the count its double-count sequence under the mapped product and reconcile it there
+    const { data: updated, error: updateError } = await supabase
+      .from('counts')
+      .update({
+        stock_code: product.stock_code,
+        product_description: description,
+        total_units: Math.round(computeTotalUnits(quantities, packaging)),
+        units_per_case_snapshot: packaging.unitsPerCase,
+        cases_per_layer_snapshot: packaging.casesPerLayer,
+        layers_per_pallet_snapshot: packaging.layersPerPallet,
+        pack_size_snapshot: product.pack_size ?? '',
+        matched_on: target.scanned_identifier_type,
+        resolution_status: 'resolved',
+        resolved_at: resolvedAt,
+        resolved_by: reviewer.userId,
+      })
+      .eq('id', target.id)
+      // Another reviewer may have mapped the same count in the meantime
+      .eq('resolution_status', 'unresolved')
+      .select('id');
+
+    if (updateError) {
+      throw new Error(`Failed to resolve count ${target.id}: ${updateError.message}`);
+    }
+    if ((updated ?? []).length > 0) {
+      resolvedIds.push(target.id);
+    }
+  }
+
+  try {
+    await supabase.rpc('refresh_counts_totals_mv');
+  } catch {
+    // The next submission refreshes the totals
+  }
+
+  console.log(`Mapped ${resolvedIds.length} unresolved count(s) to ${product.stock_code} for ${reviewer.userId}`);
+
+  const result: CountResolutionSuccess = {
+    ok: true,
+    product_id: productId,
+    stock_code: product.stock_code,
+    resolved_count_ids: resolvedIds,
+    created_product: !request.product_id,
+  };
+  return jsonResponse(result);
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const supabase = createClient(getEnv('SB_URL'), getEnv('SB_SERVICE_ROLE_KEY'));
+    const reviewer = await authenticate(supabase, req);
+
+    if (req.method === 'GET') {
+      return jsonResponse(await listUnresolvedCounts(supabase, req, reviewer));
+    }
+
+    return await resolveCount(supabase, req, reviewer);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('resolve-count function failed:', message);
+    const status = message === 'Unauthorized'
+      ? 401
+      : message === 'Insufficient permissions' || message.startsWith('You are not assigned')
+        ? 403
+        : message === 'Count not found' || message === 'Product not found'
+          ? 404
+          : message.startsWith('Count has') || message.startsWith('A product with')
+            ? 409
+            : 400;
+    return jsonResponse({ ok: false, error: message }, status);
+  }
+});
@@ -0,0 +1,384 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.57.4';
+import {
+  EXTRACTION_REVIEW_FIELDS,
+  type ExtractionReviewField,
+  type ExtractionReviewSuccess,
+  formatFieldErrors,
+  type PhotoQuality,
+  validateExtractionReviewRequest,
+} from '../_shared/countContract.ts';
+
+const corsHeaders: Record<string, string> = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+};
+
+const PHOTO_TTL_SECONDS = 60 * 60;
+
+const REVIEW_COLUMNS = [
+  'id',
+  'event_id',
+  'warehouse_code',
+  'stock_code',
+  'product_description',
+  'lot_number',
+  'filling_date',
+  'location_code',
+  'counted_by',
+  'photo_path',
+  'photo_quality',
+  ...EXTRACTION_REVIEW_FIELDS,
+  'extracted_at',
+  'extraction_log',
+  'extraction_review_status',
+  'extraction_reviewed_by_name',
+  'extraction_reviewed_at',
+  'status',
+  'voided_at',
+  'created_at',
+].join(', ');
+
+type ReviewRow = Record<ExtractionReviewField, string | null> & {
+  id: string;
+  event_id: string;
+  warehouse_code: string;
+  stock_code: string;
+  product_description: string | null;
+  lot_number: string | null;
+  filling_date: string | null;
+  location_code: string | null;
+  counted_by: string;
+  photo_path: string | null;
+  photo_quality: PhotoQuality | null;
+  extracted_at: string | null;
+  extraction_log: Array<Record<string, unknown>> | null;
+  extraction_review_status: string;
+  extraction_reviewed_by_name: string | null;
+  extraction_reviewed_at: string | null;
+  status: string;
+  voided_at: string | null;
+  created_at: string;
+};
+
+interface ProductBarcodes {
+  stock_code: string;
+  case_barcode: string | null;
+  unit_barcode: string | null;
+  barcode: string | null;
+}
+
+interface Reviewer {
+  userId: string;
+  fullName: string | null;
+  isAdmin: boolean;
+}
+
+function getEnv(name: string): string {
+  const value = Deno.env.get(name);
+  if (!value) {
+    throw new Error(`Missing required environment variable: ${name}`);
+  }
+  return value;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+async function authenticate(supabase: ReturnType<typeof createClient>, req: Request): Promise<Reviewer> {
+  const authHeader = req.headers.get('authorization') ?? req.headers.get('Authorization');
+  if (!authHeader) {
+    throw new Error('Missing authorization header');
+  }
+  const token = authHeader.replace(/^Bearer\s+/i, '');
+  const { data: authResult, error: authError } = await supabase.auth.getUser(token);
+  if (authError || !authResult?.user) {
+    throw new Error('Unauthorized');
+  }
+
+  const { data: profile, error: profileError } = await supabase
+    .from('user_profiles')
+    .select('role, full_name')
+    .eq('id', authResult.user.id)
+    .maybeSingle();
+
+  if (profileError || !profile) {
+    throw new Error('User profile not found');
+  }
+  if (profile.role !== 'admin' && profile.role !== 'manager') {
+    throw new Error('Insufficient permissions');
+  }
+
+  return { userId: authResult.user.id, fullName: profile.full_name ?? null, isAdmin: profile.role === 'admin' };
+}
+
+async function loadAssignedWarehouses(supabase: ReturnType<typeof createClient>, userId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('user_warehouse_assignments')
+    .select('warehouse_code')
+    .eq('user_id', userId);
+
+  if (error) {
+    throw new Error(`Failed to load warehouse assignments: ${error.message}`);
+  }
+  return (data ?? []).map((row) => row.warehouse_code as string);
+}
+
+// Barcodes are compared as GTIN-14 so an EAN-13 read from the label matches the same code stored with a leading zero
+function toGtin14(value: string): string {
+  const digits = value.replace(/\D/g, '');
+  return digits.length > 0 && digits.length <= 14 ? digits.padStart(14, '0') : digits;
+}
+
+function normaliseLot(value: string): string {
+  return value.replace(/\s+/g, '').toUpperCase();
+}
+
+// The fields read from the photo that disagree with what was counted. A field is only compared when both sides have a
+// value; the barcode is compared with every barcode the declared product has.
+function findMismatches(row: ReviewRow, product: ProductBarcodes | undefined): ExtractionReviewField[] {
+  const mismatches: ExtractionReviewField[] = [];
+
+  if (row.extracted_barcode && product) {
+    const expected = [product.case_barcode, product.unit_barcode, product.barcode]
+      .filter((barcode): barcode is string => Boolean(barcode))
+      .map(toGtin14);
+    if (expected.length > 0 && !expected.includes(toGtin14(row.extracted_barcode))) {
+      mismatches.push('extracted_barcode');
+    }
+  }
+  if (row.extracted_lot_number && row.lot_number && normaliseLot(row.extracted_lot_number) !== normaliseLot(row.lot_number)) {
+    mismatches.push('extracted_lot_number');
+  }
+  if (row.extracted_filling_date && row.filling_date && row.extracted_filling_date !== row.filling_date) {
+    mismatches.push('extracted_filling_date');
+  }
+
+  return mismatches;
+}
+
+// The text of the most recent OCR run; review entries are appended after it and carry no text
+function latestOcr(log: ReviewRow['extraction_log']): { text: string | null; regions: Record<string, string> } {
+  const entry = [...(log ?? [])].reverse().find((item) => typeof item.fullText === 'string');
+  return {
+    text: (entry?.fullText as string | undefined) ?? null,
+    regions: (entry?.regions as Record<string, string> | undefined) ?? {},
+  };
+}
+
+async function listExtractions(supabase: ReturnType<typeof createClient>, req: Request, reviewer: Reviewer) {
+  const url = new URL(req.url);
+  const eventId = url.searchParams.get('event_id')?.trim();
+  const warehouseCode = url.searchParams.get('warehouse_code')?.trim();
+  const includeReviewed = url.searchParams.get('include_reviewed') === 'true';
+
+  if (!eventId) {
+    throw new Error('event_id is required');
+  }
+
+  let query = supabase
+    .from('counts')
+    .select(REVIEW_COLUMNS)
+    .eq('event_id', eventId)
+    .eq('status', 'extracted')
+    .is('voided_at', null)
+    .is('superseded_at', null)
+    .order('created_at', { ascending: true });
+
+  if (!includeReviewed) {
+    query = query.eq('extraction_review_status', 'unreviewed');
+  }
+  if (warehouseCode) {
+    query = query.eq('warehouse_code', warehouseCode);
+  }
+  if (!reviewer.isAdmin) {
+    const warehouses = await loadAssignedWarehouses(supabase, reviewer.userId);
+    if (warehouseCode && !warehouses.includes(warehouseCode)) {
+      throw new Error('You are not assigned to this warehouse');
+    }
+    query = query.in('warehouse_code', warehouses);
+  }
+
+  const { data: counts, error: countsError } = await query;
+  if (countsError) {
+    throw new Error(`Failed to load extracted counts: ${countsError.message}`);
+  }
+
+  // Counts saved without a photo are marked extracted too, but there is nothing to review on them
+  const rows = ((counts ?? []) as unknown as ReviewRow[]).filter((row) => latestOcr(row.extraction_log).text !== null);
+  const photoPaths = rows.map((row) => row.photo_path).filter((path): path is string => Boolean(path));
+  const counterIds = Array.from(new Set(rows.map((row) => row.counted_by)));
+  const stockCodes = Array.from(new Set(rows.map((row) => row.stock_code)));
+
+  const photos = new Map<string, string>();
+  if (photoPaths.length > 0) {
+    const { data: signed, error: signError } = await supabase.storage
+      .from('count_images')
+      .createSignedUrls(photoPaths, PHOTO_TTL_SECONDS);
+    if (signError) {
+      console.warn('Failed to sign count photos:', signError.message);
+    }
+    for (const entry of signed ?? []) {
+      if (entry.path && entry.signedUrl) {
+        photos.set(entry.path, entry.signedUrl);
+      }
+    }
+  }
+
+  const { data: counters, error: countersError } = counterIds.length > 0
+    ? await supabase.from('user_profiles').select('id, full_name').in('id', counterIds)
+    : { data: [], error: null };
+
+  if (countersError) {
+    console.warn('Failed to load counter names:', countersError.message);
+  }
+  const counterNames = new Map((counters ?? []).map((counter) => [counter.id as string, counter.full_name as string]));
+
+  const { data: products, error: productsError } = stockCodes.length > 0
+    ? await supabase.from('products').select('stock_code, case_barcode, unit_barcode, barcode').in('stock_code', stockCodes)
+    : { data: [], error: null };
+
+  if (productsError) {
+    throw new Error(`Failed to load products: ${productsError.message}`);
+  }
+  const productsByCode = new Map(
+    ((products ?? []) as ProductBarcodes[]).map((product) => [product.stock_code, product]),
+  );
+
+  return {
+    ok: true,
+    counts: rows.map((row) => {
+      const product = productsByCode.get(row.stock_code);
+      const ocr = latestOcr(row.extraction_log);
+      return {
+        ...row,
+        photo_url: row.photo_path ? photos.get(row.photo_path) ?? null : null,
+        counted_by_name: counterNames.get(row.counted_by) ?? null,
+        product_case_barcode: product?.case_barcode ?? null,
+        product_unit_barcode: product?.unit_barcode ?? null,
+        ocr_text: ocr.text,
+        ocr_regions: ocr.regions,
+        mismatches: findMismatches(row, product),
+      };
+    }),
+  };
+}
+
+async function reviewExtraction(supabase: ReturnType<typeof createClient>, req: Request, reviewer: Reviewer) {
+  const body = await req.json();
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new Error('Request body must be a JSON object');
+  }
+
+  const validation = validateExtractionReviewRequest(body as Record<string, unknown>);
+  if (!validation.ok) {
+    console.error('review-extraction rejected payload:', formatFieldErrors(validation.errors));
+    return jsonResponse({ ok: false, error: 'Invalid extraction review', field_errors: validation.errors }, 400);
+  }
+  const request = validation.value;
+
+  const { data: count, error: countError } = await supabase
+    .from('counts')
+    .select(REVIEW_COLUMNS)
+    .eq('id', request.count_id)
+    .maybeSingle();
+
+  if (countError || !count) {
+    throw new Error('Count not found');
+  }
+
+  const row = count as unknown as ReviewRow;
+  if (row.voided_at) {
+    throw new Error('Count has been voided');
+  }
+  if (row.status !== 'extracted') {
+    throw new Error('Count has not been through extraction yet');
+  }
+  if (!reviewer.isAdmin) {
+    const warehouses = await loadAssignedWarehouses(supabase, reviewer.userId);
+    if (!warehouses.includes(row.warehouse_code)) {
+      throw new Error('You are not assigned to this warehouse');
+    }
+  }
+
+  const changed = Object.entries(request.corrections ?? {}).filter(
+    ([field, value]) => (row[field as ExtractionReviewField] ?? null) !== value,
+  ) as Array<[ExtractionReviewField, string | null]>;
+  const reviewedAt = new Date().toISOString();
+  const reviewStatus = changed.length > 0 ? 'corrected' : 'accepted';
+
+  const update: Record<string, unknown> = {
+    extraction_review_status: reviewStatus,
+    extraction_reviewed_by: reviewer.userId,
+    extraction_reviewed_by_name: reviewer.fullName,
+    extraction_reviewed_at: reviewedAt,
+  };
+  if (changed.length > 0) {
+    for (const [field, value] of changed) {
+      update[field] = value;
+    }
+    update.extraction_log = [
+      ...(row.extraction_log ?? []),
+      {
+        processed_at: reviewedAt,
+        strategy: 'review',
+        notes: `Corrected by ${reviewer.fullName ?? reviewer.userId}.`,
+        previous: Object.fromEntries(changed.map(([field]) => [field, row[field]])),
+        corrected: Object.fromEntries(changed),
+      },
+    ];
+  }
+
+  const { error: updateError } = await supabase.from('counts').update(update).eq('id', row.id);
+  if (updateError) {
+    throw new Error(`Failed to review count: ${updateError.message}`);
+  }
+
+  console.log(`Extraction of count ${row.id} ${reviewStatus} by ${reviewer.userId}`);
+
+  const result: ExtractionReviewSuccess = {
+    ok: true,
+    count_id: row.id,
+    review_status: reviewStatus,
+    reviewed_at: reviewedAt,
+  };
+  return jsonResponse(result);
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const supabase = createClient(getEnv('SB_URL'), getEnv('SB_SERVICE_ROLE_KEY'));
+    const reviewer = await authenticate(supabase, req);
+
+    if (req.method === 'GET') {
+      return jsonResponse(await listExtractions(supabase, req, reviewer));
+    }
+
+    return await reviewExtraction(supabase, req, reviewer);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('review-extraction function failed:', message);
+    const status = message === 'Unauthorized'
+      ? 401
+      : message === 'Insufficient permissions' || message.startsWith('You are not assigned')
+        ? 403
+        : message === 'Count not found'
+          ? 404
+          : message.startsWith('Count has')
+            ? 409
+            : 400;
+    return jsonResponse({ ok: false, error: message }, status);
+  }
+});
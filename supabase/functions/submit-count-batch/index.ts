@@ -0,0 +1,259 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.57.4';
+import {
+  type CountBatchMode,
+  type CountBatchRowResult,
+  formatFieldErrors,
+  type SubmitCountBatchResponse,
+  type SubmitCountRequest,
+  validateSubmitCountBatchRequest,
+  validateSubmitCountRequest,
+} from '../_shared/countContract.ts';
+import {
+  applyRecount,
+  authenticateCounter,
+  createSubmissionCache,
+  describeInsertError,
+  findSubmissions,
+  prepareCount,
+  type PreparedCount,
+  submissionErrorStatus,
+} from '../_shared/countSubmission.ts';
+
+const corsHeaders: Record<string, string> = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+// per_row inserts in chunks and only falls back to single inserts for a chunk that fails
+const INSERT_CHUNK_SIZE = 500;
+
+interface PendingRow {
+  index: number;
+  prepared: PreparedCount;
+}
+
+interface InsertedRow {
+  id: string;
+  total_units: number;
+  count_sequence: number;
+}
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+function getEnv(name: string): string {
+  const value = Deno.env.get(name);
+  if (!value) {
+    throw new Error(`Missing required environment variable: ${name}`);
+  }
+  return value;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+async function insertRows(supabase: SupabaseClient, rows: PendingRow[]): Promise<InsertedRow[]> {
+  const { data, error } = await supabase
+    .from('counts')
+    .insert(rows.map((row) => row.prepared.row))
+    // count_sequence is assigned by a trigger for double-counted products
+    .select('id, total_units, count_sequence');
+
+  if (error || !data || data.length !== rows.length) {
+    throw new Error(describeInsertError(error, 'Failed to save counts'));
+  }
+  return data as InsertedRow[];
+}
+
+function successResult(row: PendingRow, inserted: InsertedRow): CountBatchRowResult {
+  return {
+    index: row.index,
+    ok: true,
+    id: inserted.id,
+    stock_code: row.prepared.stockCode,
+    matched_on: row.prepared.matchedOn,
+    total_units: inserted.total_units,
+    count_sequence: inserted.count_sequence,
+    photo_path: null,
+    unresolved: row.prepared.matchedOn === null,
+  };
+}
+
+async function insertPerRow(
+  supabase: SupabaseClient,
+  pending: PendingRow[],
+  results: CountBatchRowResult[],
+  counterId: string,
+) {
+  for (let start = 0; start < pending.length; start += INSERT_CHUNK_SIZE) {
+    const chunk = pending.slice(start, start + INSERT_CHUNK_SIZE);
+    try {
+      const inserted = await insertRows(supabase, chunk);
+      chunk.forEach((row, position) => {
+        results[row.index] = successResult(row, inserted[position]);
+      });
+      continue;
+    } catch (error) {
+      console.warn(`Chunk starting at row ${chunk[0].index} failed, inserting its rows one by one:`, (error as Error).message);
+    }
+
+    for (const row of chunk) {
+      try {
+        const [inserted] = await insertRows(supabase, [row]);
+        results[row.index] = successResult(row, inserted);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to save count';
+        const submissionKey = row.prepared.row.submission_key as string | null;
+        // A concurrent retry may have inserted the row first
+        const replay = submissionKey
+          ? (await findSubmissions(supabase, [submissionKey], counterId)).get(submissionKey)
+          : undefined;
+        results[row.index] = replay ? { index: row.index, ...replay } : { index: row.index, ok: false, error: message };
+      }
+    }
+  }
+}
+
+function summarise(mode: CountBatchMode, results: CountBatchRowResult[]): SubmitCountBatchResponse {
+  const replayed = results.filter((result) => result.ok && result.replayed).length;
+  const failed = results.filter((result) => !result.ok).length;
+  return {
+    ok: failed === 0,
+    mode,
+    inserted: results.length - failed - replayed,
+    replayed,
+    failed,
+    results,
+  };
+}
+
+Deno.serve(async (req: Request) => {
+  console.log('submit-count-batch function started');
+
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const body = await req.json();
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      throw new Error('Request body must be a JSON object');
+    }
+
+    const envelope = validateSubmitCountBatchRequest(body as Record<string, unknown>);
+    if (!envelope.ok) {
+      console.error('submit-count-batch rejected payload:', formatFieldErrors(envelope.errors));
+      return jsonResponse({ ok: false, error: 'Invalid count batch', field_errors: envelope.errors }, 400);
+    }
+    const { mode, counts } = envelope.value;
+
+    const supabase = createClient(getEnv('SB_URL'), getEnv('SB_SERVICE_ROLE_KEY'));
+    const counter = await authenticateCounter(supabase, req);
+
+    console.log(`Processing ${counts.length} counts for user ${counter.id} in ${mode} mode`);
+
+    const results: CountBatchRowResult[] = new Array(counts.length);
+    const payloads: Array<SubmitCountRequest | null> = counts.map((count, index) => {
+      const validation = validateSubmitCountRequest(count);
+      if (!validation.ok) {
+        results[index] = { index, ok: false, error: 'Invalid count submission', field_errors: validation.errors };
+        return null;
+      }
+      return validation.value;
+    });
+
+    const seenKeys = new Set<string>();
+    for (const [index, payload] of payloads.entries()) {
+      const key = payload?.submission_key;
+      if (!key) continue;
+      if (seenKeys.has(key)) {
+        results[index] = { index, ok: false, error: 'submission_key is repeated in this batch' };
+        payloads[index] = null;
+      }
+      seenKeys.add(key);
+    }
+
+    const replays = await findSubmissions(supabase, Array.from(seenKeys), counter.id);
+    const cache = createSubmissionCache();
+    const pending: PendingRow[] = [];
+
+    for (const [index, payload] of payloads.entries()) {
+      if (!payload) continue;
+
+      const replay = payload.submission_key ? replays.get(payload.submission_key) : undefined;
+      if (replay) {
+        results[index] = { index, ...replay };
+        if (payload.recount_task_id) {
+          // Finish a recount whose first attempt saved the count but failed before superseding
+          const { error: recountError } = await supabase.rpc('apply_recount', { p_count_id: replay.id });
+          if (recountError) {
+            console.warn(`Failed to apply replayed recount ${replay.id}:`, recountError.message);
+          }
+        }
+        continue;
+      }
+
+      try {
+        pending.push({ index, prepared: await prepareCount(supabase, counter, payload, cache) });
+      } catch (error) {
+        results[index] = { index, ok: false, error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+    }
+
+    if (mode === 'atomic') {
+      if (results.some((result) => result && !result.ok)) {
+        for (const row of pending) {
+          results[row.index] = { index: row.index, ok: false, error: 'Not saved because other counts in the batch failed' };
+        }
+        const summary = summarise(mode, results);
+        console.error(`submit-count-batch rejected atomic batch with ${summary.failed} failing count(s)`);
+        return jsonResponse({ ...summary, inserted: 0 }, 400);
+      }
+
+      // One INSERT statement, so either every count is saved or none is
+      if (pending.length > 0) {
+        const inserted = await insertRows(supabase, pending);
+        pending.forEach((row, position) => {
+          results[row.index] = successResult(row, inserted[position]);
+        });
+      }
+    } else {
+      await insertPerRow(supabase, pending, results, counter.id);
+    }
+
+    for (const row of pending) {
+      const result = results[row.index];
+      if (!row.prepared.recountTaskId || !result.ok) continue;
+      try {
+        await applyRecount(supabase, result.id, row.prepared.recountTaskId);
+      } catch (error) {
+        // The count is saved; resubmitting it with the same submission_key finishes the recount
+        console.warn(`Count ${result.id} saved but its recount was not applied:`, (error as Error).message);
+      }
+    }
+
+    try {
+      await supabase.rpc('refresh_counts_totals_mv');
+    } catch {
+      // The next submission refreshes the totals
+    }
+
+    const summary = summarise(mode, results);
+    console.log(
+      `submit-count-batch finished. Inserted: ${summary.inserted}, Replayed: ${summary.replayed}, Failed: ${summary.failed}`,
+    );
+    return jsonResponse(summary);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('submit-count-batch function failed:', message);
+    return jsonResponse({ ok: false, error: message }, error instanceof SyntaxError ? 400 : submissionErrorStatus(message));
+  }
+});
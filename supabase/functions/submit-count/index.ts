@@ -1,4 +1,23 @@
 import { createClient } from 'npm:@supabase/supabase-js@2.57.4';
+import {
+  COUNT_JSON_PHOTO_FIELD,
+  COUNT_ROI_FIELDS,
+  formatFieldErrors,
+  isCountFileField,
+  type PhotoRegion,
+  type SubmitCountSuccess,
+  validateSubmitCountRequest,
+} from '../_shared/countContract.ts';
+import {
+  applyRecount,
+  authenticateCounter,
+  createSubmissionCache,
+  describeInsertError,
+  findDuplicatePhoto,
+  findSubmissions,
+  prepareCount,
+  submissionErrorStatus,
+} from '../_shared/countSubmission.ts';
 
 const corsHeaders: Record<string, string> = {
   'Access-Control-Allow-Origin': '*',
@@ -6,24 +25,7 @@ const corsHeaders: Record<string, string> = {
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
 };
 
-interface PackagingSnapshot {
-  unitsPerCase: number;
-  casesPerLayer: number;
-  layersPerPallet: number;
-  packSize: string;
-  description: string;
-}
-
-interface SubmitCountPayload {
-  event_id?: string;
-  warehouse_code?: string;
-  stock_code?: string;
-  lot_number?: string | null;
-  product_description?: string | null;
-  description?: string | null;
-  photo_base64?: string | null;
-  [key: string]: unknown;
-}
+type RawPayload = Record<string, unknown>;
 
 interface UploadedPhoto {
   data: Uint8Array;
@@ -31,6 +33,14 @@ interface UploadedPhoto {
   name: string;
 }
 
+interface SubmittedImages {
+  payload: RawPayload;
+  photo: UploadedPhoto | null;
+  regions: Partial<Record<PhotoRegion, UploadedPhoto>>;
+}
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
 function getEnv(name: string): string {
   const value = Deno.env.get(name);
   if (!value) {
@@ -39,31 +49,6 @@ function getEnv(name: string): string {
   return value;
 }
 
-function toTrimmedString(value: unknown): string | null {
-  if (typeof value === 'string') {
-    const trimmed = value.trim();
-    return trimmed.length > 0 ? trimmed : null;
-  }
-  return null;
-}
-
-function readNumber(payload: Record<string, unknown>, keys: string[]): number {
-  for (const key of keys) {
-    if (key in payload) {
-      const raw = payload[key];
-      const value = typeof raw === 'string' ? raw.trim() : raw;
-      if (value === '' || value === null || value === undefined) {
-        continue;
-      }
-      const parsed = Number(value);
-      if (!Number.isNaN(parsed) && Number.isFinite(parsed)) {
-        return Math.max(0, parsed);
-      }
-    }
-  }
-  return 0;
-}
-
 function decodeBase64Image(base64: string): UploadedPhoto {
   const matches = base64.match(/^data:(?<type>[^;,]+);base64,(?<data>.+)$/);
   const contentType = matches?.groups?.type ?? 'image/jpeg';
@@ -76,21 +61,30 @@ function decodeBase64Image(base64: string): UploadedPhoto {
   };
 }
 
-async function readMultipartPayload(req: Request): Promise<{ payload: SubmitCountPayload; photo: UploadedPhoto | null }>
-{ // deno-fmt-ignore-line
+async function readUploadedFile(file: File, fallbackName: string): Promise<UploadedPhoto> {
+  return {
+    data: new Uint8Array(await file.arrayBuffer()),
+    contentType: file.type || 'image/jpeg',
+    name: file.name || fallbackName,
+  };
+}
+
+async function readMultipartPayload(req: Request): Promise<SubmittedImages> {
   const formData = await req.formData();
-  const payload: SubmitCountPayload = {};
+  const payload: RawPayload = {};
   let photo: UploadedPhoto | null = null;
+  const regions: SubmittedImages['regions'] = {};
 
   for (const [key, value] of formData.entries()) {
     if (value instanceof File) {
       if (key === 'photo') {
-        const buffer = new Uint8Array(await value.arrayBuffer());
-        photo = {
-          data: buffer,
-          contentType: value.type || 'image/jpeg',
-          name: value.name || 'photo.jpg',
-        };
+        photo = await readUploadedFile(value, 'photo.jpg');
+      } else if (isCountFileField(key)) {
+        const region = COUNT_ROI_FIELDS[key];
+        regions[region] = await readUploadedFile(value, `roi-${region}.jpg`);
+      } else {
+        // Leave unknown uploads in the payload so validation reports them
+        payload[key] = value;
       }
       continue;
     }
@@ -98,42 +92,42 @@ async function readMultipartPayload(req: Request): Promise<{ payload: SubmitCoun
     payload[key] = value;
   }
 
-  return { payload, photo };
+  return { payload, photo, regions };
 }
 
-async function readJsonPayload(req: Request): Promise<{ payload: SubmitCountPayload; photo: UploadedPhoto | null }>
-{ // deno-fmt-ignore-line
-  const payload = (await req.json()) as SubmitCountPayload;
-  const photoBase64 = typeof payload.photo_base64 === 'string' ? payload.photo_base64 : null;
-  const photo = photoBase64 ? decodeBase64Image(photoBase64) : null;
-  if (photoBase64) {
-    delete payload.photo_base64;
+async function readJsonPayload(req: Request): Promise<SubmittedImages> {
+  const body = await req.json();
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new Error('Request body must be a JSON object');
   }
-  return { payload, photo };
+  const payload = body as RawPayload;
+  const photoBase64 = typeof payload[COUNT_JSON_PHOTO_FIELD] === 'string' ? payload[COUNT_JSON_PHOTO_FIELD] as string : null;
+  const photo = photoBase64 ? decodeBase64Image(photoBase64) : null;
+  delete payload[COUNT_JSON_PHOTO_FIELD];
+  return { payload, photo, regions: {} };
 }
 
-function computeTotalUnits(
-  singlesUnits: number,
-  singlesCases: number,
-  pickFaceLayers: number,
-  pickFaceCases: number,
-  bulkPallets: number,
-  bulkLayers: number,
-  bulkCases: number,
-  packaging: PackagingSnapshot,
-): number {
-  const unitsPerCase = Math.max(1, packaging.unitsPerCase || 1);
-  const casesPerLayer = Math.max(1, packaging.casesPerLayer || 1);
-  const layersPerPallet = Math.max(1, packaging.layersPerPallet || 1);
-
-  const singlesTotal = singlesUnits + singlesCases * unitsPerCase;
-  const pickFaceTotal = pickFaceLayers * (unitsPerCase * casesPerLayer) + pickFaceCases * unitsPerCase;
-  const bulkTotal =
-    bulkPallets * (unitsPerCase * casesPerLayer * layersPerPallet) +
-    bulkLayers * (unitsPerCase * casesPerLayer) +
-    bulkCases * unitsPerCase;
-
-  return singlesTotal + pickFaceTotal + bulkTotal;
+function fileExtension(image: UploadedPhoto): string {
+  return image.name.includes('.') ? image.name.split('.').pop() as string : 'jpg';
+}
+
+// Keyed uploads get a stable path, so a retry after a half-finished request finds the earlier upload
+async function uploadImage(supabase: SupabaseClient, path: string, image: UploadedPhoto, keyed: boolean) {
+  const { error: uploadError } = await supabase.storage
+    .from('count_images')
+    .upload(path, image.data, {
+      contentType: image.contentType,
+      cacheControl: '86400',
+      upsert: false,
+    });
+
+  const alreadyUploaded = keyed && /already exists/i.test(uploadError?.message ?? '');
+  if (uploadError && !alreadyUploaded) {
+    throw new Error(`Failed to upload ${path}: ${uploadError.message}`);
+  }
+  if (alreadyUploaded) {
+    console.log(`${path} already uploaded, skipping`);
+  }
 }
 
 Deno.serve(async (req: Request) => {
@@ -152,186 +146,103 @@ Deno.serve(async (req: Request) => {
 
   try {
     const contentType = req.headers.get('content-type') ?? '';
-    const { payload, photo } = contentType.includes('multipart/form-data')
+    const { payload: rawPayload, photo, regions } = contentType.includes('multipart/form-data')
       ? await readMultipartPayload(req)
       : await readJsonPayload(req);
 
+    const validation = validateSubmitCountRequest(rawPayload);
+    if (!validation.ok) {
+      console.error('submit-count rejected payload:', formatFieldErrors(validation.errors));
+      return new Response(
+        JSON.stringify({ ok: false, error: 'Invalid count submission', field_errors: validation.errors }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        },
+      );
+    }
+    const payload = validation.value;
+
     const supabaseUrl = getEnv('SB_URL');
     const supabaseServiceKey = getEnv('SB_SERVICE_ROLE_KEY');
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    const authHeader = req.headers.get('authorization') ?? req.headers.get('Authorization');
-    if (!authHeader) {
-      throw new Error('Missing authorization header');
-    }
-    const token = authHeader.replace(/^Bearer\s+/i, '');
-    const { data: authResult, error: authError } = await supabase.auth.getUser(token);
-    if (authError || !authResult?.user) {
-      throw new Error('Unauthorized');
-    }
-
-    const user = authResult.user;
-    const eventId = toTrimmedString(payload.event_id);
-    const warehouseCode = toTrimmedString(payload.warehouse_code);
-    const stockCode = toTrimmedString(payload.stock_code);
-
-    console.log(`Processing count for user ${user.id} in event ${eventId} and warehouse ${warehouseCode}`);
-
-    if (!eventId) {
-      throw new Error('event_id is required');
-    }
-    if (!warehouseCode) {
-      throw new Error('warehouse_code is required');
-    }
-    if (!stockCode) {
-      throw new Error('stock_code is required');
-    }
-
-    const { data: profile, error: profileError } = await supabase
-      .from('user_profiles')
-      .select('role')
-      .eq('id', user.id)
-      .maybeSingle();
-
-    if (profileError || !profile) {
-      throw new Error('User profile not found');
-    }
-
-    const isAdmin = profile.role === 'admin';
-
-    if (!isAdmin) {
-      const { data: assignment, error: assignmentError } = await supabase
-        .from('user_warehouse_assignments')
-        .select('warehouse_code')
-        .eq('user_id', user.id)
-        .eq('warehouse_code', warehouseCode)
-        .maybeSingle();
-
-      if (assignmentError || !assignment) {
-        throw new Error('You are not assigned to this warehouse');
+    const counter = await authenticateCounter(supabase, req);
+    const eventId = payload.event_id;
+    const warehouseCode = payload.warehouse_code;
+    const submissionKey = payload.submission_key ?? null;
+
+    if (submissionKey) {
+      const replay = (await findSubmissions(supabase, [submissionKey], counter.id)).get(submissionKey);
+      if (replay) {
+        console.log(`Replaying submission ${submissionKey} for count ${replay.id}`);
+        if (payload.recount_task_id) {
+          // Finish a recount whose first attempt saved the count but failed before superseding
+          const { error: recountError } = await supabase.rpc('apply_recount', { p_count_id: replay.id });
+          if (recountError) {
+            console.warn(`Failed to apply replayed recount ${replay.id}:`, recountError.message);
+          }
+        }
+        return new Response(JSON.stringify(replay), {
+          status: 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
       }
     }
 
-    const { data: event, error: eventError } = await supabase
-      .from('stocktake_events')
-      .select('status')
-      .eq('id', eventId)
-      .maybeSingle();
+    console.log(`Processing count for user ${counter.id} in event ${eventId} and warehouse ${warehouseCode}`);
 
-    if (eventError || !event) {
-      throw new Error('Stocktake event not found');
-    }
+    const prepared = await prepareCount(supabase, counter, payload, createSubmissionCache());
 
-    if (event.status !== 'open') {
-      throw new Error('Event is not open for new counts');
-    }
-
-    const caseBarcode = toTrimmedString(payload.case_barcode);
-    const unitBarcode = toTrimmedString(payload.unit_barcode);
-
-    const productIdentifier = stockCode ?? caseBarcode ?? unitBarcode;
-    if (!productIdentifier) {
-      throw new Error('One of stock_code, case_barcode, or unit_barcode is required');
-    }
-
-    const { data: product, error: productError } = await supabase
-      .from('products')
-      .select(
-        'stock_code, description, units_per_case, cases_per_layer, layers_per_pallet',
-      )
-      .or(
-        `stock_code.eq.${productIdentifier},case_barcode.eq.${productIdentifier},unit_barcode.eq.${productIdentifier}`,
-      )
-      .maybeSingle();
-
-    if (productError || !product) {
-      throw new Error(`Product not found for identifier: ${productIdentifier}`);
-    }
-
-    const packaging: PackagingSnapshot = {
-      unitsPerCase: product.units_per_case ?? 1,
-      casesPerLayer: product.cases_per_layer ?? 1,
-      layersPerPallet: product.layers_per_pallet ?? 1,
-      packSize: product.pack_size ?? '',
-      description: product.description ?? product.product_name ?? stockCode,
-    };
-
-    const singlesUnits = readNumber(payload, ['singles_units', 'singlesUnits', 'units']);
-    const singlesCases = readNumber(payload, ['singles_cases', 'singlesCases']);
-    const pickFaceLayers = readNumber(payload, ['pick_face_layers', 'pickFaceLayers']);
-    const pickFaceCases = readNumber(payload, ['pick_face_cases', 'pickFaceCases']);
-    const bulkPallets = readNumber(payload, ['bulk_pallets', 'bulkPallets']);
-    const bulkLayers = readNumber(payload, ['bulk_layers', 'bulkLayers']);
-    const bulkCases = readNumber(payload, ['bulk_cases', 'bulkCases']);
-
-    const totalUnits = computeTotalUnits(
-      singlesUnits,
-      singlesCases,
-      pickFaceLayers,
-      pickFaceCases,
-      bulkPallets,
-      bulkLayers,
-      bulkCases,
-      packaging,
-    );
-
-    console.log(`Calculated total units: ${totalUnits}`);
-
-    if (!Number.isFinite(totalUnits) || totalUnits < 0) {
-      throw new Error('Calculated total units is invalid');
-    }
+    console.log(`Calculated total units: ${prepared.row.total_units}`);
 
+    // Region crops sit next to the photo and share its name, so retention can clear them together
+    const imageBase = `${eventId}/${warehouseCode}/${submissionKey ?? crypto.randomUUID()}`;
     let photoPath: string | null = null;
     if (photo) {
-      const extension = photo.name.includes('.') ? photo.name.split('.').pop() : 'jpg';
-      photoPath = `${eventId}/${warehouseCode}/${crypto.randomUUID()}.${extension}`;
-      const { error: uploadError } = await supabase.storage
-        .from('count_images')
-        .upload(photoPath, photo.data, {
-          contentType: photo.contentType,
-          cacheControl: '86400',
-          upsert: false,
-        });
-
-      if (uploadError) {
-        throw new Error(`Failed to upload photo: ${uploadError.message}`);
-      }
+      photoPath = `${imageBase}.${fileExtension(photo)}`;
+      await uploadImage(supabase, photoPath, photo, submissionKey !== null);
     }
 
-    const productDescription = toTrimmedString(payload.product_description) ??
-      toTrimmedString(payload.description) ??
-      packaging.description;
-
-    const lotNumber = toTrimmedString(payload.lot_number);
+    const regionPaths: Partial<Record<PhotoRegion, string>> = {};
+    for (const [region, image] of Object.entries(regions) as Array<[PhotoRegion, UploadedPhoto]>) {
+      regionPaths[region] = `${imageBase}_roi_${region}.${fileExtension(image)}`;
+      await uploadImage(supabase, regionPaths[region] as string, image, submissionKey !== null);
+    }
 
     const { data: inserted, error: insertError } = await supabase
       .from('counts')
       .insert({
-        event_id: eventId,
-        warehouse_code: warehouseCode,
-        stock_code: stockCode,
-        product_description: productDescription ?? stockCode,
-        lot_number: lotNumber,
-        counted_by: user.id,
-        singles_units: singlesUnits,
-        singles_cases: singlesCases,
-        pick_face_layers: pickFaceLayers,
-        pick_face_cases: pickFaceCases,
-        bulk_pallets: bulkPallets,
-        bulk_layers: bulkLayers,
-        bulk_cases: bulkCases,
-        total_units: Math.round(totalUnits),
-        units_per_case_snapshot: Math.max(1, packaging.unitsPerCase || 1),
-        cases_per_layer_snapshot: Math.max(1, packaging.casesPerLayer || 1),
-        layers_per_pallet_snapshot: Math.max(1, packaging.layersPerPallet || 1),
-        pack_size_snapshot: packaging.packSize ?? '',
+        ...prepared.row,
         photo_path: photoPath,
+        photo_roi_paths: Object.keys(regionPaths).length > 0 ? regionPaths : null,
       })
-      .select('id, total_units')
+      // Triggers assign count_sequence for double-counted products and duplicate_photo_of for reused photos
+      .select('id, total_units, count_sequence, duplicate_photo_of')
       .maybeSingle();
 
+    if (insertError?.code === '23505' && submissionKey) {
+      // A concurrent retry inserted the row first
+      const replay = (await findSubmissions(supabase, [submissionKey], counter.id)).get(submissionKey);
+      if (replay) {
+        return new Response(JSON.stringify(replay), {
+          status: 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+    }
+
     if (insertError || !inserted) {
-      throw new Error(insertError?.message ?? 'Failed to save count');
+      throw new Error(describeInsertError(insertError, 'Failed to save count'));
+    }
+
+    if (prepared.recountTaskId) {
+      await applyRecount(supabase, inserted.id, prepared.recountTaskId);
+    }
+
+    const duplicatePhoto = inserted.duplicate_photo_of ? await findDuplicatePhoto(supabase, inserted.id) : null;
+    if (duplicatePhoto) {
+      console.log(`Count ${inserted.id} has a photo like count ${duplicatePhoto.count_id} (${duplicatePhoto.distance} bits apart)`);
     }
 
     try {
@@ -342,7 +253,19 @@ Deno.serve(async (req: Request) => {
 
     console.log(`submit-count function finished successfully for count ${inserted.id}`);
 
-    return new Response(JSON.stringify({ ok: true, id: inserted.id, total_units: inserted.total_units, photo_path: photoPath }), {
+    const body: SubmitCountSuccess = {
+      ok: true,
+      id: inserted.id,
+      stock_code: prepared.stockCode,
+      matched_on: prepared.matchedOn,
+      total_units: inserted.total_units,
+      count_sequence: inserted.count_sequence,
+      photo_path: photoPath,
+      unresolved: prepared.matchedOn === null,
+      duplicate_photo: duplicatePhoto,
+    };
+
+    return new Response(JSON.stringify(body), {
       status: 200,
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
@@ -350,7 +273,7 @@ Deno.serve(async (req: Request) => {
     const message = error instanceof Error ? error.message : 'Unknown error';
     console.error('submit-count function failed:', message);
     return new Response(JSON.stringify({ ok: false, error: message }), {
-      status: message === 'Unauthorized' ? 401 : 400,
+      status: submissionErrorStatus(message),
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   }
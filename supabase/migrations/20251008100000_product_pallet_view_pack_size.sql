@@ -0,0 +1,33 @@
+/*
+  # Expose pack size on product_pallet_view
+
+  - StocktakeEntry shows a product confirmation card once a product is identified and needs the
+    pack size alongside the packaging hierarchy
+  - New columns are appended so CREATE OR REPLACE VIEW keeps the existing column order
+*/
+
+CREATE OR REPLACE VIEW public.product_pallet_view AS
+SELECT
+  p.id AS product_id,
+  p.stock_code,
+  p.product_name,
+  p.description,
+  p.barcode AS default_barcode,
+  COALESCE(p.case_barcode, pc.barcode) AS case_barcode,
+  COALESCE(p.unit_barcode, p.barcode) AS unit_barcode,
+  COALESCE(pc.units_per_case, p.units_per_case) AS units_per_case,
+  COALESCE(pc.cases_per_layer, p.cases_per_layer) AS cases_per_layer,
+  COALESCE(pc.layers_per_pallet, p.layers_per_pallet) AS layers_per_pallet,
+  COALESCE(
+    pc.units_per_pallet,
+    COALESCE(pc.units_per_case, p.units_per_case)
+      * COALESCE(pc.cases_per_layer, p.cases_per_layer)
+      * COALESCE(pc.layers_per_pallet, p.layers_per_pallet)
+  ) AS units_per_pallet,
+  pc.id AS pallet_configuration_id,
+  pc.created_at AS pallet_created_at,
+  pc.updated_at AS pallet_updated_at,
+  p.pack_size
+FROM public.products AS p
+LEFT JOIN public.pallet_configurations AS pc
+  ON pc.barcode = COALESCE(p.case_barcode, p.barcode);
@@ -0,0 +1,84 @@
+/*
+  # Exact product resolution for count submissions
+
+  - resolve_product takes any of stock code, case barcode, unit barcode or a legacy barcode and checks them in
+    that order; the first identifier that matches anything wins
+  - Every candidate for that identifier is returned together with matched_on and match_count, so callers can
+    report ambiguous matches instead of failing inside maybeSingle
+  - The legacy barcode identifier is compared against the default, case and unit barcodes
+*/
+
+CREATE OR REPLACE FUNCTION public.resolve_product(
+  p_stock_code text DEFAULT NULL,
+  p_case_barcode text DEFAULT NULL,
+  p_unit_barcode text DEFAULT NULL,
+  p_barcode text DEFAULT NULL
+)
+RETURNS TABLE (
+  matched_on text,
+  match_count integer,
+  product_id uuid,
+  stock_code text,
+  description text,
+  pack_size text,
+  case_barcode text,
+  unit_barcode text,
+  units_per_case integer,
+  cases_per_layer integer,
+  layers_per_pallet integer
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public AS $$
+#variable_conflict use_column
+DECLARE
+  v_identifier record;
+BEGIN
+  FOR v_identifier IN
+    SELECT ids.kind, ids.value
+    FROM (
+      VALUES
+        (1, 'stock_code', NULLIF(trim(p_stock_code), '')),
+        (2, 'case_barcode', NULLIF(trim(p_case_barcode), '')),
+        (3, 'unit_barcode', NULLIF(trim(p_unit_barcode), '')),
+        (4, 'barcode', NULLIF(trim(p_barcode), ''))
+    ) AS ids(priority, kind, value)
+    WHERE ids.value IS NOT NULL
+    ORDER BY ids.priority
+  LOOP
+    RETURN QUERY
+      WITH candidates AS (
+        SELECT v.*
+        FROM product_pallet_view v
+        WHERE CASE v_identifier.kind
+          WHEN 'stock_code' THEN v.stock_code = v_identifier.value
+          WHEN 'case_barcode' THEN v.case_barcode = v_identifier.value
+          WHEN 'unit_barcode' THEN v.unit_barcode = v_identifier.value
+          ELSE v_identifier.value IN (v.default_barcode, v.case_barcode, v.unit_barcode)
+        END
+      )
+      SELECT
+        v_identifier.kind::text,
+        (SELECT count(*)::integer FROM candidates),
+        c.product_id,
+        c.stock_code,
+        COALESCE(NULLIF(c.description, ''), c.product_name),
+        c.pack_size,
+        c.case_barcode,
+        c.unit_barcode,
+        c.units_per_case,
+        c.cases_per_layer,
+        c.layers_per_pallet
+      FROM candidates c
+      ORDER BY c.stock_code;
+
+    IF FOUND THEN
+      RETURN;
+    END IF;
+  END LOOP;
+END;
+$$;
+
+COMMENT ON FUNCTION public.resolve_product IS 'Resolves a product from stock code, case barcode, unit barcode or legacy barcode, returning every candidate for the first identifier that matches';
+
+GRANT EXECUTE ON FUNCTION public.resolve_product(text, text, text, text) TO authenticated, service_role;
@@ -0,0 +1,28 @@
+/*
+  # Idempotent count submissions
+
+  - counts.submission_key holds the client-generated key for one capture; a retried submit-count call with the
+    same key returns the original row instead of inserting a second one
+  - counts.matched_on records which identifier resolve_product matched, so a replay can return the original
+    response unchanged
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'counts' AND column_name = 'submission_key'
+  ) THEN
+    ALTER TABLE public.counts ADD COLUMN submission_key uuid;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'counts' AND column_name = 'matched_on'
+  ) THEN
+    ALTER TABLE public.counts ADD COLUMN matched_on text;
+  END IF;
+END$$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_counts_submission_key
+  ON public.counts(submission_key) WHERE submission_key IS NOT NULL;
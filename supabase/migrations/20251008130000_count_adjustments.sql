@@ -0,0 +1,230 @@
+/*
+  # Audited edits and voids for submitted counts
+
+  - counts gains voided_at, voided_by and void_reason; a voided count stays in the table but no longer
+    contributes to counts_totals_mv
+  - count_adjustments is an append-only history of every edit and void, holding the changed fields before and
+    after, who made the change and when
+  - apply_count_adjustment locks the count, applies the change and writes the history row in one transaction;
+    it is only callable by the service role, so every change goes through the adjust-count edge function
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'counts' AND column_name = 'voided_at'
+  ) THEN
+    ALTER TABLE public.counts ADD COLUMN voided_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'counts' AND column_name = 'voided_by'
+  ) THEN
+    ALTER TABLE public.counts ADD COLUMN voided_by uuid REFERENCES auth.users(id) ON DELETE RESTRICT;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'counts' AND column_name = 'void_reason'
+  ) THEN
+    ALTER TABLE public.counts ADD COLUMN void_reason text;
+  END IF;
+END$$;
+
+CREATE INDEX IF NOT EXISTS idx_counts_counted_by ON public.counts(counted_by, event_id, warehouse_code);
+
+CREATE TABLE IF NOT EXISTS public.count_adjustments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  count_id uuid NOT NULL REFERENCES public.counts(id) ON DELETE RESTRICT,
+  event_id uuid NOT NULL REFERENCES public.stocktake_events(id) ON DELETE RESTRICT,
+  warehouse_code text NOT NULL REFERENCES public.warehouses(code) ON DELETE RESTRICT,
+  stock_code text NOT NULL,
+  action text NOT NULL CHECK (action IN ('edit', 'void')),
+  previous_values jsonb NOT NULL,
+  new_values jsonb NOT NULL,
+  reason text,
+  adjusted_by uuid NOT NULL REFERENCES auth.users(id) ON DELETE RESTRICT,
+  adjusted_by_name text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_count_adjustments_count ON public.count_adjustments(count_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_count_adjustments_event_warehouse
+  ON public.count_adjustments(event_id, warehouse_code, created_at DESC);
+
+CREATE OR REPLACE FUNCTION public.prevent_count_adjustment_changes()
+RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'count_adjustments is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS count_adjustments_append_only ON public.count_adjustments;
+
+CREATE TRIGGER count_adjustments_append_only
+  BEFORE UPDATE OR DELETE ON public.count_adjustments
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_count_adjustment_changes();
+
+ALTER TABLE public.count_adjustments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Count adjustments select for owners and managers" ON public.count_adjustments;
+
+CREATE POLICY "Count adjustments select for owners and managers"
+  ON public.count_adjustments FOR SELECT
+  TO authenticated
+  USING (
+    adjusted_by = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_profiles.id = auth.uid()
+        AND user_profiles.role = 'admin'
+    )
+    OR EXISTS (
+      SELECT 1
+      FROM public.user_profiles up
+      JOIN public.user_warehouse_assignments uwa ON uwa.user_id = up.id
+      WHERE up.id = auth.uid()
+        AND up.role = 'manager'
+        AND uwa.warehouse_code = count_adjustments.warehouse_code
+    )
+  );
+
+DROP POLICY IF EXISTS "Service role inserts count adjustments" ON public.count_adjustments;
+
+CREATE POLICY "Service role inserts count adjustments"
+  ON public.count_adjustments FOR INSERT
+  TO service_role
+  WITH CHECK (true);
+
+CREATE OR REPLACE FUNCTION public.apply_count_adjustment(
+  p_count_id uuid,
+  p_action text,
+  p_changes jsonb,
+  p_reason text,
+  p_adjusted_by uuid
+)
+RETURNS public.count_adjustments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public AS $$
+DECLARE
+  v_count public.counts%ROWTYPE;
+  v_previous jsonb;
+  v_new jsonb;
+  v_adjustment public.count_adjustments%ROWTYPE;
+BEGIN
+  SELECT * INTO v_count FROM public.counts WHERE id = p_count_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Count not found';
+  END IF;
+
+  IF v_count.voided_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Count has already been voided';
+  END IF;
+
+  IF p_action = 'void' THEN
+    v_previous := jsonb_build_object('voided_at', NULL, 'total_units', v_count.total_units);
+    v_new := jsonb_build_object('voided_at', now(), 'total_units', 0);
+
+    UPDATE public.counts
+    SET voided_at = now(),
+        voided_by = p_adjusted_by,
+        void_reason = p_reason
+    WHERE id = p_count_id;
+  ELSIF p_action = 'edit' THEN
+    IF p_changes IS NULL OR p_changes = '{}'::jsonb THEN
+      RAISE EXCEPTION 'No changes to apply';
+    END IF;
+
+    SELECT jsonb_object_agg(key, to_jsonb(v_count) -> key)
+    INTO v_previous
+    FROM jsonb_object_keys(p_changes) AS key;
+    v_new := p_changes;
+
+    UPDATE public.counts
+    SET singles_units = COALESCE((p_changes ->> 'singles_units')::integer, singles_units),
+        singles_cases = COALESCE((p_changes ->> 'singles_cases')::integer, singles_cases),
+        pick_face_layers = COALESCE((p_changes ->> 'pick_face_layers')::integer, pick_face_layers),
+        pick_face_cases = COALESCE((p_changes ->> 'pick_face_cases')::integer, pick_face_cases),
+        bulk_pallets = COALESCE((p_changes ->> 'bulk_pallets')::integer, bulk_pallets),
+        bulk_layers = COALESCE((p_changes ->> 'bulk_layers')::integer, bulk_layers),
+        bulk_cases = COALESCE((p_changes ->> 'bulk_cases')::integer, bulk_cases),
+        total_units = COALESCE((p_changes ->> 'total_units')::bigint, total_units),
+        lot_number = CASE WHEN p_changes ? 'lot_number' THEN NULLIF(p_changes ->> 'lot_number', '') ELSE lot_number END
+    WHERE id = p_count_id;
+  ELSE
+    RAISE EXCEPTION 'Unknown adjustment action: %', p_action;
+  END IF;
+
+  INSERT INTO public.count_adjustments (
+    count_id,
+    event_id,
+    warehouse_code,
+    stock_code,
+    action,
+    previous_values,
+    new_values,
+    reason,
+    adjusted_by,
+    adjusted_by_name
+  )
+  VALUES (
+    v_count.id,
+    v_count.event_id,
+    v_count.warehouse_code,
+    v_count.stock_code,
+    p_action,
+    v_previous,
+    v_new,
+    p_reason,
+    p_adjusted_by,
+    (SELECT full_name FROM public.user_profiles WHERE id = p_adjusted_by)
+  )
+  RETURNING * INTO v_adjustment;
+
+  RETURN v_adjustment;
+END;
+$$;
+
+COMMENT ON FUNCTION public.apply_count_adjustment IS 'Edits or voids a count and records the change in count_adjustments';
+
+REVOKE EXECUTE ON FUNCTION public.apply_count_adjustment(uuid, text, jsonb, text, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_count_adjustment(uuid, text, jsonb, text, uuid) TO service_role;
+
+-- Rebuild the totals without voided counts
+DROP VIEW IF EXISTS public.manager_variance_view;
+DROP MATERIALIZED VIEW IF EXISTS public.counts_totals_mv;
+
+CREATE MATERIALIZED VIEW public.counts_totals_mv AS
+SELECT
+  c.event_id,
+  c.warehouse_code,
+  c.stock_code,
+  COALESCE(NULLIF(c.lot_number, ''), 'UNSPECIFIED') AS lot_number,
+  max(COALESCE(NULLIF(c.product_description, ''), p.description, p.product_name, c.stock_code)) AS product_description,
+  sum(c.total_units) AS counted_units,
+  max(p.expected_quantity) AS expected_units
+FROM public.counts c
+LEFT JOIN public.products p
+  ON (
+    (p.stock_code IS NOT NULL AND p.stock_code = c.stock_code)
+    OR (p.barcode IS NOT NULL AND p.barcode = c.stock_code)
+  )
+WHERE c.voided_at IS NULL
+GROUP BY c.event_id, c.warehouse_code, c.stock_code, COALESCE(NULLIF(c.lot_number, ''), 'UNSPECIFIED');
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_counts_totals_mv_key
+  ON public.counts_totals_mv (event_id, warehouse_code, stock_code, lot_number);
+
+CREATE OR REPLACE VIEW public.manager_variance_view AS
+SELECT
+  mv.event_id,
+  mv.warehouse_code,
+  mv.stock_code,
+  mv.product_description AS description,
+  NULLIF(mv.lot_number, 'UNSPECIFIED') AS lot_number,
+  (mv.counted_units - COALESCE(mv.expected_units, 0)) AS variance_units
+FROM public.counts_totals_mv mv;
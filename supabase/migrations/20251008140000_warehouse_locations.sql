@@ -0,0 +1,147 @@
+/*
+  # Warehouse location master and location-level counts
+
+  - warehouse_locations lists every countable location in a warehouse, broken down into zone, aisle, bay and
+    level, with the barcode printed on the location label
+  - counts and recount_tasks reference a location; counts also keep the location code as captured so history
+    survives a location being renamed or retired
+  - counts_by_location_view sums live (non-voided) counts per location for variance and recount drill-downs
+*/
+
+CREATE TABLE IF NOT EXISTS public.warehouse_locations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  warehouse_code text NOT NULL REFERENCES public.warehouses(code) ON DELETE CASCADE,
+  code text NOT NULL,
+  zone text,
+  aisle text,
+  bay text,
+  level text,
+  barcode text,
+  description text,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (warehouse_code, code)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_warehouse_locations_barcode
+  ON public.warehouse_locations(warehouse_code, barcode) WHERE barcode IS NOT NULL;
+
+DROP TRIGGER IF EXISTS warehouse_locations_updated_at ON public.warehouse_locations;
+CREATE TRIGGER warehouse_locations_updated_at
+  BEFORE UPDATE ON public.warehouse_locations
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE public.warehouse_locations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Warehouse locations select for assigned warehouses" ON public.warehouse_locations;
+
+CREATE POLICY "Warehouse locations select for assigned warehouses"
+  ON public.warehouse_locations FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_profiles.id = auth.uid()
+        AND user_profiles.role = 'admin'
+    )
+    OR EXISTS (
+      SELECT 1 FROM public.user_warehouse_assignments uwa
+      WHERE uwa.user_id = auth.uid()
+        AND uwa.warehouse_code = warehouse_locations.warehouse_code
+    )
+  );
+
+DROP POLICY IF EXISTS "Warehouse locations managed by managers and admins" ON public.warehouse_locations;
+
+CREATE POLICY "Warehouse locations managed by managers and admins"
+  ON public.warehouse_locations FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_profiles.id = auth.uid()
+        AND user_profiles.role = 'admin'
+    )
+    OR EXISTS (
+      SELECT 1
+      FROM public.user_profiles up
+      JOIN public.user_warehouse_assignments uwa ON uwa.user_id = up.id
+      WHERE up.id = auth.uid()
+        AND up.role = 'manager'
+        AND uwa.warehouse_code = warehouse_locations.warehouse_code
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_profiles.id = auth.uid()
+        AND user_profiles.role = 'admin'
+    )
+    OR EXISTS (
+      SELECT 1
+      FROM public.user_profiles up
+      JOIN public.user_warehouse_assignments uwa ON uwa.user_id = up.id
+      WHERE up.id = auth.uid()
+        AND up.role = 'manager'
+        AND uwa.warehouse_code = warehouse_locations.warehouse_code
+    )
+  );
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'counts' AND column_name = 'location_id'
+  ) THEN
+    ALTER TABLE public.counts
+      ADD COLUMN location_id uuid REFERENCES public.warehouse_locations(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'counts' AND column_name = 'location_code'
+  ) THEN
+    ALTER TABLE public.counts ADD COLUMN location_code text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'recount_tasks' AND column_name = 'location_id'
+  ) THEN
+    ALTER TABLE public.recount_tasks
+      ADD COLUMN location_id uuid REFERENCES public.warehouse_locations(id) ON DELETE SET NULL;
+  END IF;
+END$$;
+
+CREATE INDEX IF NOT EXISTS idx_counts_location ON public.counts(event_id, warehouse_code, location_id);
+
+CREATE OR REPLACE VIEW public.counts_by_location_view
+WITH (security_invoker = true) AS
+SELECT
+  c.event_id,
+  c.warehouse_code,
+  c.stock_code,
+  NULLIF(c.lot_number, '') AS lot_number,
+  c.location_id,
+  COALESCE(wl.code, c.location_code) AS location_code,
+  wl.zone,
+  wl.aisle,
+  wl.bay,
+  wl.level,
+  count(*) AS count_records,
+  sum(c.total_units) AS counted_units
+FROM public.counts c
+LEFT JOIN public.warehouse_locations wl ON wl.id = c.location_id
+WHERE c.voided_at IS NULL
+GROUP BY
+  c.event_id,
+  c.warehouse_code,
+  c.stock_code,
+  NULLIF(c.lot_number, ''),
+  c.location_id,
+  COALESCE(wl.code, c.location_code),
+  wl.zone,
+  wl.aisle,
+  wl.bay,
+  wl.level;
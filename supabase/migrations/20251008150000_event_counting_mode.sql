@@ -0,0 +1,114 @@
+/*
+  # Blind and guided counting modes
+
+  - Add `counting_mode` to `stocktake_events` ('blind' or 'guided', default 'blind')
+  - Hide expected stock columns on `products` from client roles
+  - Revoke direct client access to `counts_totals_mv`
+  - Limit `manager_variance_view` to admins, warehouse managers and guided events
+  - Add `get_expected_units` RPC that only answers for guided events
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'stocktake_events' AND column_name = 'counting_mode'
+  ) THEN
+    ALTER TABLE public.stocktake_events
+      ADD COLUMN counting_mode text NOT NULL DEFAULT 'blind'
+      CHECK (counting_mode IN ('blind', 'guided'));
+  END IF;
+END$$;
+
+-- Expected quantities are only reachable through the views and RPC below, which check the counting mode
+DO $$
+DECLARE
+  visible_columns text;
+BEGIN
+  SELECT string_agg(quote_ident(column_name), ', ' ORDER BY ordinal_position)
+  INTO visible_columns
+  FROM information_schema.columns
+  WHERE table_schema = 'public'
+    AND table_name = 'products'
+    AND column_name NOT IN ('expected_quantity', 'stock_on_hand', 'allocated_stock', 'available_stock');
+
+  REVOKE SELECT ON public.products FROM anon, authenticated;
+  EXECUTE format('GRANT SELECT (%s) ON public.products TO authenticated', visible_columns);
+END$$;
+
+REVOKE ALL ON public.counts_totals_mv FROM anon, authenticated;
+
+CREATE OR REPLACE VIEW public.manager_variance_view AS
+SELECT
+  mv.event_id,
+  mv.warehouse_code,
+  mv.stock_code,
+  mv.product_description AS description,
+  NULLIF(mv.lot_number, 'UNSPECIFIED') AS lot_number,
+  (mv.counted_units - COALESCE(mv.expected_units, 0)) AS variance_units
+FROM public.counts_totals_mv mv
+JOIN public.stocktake_events e ON e.id = mv.event_id
+WHERE EXISTS (
+    SELECT 1 FROM public.user_profiles up
+    WHERE up.id = auth.uid()
+      AND up.role = 'admin'
+  )
+  OR (
+    EXISTS (
+      SELECT 1 FROM public.user_warehouse_assignments uwa
+      WHERE uwa.user_id = auth.uid()
+        AND uwa.warehouse_code = mv.warehouse_code
+    )
+    AND (
+      e.counting_mode = 'guided'
+      OR EXISTS (
+        SELECT 1 FROM public.user_profiles up
+        WHERE up.id = auth.uid()
+          AND up.role = 'manager'
+      )
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.get_expected_units(
+  p_event_id uuid,
+  p_warehouse_code text,
+  p_stock_code text
+)
+RETURNS integer
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_mode text;
+  v_expected integer;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin'
+  ) AND NOT EXISTS (
+    SELECT 1 FROM user_warehouse_assignments
+    WHERE user_id = auth.uid() AND warehouse_code = p_warehouse_code
+  ) THEN
+    RAISE EXCEPTION 'You are not assigned to this warehouse';
+  END IF;
+
+  SELECT counting_mode INTO v_mode
+  FROM stocktake_events
+  WHERE id = p_event_id;
+
+  IF v_mode IS DISTINCT FROM 'guided' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT max(p.expected_quantity) INTO v_expected
+  FROM products p
+  WHERE (p.stock_code IS NOT NULL AND p.stock_code = p_stock_code)
+     OR (p.barcode IS NOT NULL AND p.barcode = p_stock_code);
+
+  RETURN v_expected;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_expected_units(uuid, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_expected_units(uuid, text, text) TO authenticated, service_role;
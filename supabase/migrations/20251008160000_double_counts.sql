@@ -0,0 +1,485 @@
+/*
+  # Independent double counts with automatic reconciliation
+
+  - stocktake_events gains double_count_all and double_count_tolerance_pct; products gain requires_double_count
+  - counts gains count_sequence: the first counter of a stock code, lot and location gets 1, the next distinct
+    counter gets 2 and the one after that 3 (the third count); further counters of the key are refused
+  - double_count_reconciliations holds the comparison of the first and second counts for each key; when they
+    disagree beyond the event tolerance a third-count recount task is created for a different stock taker
+  - Stock takers only see their own counts for double-counted products
+  - counts_totals_mv and counts_by_location_view use the highest count sequence per stock code, lot and location
+    instead of summing every counter's figures
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'stocktake_events' AND column_name = 'double_count_all'
+  ) THEN
+    ALTER TABLE public.stocktake_events ADD COLUMN double_count_all boolean NOT NULL DEFAULT false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'stocktake_events' AND column_name = 'double_count_tolerance_pct'
+  ) THEN
+    ALTER TABLE public.stocktake_events
+      ADD COLUMN double_count_tolerance_pct numeric(5, 2) NOT NULL DEFAULT 0
+      CHECK (double_count_tolerance_pct >= 0 AND double_count_tolerance_pct <= 100);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'requires_double_count'
+  ) THEN
+    ALTER TABLE public.products ADD COLUMN requires_double_count boolean NOT NULL DEFAULT false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'counts' AND column_name = 'count_sequence'
+  ) THEN
+    ALTER TABLE public.counts ADD COLUMN count_sequence smallint NOT NULL DEFAULT 1 CHECK (count_sequence BETWEEN 1 AND 3);
+  END IF;
+END$$;
+
+-- Client roles only hold column-level SELECT on products since the counting mode migration
+GRANT SELECT (requires_double_count) ON public.products TO authenticated;
+
+CREATE INDEX IF NOT EXISTS idx_counts_double_count_key
+  ON public.counts(event_id, warehouse_code, stock_code, lot_number, location_id, count_sequence);
+
+CREATE TABLE IF NOT EXISTS public.double_count_reconciliations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES public.stocktake_events(id) ON DELETE CASCADE,
+  warehouse_code text NOT NULL REFERENCES public.warehouses(code) ON DELETE RESTRICT,
+  stock_code text NOT NULL,
+  lot_number text,
+  location_id uuid REFERENCES public.warehouse_locations(id) ON DELETE SET NULL,
+  first_count_units bigint,
+  second_count_units bigint,
+  third_count_units bigint,
+  status text NOT NULL DEFAULT 'awaiting_second'
+    CHECK (status IN ('awaiting_second', 'matched', 'mismatch', 'resolved')),
+  recount_task_id uuid REFERENCES public.recount_tasks(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_double_count_reconciliations_key
+  ON public.double_count_reconciliations (
+    event_id,
+    warehouse_code,
+    stock_code,
+    COALESCE(lot_number, ''),
+    COALESCE(location_id, '00000000-0000-0000-0000-000000000000'::uuid)
+  );
+
+DROP TRIGGER IF EXISTS double_count_reconciliations_updated_at ON public.double_count_reconciliations;
+CREATE TRIGGER double_count_reconciliations_updated_at
+  BEFORE UPDATE ON public.double_count_reconciliations
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE public.double_count_reconciliations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Double count reconciliations select for managers" ON public.double_count_reconciliations;
+
+CREATE POLICY "Double count reconciliations select for managers"
+  ON public.double_count_reconciliations FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_profiles.id = auth.uid()
+        AND user_profiles.role = 'admin'
+    )
+    OR EXISTS (
+      SELECT 1
+      FROM public.user_profiles up
+      JOIN public.user_warehouse_assignments uwa ON uwa.user_id = up.id
+      WHERE up.id = auth.uid()
+        AND up.role = 'manager'
+        AND uwa.warehouse_code = double_count_reconciliations.warehouse_code
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.requires_double_count(p_event_id uuid, p_stock_code text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public AS $$
+  SELECT COALESCE((SELECT double_count_all FROM stocktake_events WHERE id = p_event_id), false)
+    OR EXISTS (
+      SELECT 1 FROM products
+      WHERE stock_code = p_stock_code
+        AND requires_double_count
+    );
+$$;
+
+DROP POLICY IF EXISTS "Counts hide other double counts" ON public.counts;
+
+CREATE POLICY "Counts hide other double counts"
+  ON public.counts
+  AS RESTRICTIVE
+  FOR SELECT
+  TO authenticated
+  USING (
+    counted_by = auth.uid()
+    OR NOT public.requires_double_count(event_id, stock_code)
+    OR EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_profiles.id = auth.uid()
+        AND user_profiles.role IN ('admin', 'manager')
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.assign_count_sequence()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public AS $$
+DECLARE
+  v_existing smallint;
+  v_next integer;
+BEGIN
+  IF NOT public.requires_double_count(NEW.event_id, NEW.stock_code) THEN
+    NEW.count_sequence := 1;
+    RETURN NEW;
+  END IF;
+
+  -- Serialise counters of the same key so two first counts cannot race each other
+  PERFORM pg_advisory_xact_lock(hashtext(concat_ws(
+    '|', NEW.event_id, NEW.warehouse_code, NEW.stock_code, NULLIF(NEW.lot_number, ''), NEW.location_id
+  )));
+
+  SELECT c.count_sequence INTO v_existing
+  FROM counts c
+  WHERE c.event_id = NEW.event_id
+    AND c.warehouse_code = NEW.warehouse_code
+    AND c.stock_code = NEW.stock_code
+    AND NULLIF(c.lot_number, '') IS NOT DISTINCT FROM NULLIF(NEW.lot_number, '')
+    AND c.location_id IS NOT DISTINCT FROM NEW.location_id
+    AND c.counted_by = NEW.counted_by
+    AND c.voided_at IS NULL
+  ORDER BY c.count_sequence DESC
+  LIMIT 1;
+
+  IF v_existing IS NOT NULL THEN
+    NEW.count_sequence := v_existing;
+  ELSE
+    SELECT COALESCE(max(c.count_sequence), 0) + 1 INTO v_next
+    FROM counts c
+    WHERE c.event_id = NEW.event_id
+      AND c.warehouse_code = NEW.warehouse_code
+      AND c.stock_code = NEW.stock_code
+      AND NULLIF(c.lot_number, '') IS NOT DISTINCT FROM NULLIF(NEW.lot_number, '')
+      AND c.location_id IS NOT DISTINCT FROM NEW.location_id
+      AND c.voided_at IS NULL;
+
+    -- A fourth counter would be summed into the third count, so the key takes no further counters
+    IF v_next > 3 THEN
+      RAISE EXCEPTION USING
+        ERRCODE = 'check_violation',
+        MESSAGE = format('%s has already been counted by three counters at this location', NEW.stock_code);
+    END IF;
+    NEW.count_sequence := v_next;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS counts_assign_sequence ON public.counts;
+CREATE TRIGGER counts_assign_sequence
+  BEFORE INSERT ON public.counts
+  FOR EACH ROW EXECUTE FUNCTION public.assign_count_sequence();
+
+CREATE OR REPLACE FUNCTION public.reconcile_double_count(
+  p_event_id uuid,
+  p_warehouse_code text,
+  p_stock_code text,
+  p_lot_number text,
+  p_location_id uuid
+)
+RETURNS public.double_count_reconciliations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public AS $$
+DECLARE
+  v_lot text := NULLIF(p_lot_number, '');
+  v_first bigint;
+  v_second bigint;
+  v_third bigint;
+  v_tolerance numeric;
+  v_status text;
+  v_reconciliation public.double_count_reconciliations%ROWTYPE;
+  v_task_id uuid;
+  v_assignee uuid;
+BEGIN
+  SELECT
+    sum(total_units) FILTER (WHERE count_sequence = 1),
+    sum(total_units) FILTER (WHERE count_sequence = 2),
+    sum(total_units) FILTER (WHERE count_sequence = 3)
+  INTO v_first, v_second, v_third
+  FROM counts
+  WHERE event_id = p_event_id
+    AND warehouse_code = p_warehouse_code
+    AND stock_code = p_stock_code
+    AND NULLIF(lot_number, '') IS NOT DISTINCT FROM v_lot
+    AND location_id IS NOT DISTINCT FROM p_location_id
+    AND voided_at IS NULL;
+
+  SELECT double_count_tolerance_pct INTO v_tolerance FROM stocktake_events WHERE id = p_event_id;
+
+  IF v_third IS NOT NULL THEN
+    v_status := 'resolved';
+  ELSIF v_first IS NULL OR v_second IS NULL THEN
+    v_status := 'awaiting_second';
+  ELSIF abs(v_first - v_second) <= GREATEST(v_first, v_second) * COALESCE(v_tolerance, 0) / 100 THEN
+    v_status := 'matched';
+  ELSE
+    v_status := 'mismatch';
+  END IF;
+
+  SELECT * INTO v_reconciliation
+  FROM double_count_reconciliations
+  WHERE event_id = p_event_id
+    AND warehouse_code = p_warehouse_code
+    AND stock_code = p_stock_code
+    AND lot_number IS NOT DISTINCT FROM v_lot
+    AND location_id IS NOT DISTINCT FROM p_location_id
+  FOR UPDATE;
+
+  v_task_id := v_reconciliation.recount_task_id;
+
+  IF v_status = 'mismatch' AND (
+    v_task_id IS NULL
+    OR NOT EXISTS (SELECT 1 FROM recount_tasks WHERE id = v_task_id AND status = 'open')
+  ) THEN
+    -- The third count goes to a stock taker who did neither of the first two, preferring the least busy
+    SELECT uwa.user_id INTO v_assignee
+    FROM user_warehouse_assignments uwa
+    JOIN user_profiles up ON up.id = uwa.user_id AND up.role = 'stocktaker'
+    WHERE uwa.warehouse_code = p_warehouse_code
+      AND NOT EXISTS (
+        SELECT 1 FROM counts c
+        WHERE c.counted_by = uwa.user_id
+          AND c.event_id = p_event_id
+          AND c.warehouse_code = p_warehouse_code
+          AND c.stock_code = p_stock_code
+          AND NULLIF(c.lot_number, '') IS NOT DISTINCT FROM v_lot
+          AND c.location_id IS NOT DISTINCT FROM p_location_id
+          AND c.voided_at IS NULL
+      )
+    ORDER BY (
+      SELECT count(*) FROM recount_tasks rt
+      WHERE rt.assigned_to = uwa.user_id AND rt.status = 'open'
+    ), uwa.user_id
+    LIMIT 1;
+
+    IF v_assignee IS NOT NULL THEN
+      INSERT INTO recount_tasks (
+        event_id,
+        warehouse_code,
+        stock_code,
+        lot_number,
+        location_id,
+        location,
+        assigned_to,
+        status,
+        notes
+      )
+      VALUES (
+        p_event_id,
+        p_warehouse_code,
+        p_stock_code,
+        v_lot,
+        p_location_id,
+        (SELECT code FROM warehouse_locations WHERE id = p_location_id),
+        v_assignee,
+        'open',
+        'Third count: the first and second counts disagree'
+      )
+      RETURNING id INTO v_task_id;
+    ELSE
+      RAISE WARNING 'No independent stock taker available for the third count of % in %', p_stock_code, p_warehouse_code;
+    END IF;
+  ELSIF v_status = 'matched' AND v_task_id IS NOT NULL THEN
+    -- A later correction brought the counts back into agreement
+    UPDATE recount_tasks SET status = 'cancelled' WHERE id = v_task_id AND status = 'open';
+  END IF;
+
+  IF v_reconciliation.id IS NULL THEN
+    INSERT INTO double_count_reconciliations (
+      event_id,
+      warehouse_code,
+      stock_code,
+      lot_number,
+      location_id,
+      first_count_units,
+      second_count_units,
+      third_count_units,
+      status,
+      recount_task_id
+    )
+    VALUES (p_event_id, p_warehouse_code, p_stock_code, v_lot, p_location_id, v_first, v_second, v_third, v_status, v_task_id)
+    RETURNING * INTO v_reconciliation;
+  ELSE
+    UPDATE double_count_reconciliations
+    SET first_count_units = v_first,
+        second_count_units = v_second,
+        third_count_units = v_third,
+        status = v_status,
+        recount_task_id = v_task_id
+    WHERE id = v_reconciliation.id
+    RETURNING * INTO v_reconciliation;
+  END IF;
+
+  RETURN v_reconciliation;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reconcile_double_count(uuid, text, text, text, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reconcile_double_count(uuid, text, text, text, uuid) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.reconcile_double_count_on_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public AS $$
+BEGIN
+  IF public.requires_double_count(NEW.event_id, NEW.stock_code) THEN
+    PERFORM public.reconcile_double_count(NEW.event_id, NEW.warehouse_code, NEW.stock_code, NEW.lot_number, NEW.location_id);
+
+    -- An edited lot moves the count to another key, so the key it left needs comparing again
+    IF TG_OP = 'UPDATE' AND NULLIF(OLD.lot_number, '') IS DISTINCT FROM NULLIF(NEW.lot_number, '') THEN
+      PERFORM public.reconcile_double_count(OLD.event_id, OLD.warehouse_code, OLD.stock_code, OLD.lot_number, OLD.location_id);
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS counts_reconcile_double_count ON public.counts;
+CREATE TRIGGER counts_reconcile_double_count
+  AFTER INSERT OR UPDATE OF total_units, lot_number, voided_at ON public.counts
+  FOR EACH ROW EXECUTE FUNCTION public.reconcile_double_count_on_change();
+
+-- Rebuild the totals so each stock code, lot and location contributes only its latest count sequence
+DROP VIEW IF EXISTS public.manager_variance_view;
+DROP MATERIALIZED VIEW IF EXISTS public.counts_totals_mv;
+
+CREATE MATERIALIZED VIEW public.counts_totals_mv AS
+WITH sequence_totals AS (
+  SELECT
+    c.event_id,
+    c.warehouse_code,
+    c.stock_code,
+    COALESCE(NULLIF(c.lot_number, ''), 'UNSPECIFIED') AS lot_number,
+    c.location_id,
+    c.count_sequence,
+    max(NULLIF(c.product_description, '')) AS product_description,
+    sum(c.total_units) AS counted_units
+  FROM public.counts c
+  WHERE c.voided_at IS NULL
+  GROUP BY c.event_id, c.warehouse_code, c.stock_code, COALESCE(NULLIF(c.lot_number, ''), 'UNSPECIFIED'), c.location_id, c.count_sequence
+),
+authoritative AS (
+  SELECT DISTINCT ON (event_id, warehouse_code, stock_code, lot_number, location_id) *
+  FROM sequence_totals
+  ORDER BY event_id, warehouse_code, stock_code, lot_number, location_id, count_sequence DESC
+)
+SELECT
+  a.event_id,
+  a.warehouse_code,
+  a.stock_code,
+  a.lot_number,
+  max(COALESCE(a.product_description, p.description, p.product_name, a.stock_code)) AS product_description,
+  sum(a.counted_units) AS counted_units,
+  max(p.expected_quantity) AS expected_units
+FROM authoritative a
+LEFT JOIN public.products p
+  ON (
+    (p.stock_code IS NOT NULL AND p.stock_code = a.stock_code)
+    OR (p.barcode IS NOT NULL AND p.barcode = a.stock_code)
+  )
+GROUP BY a.event_id, a.warehouse_code, a.stock_code, a.lot_number;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_counts_totals_mv_key
+  ON public.counts_totals_mv (event_id, warehouse_code, stock_code, lot_number);
+
+REVOKE ALL ON public.counts_totals_mv FROM anon, authenticated;
+
+CREATE OR REPLACE VIEW public.manager_variance_view AS
+SELECT
+  mv.event_id,
+  mv.warehouse_code,
+  mv.stock_code,
+  mv.product_description AS description,
+  NULLIF(mv.lot_number, 'UNSPECIFIED') AS lot_number,
+  (mv.counted_units - COALESCE(mv.expected_units, 0)) AS variance_units
+FROM public.counts_totals_mv mv
+JOIN public.stocktake_events e ON e.id = mv.event_id
+WHERE EXISTS (
+    SELECT 1 FROM public.user_profiles up
+    WHERE up.id = auth.uid()
+      AND up.role = 'admin'
+  )
+  OR (
+    EXISTS (
+      SELECT 1 FROM public.user_warehouse_assignments uwa
+      WHERE uwa.user_id = auth.uid()
+        AND uwa.warehouse_code = mv.warehouse_code
+    )
+    AND (
+      e.counting_mode = 'guided'
+      OR EXISTS (
+        SELECT 1 FROM public.user_profiles up
+        WHERE up.id = auth.uid()
+          AND up.role = 'manager'
+      )
+    )
+  );
+
+CREATE OR REPLACE VIEW public.counts_by_location_view
+WITH (security_invoker = true) AS
+WITH sequence_totals AS (
+  SELECT
+    c.event_id,
+    c.warehouse_code,
+    c.stock_code,
+    NULLIF(c.lot_number, '') AS lot_number,
+    c.location_id,
+    max(c.location_code) AS location_code,
+    c.count_sequence,
+    count(*) AS count_records,
+    sum(c.total_units) AS counted_units
+  FROM public.counts c
+  WHERE c.voided_at IS NULL
+  GROUP BY c.event_id, c.warehouse_code, c.stock_code, NULLIF(c.lot_number, ''), c.location_id, c.count_sequence
+),
+authoritative AS (
+  SELECT DISTINCT ON (event_id, warehouse_code, stock_code, lot_number, location_id)
+    *,
+    sum(count_records) OVER (PARTITION BY event_id, warehouse_code, stock_code, lot_number, location_id) AS all_records
+  FROM sequence_totals
+  ORDER BY event_id, warehouse_code, stock_code, lot_number, location_id, count_sequence DESC
+)
+SELECT
+  a.event_id,
+  a.warehouse_code,
+  a.stock_code,
+  a.lot_number,
+  a.location_id,
+  COALESCE(wl.code, a.location_code) AS location_code,
+  wl.zone,
+  wl.aisle,
+  wl.bay,
+  wl.level,
+  a.all_records::bigint AS count_records,
+  a.counted_units
+FROM authoritative a
+LEFT JOIN public.warehouse_locations wl ON wl.id = a.location_id;
@@ -0,0 +1,365 @@
+/*
+  # Recounts supersede the counts they replace
+
+  - counts gains recount_task_id, superseded_at and superseded_by
+  - apply_recount marks the earlier counts of the same stock code, lot and location as superseded by the recount
+    and closes its recount task in one transaction; it is only callable by the service role, so submit-count
+    does this rather than the client
+  - counts_totals_mv and counts_by_location_view leave superseded counts out, so a recount replaces the original
+    figure instead of adding to it
+  - reconcile_double_count leaves superseded counts out as well and runs again when a count is superseded
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'counts' AND column_name = 'recount_task_id'
+  ) THEN
+    ALTER TABLE public.counts
+      ADD COLUMN recount_task_id uuid REFERENCES public.recount_tasks(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'counts' AND column_name = 'superseded_at'
+  ) THEN
+    ALTER TABLE public.counts ADD COLUMN superseded_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'counts' AND column_name = 'superseded_by'
+  ) THEN
+    ALTER TABLE public.counts
+      ADD COLUMN superseded_by uuid REFERENCES public.counts(id) ON DELETE SET NULL;
+  END IF;
+END$$;
+
+CREATE INDEX IF NOT EXISTS idx_counts_recount_task ON public.counts(recount_task_id) WHERE recount_task_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.apply_recount(p_count_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public AS $$
+DECLARE
+  v_count public.counts%ROWTYPE;
+  v_superseded integer;
+BEGIN
+  SELECT * INTO v_count FROM public.counts WHERE id = p_count_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Count not found';
+  END IF;
+
+  IF v_count.recount_task_id IS NULL THEN
+    RAISE EXCEPTION 'Count % is not a recount', p_count_id;
+  END IF;
+
+  PERFORM 1 FROM public.recount_tasks WHERE id = v_count.recount_task_id FOR UPDATE;
+
+  -- Other counts submitted for the same task are part of the recount, so they are never superseded by it
+  UPDATE public.counts c
+  SET superseded_at = now(),
+      superseded_by = v_count.id
+  WHERE c.event_id = v_count.event_id
+    AND c.warehouse_code = v_count.warehouse_code
+    AND c.stock_code = v_count.stock_code
+    AND NULLIF(c.lot_number, '') IS NOT DISTINCT FROM NULLIF(v_count.lot_number, '')
+    AND c.location_id IS NOT DISTINCT FROM v_count.location_id
+    AND c.recount_task_id IS DISTINCT FROM v_count.recount_task_id
+    AND c.created_at <= v_count.created_at
+    AND c.id <> v_count.id
+    AND c.voided_at IS NULL
+    AND c.superseded_at IS NULL;
+
+  GET DIAGNOSTICS v_superseded = ROW_COUNT;
+
+  UPDATE public.recount_tasks
+  SET status = 'done',
+      completed_at = now()
+  WHERE id = v_count.recount_task_id
+    AND status = 'open';
+
+  RETURN v_superseded;
+END;
+$$;
+
+COMMENT ON FUNCTION public.apply_recount IS 'Supersedes the counts a recount replaces and closes its recount task';
+
+REVOKE EXECUTE ON FUNCTION public.apply_recount(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_recount(uuid) TO service_role;
+
+-- A recount replaces the counts it supersedes in the double-count comparison too
+CREATE OR REPLACE FUNCTION public.reconcile_double_count(
+  p_event_id uuid,
+  p_warehouse_code text,
+  p_stock_code text,
+  p_lot_number text,
+  p_location_id uuid
+)
+RETURNS public.double_count_reconciliations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public AS $$
+DECLARE
+  v_lot text := NULLIF(p_lot_number, '');
+  v_first bigint;
+  v_second bigint;
+  v_third bigint;
+  v_tolerance numeric;
+  v_status text;
+  v_reconciliation public.double_count_reconciliations%ROWTYPE;
+  v_task_id uuid;
+  v_assignee uuid;
+BEGIN
+  SELECT
+    sum(total_units) FILTER (WHERE count_sequence = 1),
+    sum(total_units) FILTER (WHERE count_sequence = 2),
+    sum(total_units) FILTER (WHERE count_sequence = 3)
+  INTO v_first, v_second, v_third
+  FROM counts
+  WHERE event_id = p_event_id
+    AND warehouse_code = p_warehouse_code
+    AND stock_code = p_stock_code
+    AND NULLIF(lot_number, '') IS NOT DISTINCT FROM v_lot
+    AND location_id IS NOT DISTINCT FROM p_location_id
+    AND voided_at IS NULL
+    AND superseded_at IS NULL;
+
+  SELECT double_count_tolerance_pct INTO v_tolerance FROM stocktake_events WHERE id = p_event_id;
+
+  IF v_third IS NOT NULL THEN
+    v_status := 'resolved';
+  ELSIF v_first IS NULL OR v_second IS NULL THEN
+    v_status := 'awaiting_second';
+  ELSIF abs(v_first - v_second) <= GREATEST(v_first, v_second) * COALESCE(v_tolerance, 0) / 100 THEN
+    v_status := 'matched';
+  ELSE
+    v_status := 'mismatch';
+  END IF;
+
+  SELECT * INTO v_reconciliation
+  FROM double_count_reconciliations
+  WHERE event_id = p_event_id
+    AND warehouse_code = p_warehouse_code
+    AND stock_code = p_stock_code
+    AND lot_number IS NOT DISTINCT FROM v_lot
+    AND location_id IS NOT DISTINCT FROM p_location_id
+  FOR UPDATE;
+
+  v_task_id := v_reconciliation.recount_task_id;
+
+  IF v_status = 'mismatch' AND (
+    v_task_id IS NULL
+    OR NOT EXISTS (SELECT 1 FROM recount_tasks WHERE id = v_task_id AND status = 'open')
+  ) THEN
+    -- The third count goes to a stock taker who did neither of the first two, preferring the least busy
+    SELECT uwa.user_id INTO v_assignee
+    FROM user_warehouse_assignments uwa
+    JOIN user_profiles up ON up.id = uwa.user_id AND up.role = 'stocktaker'
+    WHERE uwa.warehouse_code = p_warehouse_code
+      AND NOT EXISTS (
+        SELECT 1 FROM counts c
+        WHERE c.counted_by = uwa.user_id
+          AND c.event_id = p_event_id
+          AND c.warehouse_code = p_warehouse_code
+          AND c.stock_code = p_stock_code
+          AND NULLIF(c.lot_number, '') IS NOT DISTINCT FROM v_lot
+          AND c.location_id IS NOT DISTINCT FROM p_location_id
+          AND c.voided_at IS NULL
+      )
+    ORDER BY (
+      SELECT count(*) FROM recount_tasks rt
+      WHERE rt.assigned_to = uwa.user_id AND rt.status = 'open'
+    ), uwa.user_id
+    LIMIT 1;
+
+    IF v_assignee IS NOT NULL THEN
+      INSERT INTO recount_tasks (
+        event_id,
+        warehouse_code,
+        stock_code,
+        lot_number,
+        location_id,
+        location,
+        assigned_to,
+        status,
+        notes
+      )
+      VALUES (
+        p_event_id,
+        p_warehouse_code,
+        p_stock_code,
+        v_lot,
+        p_location_id,
+        (SELECT code FROM warehouse_locations WHERE id = p_location_id),
+        v_assignee,
+        'open',
+        'Third count: the first and second counts disagree'
+      )
+      RETURNING id INTO v_task_id;
+    ELSE
+      RAISE WARNING 'No independent stock taker available for the third count of % in %', p_stock_code, p_warehouse_code;
+    END IF;
+  ELSIF v_status = 'matched' AND v_task_id IS NOT NULL THEN
+    -- A later correction brought the counts back into agreement
+    UPDATE recount_tasks SET status = 'cancelled' WHERE id = v_task_id AND status = 'open';
+  END IF;
+
+  IF v_reconciliation.id IS NULL THEN
+    INSERT INTO double_count_reconciliations (
+      event_id,
+      warehouse_code,
+      stock_code,
+      lot_number,
+      location_id,
+      first_count_units,
+      second_count_units,
+      third_count_units,
+      status,
+      recount_task_id
+    )
+    VALUES (p_event_id, p_warehouse_code, p_stock_code, v_lot, p_location_id, v_first, v_second, v_third, v_status, v_task_id)
+    RETURNING * INTO v_reconciliation;
+  ELSE
+    UPDATE double_count_reconciliations
+    SET first_count_units = v_first,
+        second_count_units = v_second,
+        third_count_units = v_third,
+        status = v_status,
+        recount_task_id = v_task_id
+    WHERE id = v_reconciliation.id
+    RETURNING * INTO v_reconciliation;
+  END IF;
+
+  RETURN v_reconciliation;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reconcile_double_count(uuid, text, text, text, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reconcile_double_count(uuid, text, text, text, uuid) TO service_role;
+
+DROP TRIGGER IF EXISTS counts_reconcile_double_count ON public.counts;
+CREATE TRIGGER counts_reconcile_double_count
+  AFTER INSERT OR UPDATE OF total_units, lot_number, voided_at, superseded_at ON public.counts
+  FOR EACH ROW EXECUTE FUNCTION public.reconcile_double_count_on_change();
+
+-- Rebuild the totals without superseded counts
+DROP VIEW IF EXISTS public.manager_variance_view;
+DROP MATERIALIZED VIEW IF EXISTS public.counts_totals_mv;
+
+CREATE MATERIALIZED VIEW public.counts_totals_mv AS
+WITH sequence_totals AS (
+  SELECT
+    c.event_id,
+    c.warehouse_code,
+    c.stock_code,
+    COALESCE(NULLIF(c.lot_number, ''), 'UNSPECIFIED') AS lot_number,
+    c.location_id,
+    c.count_sequence,
+    max(NULLIF(c.product_description, '')) AS product_description,
+    sum(c.total_units) AS counted_units
+  FROM public.counts c
+  WHERE c.voided_at IS NULL
+    AND c.superseded_at IS NULL
+  GROUP BY c.event_id, c.warehouse_code, c.stock_code, COALESCE(NULLIF(c.lot_number, ''), 'UNSPECIFIED'), c.location_id, c.count_sequence
+),
+authoritative AS (
+  SELECT DISTINCT ON (event_id, warehouse_code, stock_code, lot_number, location_id) *
+  FROM sequence_totals
+  ORDER BY event_id, warehouse_code, stock_code, lot_number, location_id, count_sequence DESC
+)
+SELECT
+  a.event_id,
+  a.warehouse_code,
+  a.stock_code,
+  a.lot_number,
+  max(COALESCE(a.product_description, p.description, p.product_name, a.stock_code)) AS product_description,
+  sum(a.counted_units) AS counted_units,
+  max(p.expected_quantity) AS expected_units
+FROM authoritative a
+LEFT JOIN public.products p
+  ON (
+    (p.stock_code IS NOT NULL AND p.stock_code = a.stock_code)
+    OR (p.barcode IS NOT NULL AND p.barcode = a.stock_code)
+  )
+GROUP BY a.event_id, a.warehouse_code, a.stock_code, a.lot_number;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_counts_totals_mv_key
+  ON public.counts_totals_mv (event_id, warehouse_code, stock_code, lot_number);
+
+REVOKE ALL ON public.counts_totals_mv FROM anon, authenticated;
+
+CREATE OR REPLACE VIEW public.manager_variance_view AS
+SELECT
+  mv.event_id,
+  mv.warehouse_code,
+  mv.stock_code,
+  mv.product_description AS description,
+  NULLIF(mv.lot_number, 'UNSPECIFIED') AS lot_number,
+  (mv.counted_units - COALESCE(mv.expected_units, 0)) AS variance_units
+FROM public.counts_totals_mv mv
+JOIN public.stocktake_events e ON e.id = mv.event_id
+WHERE EXISTS (
+    SELECT 1 FROM public.user_profiles up
+    WHERE up.id = auth.uid()
+      AND up.role = 'admin'
+  )
+  OR (
+    EXISTS (
+      SELECT 1 FROM public.user_warehouse_assignments uwa
+      WHERE uwa.user_id = auth.uid()
+        AND uwa.warehouse_code = mv.warehouse_code
+    )
+    AND (
+      e.counting_mode = 'guided'
+      OR EXISTS (
+        SELECT 1 FROM public.user_profiles up
+        WHERE up.id = auth.uid()
+          AND up.role = 'manager'
+      )
+    )
+  );
+
+CREATE OR REPLACE VIEW public.counts_by_location_view
+WITH (security_invoker = true) AS
+WITH sequence_totals AS (
+  SELECT
+    c.event_id,
+    c.warehouse_code,
+    c.stock_code,
+    NULLIF(c.lot_number, '') AS lot_number,
+    c.location_id,
+    max(c.location_code) AS location_code,
+    c.count_sequence,
+    count(*) AS count_records,
+    sum(c.total_units) AS counted_units
+  FROM public.counts c
+  WHERE c.voided_at IS NULL
+    AND c.superseded_at IS NULL
+  GROUP BY c.event_id, c.warehouse_code, c.stock_code, NULLIF(c.lot_number, ''), c.location_id, c.count_sequence
+),
+authoritative AS (
+  SELECT DISTINCT ON (event_id, warehouse_code, stock_code, lot_number, location_id)
+    *,
+    sum(count_records) OVER (PARTITION BY event_id, warehouse_code, stock_code, lot_number, location_id) AS all_records
+  FROM sequence_totals
+  ORDER BY event_id, warehouse_code, stock_code, lot_number, location_id, count_sequence DESC
+)
+SELECT
+  a.event_id,
+  a.warehouse_code,
+  a.stock_code,
+  a.lot_number,
+  a.location_id,
+  COALESCE(wl.code, a.location_code) AS location_code,
+  wl.zone,
+  wl.aisle,
+  wl.bay,
+  wl.level,
+  a.all_records::bigint AS count_records,
+  a.counted_units
+FROM authoritative a
+LEFT JOIN public.warehouse_locations wl ON wl.id = a.location_id;
@@ -0,0 +1,432 @@
+/*
+  # Keep counts of products that are not in the master
+
+  - counts gains resolution_status ('resolved' or 'unresolved'), scanned_identifier and scanned_identifier_type,
+    plus resolved_at and resolved_by; submit-count stores an unresolved count with its photo instead of
+    rejecting it, and the photo's OCR results land in the existing extracted_* columns
+  - Unresolved counts hold the scanned identifier in stock_code until an admin or manager maps them to a product
+    through the resolve-count edge function
+  - counts_totals_mv and counts_by_location_view leave unresolved counts out until they are mapped
+  - Double counting leaves unresolved counts out too: they take count sequence 1 and no part in reconciliation, and
+    resolving one assigns its sequence and reconciles it under the product it was mapped to
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'counts' AND column_name = 'resolution_status'
+  ) THEN
+    ALTER TABLE public.counts
+      ADD COLUMN resolution_status text NOT NULL DEFAULT 'resolved'
+      CHECK (resolution_status IN ('resolved', 'unresolved'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'counts' AND column_name = 'scanned_identifier'
+  ) THEN
+    ALTER TABLE public.counts ADD COLUMN scanned_identifier text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'counts' AND column_name = 'scanned_identifier_type'
+  ) THEN
+    ALTER TABLE public.counts
+      ADD COLUMN scanned_identifier_type text
+      CHECK (scanned_identifier_type IN ('stock_code', 'case_barcode', 'unit_barcode', 'barcode'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'counts' AND column_name = 'resolved_at'
+  ) THEN
+    ALTER TABLE public.counts ADD COLUMN resolved_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'counts' AND column_name = 'resolved_by'
+  ) THEN
+    ALTER TABLE public.counts ADD COLUMN resolved_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+  END IF;
+END$$;
+
+CREATE INDEX IF NOT EXISTS idx_counts_unresolved
+  ON public.counts(event_id, warehouse_code, scanned_identifier)
+  WHERE resolution_status = 'unresolved';
+
+-- Until resolve-count maps it, an unresolved count's stock_code is only the scanned identifier, so it takes no part
+-- in double counting. Resolving it gives it a sequence under the real product.
+CREATE OR REPLACE FUNCTION public.assign_count_sequence()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public AS $$
+DECLARE
+  v_existing smallint;
+  v_next integer;
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND OLD.stock_code IS NOT DISTINCT FROM NEW.stock_code
+    AND OLD.resolution_status IS NOT DISTINCT FROM NEW.resolution_status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.resolution_status = 'unresolved' OR NOT public.requires_double_count(NEW.event_id, NEW.stock_code) THEN
+    NEW.count_sequence := 1;
+    RETURN NEW;
+  END IF;
+
+  -- Serialise counters of the same key so two first counts cannot race each other
+  PERFORM pg_advisory_xact_lock(hashtext(concat_ws(
+    '|', NEW.event_id, NEW.warehouse_code, NEW.stock_code, NULLIF(NEW.lot_number, ''), NEW.location_id
+  )));
+
+  SELECT c.count_sequence INTO v_existing
+  FROM counts c
+  WHERE c.event_id = NEW.event_id
+    AND c.warehouse_code = NEW.warehouse_code
+    AND c.stock_code = NEW.stock_code
+    AND NULLIF(c.lot_number, '') IS NOT DISTINCT FROM NULLIF(NEW.lot_number, '')
+    AND c.location_id IS NOT DISTINCT FROM NEW.location_id
+    AND c.counted_by = NEW.counted_by
+    AND c.voided_at IS NULL
+    AND c.resolution_status = 'resolved'
+    AND c.id <> NEW.id
+  ORDER BY c.count_sequence DESC
+  LIMIT 1;
+
+  IF v_existing IS NOT NULL THEN
+    NEW.count_sequence := v_existing;
+  ELSE
+    SELECT COALESCE(max(c.count_sequence), 0) + 1 INTO v_next
+    FROM counts c
+    WHERE c.event_id = NEW.event_id
+      AND c.warehouse_code = NEW.warehouse_code
+      AND c.stock_code = NEW.stock_code
+      AND NULLIF(c.lot_number, '') IS NOT DISTINCT FROM NULLIF(NEW.lot_number, '')
+      AND c.location_id IS NOT DISTINCT FROM NEW.location_id
+      AND c.voided_at IS NULL
+      AND c.resolution_status = 'resolved'
+      AND c.id <> NEW.id;
+
+    -- A fourth counter would be summed into the third count, so the key takes no further counters
+    IF v_next > 3 THEN
+      RAISE EXCEPTION USING
+        ERRCODE = 'check_violation',
+        MESSAGE = format('%s has already been counted by three counters at this location', NEW.stock_code);
+    END IF;
+    NEW.count_sequence := v_next;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS counts_assign_sequence ON public.counts;
+CREATE TRIGGER counts_assign_sequence
+  BEFORE INSERT OR UPDATE OF stock_code, resolution_status ON public.counts
+  FOR EACH ROW EXECUTE FUNCTION public.assign_count_sequence();
+
+CREATE OR REPLACE FUNCTION public.reconcile_double_count(
+  p_event_id uuid,
+  p_warehouse_code text,
+  p_stock_code text,
+  p_lot_number text,
+  p_location_id uuid
+)
+RETURNS public.double_count_reconciliations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public AS $$
+DECLARE
+  v_lot text := NULLIF(p_lot_number, '');
+  v_first bigint;
+  v_second bigint;
+  v_third bigint;
+  v_tolerance numeric;
+  v_status text;
+  v_reconciliation public.double_count_reconciliations%ROWTYPE;
+  v_task_id uuid;
+  v_assignee uuid;
+BEGIN
+  SELECT
+    sum(total_units) FILTER (WHERE count_sequence = 1),
+    sum(total_units) FILTER (WHERE count_sequence = 2),
+    sum(total_units) FILTER (WHERE count_sequence = 3)
+  INTO v_first, v_second, v_third
+  FROM counts
+  WHERE event_id = p_event_id
+    AND warehouse_code = p_warehouse_code
+    AND stock_code = p_stock_code
+    AND NULLIF(lot_number, '') IS NOT DISTINCT FROM v_lot
+    AND location_id IS NOT DISTINCT FROM p_location_id
+    AND voided_at IS NULL
+    AND superseded_at IS NULL
+    AND resolution_status = 'resolved';
+
+  SELECT double_count_tolerance_pct INTO v_tolerance FROM stocktake_events WHERE id = p_event_id;
+
+  IF v_third IS NOT NULL THEN
+    v_status := 'resolved';
+  ELSIF v_first IS NULL OR v_second IS NULL THEN
+    v_status := 'awaiting_second';
+  ELSIF abs(v_first - v_second) <= GREATEST(v_first, v_second) * COALESCE(v_tolerance, 0) / 100 THEN
+    v_status := 'matched';
+  ELSE
+    v_status := 'mismatch';
+  END IF;
+
+  SELECT * INTO v_reconciliation
+  FROM double_count_reconciliations
+  WHERE event_id = p_event_id
+    AND warehouse_code = p_warehouse_code
+    AND stock_code = p_stock_code
+    AND lot_number IS NOT DISTINCT FROM v_lot
+    AND location_id IS NOT DISTINCT FROM p_location_id
+  FOR UPDATE;
+
+  v_task_id := v_reconciliation.recount_task_id;
+
+  IF v_status = 'mismatch' AND (
+    v_task_id IS NULL
+    OR NOT EXISTS (SELECT 1 FROM recount_tasks WHERE id = v_task_id AND status = 'open')
+  ) THEN
+    -- The third count goes to a stock taker who did neither of the first two, preferring the least busy
+    SELECT uwa.user_id INTO v_assignee
+    FROM user_warehouse_assignments uwa
+    JOIN user_profiles up ON up.id = uwa.user_id AND up.role = 'stocktaker'
+    WHERE uwa.warehouse_code = p_warehouse_code
+      AND NOT EXISTS (
+        SELECT 1 FROM counts c
+        WHERE c.counted_by = uwa.user_id
+          AND c.event_id = p_event_id
+          AND c.warehouse_code = p_warehouse_code
+          AND c.stock_code = p_stock_code
+          AND NULLIF(c.lot_number, '') IS NOT DISTINCT FROM v_lot
+          AND c.location_id IS NOT DISTINCT FROM p_location_id
+          AND c.voided_at IS NULL
+      )
+    ORDER BY (
+      SELECT count(*) FROM recount_tasks rt
+      WHERE rt.assigned_to = uwa.user_id AND rt.status = 'open'
+    ), uwa.user_id
+    LIMIT 1;
+
+    IF v_assignee IS NOT NULL THEN
+      INSERT INTO recount_tasks (
+        event_id,
+        warehouse_code,
+        stock_code,
+        lot_number,
+        location_id,
+        location,
+        assigned_to,
+        status,
+        notes
+      )
+      VALUES (
+        p_event_id,
+        p_warehouse_code,
+        p_stock_code,
+        v_lot,
+        p_location_id,
+        (SELECT code FROM warehouse_locations WHERE id = p_location_id),
+        v_assignee,
+        'open',
+        'Third count: the first and second counts disagree'
+      )
+      RETURNING id INTO v_task_id;
+    ELSE
+      RAISE WARNING 'No independent stock taker available for the third count of % in %', p_stock_code, p_warehouse_code;
+    END IF;
+  ELSIF v_status = 'matched' AND v_task_id IS NOT NULL THEN
+    -- A later correction brought the counts back into agreement
+    UPDATE recount_tasks SET status = 'cancelled' WHERE id = v_task_id AND status = 'open';
+  END IF;
+
+  IF v_reconciliation.id IS NULL THEN
+    INSERT INTO double_count_reconciliations (
+      event_id,
+      warehouse_code,
+      stock_code,
+      lot_number,
+      location_id,
+      first_count_units,
+      second_count_units,
+      third_count_units,
+      status,
+      recount_task_id
+    )
+    VALUES (p_event_id, p_warehouse_code, p_stock_code, v_lot, p_location_id, v_first, v_second, v_third, v_status, v_task_id)
+    RETURNING * INTO v_reconciliation;
+  ELSE
+    UPDATE double_count_reconciliations
+    SET first_count_units = v_first,
+        second_count_units = v_second,
+        third_count_units = v_third,
+        status = v_status,
+        recount_task_id = v_task_id
+    WHERE id = v_reconciliation.id
+    RETURNING * INTO v_reconciliation;
+  END IF;
+
+  RETURN v_reconciliation;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reconcile_double_count(uuid, text, text, text, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reconcile_double_count(uuid, text, text, text, uuid) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.reconcile_double_count_on_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public AS $$
+BEGIN
+  IF NEW.resolution_status = 'resolved' AND public.requires_double_count(NEW.event_id, NEW.stock_code) THEN
+    PERFORM public.reconcile_double_count(NEW.event_id, NEW.warehouse_code, NEW.stock_code, NEW.lot_number, NEW.location_id);
+  END IF;
+
+  -- An edited lot or stock code moves the count to another key, so the key it left needs comparing again
+  IF TG_OP = 'UPDATE'
+    AND OLD.resolution_status = 'resolved'
+    AND (
+      OLD.stock_code IS DISTINCT FROM NEW.stock_code
+      OR NULLIF(OLD.lot_number, '') IS DISTINCT FROM NULLIF(NEW.lot_number, '')
+    )
+    AND public.requires_double_count(OLD.event_id, OLD.stock_code) THEN
+    PERFORM public.reconcile_double_count(OLD.event_id, OLD.warehouse_code, OLD.stock_code, OLD.lot_number, OLD.location_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS counts_reconcile_double_count ON public.counts;
+CREATE TRIGGER counts_reconcile_double_count
+  AFTER INSERT OR UPDATE OF total_units, lot_number, voided_at, superseded_at, stock_code, resolution_status
+  ON public.counts
+  FOR EACH ROW EXECUTE FUNCTION public.reconcile_double_count_on_change();
+
+-- Rebuild the totals without unresolved counts
+DROP VIEW IF EXISTS public.manager_variance_view;
+DROP MATERIALIZED VIEW IF EXISTS public.counts_totals_mv;
+
+CREATE MATERIALIZED VIEW public.counts_totals_mv AS
+WITH sequence_totals AS (
+  SELECT
+    c.event_id,
+    c.warehouse_code,
+    c.stock_code,
+    COALESCE(NULLIF(c.lot_number, ''), 'UNSPECIFIED') AS lot_number,
+    c.location_id,
+    c.count_sequence,
+    max(NULLIF(c.product_description, '')) AS product_description,
+    sum(c.total_units) AS counted_units
+  FROM public.counts c
+  WHERE c.voided_at IS NULL
+    AND c.superseded_at IS NULL
+    AND c.resolution_status = 'resolved'
+  GROUP BY c.event_id, c.warehouse_code, c.stock_code, COALESCE(NULLIF(c.lot_number, ''), 'UNSPECIFIED'), c.location_id, c.count_sequence
+),
+authoritative AS (
+  SELECT DISTINCT ON (event_id, warehouse_code, stock_code, lot_number, location_id) *
+  FROM sequence_totals
+  ORDER BY event_id, warehouse_code, stock_code, lot_number, location_id, count_sequence DESC
+)
+SELECT
+  a.event_id,
+  a.warehouse_code,
+  a.stock_code,
+  a.lot_number,
+  max(COALESCE(a.product_description, p.description, p.product_name, a.stock_code)) AS product_description,
+  sum(a.counted_units) AS counted_units,
+  max(p.expected_quantity) AS expected_units
+FROM authoritative a
+LEFT JOIN public.products p
+  ON (
+    (p.stock_code IS NOT NULL AND p.stock_code = a.stock_code)
+    OR (p.barcode IS NOT NULL AND p.barcode = a.stock_code)
+  )
+GROUP BY a.event_id, a.warehouse_code, a.stock_code, a.lot_number;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_counts_totals_mv_key
+  ON public.counts_totals_mv (event_id, warehouse_code, stock_code, lot_number);
+
+REVOKE ALL ON public.counts_totals_mv FROM anon, authenticated;
+
+CREATE OR REPLACE VIEW public.manager_variance_view AS
+SELECT
+  mv.event_id,
+  mv.warehouse_code,
+  mv.stock_code,
+  mv.product_description AS description,
+  NULLIF(mv.lot_number, 'UNSPECIFIED') AS lot_number,
+  (mv.counted_units - COALESCE(mv.expected_units, 0)) AS variance_units
+FROM public.counts_totals_mv mv
+JOIN public.stocktake_events e ON e.id = mv.event_id
+WHERE EXISTS (
+    SELECT 1 FROM public.user_profiles up
+    WHERE up.id = auth.uid()
+      AND up.role = 'admin'
+  )
+  OR (
+    EXISTS (
+      SELECT 1 FROM public.user_warehouse_assignments uwa
+      WHERE uwa.user_id = auth.uid()
+        AND uwa.warehouse_code = mv.warehouse_code
+    )
+    AND (
+      e.counting_mode = 'guided'
+      OR EXISTS (
+        SELECT 1 FROM public.user_profiles up
+        WHERE up.id = auth.uid()
+          AND up.role = 'manager'
+      )
+    )
+  );
+
+CREATE OR REPLACE VIEW public.counts_by_location_view
+WITH (security_invoker = true) AS
+WITH sequence_totals AS (
+  SELECT
+    c.event_id,
+    c.warehouse_code,
+    c.stock_code,
+    NULLIF(c.lot_number, '') AS lot_number,
+    c.location_id,
+    max(c.location_code) AS location_code,
+    c.count_sequence,
+    count(*) AS count_records,
+    sum(c.total_units) AS counted_units
+  FROM public.counts c
+  WHERE c.voided_at IS NULL
+    AND c.superseded_at IS NULL
+    AND c.resolution_status = 'resolved'
+  GROUP BY c.event_id, c.warehouse_code, c.stock_code, NULLIF(c.lot_number, ''), c.location_id, c.count_sequence
+),
+authoritative AS (
+  SELECT DISTINCT ON (event_id, warehouse_code, stock_code, lot_number, location_id)
+    *,
+    sum(count_records) OVER (PARTITION BY event_id, warehouse_code, stock_code, lot_number, location_id) AS all_records
+  FROM sequence_totals
+  ORDER BY event_id, warehouse_code, stock_code, lot_number, location_id, count_sequence DESC
+)
+SELECT
+  a.event_id,
+  a.warehouse_code,
+  a.stock_code,
+  a.lot_number,
+  a.location_id,
+  COALESCE(wl.code, a.location_code) AS location_code,
+  wl.zone,
+  wl.aisle,
+  wl.bay,
+  wl.level,
+  a.all_records::bigint AS count_records,
+  a.counted_units
+FROM authoritative a
+LEFT JOIN public.warehouse_locations wl ON wl.id = a.location_id;
@@ -0,0 +1,16 @@
+/*
+  # Filling date on counts
+
+  - counts.filling_date holds the production date the counter confirmed, usually pre-filled from the (11) element of
+    a GS1-128 label; extracted_filling_date stays the value read from the photo
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'counts' AND column_name = 'filling_date'
+  ) THEN
+    ALTER TABLE public.counts ADD COLUMN filling_date date;
+  END IF;
+END$$;
@@ -0,0 +1,241 @@
+/*
+  # Pallet register
+
+  - counts.pallet_id records the SSCC or license plate of the pallet a bulk count covered
+  - pallet_register holds one row per pallet and event, pointing at the count that first counted it; a trigger fills
+    it on insert, frees the pallet when that count is voided and hands it over to recounts
+  - stocktake_events.duplicate_pallet_mode decides what happens to a second count of a registered pallet: 'reject'
+    (default) refuses it in submit-count, 'flag' saves it with duplicate_pallet_of set. A pallet claimed between
+    submit-count's check and the insert, by an earlier row of the same batch or a concurrent count, is handled by
+    the trigger the same way
+  - Second and third counts of a double-counted product are not checked against the register and do not claim the
+    pallet, since they count the first counter's pallets on purpose
+  - pallet_count_attempts logs every second count for the manager report; submit-count writes rejected attempts and
+    the trigger writes flagged ones
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'counts' AND column_name = 'pallet_id'
+  ) THEN
+    ALTER TABLE public.counts ADD COLUMN pallet_id text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'counts' AND column_name = 'duplicate_pallet_of'
+  ) THEN
+    ALTER TABLE public.counts ADD COLUMN duplicate_pallet_of uuid REFERENCES public.counts(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'stocktake_events' AND column_name = 'duplicate_pallet_mode'
+  ) THEN
+    ALTER TABLE public.stocktake_events
+      ADD COLUMN duplicate_pallet_mode text NOT NULL DEFAULT 'reject'
+      CHECK (duplicate_pallet_mode IN ('reject', 'flag'));
+  END IF;
+END$$;
+
+CREATE TABLE IF NOT EXISTS public.pallet_register (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES public.stocktake_events(id) ON DELETE CASCADE,
+  pallet_id text NOT NULL,
+  warehouse_code text NOT NULL,
+  count_id uuid NOT NULL UNIQUE REFERENCES public.counts(id) ON DELETE CASCADE,
+  location_code text,
+  counted_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  counted_by_name text,
+  counted_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT pallet_register_event_pallet_key UNIQUE (event_id, pallet_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.pallet_count_attempts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES public.stocktake_events(id) ON DELETE CASCADE,
+  pallet_id text NOT NULL,
+  warehouse_code text NOT NULL,
+  location_code text,
+  stock_code text,
+  outcome text NOT NULL CHECK (outcome IN ('rejected', 'flagged')),
+  count_id uuid REFERENCES public.counts(id) ON DELETE SET NULL,
+  attempted_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  attempted_by_name text,
+  first_count_id uuid REFERENCES public.counts(id) ON DELETE SET NULL,
+  first_warehouse_code text,
+  first_location_code text,
+  first_counted_by_name text,
+  first_counted_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pallet_count_attempts_event
+  ON public.pallet_count_attempts(event_id, warehouse_code, created_at DESC);
+
+ALTER TABLE public.pallet_register ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.pallet_count_attempts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Pallet register select for managers" ON public.pallet_register;
+
+CREATE POLICY "Pallet register select for managers"
+  ON public.pallet_register FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_profiles.id = auth.uid()
+        AND user_profiles.role = 'admin'
+    )
+    OR EXISTS (
+      SELECT 1
+      FROM public.user_profiles up
+      JOIN public.user_warehouse_assignments uwa ON uwa.user_id = up.id
+      WHERE up.id = auth.uid()
+        AND up.role = 'manager'
+        AND uwa.warehouse_code = pallet_register.warehouse_code
+    )
+  );
+
+DROP POLICY IF EXISTS "Pallet count attempts select for managers" ON public.pallet_count_attempts;
+
+CREATE POLICY "Pallet count attempts select for managers"
+  ON public.pallet_count_attempts FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_profiles.id = auth.uid()
+        AND user_profiles.role = 'admin'
+    )
+    OR EXISTS (
+      SELECT 1
+      FROM public.user_profiles up
+      JOIN public.user_warehouse_assignments uwa ON uwa.user_id = up.id
+      WHERE up.id = auth.uid()
+        AND up.role = 'manager'
+        AND uwa.warehouse_code = pallet_count_attempts.warehouse_code
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.register_counted_pallet()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_name text;
+  v_duplicate_of uuid := NEW.duplicate_pallet_of;
+BEGIN
+  IF NEW.pallet_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Second and third counts of a double-counted product cover the first counter's pallets on purpose
+  IF NEW.recount_task_id IS NULL
+    AND NEW.count_sequence > 1
+    AND public.requires_double_count(NEW.event_id, NEW.stock_code) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT full_name INTO v_name FROM user_profiles WHERE id = NEW.counted_by;
+
+  IF v_duplicate_of IS NULL AND NEW.recount_task_id IS NOT NULL THEN
+    -- A recount takes the pallet over from the count it replaces
+    INSERT INTO pallet_register (event_id, pallet_id, warehouse_code, count_id, location_code, counted_by, counted_by_name)
+    VALUES (NEW.event_id, NEW.pallet_id, NEW.warehouse_code, NEW.id, NEW.location_code, NEW.counted_by, v_name)
+    ON CONFLICT (event_id, pallet_id) DO UPDATE
+      SET warehouse_code = EXCLUDED.warehouse_code,
+          count_id = EXCLUDED.count_id,
+          location_code = EXCLUDED.location_code,
+          counted_by = EXCLUDED.counted_by,
+          counted_by_name = EXCLUDED.counted_by_name,
+          counted_at = now();
+  ELSIF v_duplicate_of IS NULL THEN
+    INSERT INTO pallet_register (event_id, pallet_id, warehouse_code, count_id, location_code, counted_by, counted_by_name)
+    VALUES (NEW.event_id, NEW.pallet_id, NEW.warehouse_code, NEW.id, NEW.location_code, NEW.counted_by, v_name)
+    ON CONFLICT (event_id, pallet_id) DO NOTHING;
+
+    -- The pallet was claimed after submit-count's check, by an earlier row of the same batch or a concurrent count
+    IF NOT FOUND THEN
+      IF (SELECT duplicate_pallet_mode FROM stocktake_events WHERE id = NEW.event_id) IS DISTINCT FROM 'flag' THEN
+        RAISE EXCEPTION USING
+          ERRCODE = 'unique_violation',
+          CONSTRAINT = 'pallet_register_event_pallet_key',
+          MESSAGE = 'duplicate key value violates unique constraint "pallet_register_event_pallet_key"';
+      END IF;
+
+      SELECT count_id INTO v_duplicate_of
+      FROM pallet_register
+      WHERE event_id = NEW.event_id AND pallet_id = NEW.pallet_id;
+
+      UPDATE counts SET duplicate_pallet_of = v_duplicate_of WHERE id = NEW.id;
+    END IF;
+  END IF;
+
+  IF v_duplicate_of IS NOT NULL THEN
+    INSERT INTO pallet_count_attempts (
+      event_id,
+      pallet_id,
+      warehouse_code,
+      location_code,
+      stock_code,
+      outcome,
+      count_id,
+      attempted_by,
+      attempted_by_name,
+      first_count_id,
+      first_warehouse_code,
+      first_location_code,
+      first_counted_by_name,
+      first_counted_at
+    )
+    SELECT
+      NEW.event_id,
+      NEW.pallet_id,
+      NEW.warehouse_code,
+      NEW.location_code,
+      NEW.stock_code,
+      'flagged',
+      NEW.id,
+      NEW.counted_by,
+      v_name,
+      r.count_id,
+      r.warehouse_code,
+      r.location_code,
+      r.counted_by_name,
+      r.counted_at
+    FROM (SELECT 1) AS one
+    LEFT JOIN pallet_register r ON r.count_id = v_duplicate_of;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS counts_register_pallet ON public.counts;
+CREATE TRIGGER counts_register_pallet
+  AFTER INSERT ON public.counts
+  FOR EACH ROW EXECUTE FUNCTION public.register_counted_pallet();
+
+CREATE OR REPLACE FUNCTION public.release_voided_pallet()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.voided_at IS NOT NULL AND OLD.voided_at IS NULL THEN
+    DELETE FROM pallet_register WHERE count_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS counts_release_pallet ON public.counts;
+CREATE TRIGGER counts_release_pallet
+  AFTER UPDATE OF voided_at ON public.counts
+  FOR EACH ROW EXECUTE FUNCTION public.release_voided_pallet();
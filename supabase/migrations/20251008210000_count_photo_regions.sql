@@ -0,0 +1,25 @@
+/*
+  # Photo regions on counts
+
+  - counts.photo_roi_paths maps each cropped region of the count photo (barcode, text_top, lot) to its storage path,
+    next to photo_path
+  - counts.extraction_hints keeps the capture hints the client sent: the crop rectangles and the barcode symbologies
+    and keywords to expect, which process-extractions uses when reading each region
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'counts' AND column_name = 'photo_roi_paths'
+  ) THEN
+    ALTER TABLE public.counts ADD COLUMN photo_roi_paths jsonb;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'counts' AND column_name = 'extraction_hints'
+  ) THEN
+    ALTER TABLE public.counts ADD COLUMN extraction_hints jsonb;
+  END IF;
+END$$;
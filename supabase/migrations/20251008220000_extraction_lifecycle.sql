@@ -0,0 +1,152 @@
+/*
+  # Extraction lifecycle
+
+  - counts.status now follows the extraction worker: pending -> processing -> extracted, or retry with backoff after a
+    failure, and dead_letter once the attempts run out. The old check only allowed pending/extracted/error, which
+    rejected the processed/failed values process-extractions wrote; error rows become retry
+  - extraction_attempts, extraction_next_attempt_at, extraction_last_error and extraction_claimed_at track each count
+  - claim_extractions hands the worker a batch of due counts; a claim older than ten minutes is taken to be from a
+    crashed run and can be claimed again
+  - Admins list stuck counts with list_extraction_queue and put them back in the queue with requeue_extractions
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'counts' AND column_name = 'extraction_attempts'
+  ) THEN
+    ALTER TABLE public.counts ADD COLUMN extraction_attempts integer NOT NULL DEFAULT 0;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'counts' AND column_name = 'extraction_next_attempt_at'
+  ) THEN
+    ALTER TABLE public.counts ADD COLUMN extraction_next_attempt_at timestamptz NOT NULL DEFAULT now();
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'counts' AND column_name = 'extraction_last_error'
+  ) THEN
+    ALTER TABLE public.counts ADD COLUMN extraction_last_error text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'counts' AND column_name = 'extraction_claimed_at'
+  ) THEN
+    ALTER TABLE public.counts ADD COLUMN extraction_claimed_at timestamptz;
+  END IF;
+END$$;
+
+ALTER TABLE public.counts DROP CONSTRAINT IF EXISTS counts_status_check;
+
+UPDATE public.counts SET status = 'retry' WHERE status = 'error';
+
+ALTER TABLE public.counts
+  ADD CONSTRAINT counts_status_check
+  CHECK (status IN ('pending', 'processing', 'extracted', 'retry', 'dead_letter'));
+
+DROP INDEX IF EXISTS public.idx_counts_status;
+CREATE INDEX IF NOT EXISTS idx_counts_extraction_due
+  ON public.counts(extraction_next_attempt_at)
+  WHERE status IN ('pending', 'retry', 'processing');
+
+CREATE OR REPLACE FUNCTION public.claim_extractions(p_limit integer)
+RETURNS SETOF public.counts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE counts c
+  SET status = 'processing',
+      extraction_claimed_at = now(),
+      extraction_attempts = c.extraction_attempts + 1
+  WHERE c.id IN (
+    SELECT id
+    FROM counts
+    WHERE (status IN ('pending', 'retry') AND extraction_next_attempt_at <= now())
+       OR (status = 'processing' AND extraction_claimed_at < now() - interval '10 minutes')
+    ORDER BY extraction_next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING c.*;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_extractions(integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_extractions(integer) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.list_extraction_queue(p_event_id uuid)
+RETURNS TABLE (
+  id uuid,
+  warehouse_code text,
+  stock_code text,
+  location_code text,
+  status text,
+  extraction_attempts integer,
+  extraction_next_attempt_at timestamptz,
+  extraction_last_error text,
+  created_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles WHERE user_profiles.id = auth.uid() AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can view the extraction queue';
+  END IF;
+
+  RETURN QUERY
+  SELECT c.id, c.warehouse_code, c.stock_code, c.location_code, c.status, c.extraction_attempts,
+         c.extraction_next_attempt_at, c.extraction_last_error, c.created_at
+  FROM counts c
+  WHERE c.event_id = p_event_id
+    AND c.status IN ('retry', 'dead_letter')
+  ORDER BY (c.status = 'dead_letter') DESC, c.extraction_next_attempt_at;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.list_extraction_queue(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.list_extraction_queue(uuid) TO authenticated, service_role;
+
+CREATE OR REPLACE FUNCTION public.requeue_extractions(p_count_ids uuid[])
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_requeued integer;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can re-queue extractions';
+  END IF;
+
+  UPDATE counts
+  SET status = 'pending',
+      extraction_attempts = 0,
+      extraction_next_attempt_at = now(),
+      extraction_last_error = NULL,
+      extraction_claimed_at = NULL
+  WHERE id = ANY(p_count_ids)
+    AND status IN ('retry', 'dead_letter', 'extracted');
+
+  GET DIAGNOSTICS v_requeued = ROW_COUNT;
+  RETURN v_requeued;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.requeue_extractions(uuid[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.requeue_extractions(uuid[]) TO authenticated, service_role;
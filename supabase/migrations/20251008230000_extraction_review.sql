@@ -0,0 +1,80 @@
+/*
+  # Extraction review
+
+  - Managers check what process-extractions read from each photo against the declared product and lot, then accept
+    the fields or correct them through review-extraction
+  - counts.extraction_review_status is unreviewed until then, and accepted or corrected afterwards;
+    extraction_reviewed_by, extraction_reviewed_by_name and extraction_reviewed_at record who reviewed it
+  - The values read before a correction are kept as a review entry in extraction_log
+  - requeue_extractions leaves reviewed counts alone, since a new OCR run would overwrite the reviewed fields
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'counts' AND column_name = 'extraction_review_status'
+  ) THEN
+    ALTER TABLE public.counts
+      ADD COLUMN extraction_review_status text NOT NULL DEFAULT 'unreviewed'
+      CHECK (extraction_review_status IN ('unreviewed', 'accepted', 'corrected'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'counts' AND column_name = 'extraction_reviewed_by'
+  ) THEN
+    ALTER TABLE public.counts ADD COLUMN extraction_reviewed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'counts' AND column_name = 'extraction_reviewed_by_name'
+  ) THEN
+    ALTER TABLE public.counts ADD COLUMN extraction_reviewed_by_name text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'counts' AND column_name = 'extraction_reviewed_at'
+  ) THEN
+    ALTER TABLE public.counts ADD COLUMN extraction_reviewed_at timestamptz;
+  END IF;
+END$$;
+
+CREATE INDEX IF NOT EXISTS idx_counts_extraction_review
+  ON public.counts(event_id, warehouse_code)
+  WHERE status = 'extracted' AND extraction_review_status = 'unreviewed';
+
+CREATE OR REPLACE FUNCTION public.requeue_extractions(p_count_ids uuid[])
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_requeued integer;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can re-queue extractions';
+  END IF;
+
+  UPDATE counts
+  SET status = 'pending',
+      extraction_attempts = 0,
+      extraction_next_attempt_at = now(),
+      extraction_last_error = NULL,
+      extraction_claimed_at = NULL
+  WHERE id = ANY(p_count_ids)
+    AND status IN ('retry', 'dead_letter', 'extracted')
+    AND extraction_review_status = 'unreviewed';
+
+  GET DIAGNOSTICS v_requeued = ROW_COUNT;
+  RETURN v_requeued;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.requeue_extractions(uuid[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.requeue_extractions(uuid[]) TO authenticated, service_role;
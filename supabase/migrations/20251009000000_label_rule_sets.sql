@@ -0,0 +1,199 @@
+/*
+  # Label rule sets
+
+  - label_rule_sets holds the rules process-extractions and extract-product-info parse label text with: lot and
+    filling-date formats, barcode symbologies, crop positions and brand keywords, per brand or product family
+  - Admins edit draft_rules and test them against stored OCR text; activate_label_rule_set copies the draft into
+    rules, which is what the parsers use
+  - list_ocr_samples returns the text of recent extractions for testing a draft
+  - Seeded with the rules that used to be hard-coded: a catch-all set, and a Namaqua set for the RAINDANCE and NAMAQUA
+    labels the capture screen looked for
+*/
+
+CREATE TABLE IF NOT EXISTS public.label_rule_sets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE,
+  description text,
+  draft_rules jsonb NOT NULL,
+  rules jsonb,
+  is_active boolean NOT NULL DEFAULT false,
+  -- Lower priorities are tried first when more than one set matches a label
+  priority integer NOT NULL DEFAULT 100,
+  activated_at timestamptz,
+  activated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (NOT is_active OR rules IS NOT NULL)
+);
+
+DROP TRIGGER IF EXISTS label_rule_sets_updated_at ON public.label_rule_sets;
+CREATE TRIGGER label_rule_sets_updated_at
+  BEFORE UPDATE ON public.label_rule_sets
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE public.label_rule_sets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Label rule sets select active or admin" ON public.label_rule_sets;
+
+-- The capture screen crops photos with the active sets, so every user can read those
+CREATE POLICY "Label rule sets select active or admin"
+  ON public.label_rule_sets FOR SELECT
+  TO authenticated
+  USING (
+    is_active
+    OR EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_profiles.id = auth.uid()
+        AND user_profiles.role = 'admin'
+    )
+  );
+
+DROP POLICY IF EXISTS "Label rule sets managed by admins" ON public.label_rule_sets;
+
+CREATE POLICY "Label rule sets managed by admins"
+  ON public.label_rule_sets FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_profiles.id = auth.uid()
+        AND user_profiles.role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_profiles.id = auth.uid()
+        AND user_profiles.role = 'admin'
+    )
+  );
+
+INSERT INTO public.label_rule_sets (name, description, draft_rules, rules, is_active, priority, activated_at)
+SELECT seed.name, seed.description, seed.rules, seed.rules, true, seed.priority, now()
+FROM (
+  VALUES
+    (
+      'Default',
+      'Applies to every label no other rule set claims',
+      '{
+        "stockCodePrefixes": [],
+        "brandKeywords": [],
+        "regions": {
+          "barcode": {"xPct": 0.1, "yPct": 0.55, "wPct": 0.8, "hPct": 0.25},
+          "text_top": {"xPct": 0.08, "yPct": 0.1, "wPct": 0.84, "hPct": 0.28},
+          "lot": {"xPct": 0.08, "yPct": 0.85, "wPct": 0.84, "hPct": 0.12}
+        },
+        "barcodeSymbologies": ["GS1-128", "ITF-14", "EAN-13"],
+        "lotPatterns": ["\\b(?:lot|batch)\\s*(?:no\\.?)?\\s*[:#.]?\\s*([a-z0-9][a-z0-9-]*)"],
+        "dateKeywords": ["FILLING DATE"],
+        "dateFormats": ["YMD", "DMY"],
+        "packSizePattern": "\\b(\\d+\\s*x\\s*\\d+(?:\\.\\d+)?\\s*(?:ml|cl|l|g|kg)|\\d+(?:\\.\\d+)?\\s*(?:ml|cl|l|kg|g|oz|lb|pack|ct|pcs))\\b"
+      }'::jsonb,
+      1000
+    ),
+    (
+      'Namaqua',
+      'Namaqua and Raindance wine cases',
+      '{
+        "stockCodePrefixes": [],
+        "brandKeywords": ["NAMAQUA", "RAINDANCE"],
+        "regions": {
+          "barcode": {"xPct": 0.1, "yPct": 0.55, "wPct": 0.8, "hPct": 0.25},
+          "text_top": {"xPct": 0.08, "yPct": 0.1, "wPct": 0.84, "hPct": 0.28},
+          "lot": {"xPct": 0.08, "yPct": 0.85, "wPct": 0.84, "hPct": 0.12}
+        },
+        "barcodeSymbologies": ["ITF-14", "GS1-128", "EAN-13"],
+        "lotPatterns": ["\\b(?:lot|batch)\\s*(?:no\\.?)?\\s*[:#.]?\\s*([a-z0-9][a-z0-9-]*)"],
+        "dateKeywords": ["FILLING DATE"],
+        "dateFormats": ["DMY", "YMD"],
+        "packSizePattern": "\\b(\\d+\\s*x\\s*\\d+(?:\\.\\d+)?\\s*(?:ml|cl|l)|\\d+(?:\\.\\d+)?\\s*(?:ml|cl|l))\\b"
+      }'::jsonb,
+      100
+    )
+) AS seed(name, description, rules, priority)
+ON CONFLICT (name) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.activate_label_rule_set(p_id uuid)
+RETURNS public.label_rule_sets
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rule_set label_rule_sets;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can activate label rule sets';
+  END IF;
+
+  UPDATE label_rule_sets
+  SET rules = draft_rules,
+      is_active = true,
+      activated_at = now(),
+      activated_by = auth.uid()
+  WHERE id = p_id
+  RETURNING * INTO v_rule_set;
+
+  IF v_rule_set.id IS NULL THEN
+    RAISE EXCEPTION 'Label rule set not found';
+  END IF;
+
+  RETURN v_rule_set;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.activate_label_rule_set(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.activate_label_rule_set(uuid) TO authenticated, service_role;
+
+CREATE OR REPLACE FUNCTION public.list_ocr_samples(p_stock_code text, p_limit integer)
+RETURNS TABLE (
+  id uuid,
+  warehouse_code text,
+  stock_code text,
+  created_at timestamptz,
+  full_text text,
+  regions jsonb,
+  extracted_barcode text,
+  extracted_lot_number text,
+  extracted_filling_date date,
+  extracted_product_name text,
+  extracted_pack_size text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles WHERE user_profiles.id = auth.uid() AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can view OCR samples';
+  END IF;
+
+  RETURN QUERY
+  SELECT c.id, c.warehouse_code, c.stock_code, c.created_at,
+         entry.value->>'fullText', COALESCE(entry.value->'regions', '{}'::jsonb),
+         c.extracted_barcode, c.extracted_lot_number, c.extracted_filling_date, c.extracted_product_name,
+         c.extracted_pack_size
+  FROM counts c
+  -- The latest OCR run; review entries appended after it carry no text
+  CROSS JOIN LATERAL (
+    SELECT log.value
+    FROM jsonb_array_elements(
+      CASE WHEN jsonb_typeof(c.extraction_log) = 'array' THEN c.extraction_log ELSE '[]'::jsonb END
+    ) WITH ORDINALITY AS log(value, position)
+    WHERE log.value ? 'fullText'
+    ORDER BY log.position DESC
+    LIMIT 1
+  ) entry
+  WHERE p_stock_code IS NULL OR c.stock_code ILIKE p_stock_code || '%'
+  ORDER BY c.created_at DESC
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 25), 1), 200);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.list_ocr_samples(text, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.list_ocr_samples(text, integer) TO authenticated, service_role;
@@ -0,0 +1,228 @@
+/*
+  # Photo retention and evidence archive
+
+  - stocktake_events.photo_retention_policy decides when process-extractions may take a count photo out of
+    count_images: 'age' (default) once it is photo_retention_hours old, 'event_archived' once the event is archived
+  - stocktake_events.photo_retain_open_recounts keeps the photos of counts that still have an open recount task for
+    the same product, whatever the policy
+  - stocktake_events.photo_retain_until_reviewed (off by default) also keeps them until a manager has reviewed the
+    extraction
+  - list_purgeable_photos applies the policy to counts that are extracted and resolved, so OCR retries and the
+    mapping of unresolved counts can still read the photo
+  - Purged photos are copied to the count-evidence bucket with a manifest first; counts.photo_archive_path points at
+    the manifest and photo_purges records what was removed
+  - A purge that fails, for example because a file is already gone, is recorded in photo_purge_attempts and
+    photo_purge_error and retried with backoff from photo_purge_next_attempt_at, so it does not hold up the queue
+  - The functions have always stored photos in count_images, but the first migration created count-images; the
+    bucket the code uses is created here
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'stocktake_events' AND column_name = 'photo_retention_policy'
+  ) THEN
+    ALTER TABLE public.stocktake_events
+      ADD COLUMN photo_retention_policy text NOT NULL DEFAULT 'age'
+      CHECK (photo_retention_policy IN ('age', 'event_archived'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'stocktake_events' AND column_name = 'photo_retention_hours'
+  ) THEN
+    ALTER TABLE public.stocktake_events
+      ADD COLUMN photo_retention_hours integer NOT NULL DEFAULT 24
+      CHECK (photo_retention_hours > 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'stocktake_events' AND column_name = 'photo_retain_open_recounts'
+  ) THEN
+    ALTER TABLE public.stocktake_events
+      ADD COLUMN photo_retain_open_recounts boolean NOT NULL DEFAULT true;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'stocktake_events' AND column_name = 'photo_retain_until_reviewed'
+  ) THEN
+    ALTER TABLE public.stocktake_events
+      ADD COLUMN photo_retain_until_reviewed boolean NOT NULL DEFAULT false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'counts' AND column_name = 'photo_archive_path'
+  ) THEN
+    ALTER TABLE public.counts ADD COLUMN photo_archive_path text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'counts' AND column_name = 'photo_purge_attempts'
+  ) THEN
+    ALTER TABLE public.counts ADD COLUMN photo_purge_attempts integer NOT NULL DEFAULT 0;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'counts' AND column_name = 'photo_purge_next_attempt_at'
+  ) THEN
+    ALTER TABLE public.counts ADD COLUMN photo_purge_next_attempt_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'counts' AND column_name = 'photo_purge_error'
+  ) THEN
+    ALTER TABLE public.counts ADD COLUMN photo_purge_error text;
+  END IF;
+END$$;
+
+CREATE TABLE IF NOT EXISTS public.photo_purges (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  count_id uuid REFERENCES public.counts(id) ON DELETE SET NULL,
+  event_id uuid NOT NULL REFERENCES public.stocktake_events(id) ON DELETE CASCADE,
+  warehouse_code text NOT NULL,
+  stock_code text,
+  retention_policy text NOT NULL,
+  removed_paths text[] NOT NULL,
+  archive_bucket text NOT NULL,
+  archived_paths text[] NOT NULL,
+  manifest_path text NOT NULL,
+  purged_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_photo_purges_event
+  ON public.photo_purges(event_id, warehouse_code, purged_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_photo_purges_count
+  ON public.photo_purges(count_id);
+
+ALTER TABLE public.photo_purges ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Photo purges select for managers" ON public.photo_purges;
+
+CREATE POLICY "Photo purges select for managers"
+  ON public.photo_purges FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_profiles.id = auth.uid()
+        AND user_profiles.role = 'admin'
+    )
+    OR EXISTS (
+      SELECT 1
+      FROM public.user_profiles up
+      JOIN public.user_warehouse_assignments uwa ON uwa.user_id = up.id
+      WHERE up.id = auth.uid()
+        AND up.role = 'manager'
+        AND uwa.warehouse_code = photo_purges.warehouse_code
+    )
+  );
+
+DO $$
+BEGIN
+  INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+  VALUES ('count_images', 'count_images', false, 5242880, ARRAY['image/jpeg', 'image/png', 'image/webp'])
+  ON CONFLICT (id) DO NOTHING;
+
+  INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+  VALUES (
+    'count-evidence',
+    'count-evidence',
+    false,
+    5242880,
+    ARRAY['image/jpeg', 'image/png', 'image/webp', 'application/json']
+  )
+  ON CONFLICT (id) DO UPDATE
+  SET public = false,
+      file_size_limit = EXCLUDED.file_size_limit,
+      allowed_mime_types = EXCLUDED.allowed_mime_types;
+END$$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'storage' AND tablename = 'objects' AND policyname = 'Service role manage count_images'
+  ) THEN
+    CREATE POLICY "Service role manage count_images"
+      ON storage.objects FOR ALL
+      TO service_role
+      USING (bucket_id = 'count_images')
+      WITH CHECK (bucket_id = 'count_images');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'storage' AND tablename = 'objects' AND policyname = 'Service role manage count evidence'
+  ) THEN
+    CREATE POLICY "Service role manage count evidence"
+      ON storage.objects FOR ALL
+      TO service_role
+      USING (bucket_id = 'count-evidence')
+      WITH CHECK (bucket_id = 'count-evidence');
+  END IF;
+END$$;
+
+CREATE OR REPLACE FUNCTION public.list_purgeable_photos(p_limit integer)
+RETURNS TABLE (
+  id uuid,
+  event_id uuid,
+  warehouse_code text,
+  stock_code text,
+  lot_number text,
+  location_code text,
+  counted_by uuid,
+  created_at timestamptz,
+  photo_path text,
+  photo_roi_paths jsonb,
+  retention_policy text,
+  purge_attempts integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT c.id, c.event_id, c.warehouse_code, c.stock_code, c.lot_number, c.location_code, c.counted_by,
+         c.created_at, c.photo_path, c.photo_roi_paths, e.photo_retention_policy, c.photo_purge_attempts
+  FROM counts c
+  JOIN stocktake_events e ON e.id = c.event_id
+  WHERE c.photo_path IS NOT NULL
+    AND (c.photo_purge_next_attempt_at IS NULL OR c.photo_purge_next_attempt_at <= now())
+    -- Photos stay until extraction succeeds and the count is mapped to a product
+    AND c.status = 'extracted'
+    AND c.resolution_status = 'resolved'
+    AND NOT (e.photo_retain_until_reviewed AND c.extraction_review_status = 'unreviewed')
+    AND CASE e.photo_retention_policy
+      WHEN 'event_archived' THEN e.status = 'archived'
+      ELSE c.created_at < now() - make_interval(hours => e.photo_retention_hours)
+    END
+    AND NOT (
+      e.photo_retain_open_recounts
+      AND EXISTS (
+        SELECT 1
+        FROM recount_tasks rt
+        WHERE rt.event_id = c.event_id
+          AND rt.warehouse_code = c.warehouse_code
+          AND rt.stock_code = c.stock_code
+          AND rt.status = 'open'
+          -- A recount without a lot covers every lot of the product
+          AND (rt.lot_number IS NULL OR rt.lot_number IS NOT DISTINCT FROM c.lot_number)
+      )
+    )
+  ORDER BY c.created_at
+  LIMIT p_limit;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.list_purgeable_photos(integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.list_purgeable_photos(integer) TO service_role;
@@ -0,0 +1,59 @@
+/*
+  # Photo quality scores
+
+  - counts.photo_quality holds the sharpness, brightness and glare scores PhotoCapture took on the device, with its
+    verdict (good, fair or poor) and the issues it found
+  - list_extraction_queue returns the scores, so admins can tell failed extractions caused by a bad photo from OCR
+    outages
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'counts' AND column_name = 'photo_quality'
+  ) THEN
+    ALTER TABLE public.counts ADD COLUMN photo_quality jsonb;
+  END IF;
+END$$;
+
+-- The result columns change, which CREATE OR REPLACE cannot do
+DROP FUNCTION IF EXISTS public.list_extraction_queue(uuid);
+
+CREATE FUNCTION public.list_extraction_queue(p_event_id uuid)
+RETURNS TABLE (
+  id uuid,
+  warehouse_code text,
+  stock_code text,
+  location_code text,
+  status text,
+  extraction_attempts integer,
+  extraction_next_attempt_at timestamptz,
+  extraction_last_error text,
+  photo_quality jsonb,
+  created_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles WHERE user_profiles.id = auth.uid() AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can view the extraction queue';
+  END IF;
+
+  RETURN QUERY
+  SELECT c.id, c.warehouse_code, c.stock_code, c.location_code, c.status, c.extraction_attempts,
+         c.extraction_next_attempt_at, c.extraction_last_error, c.photo_quality, c.created_at
+  FROM counts c
+  WHERE c.event_id = p_event_id
+    AND c.status IN ('retry', 'dead_letter')
+  ORDER BY (c.status = 'dead_letter') DESC, c.extraction_next_attempt_at;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.list_extraction_queue(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.list_extraction_queue(uuid) TO authenticated, service_role;
@@ -0,0 +1,172 @@
+/*
+  # Duplicate photo detection
+
+  - counts.photo_hash is the 64-bit perceptual hash (pHash, 16 hex digits) PhotoCapture computes for the photo
+  - A trigger compares it with the other live counts of the same event and warehouse. The closest within
+    four bits is recorded in duplicate_photo_of and duplicate_photo_distance; the count is still saved
+  - duplicate_photos keeps one row per flagged count with both counters' names for the manager report, since
+    managers cannot read other users' profiles
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'counts' AND column_name = 'photo_hash'
+  ) THEN
+    ALTER TABLE public.counts
+      ADD COLUMN photo_hash text CHECK (photo_hash ~ '^[0-9a-f]{16}$');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'counts' AND column_name = 'duplicate_photo_of'
+  ) THEN
+    ALTER TABLE public.counts
+      ADD COLUMN duplicate_photo_of uuid REFERENCES public.counts(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'counts' AND column_name = 'duplicate_photo_distance'
+  ) THEN
+    ALTER TABLE public.counts ADD COLUMN duplicate_photo_distance smallint;
+  END IF;
+END$$;
+
+CREATE INDEX IF NOT EXISTS idx_counts_photo_hash
+  ON public.counts(event_id, warehouse_code)
+  WHERE photo_hash IS NOT NULL AND voided_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS public.duplicate_photos (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES public.stocktake_events(id) ON DELETE CASCADE,
+  warehouse_code text NOT NULL,
+  count_id uuid NOT NULL UNIQUE REFERENCES public.counts(id) ON DELETE CASCADE,
+  stock_code text,
+  location_code text,
+  counted_by_name text,
+  matched_count_id uuid REFERENCES public.counts(id) ON DELETE SET NULL,
+  matched_stock_code text,
+  matched_location_code text,
+  matched_counted_by_name text,
+  matched_counted_at timestamptz,
+  distance smallint NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_duplicate_photos_event
+  ON public.duplicate_photos(event_id, warehouse_code, created_at DESC);
+
+ALTER TABLE public.duplicate_photos ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Duplicate photos select for managers" ON public.duplicate_photos;
+
+CREATE POLICY "Duplicate photos select for managers"
+  ON public.duplicate_photos FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_profiles.id = auth.uid()
+        AND user_profiles.role = 'admin'
+    )
+    OR EXISTS (
+      SELECT 1
+      FROM public.user_profiles up
+      JOIN public.user_warehouse_assignments uwa ON uwa.user_id = up.id
+      WHERE up.id = auth.uid()
+        AND up.role = 'manager'
+        AND uwa.warehouse_code = duplicate_photos.warehouse_code
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.flag_duplicate_photo()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- Re-encoding and small crops move a reused photo by a bit or two; a fresh photo of the same label is further off
+  v_max_distance CONSTANT integer := 4;
+  v_match record;
+BEGIN
+  IF NEW.photo_hash IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT c.id, bit_count(('x' || c.photo_hash)::bit(64) # ('x' || NEW.photo_hash)::bit(64)) AS distance
+  INTO v_match
+  FROM counts c
+  WHERE c.event_id = NEW.event_id
+    AND c.warehouse_code = NEW.warehouse_code
+    AND c.photo_hash IS NOT NULL
+    AND c.voided_at IS NULL
+    AND c.id <> NEW.id
+  ORDER BY distance, c.created_at
+  LIMIT 1;
+
+  IF v_match.id IS NOT NULL AND v_match.distance <= v_max_distance THEN
+    NEW.duplicate_photo_of := v_match.id;
+    NEW.duplicate_photo_distance := v_match.distance;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS counts_flag_duplicate_photo ON public.counts;
+CREATE TRIGGER counts_flag_duplicate_photo
+  BEFORE INSERT ON public.counts
+  FOR EACH ROW EXECUTE FUNCTION public.flag_duplicate_photo();
+
+CREATE OR REPLACE FUNCTION public.log_duplicate_photo()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.duplicate_photo_of IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO duplicate_photos (
+    event_id,
+    warehouse_code,
+    count_id,
+    stock_code,
+    location_code,
+    counted_by_name,
+    matched_count_id,
+    matched_stock_code,
+    matched_location_code,
+    matched_counted_by_name,
+    matched_counted_at,
+    distance
+  )
+  SELECT
+    NEW.event_id,
+    NEW.warehouse_code,
+    NEW.id,
+    NEW.stock_code,
+    NEW.location_code,
+    (SELECT full_name FROM user_profiles WHERE id = NEW.counted_by),
+    m.id,
+    m.stock_code,
+    m.location_code,
+    (SELECT full_name FROM user_profiles WHERE id = m.counted_by),
+    m.created_at,
+    NEW.duplicate_photo_distance
+  FROM counts m
+  WHERE m.id = NEW.duplicate_photo_of;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS counts_log_duplicate_photo ON public.counts;
+CREATE TRIGGER counts_log_duplicate_photo
+  AFTER INSERT ON public.counts
+  FOR EACH ROW EXECUTE FUNCTION public.log_duplicate_photo();